@@ -0,0 +1,12 @@
+CREATE TABLE "auth_attempts" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"scope" varchar(50) NOT NULL,
+	"identifier" varchar(255) NOT NULL,
+	"failed_count" integer DEFAULT 0 NOT NULL,
+	"last_failed_at" timestamp DEFAULT now() NOT NULL,
+	"locked_until" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "otp_codes" ADD COLUMN "failed_attempts" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+CREATE UNIQUE INDEX "auth_attempts_scope_identifier_idx" ON "auth_attempts" USING btree ("scope","identifier");
\ No newline at end of file
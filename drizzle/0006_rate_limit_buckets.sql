@@ -0,0 +1,5 @@
+CREATE TABLE "rate_limit_buckets" (
+	"key" varchar(255) PRIMARY KEY NOT NULL,
+	"count" integer DEFAULT 0 NOT NULL,
+	"reset_at" timestamp NOT NULL
+);
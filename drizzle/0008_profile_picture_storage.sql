@@ -0,0 +1,2 @@
+ALTER TABLE "users" ADD COLUMN "profile_picture_thumbnail_url" varchar(500);--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "profile_picture_key" varchar(500);
\ No newline at end of file
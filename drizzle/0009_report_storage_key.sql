@@ -0,0 +1,6 @@
+ALTER TABLE "reports" RENAME COLUMN "s3_url" TO "storage_key";--> statement-breakpoint
+-- The column held full S3 URLs; keep only the object key. Path-style URLs also name the bucket in the path
+UPDATE "reports" SET "storage_key" = regexp_replace("storage_key", '^https?://s3[.-][^/]*/[^/]+/', '')
+WHERE "storage_key" ~ '^https?://s3[.-]';--> statement-breakpoint
+UPDATE "reports" SET "storage_key" = regexp_replace("storage_key", '^https?://[^/]+/', '')
+WHERE "storage_key" ~ '^https?://';
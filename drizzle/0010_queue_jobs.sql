@@ -0,0 +1,14 @@
+CREATE TABLE "queue_jobs" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"queue" varchar(100) NOT NULL,
+	"payload" jsonb NOT NULL,
+	"status" varchar(20) DEFAULT 'pending' NOT NULL,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"run_at" timestamp DEFAULT now() NOT NULL,
+	"locked_until" timestamp,
+	"last_error" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "queue_jobs_queue_status_run_at_idx" ON "queue_jobs" USING btree ("queue","status","run_at");
\ No newline at end of file
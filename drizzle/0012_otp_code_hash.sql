@@ -0,0 +1,5 @@
+-- Outstanding codes were stored in plain text and expire within 10 minutes; drop them so users request a new one
+DELETE FROM "otp_codes";--> statement-breakpoint
+ALTER TABLE "otp_codes" RENAME COLUMN "code" TO "code_hash";--> statement-breakpoint
+ALTER TABLE "otp_codes" ALTER COLUMN "code_hash" SET DATA TYPE varchar(64);--> statement-breakpoint
+CREATE UNIQUE INDEX "otp_codes_user_id_type_idx" ON "otp_codes" USING btree ("user_id","type");
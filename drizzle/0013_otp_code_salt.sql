@@ -0,0 +1,4 @@
+-- Codes issued before this migration keep a NULL salt and are verified against
+-- the unsalted hash; they expire within minutes, so drop the ones already stale.
+DELETE FROM "otp_codes" WHERE "expires_at" < now();--> statement-breakpoint
+ALTER TABLE "otp_codes" ADD COLUMN "salt" varchar(32);
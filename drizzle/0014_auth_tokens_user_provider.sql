@@ -0,0 +1,32 @@
+-- Every OAuth callback used to insert another row; keep only the newest per user and provider.
+-- Providers often issue a refresh token only on the first consent, so the newest row keeps
+-- the latest refresh token any of its older rows had
+UPDATE "auth_tokens" AS "newest"
+SET "refresh_token" = (
+  SELECT "latest"."refresh_token"
+  FROM "auth_tokens" AS "latest"
+  WHERE "latest"."user_id" = "newest"."user_id"
+    AND "latest"."provider" = "newest"."provider"
+    AND "latest"."refresh_token" <> ''
+  ORDER BY "latest"."created_at" DESC, "latest"."id" DESC
+  LIMIT 1
+)
+WHERE "newest"."refresh_token" = ''
+  AND NOT EXISTS (
+    SELECT 1 FROM "auth_tokens" AS "newer"
+    WHERE "newer"."user_id" = "newest"."user_id"
+      AND "newer"."provider" = "newest"."provider"
+      AND ("newer"."created_at", "newer"."id") > ("newest"."created_at", "newest"."id")
+  )
+  AND EXISTS (
+    SELECT 1 FROM "auth_tokens" AS "older"
+    WHERE "older"."user_id" = "newest"."user_id"
+      AND "older"."provider" = "newest"."provider"
+      AND "older"."refresh_token" <> ''
+  );--> statement-breakpoint
+DELETE FROM "auth_tokens" AS "older"
+USING "auth_tokens" AS "newer"
+WHERE "older"."user_id" = "newer"."user_id"
+  AND "older"."provider" = "newer"."provider"
+  AND ("older"."created_at", "older"."id") < ("newer"."created_at", "newer"."id");--> statement-breakpoint
+CREATE UNIQUE INDEX "auth_tokens_user_id_provider_idx" ON "auth_tokens" USING btree ("user_id","provider");
\ No newline at end of file
@@ -0,0 +1,20 @@
+CREATE TABLE "calendar_syncs" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"provider" varchar(50) NOT NULL,
+	"calendar_id" varchar(255) DEFAULT 'primary' NOT NULL,
+	"sync_token" text,
+	"channel_id" uuid,
+	"channel_resource_id" varchar(255),
+	"channel_token" varchar(64),
+	"channel_expires_at" timestamp,
+	"last_synced_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "tasks" ADD COLUMN "calendar_event_updated_at" timestamp;--> statement-breakpoint
+ALTER TABLE "calendar_syncs" ADD CONSTRAINT "calendar_syncs_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "calendar_syncs_user_id_provider_idx" ON "calendar_syncs" USING btree ("user_id","provider");--> statement-breakpoint
+CREATE UNIQUE INDEX "calendar_syncs_channel_id_idx" ON "calendar_syncs" USING btree ("channel_id");--> statement-breakpoint
+CREATE INDEX "calendar_syncs_channel_expires_at_idx" ON "calendar_syncs" USING btree ("channel_expires_at");
\ No newline at end of file
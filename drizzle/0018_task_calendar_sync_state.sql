@@ -0,0 +1,7 @@
+ALTER TABLE "tasks" ADD COLUMN "calendar_sync_state" varchar(20);--> statement-breakpoint
+ALTER TABLE "tasks" ADD COLUMN "calendar_sync_attempts" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "tasks" ADD COLUMN "calendar_sync_attempted_at" timestamp;--> statement-breakpoint
+ALTER TABLE "tasks" ADD COLUMN "calendar_sync_error" text;--> statement-breakpoint
+ALTER TABLE "tasks" ADD COLUMN "calendar_sync_retry_at" timestamp;--> statement-breakpoint
+CREATE INDEX "tasks_calendar_sync_retry_idx" ON "tasks" USING btree ("calendar_sync_state","calendar_sync_retry_at");--> statement-breakpoint
+UPDATE "tasks" SET "calendar_sync_state" = 'synced' WHERE "calendar_event_id" IS NOT NULL;
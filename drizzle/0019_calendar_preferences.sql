@@ -0,0 +1,18 @@
+CREATE TABLE "calendar_preferences" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"provider" varchar(50) NOT NULL,
+	"calendar_id" varchar(255) DEFAULT 'primary' NOT NULL,
+	"color_id" varchar(10),
+	"reminders" jsonb,
+	"visibility" varchar(20) DEFAULT 'default' NOT NULL,
+	"include_task_link" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "tasks" ADD COLUMN "calendar_id" varchar(255);--> statement-breakpoint
+ALTER TABLE "tasks" ADD COLUMN "calendar_event_calendar_id" varchar(255);--> statement-breakpoint
+ALTER TABLE "calendar_preferences" ADD CONSTRAINT "calendar_preferences_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "calendar_preferences_user_id_provider_idx" ON "calendar_preferences" USING btree ("user_id","provider");--> statement-breakpoint
+UPDATE "tasks" SET "calendar_event_calendar_id" = 'primary' WHERE "calendar_event_id" IS NOT NULL;
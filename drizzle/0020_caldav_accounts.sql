@@ -0,0 +1,19 @@
+CREATE TABLE "caldav_accounts" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"server_url" varchar(500) NOT NULL,
+	"username" varchar(255) NOT NULL,
+	"password" text NOT NULL,
+	"calendar_url" varchar(500) NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "tasks" ALTER COLUMN "calendar_id" SET DATA TYPE varchar(500);--> statement-breakpoint
+ALTER TABLE "tasks" ALTER COLUMN "calendar_event_calendar_id" SET DATA TYPE varchar(500);--> statement-breakpoint
+ALTER TABLE "calendar_preferences" ALTER COLUMN "calendar_id" SET DATA TYPE varchar(500);--> statement-breakpoint
+ALTER TABLE "calendar_preferences" ALTER COLUMN "calendar_id" SET DEFAULT 'primary';--> statement-breakpoint
+ALTER TABLE "tasks" ADD COLUMN "calendar_event_provider" varchar(50);--> statement-breakpoint
+ALTER TABLE "caldav_accounts" ADD CONSTRAINT "caldav_accounts_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "caldav_accounts_user_id_idx" ON "caldav_accounts" USING btree ("user_id");--> statement-breakpoint
+UPDATE "tasks" SET "calendar_event_provider" = 'google' WHERE "calendar_event_id" IS NOT NULL;
\ No newline at end of file
@@ -0,0 +1,28 @@
+CREATE TABLE "calendar_jobs" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"type" varchar(20) NOT NULL,
+	"status" varchar(20) DEFAULT 'pending' NOT NULL,
+	"provider" varchar(50),
+	"calendar_id" varchar(500),
+	"range_start" timestamp,
+	"range_end" timestamp,
+	"total" integer,
+	"processed" integer DEFAULT 0 NOT NULL,
+	"created" integer DEFAULT 0 NOT NULL,
+	"skipped" integer DEFAULT 0 NOT NULL,
+	"failed" integer DEFAULT 0 NOT NULL,
+	"cursor" varchar(255),
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"error" text,
+	"locked_until" timestamp,
+	"started_at" timestamp,
+	"finished_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "calendar_jobs" ADD CONSTRAINT "calendar_jobs_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "calendar_jobs_unfinished_idx" ON "calendar_jobs" USING btree ("user_id","type") WHERE "calendar_jobs"."status" in ('pending', 'running');--> statement-breakpoint
+CREATE INDEX "calendar_jobs_user_id_idx" ON "calendar_jobs" USING btree ("user_id","created_at");--> statement-breakpoint
+CREATE INDEX "calendar_jobs_status_idx" ON "calendar_jobs" USING btree ("status","locked_until");
\ No newline at end of file
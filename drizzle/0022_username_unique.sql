@@ -0,0 +1,9 @@
+-- Usernames were never unique; every duplicate but the oldest account gets a suffix from its id
+UPDATE "users" AS "later"
+SET "username" = left("later"."username", 246) || '-' || left("later"."id"::text, 8)
+WHERE EXISTS (
+  SELECT 1 FROM "users" AS "earlier"
+  WHERE lower("earlier"."username") = lower("later"."username")
+    AND ("earlier"."created_at", "earlier"."id") < ("later"."created_at", "later"."id")
+);--> statement-breakpoint
+CREATE UNIQUE INDEX "users_username_lower_idx" ON "users" USING btree (lower("username"));
@@ -0,0 +1 @@
+ALTER TABLE "calendar_jobs" ALTER COLUMN "cursor" SET DATA TYPE text;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "users" ALTER COLUMN "mfa_secret" SET DATA TYPE text;
\ No newline at end of file
@@ -0,0 +1 @@
+CREATE INDEX "rate_limit_buckets_reset_at_idx" ON "rate_limit_buckets" USING btree ("reset_at");
\ No newline at end of file
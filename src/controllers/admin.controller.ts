@@ -0,0 +1,835 @@
+/**
+ * Admin Controller
+ *
+ * Endpoints that act on other users' resources. Access is enforced once per
+ * route with `requirePermission`, so handlers here never filter by the
+ * caller's user id. Every state-changing action is written to the audit log.
+ *
+ * Patterns Used:
+ *  - Controller Pattern: Encapsulates admin logic in a dedicated controller.
+ *  - Middleware Pattern: Uses asyncHandler for cleaner async route handling.
+ *  - Authorization Pattern: Role permissions checked by requirePermission.
+ *
+ * @module controllers/admin.controller
+ * @requires drizzle-orm
+ * @requires @/db
+ * @requires @/db/schemas
+ * @requires @/middlewares/requirePermission
+ * @exports getAllTasksWithValidation - Lists tasks across all users
+ * @exports getAnyTaskByIdWithValidation - Retrieves any task by ID
+ * @exports updateAnyTaskWithValidation - Updates any task
+ * @exports deleteAnyTaskWithValidation - Deletes any task
+ * @exports listUsersWithValidation - Lists users with search and filters
+ * @exports getUserDetailsWithValidation - Retrieves a user with task/report/session counts
+ * @exports suspendUserWithValidation - Suspends a user and revokes their sessions
+ * @exports unsuspendUserWithValidation - Lifts a suspension
+ * @exports verifyUserWithValidation - Marks a user's email as verified
+ * @exports changeUserRoleWithValidation - Changes a user's role
+ * @exports forceLogoutUserWithValidation - Revokes every session of a user
+ * @exports listAuditLogsWithValidation - Lists audit log entries
+ * @exports listOutboxEventsWithValidation - Lists undispatched outbox events with a status summary
+ * @exports retryOutboxEventWithValidation - Re-queues a failed outbox event
+ */
+
+import { and, asc, count, desc, eq, gt, ilike, isNotNull, isNull, like, lte, or, sql } from 'drizzle-orm';
+import { db } from '@/db';
+import { auditLogs, otpCodes, outboxEvents, reports, sessions, tasks, users } from '@/db/schemas';
+import { asyncHandler, Response, validate } from '@/utils/asyncHandler';
+import ErrorHandler from '@/utils/errorHandler';
+import {
+  AdminTaskQuerySchema,
+  AdminUserQuerySchema,
+  AuditLogQuerySchema,
+  ChangeRoleSchema,
+  OutboxEventParamsSchema,
+  OutboxQuerySchema,
+  SuspendUserSchema,
+  TaskParamsSchema,
+  UpdateTaskSchema,
+  UserParamsSchema,
+} from '@/utils/validations';
+import { recordAuditLog } from '@/utils/auditLog';
+import { revokeAllUserSessions } from '@/utils/jwt_session';
+import { containsPattern } from '@/utils/helpers';
+import { buildTaskUpdates, scheduleCalendarEventDeletion, scheduleCalendarSync } from '@/controllers/task.controller';
+import { authMiddleware } from '@/middlewares/auth.middleware';
+import { requirePermission } from '@/middlewares/requirePermission';
+import type { AuthenticatedRequest } from '@/types/auth-request';
+import logger from '@/core/logger';
+import { OUTBOX_STUCK_AFTER_MS } from '@/core/outbox';
+
+/**
+ * Get All Tasks Handler (admin)
+ * - Lists tasks of every user, optionally filtered by owner
+ * - Supports the same filters, sorting and pagination as GET /api/tasks
+ *
+ * @route GET /api/admin/tasks
+ * @access Admin (tasks:read:any)
+ */
+export const getAllTasksHandler = asyncHandler(async (req: AuthenticatedRequest) => {
+  const {
+    page = 1,
+    limit = 10,
+    status,
+    search,
+    sortBy = 'createdAt',
+    sortOrder = 'desc',
+    userId,
+    syncState,
+  } = req.query;
+
+  const whereConditions = [];
+
+  if (userId) {
+    whereConditions.push(eq(tasks.userId, userId as string));
+  }
+
+  if (status) {
+    whereConditions.push(eq(tasks.status, status as string));
+  }
+
+  if (search) {
+    whereConditions.push(like(tasks.title, containsPattern(search as string)));
+  }
+
+  if (syncState) {
+    whereConditions.push(eq(tasks.calendarSyncState, syncState as string));
+  }
+
+  const offset = (Number(page) - 1) * Number(limit);
+
+  const [totalResult] = await db
+    .select({ count: count() })
+    .from(tasks)
+    .where(and(...whereConditions));
+
+  const sortColumn = sortBy === 'title' ? tasks.title : tasks.createdAt;
+  const sortDirection = sortOrder === 'asc' ? asc(sortColumn) : desc(sortColumn);
+
+  const allTasks = await db
+    .select()
+    .from(tasks)
+    .where(and(...whereConditions))
+    .orderBy(sortDirection)
+    .limit(Number(limit))
+    .offset(offset);
+
+  logger.info('Admin listed tasks', {
+    adminId: req.user.id,
+    count: allTasks.length,
+    total: totalResult.count,
+    filters: { userId, status, search, syncState },
+  });
+
+  return Response.paginated(allTasks, totalResult.count, Number(page), Number(limit), 'Tasks retrieved successfully');
+});
+
+/**
+ * Get Any Task By ID Handler (admin)
+ *
+ * @route GET /api/admin/tasks/:id
+ * @access Admin (tasks:read:any)
+ * @throws NotFound if the task does not exist
+ */
+export const getAnyTaskByIdHandler = asyncHandler(async (req: AuthenticatedRequest) => {
+  const { id } = req.params;
+
+  const [task] = await db.select().from(tasks).where(eq(tasks.id, id)).limit(1);
+
+  if (!task) {
+    throw ErrorHandler.NotFound('Task not found');
+  }
+
+  logger.info('Admin retrieved task', { adminId: req.user.id, taskId: task.id, ownerId: task.userId });
+
+  return Response.success(task, 'Task retrieved successfully');
+});
+
+/**
+ * Update Any Task Handler (admin)
+ * - Applies the same validation as the owner update
+ * - Schedules a sync of the owner's calendar through the outbox
+ *
+ * @route PUT /api/admin/tasks/:id
+ * @access Admin (tasks:write:any)
+ * @throws NotFound if the task does not exist
+ */
+export const updateAnyTaskHandler = asyncHandler(async (req: AuthenticatedRequest) => {
+  const { id } = req.params;
+
+  const [existingTask] = await db.select().from(tasks).where(eq(tasks.id, id)).limit(1);
+
+  if (!existingTask) {
+    throw ErrorHandler.NotFound('Task not found');
+  }
+
+  const updates = buildTaskUpdates(existingTask, req.body);
+  let calendarSyncScheduled = false;
+
+  const updatedTask = await db.transaction(async tx => {
+    const [task] = await tx.update(tasks).set(updates).where(eq(tasks.id, id)).returning();
+
+    if (!task) {
+      throw ErrorHandler.DatabaseError('Failed to update task');
+    }
+
+    const scheduled = await scheduleCalendarSync(task, tx);
+    calendarSyncScheduled = scheduled !== null;
+    return scheduled ?? task;
+  });
+
+  logger.info('Admin updated task', {
+    adminId: req.user.id,
+    taskId: updatedTask.id,
+    ownerId: updatedTask.userId,
+    updatedFields: Object.keys(updates),
+  });
+
+  await recordAuditLog({
+    actorId: req.user.id,
+    action: 'task.update',
+    targetType: 'task',
+    targetId: updatedTask.id,
+    metadata: { ownerId: updatedTask.userId, updatedFields: Object.keys(updates) },
+    ipAddress: req.ip,
+  });
+
+  return {
+    data: updatedTask,
+    message: 'Task updated successfully',
+    statusCode: 200,
+    meta: { calendarSyncScheduled },
+  };
+});
+
+/**
+ * Delete Any Task Handler (admin)
+ * - Schedules removal of the owner's calendar event through the outbox
+ *
+ * @route DELETE /api/admin/tasks/:id
+ * @access Admin (tasks:write:any)
+ * @throws NotFound if the task does not exist
+ */
+export const deleteAnyTaskHandler = asyncHandler(async (req: AuthenticatedRequest) => {
+  const { id } = req.params;
+
+  let calendarSyncScheduled = false;
+
+  const deletedTask = await db.transaction(async tx => {
+    const [task] = await tx.delete(tasks).where(eq(tasks.id, id)).returning({
+      id: tasks.id,
+      userId: tasks.userId,
+      calendarEventId: tasks.calendarEventId,
+      calendarEventCalendarId: tasks.calendarEventCalendarId,
+      calendarEventProvider: tasks.calendarEventProvider,
+    });
+
+    if (!task) {
+      throw ErrorHandler.NotFound('Task not found');
+    }
+
+    calendarSyncScheduled = await scheduleCalendarEventDeletion(task, tx);
+    return task;
+  });
+
+  logger.info('Admin deleted task', { adminId: req.user.id, taskId: deletedTask.id, ownerId: deletedTask.userId });
+
+  await recordAuditLog({
+    actorId: req.user.id,
+    action: 'task.delete',
+    targetType: 'task',
+    targetId: deletedTask.id,
+    metadata: { ownerId: deletedTask.userId },
+    ipAddress: req.ip,
+  });
+
+  return {
+    message: 'Task deleted successfully',
+    statusCode: 200,
+    meta: { calendarSyncScheduled },
+  };
+});
+
+/**
+ * Columns returned for users in admin views; never includes secrets
+ */
+const adminUserColumns = {
+  id: users.id,
+  username: users.username,
+  email: users.email,
+  role: users.role,
+  profilePictureUrl: users.profilePictureUrl,
+  isVerified: users.isVerified,
+  googleConnected: users.googleConnected,
+  mfaEnabled: users.mfaEnabled,
+  suspendedAt: users.suspendedAt,
+  suspendedReason: users.suspendedReason,
+  createdAt: users.createdAt,
+  updatedAt: users.updatedAt,
+};
+
+/**
+ * Load the user targeted by `:id`
+ * - `validate` only checks the body when one is sent, so the id is checked here too
+ * @throws ValidationError if the id is not a UUID
+ * @throws NotFound if the user does not exist
+ */
+async function findTargetUser(req: AuthenticatedRequest) {
+  const params = UserParamsSchema.safeParse(req.params);
+  if (!params.success) {
+    throw ErrorHandler.ValidationError('Invalid user ID format');
+  }
+
+  const [user] = await db.select(adminUserColumns).from(users).where(eq(users.id, params.data.id)).limit(1);
+
+  if (!user) {
+    throw ErrorHandler.NotFound('User not found');
+  }
+
+  return user;
+}
+
+/**
+ * Reject actions an admin must not perform on their own account
+ */
+function assertNotSelf(req: AuthenticatedRequest, userId: string, message: string) {
+  if (req.user.id === userId) {
+    throw ErrorHandler.BadRequest(message);
+  }
+}
+
+/**
+ * List Users Handler (admin)
+ * - Paginated, searchable on email and username
+ * - Filters by role and status (active, suspended, unverified)
+ *
+ * @route GET /api/admin/users
+ * @access Admin (users:read)
+ */
+export const listUsersHandler = asyncHandler(async (req: AuthenticatedRequest) => {
+  const { page = 1, limit = 20, search, role, status, sortBy = 'createdAt', sortOrder = 'desc' } = req.query;
+
+  const whereConditions = [];
+
+  if (search) {
+    const pattern = containsPattern(search as string);
+    whereConditions.push(or(ilike(users.email, pattern), ilike(users.username, pattern)));
+  }
+
+  if (role) {
+    whereConditions.push(eq(users.role, role as string));
+  }
+
+  if (status === 'active') {
+    whereConditions.push(isNull(users.suspendedAt));
+  } else if (status === 'suspended') {
+    whereConditions.push(isNotNull(users.suspendedAt));
+  } else if (status === 'unverified') {
+    whereConditions.push(eq(users.isVerified, false));
+  }
+
+  const offset = (Number(page) - 1) * Number(limit);
+
+  const [totalResult] = await db
+    .select({ count: count() })
+    .from(users)
+    .where(and(...whereConditions));
+
+  const sortColumn = sortBy === 'email' ? users.email : sortBy === 'username' ? users.username : users.createdAt;
+  const sortDirection = sortOrder === 'asc' ? asc(sortColumn) : desc(sortColumn);
+
+  const userList = await db
+    .select(adminUserColumns)
+    .from(users)
+    .where(and(...whereConditions))
+    .orderBy(sortDirection)
+    .limit(Number(limit))
+    .offset(offset);
+
+  return Response.paginated(userList, totalResult.count, Number(page), Number(limit), 'Users retrieved successfully');
+});
+
+/**
+ * Get User Details Handler (admin)
+ * - Returns the user with task, report and active session counts
+ *
+ * @route GET /api/admin/users/:id
+ * @access Admin (users:read)
+ * @throws NotFound if the user does not exist
+ */
+export const getUserDetailsHandler = asyncHandler(async (req: AuthenticatedRequest) => {
+  const user = await findTargetUser(req);
+
+  const [[taskCount], [reportCount], [activeSessionCount]] = await Promise.all([
+    db.select({ count: count() }).from(tasks).where(eq(tasks.userId, user.id)),
+    db.select({ count: count() }).from(reports).where(eq(reports.userId, user.id)),
+    db
+      .select({ count: count() })
+      .from(sessions)
+      .where(and(eq(sessions.userId, user.id), isNull(sessions.revokedAt), gt(sessions.expiresAt, new Date()))),
+  ]);
+
+  return Response.success(
+    {
+      ...user,
+      taskCount: taskCount.count,
+      reportCount: reportCount.count,
+      activeSessionCount: activeSessionCount.count,
+    },
+    'User retrieved successfully',
+  );
+});
+
+/**
+ * Suspend User Handler (admin)
+ * - Blocks login and revokes every active session
+ *
+ * @route POST /api/admin/users/:id/suspend
+ * @access Admin (users:manage)
+ * @throws BadRequest when suspending yourself
+ * @throws Conflict if the user is already suspended
+ */
+export const suspendUserHandler = asyncHandler(async (req: AuthenticatedRequest) => {
+  const user = await findTargetUser(req);
+  const { reason } = req.body;
+
+  assertNotSelf(req, user.id, 'You cannot suspend your own account');
+
+  if (user.suspendedAt) {
+    throw ErrorHandler.Conflict('User is already suspended');
+  }
+
+  const revokedSessions = await db.transaction(async tx => {
+    await tx
+      .update(users)
+      .set({ suspendedAt: new Date(), suspendedReason: reason, updatedAt: new Date() })
+      .where(eq(users.id, user.id));
+    const revoked = await revokeAllUserSessions(user.id, 'suspended', tx);
+    await recordAuditLog(
+      {
+        actorId: req.user.id,
+        action: 'user.suspend',
+        targetType: 'user',
+        targetId: user.id,
+        metadata: { reason, revokedSessions: revoked },
+        ipAddress: req.ip,
+      },
+      tx,
+    );
+    return revoked;
+  });
+
+  logger.warn('User suspended', { adminId: req.user.id, userId: user.id, revokedSessions });
+
+  return Response.success({ id: user.id, revokedSessions }, 'User suspended');
+});
+
+/**
+ * Unsuspend User Handler (admin)
+ *
+ * @route POST /api/admin/users/:id/unsuspend
+ * @access Admin (users:manage)
+ * @throws Conflict if the user is not suspended
+ */
+export const unsuspendUserHandler = asyncHandler(async (req: AuthenticatedRequest) => {
+  const user = await findTargetUser(req);
+
+  if (!user.suspendedAt) {
+    throw ErrorHandler.Conflict('User is not suspended');
+  }
+
+  await db.transaction(async tx => {
+    await tx
+      .update(users)
+      .set({ suspendedAt: null, suspendedReason: null, updatedAt: new Date() })
+      .where(eq(users.id, user.id));
+    await recordAuditLog(
+      {
+        actorId: req.user.id,
+        action: 'user.unsuspend',
+        targetType: 'user',
+        targetId: user.id,
+        metadata: { previousReason: user.suspendedReason },
+        ipAddress: req.ip,
+      },
+      tx,
+    );
+  });
+
+  logger.info('User unsuspended', { adminId: req.user.id, userId: user.id });
+
+  return Response.success({ id: user.id }, 'User unsuspended');
+});
+
+/**
+ * Force Verify User Handler (admin)
+ * - Marks the email as verified and discards pending verification OTPs
+ *
+ * @route POST /api/admin/users/:id/verify
+ * @access Admin (users:manage)
+ * @throws Conflict if the user is already verified
+ */
+export const verifyUserHandler = asyncHandler(async (req: AuthenticatedRequest) => {
+  const user = await findTargetUser(req);
+
+  if (user.isVerified) {
+    throw ErrorHandler.Conflict('User is already verified');
+  }
+
+  await db.transaction(async tx => {
+    await tx.update(users).set({ isVerified: true, updatedAt: new Date() }).where(eq(users.id, user.id));
+    await tx.delete(otpCodes).where(and(eq(otpCodes.userId, user.id), eq(otpCodes.type, 'email_verification')));
+    await recordAuditLog(
+      { actorId: req.user.id, action: 'user.verify', targetType: 'user', targetId: user.id, ipAddress: req.ip },
+      tx,
+    );
+  });
+
+  logger.info('User force-verified', { adminId: req.user.id, userId: user.id });
+
+  return Response.success({ id: user.id }, 'User verified');
+});
+
+/**
+ * Change User Role Handler (admin)
+ * - Roles are read on every request, so the change applies immediately
+ *
+ * @route PATCH /api/admin/users/:id/role
+ * @access Admin (users:manage)
+ * @throws BadRequest when changing your own role
+ * @throws Conflict if the user already has the role
+ */
+export const changeUserRoleHandler = asyncHandler(async (req: AuthenticatedRequest) => {
+  const user = await findTargetUser(req);
+  const { role } = req.body;
+
+  assertNotSelf(req, user.id, 'You cannot change your own role');
+
+  if (user.role === role) {
+    throw ErrorHandler.Conflict(`User already has the ${role} role`);
+  }
+
+  await db.transaction(async tx => {
+    await tx.update(users).set({ role, updatedAt: new Date() }).where(eq(users.id, user.id));
+    await recordAuditLog(
+      {
+        actorId: req.user.id,
+        action: 'user.role_change',
+        targetType: 'user',
+        targetId: user.id,
+        metadata: { from: user.role, to: role },
+        ipAddress: req.ip,
+      },
+      tx,
+    );
+  });
+
+  logger.warn('User role changed', { adminId: req.user.id, userId: user.id, from: user.role, to: role });
+
+  return Response.success({ id: user.id, role }, 'User role updated');
+});
+
+/**
+ * Force Logout User Handler (admin)
+ * - Revokes every active session; access tokens stop working on the next request
+ *
+ * @route POST /api/admin/users/:id/logout
+ * @access Admin (users:manage)
+ */
+export const forceLogoutUserHandler = asyncHandler(async (req: AuthenticatedRequest) => {
+  const user = await findTargetUser(req);
+
+  const revokedSessions = await db.transaction(async tx => {
+    const revoked = await revokeAllUserSessions(user.id, 'admin_logout', tx);
+    await recordAuditLog(
+      {
+        actorId: req.user.id,
+        action: 'user.force_logout',
+        targetType: 'user',
+        targetId: user.id,
+        metadata: { revokedSessions: revoked },
+        ipAddress: req.ip,
+      },
+      tx,
+    );
+    return revoked;
+  });
+
+  logger.info('User sessions revoked by admin', { adminId: req.user.id, userId: user.id, revokedSessions });
+
+  return Response.success({ id: user.id, revokedSessions }, 'User logged out of all sessions');
+});
+
+/**
+ * List Audit Logs Handler (admin)
+ * - Newest first, filterable by actor, target and action
+ *
+ * @route GET /api/admin/audit-logs
+ * @access Admin (audit_logs:read)
+ */
+export const listAuditLogsHandler = asyncHandler(async (req: AuthenticatedRequest) => {
+  const { page = 1, limit = 50, actorId, targetId, action } = req.query;
+
+  const whereConditions = [];
+
+  if (actorId) {
+    whereConditions.push(eq(auditLogs.actorId, actorId as string));
+  }
+
+  if (targetId) {
+    whereConditions.push(eq(auditLogs.targetId, targetId as string));
+  }
+
+  if (action) {
+    whereConditions.push(eq(auditLogs.action, action as string));
+  }
+
+  const offset = (Number(page) - 1) * Number(limit);
+
+  const [totalResult] = await db
+    .select({ count: count() })
+    .from(auditLogs)
+    .where(and(...whereConditions));
+
+  const entries = await db
+    .select()
+    .from(auditLogs)
+    .where(and(...whereConditions))
+    .orderBy(desc(auditLogs.createdAt))
+    .limit(Number(limit))
+    .offset(offset);
+
+  return Response.paginated(
+    entries,
+    totalResult.count,
+    Number(page),
+    Number(limit),
+    'Audit logs retrieved successfully',
+  );
+});
+
+/**
+ * Outbox events that need attention: failed, claimed by a dispatcher that never
+ * finished, or pending well past the time they became available
+ */
+const stuckOutboxEvents = () =>
+  or(
+    eq(outboxEvents.status, 'failed'),
+    and(eq(outboxEvents.status, 'processing'), lte(outboxEvents.lockedUntil, sql`now()`)),
+    and(
+      eq(outboxEvents.status, 'pending'),
+      lte(outboxEvents.availableAt, sql`now() - make_interval(secs => ${OUTBOX_STUCK_AFTER_MS / 1000})`),
+    ),
+  );
+
+/**
+ * List Outbox Events Handler (admin)
+ * - Oldest first, filterable by status and type, or only stuck events
+ * - Includes a summary of the whole outbox so a growing backlog is visible at a glance
+ *
+ * @route GET /api/admin/outbox
+ * @access Admin (outbox:manage)
+ */
+export const listOutboxEventsHandler = asyncHandler(async (req: AuthenticatedRequest) => {
+  const { page = 1, limit = 50, status, type, stuck } = req.query;
+
+  const whereConditions = [];
+
+  if (status) {
+    whereConditions.push(eq(outboxEvents.status, status as string));
+  }
+
+  if (type) {
+    whereConditions.push(eq(outboxEvents.type, type as string));
+  }
+
+  if (stuck === 'true') {
+    whereConditions.push(stuckOutboxEvents());
+  }
+
+  const offset = (Number(page) - 1) * Number(limit);
+
+  const [totalResult] = await db
+    .select({ count: count() })
+    .from(outboxEvents)
+    .where(and(...whereConditions));
+
+  const events = await db
+    .select()
+    .from(outboxEvents)
+    .where(and(...whereConditions))
+    .orderBy(asc(outboxEvents.createdAt))
+    .limit(Number(limit))
+    .offset(offset);
+
+  const [summary] = await db
+    .select({
+      pending: sql<number>`count(*) filter (where ${outboxEvents.status} = 'pending')`.mapWith(Number),
+      processing: sql<number>`count(*) filter (where ${outboxEvents.status} = 'processing')`.mapWith(Number),
+      failed: sql<number>`count(*) filter (where ${outboxEvents.status} = 'failed')`.mapWith(Number),
+      stuck: sql<number>`count(*) filter (where ${stuckOutboxEvents()})`.mapWith(Number),
+      oldestPendingAt:
+        sql<Date | null>`min(${outboxEvents.createdAt}) filter (where ${outboxEvents.status} = 'pending')`.mapWith(
+          outboxEvents.createdAt,
+        ),
+    })
+    .from(outboxEvents);
+
+  const result = Response.paginated(
+    events,
+    totalResult.count,
+    Number(page),
+    Number(limit),
+    'Outbox events retrieved successfully',
+  );
+
+  return { ...result, meta: { ...result.meta, summary } };
+});
+
+/**
+ * Retry Outbox Event Handler (admin)
+ * - Makes a failed event available to the dispatcher again with a fresh attempt budget
+ *
+ * @route POST /api/admin/outbox/:id/retry
+ * @access Admin (outbox:manage)
+ * @throws NotFound if the event does not exist
+ * @throws Conflict if the event has not failed
+ */
+export const retryOutboxEventHandler = asyncHandler(async (req: AuthenticatedRequest) => {
+  const { id } = req.params;
+
+  const [event] = await db
+    .select({ id: outboxEvents.id, type: outboxEvents.type, status: outboxEvents.status })
+    .from(outboxEvents)
+    .where(eq(outboxEvents.id, id))
+    .limit(1);
+
+  if (!event) {
+    throw ErrorHandler.NotFound('Outbox event not found');
+  }
+
+  if (event.status !== 'failed') {
+    throw ErrorHandler.Conflict('Only failed outbox events can be retried');
+  }
+
+  await db.transaction(async tx => {
+    await tx
+      .update(outboxEvents)
+      .set({ status: 'pending', attempts: 0, availableAt: sql`now()`, lockedUntil: null, updatedAt: new Date() })
+      .where(and(eq(outboxEvents.id, id), eq(outboxEvents.status, 'failed')));
+    await recordAuditLog(
+      {
+        actorId: req.user.id,
+        action: 'outbox.retry',
+        targetType: 'outbox_event',
+        targetId: event.id,
+        metadata: { type: event.type },
+        ipAddress: req.ip,
+      },
+      tx,
+    );
+  });
+
+  logger.info('Outbox event re-queued by admin', { adminId: req.user.id, eventId: event.id, type: event.type });
+
+  return Response.success({ id: event.id, status: 'pending' }, 'Outbox event re-queued');
+});
+
+// Export handlers with validation middleware
+export const getAllTasksWithValidation = [
+  validate(data => AdminTaskQuerySchema.parse(data)),
+  authMiddleware,
+  requirePermission('tasks:read:any'),
+  getAllTasksHandler,
+];
+
+export const getAnyTaskByIdWithValidation = [
+  validate(data => TaskParamsSchema.parse(data)),
+  authMiddleware,
+  requirePermission('tasks:read:any'),
+  getAnyTaskByIdHandler,
+];
+
+export const updateAnyTaskWithValidation = [
+  validate(data => UpdateTaskSchema.parse(data)),
+  authMiddleware,
+  requirePermission('tasks:write:any'),
+  updateAnyTaskHandler,
+];
+
+export const deleteAnyTaskWithValidation = [
+  validate(data => TaskParamsSchema.parse(data)),
+  authMiddleware,
+  requirePermission('tasks:write:any'),
+  deleteAnyTaskHandler,
+];
+
+export const listUsersWithValidation = [
+  validate(data => AdminUserQuerySchema.parse(data)),
+  authMiddleware,
+  requirePermission('users:read'),
+  listUsersHandler,
+];
+
+export const getUserDetailsWithValidation = [
+  validate(data => UserParamsSchema.parse(data)),
+  authMiddleware,
+  requirePermission('users:read'),
+  getUserDetailsHandler,
+];
+
+export const suspendUserWithValidation = [
+  validate(data => SuspendUserSchema.parse(data)),
+  authMiddleware,
+  requirePermission('users:manage'),
+  suspendUserHandler,
+];
+
+export const unsuspendUserWithValidation = [
+  validate(data => UserParamsSchema.parse(data)),
+  authMiddleware,
+  requirePermission('users:manage'),
+  unsuspendUserHandler,
+];
+
+export const verifyUserWithValidation = [
+  validate(data => UserParamsSchema.parse(data)),
+  authMiddleware,
+  requirePermission('users:manage'),
+  verifyUserHandler,
+];
+
+export const changeUserRoleWithValidation = [
+  validate(data => ChangeRoleSchema.parse(data)),
+  authMiddleware,
+  requirePermission('users:manage'),
+  changeUserRoleHandler,
+];
+
+export const forceLogoutUserWithValidation = [
+  validate(data => UserParamsSchema.parse(data)),
+  authMiddleware,
+  requirePermission('users:manage'),
+  forceLogoutUserHandler,
+];
+
+export const listAuditLogsWithValidation = [
+  validate(data => AuditLogQuerySchema.parse(data)),
+  authMiddleware,
+  requirePermission('audit_logs:read'),
+  listAuditLogsHandler,
+];
+
+export const listOutboxEventsWithValidation = [
+  validate(data => OutboxQuerySchema.parse(data)),
+  authMiddleware,
+  requirePermission('outbox:manage'),
+  listOutboxEventsHandler,
+];
+
+export const retryOutboxEventWithValidation = [
+  validate(data => OutboxEventParamsSchema.parse(data)),
+  authMiddleware,
+  requirePermission('outbox:manage'),
+  retryOutboxEventHandler,
+];
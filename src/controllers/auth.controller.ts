@@ -22,21 +22,65 @@
  * @requires @/utils/hashing
  * @exports signupHandler - Handler for user signup
  * @exports loginHandler - Handler for user login
+ * @exports refreshTokenHandler - Handler for refresh-token rotation
+ * @exports logoutHandler - Handler for user logout
+ * @exports forgotPasswordHandler - Handler to request a password reset OTP
+ * @exports resetPasswordHandler - Handler to set a new password with a reset OTP
+ * @exports unlockAccountHandler - Handler to lift a login lockout with an unlock OTP
  *
  */
 
 import type { Request as ExpressRequest, Response as ExpressResponse } from 'express';
-import { eq } from 'drizzle-orm';
+import { eq, sql } from 'drizzle-orm';
 import { db } from '@/db';
 import { users } from '@/db/schemas';
+import { EMAIL_LOCALES, resolveEmailLocale } from '@/core/mail';
+import { enqueueViaOutbox } from '@/core/outbox';
 import { asyncHandler, Response, validate } from '@/utils/asyncHandler';
 import ErrorHandler from '@/utils/errorHandler';
-import { LoginSchema, SignupSchema } from '@/utils/validations';
+import {
+  ForgotPasswordSchema,
+  LoginSchema,
+  RefreshTokenSchema,
+  ResetPasswordSchema,
+  SignupSchema,
+  UnlockAccountSchema,
+} from '@/utils/validations';
 import { comparePasswords, hashPassword } from '@/utils/helpers';
-import { generateJWTandSetCookie } from '@/utils/jwt_session';
+import {
+  clearAuthCookies,
+  generateJWTandSetCookie,
+  getSessionContext,
+  readCookie,
+  REFRESH_TOKEN_COOKIE,
+  revokeAllUserSessions,
+  revokeSession,
+  rotateRefreshToken,
+  signMfaChallengeToken,
+} from '@/utils/jwt_session';
+import {
+  assertNotThrottled,
+  clearFailedAttempts,
+  registerFailedAttempt,
+  type ThrottleKey,
+} from '@/utils/bruteForceGuard';
+import { consumeOtp } from '@/utils/otp';
 import logger from '@/core/logger';
 import type { AuthenticatedRequest } from '@/types/auth-request';
-import { env } from '@/env';
+
+/**
+ * Enqueue an account_unlock OTP email; failures are logged, never surfaced
+ */
+async function sendUnlockEmail(email: string, locale: string) {
+  try {
+    await enqueueViaOutbox('OTP_QUEUE', { email, type: 'account_unlock', locale });
+  } catch (error) {
+    logger.error('Failed to enqueue account unlock email', {
+      email,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
 
 /**
  * Signup Handler
@@ -69,11 +113,11 @@ export const signupHandler = asyncHandler(async (req: ExpressRequest, _res: Expr
       throw ErrorHandler.Conflict('Email already in use');
     }
 
-    // Check for existing username
+    // Check for existing username, regardless of case
     const existingUsernameCheck = await db
       .select({ id: users.id, username: users.username })
       .from(users)
-      .where(eq(users.username, username))
+      .where(sql`lower(${users.username}) = lower(${username})`)
       .limit(1);
 
     if (existingUsernameCheck.length > 0) {
@@ -156,6 +200,13 @@ export const signupHandlerWithValidation = [validate(data => SignupSchema.parse(
 // Fix line 108 in your auth.controller.ts
 export const loginHandler = asyncHandler(async (req: ExpressRequest, res: ExpressResponse) => {
   const { email, password } = req.body;
+  const throttleKeys: ThrottleKey[] = [
+    { scope: 'login_account', identifier: email },
+    { scope: 'login_ip', identifier: req.ip ?? '' },
+  ];
+
+  // reject early while the account or IP is delayed / locked out
+  await assertNotThrottled(throttleKeys);
 
   // FIX: Select specific columns instead of all columns
   const userExists = await db
@@ -168,6 +219,8 @@ export const loginHandler = asyncHandler(async (req: ExpressRequest, res: Expres
       profilePictureUrl: users.profilePictureUrl,
       isVerified: users.isVerified,
       googleConnected: users.googleConnected,
+      mfaEnabled: users.mfaEnabled,
+      suspendedAt: users.suspendedAt,
       createdAt: users.createdAt,
       updatedAt: users.updatedAt,
     })
@@ -175,20 +228,45 @@ export const loginHandler = asyncHandler(async (req: ExpressRequest, res: Expres
     .where(eq(users.email, email));
 
   if (!userExists.length) {
+    await Promise.all(throttleKeys.map(registerFailedAttempt));
     throw ErrorHandler.AuthError('Invalid email');
   }
 
-  // password verification
-  const ispass = await comparePasswords(password, userExists[0].password);
+  // password verification; accounts created through Google sign-in may have no password
+  const storedPassword = userExists[0].password;
+  const ispass = storedPassword !== null && (await comparePasswords(password, storedPassword));
   if (!ispass) {
+    const [accountResult] = await Promise.all(throttleKeys.map(registerFailedAttempt));
+
+    // the failure that locks the account also sends an unlock code by email
+    if (accountResult.lockedOut) {
+      await sendUnlockEmail(userExists[0].email, resolveEmailLocale(req.acceptsLanguages(...EMAIL_LOCALES)));
+    }
+
     throw ErrorHandler.AuthError('Invalid password');
   }
 
-  // created cookie with jwt and return user after login
-  const { password: _p, ...userSafe } = userExists[0];
-  const token = generateJWTandSetCookie(res, String(userExists[0].id));
+  await clearFailedAttempts([throttleKeys[0]]);
 
-  return Response.success({ token, user: userSafe }, 'Login successful');
+  if (userExists[0].suspendedAt) {
+    throw ErrorHandler.Forbidden('Account suspended');
+  }
+
+  // users with 2FA enabled get a short-lived challenge instead of a session
+  if (userExists[0].mfaEnabled) {
+    const mfaToken = signMfaChallengeToken(String(userExists[0].id));
+    return Response.success({ mfaRequired: true, mfaToken }, 'Two-factor authentication required');
+  }
+
+  // create session, set cookies with access/refresh tokens and return user after login
+  const { password: _p, suspendedAt: _s, ...userSafe } = userExists[0];
+  const { accessToken, refreshToken } = await generateJWTandSetCookie(
+    res,
+    String(userExists[0].id),
+    getSessionContext(req),
+  );
+
+  return Response.success({ token: accessToken, refreshToken, user: userSafe }, 'Login successful');
 });
 
 /**
@@ -200,6 +278,48 @@ export const loginHandler = asyncHandler(async (req: ExpressRequest, res: Expres
  */
 export const loginHandlerWithValidation = [validate(data => LoginSchema.parse(data)), loginHandler];
 
+/**
+ * Refresh Token Handler
+ * - Reads the refresh token from the request body or the refresh token cookie
+ * - Rotates it and issues a new short-lived access token
+ * - Replaying an already-rotated token revokes the whole session
+ *
+ * @exports refreshTokenHandler
+ * @returns New access and refresh tokens
+ * @throws AuthError if the refresh token is missing, invalid, revoked, expired or reused
+ */
+export const refreshTokenHandler = asyncHandler(async (req: ExpressRequest, res: ExpressResponse) => {
+  const refreshToken = (req.body?.refreshToken as string | undefined) ?? readCookie(req, REFRESH_TOKEN_COOKIE);
+
+  if (!refreshToken) {
+    throw ErrorHandler.AuthError('Refresh token required');
+  }
+
+  try {
+    const tokens = await rotateRefreshToken(res, refreshToken, getSessionContext(req));
+
+    logger.info('Session refreshed', { userId: tokens.userId, sessionId: tokens.sessionId });
+
+    return Response.success({ token: tokens.accessToken, refreshToken: tokens.refreshToken }, 'Token refreshed');
+  } catch (error) {
+    // Never leave a dead refresh token behind in the browser
+    clearAuthCookies(res);
+    throw error;
+  }
+});
+
+/**
+ * Refresh Token Handler with Validation Middleware
+ * - Validates request body against RefreshTokenSchema
+ * - Calls refreshTokenHandler
+ *
+ * @exports refreshTokenHandlerWithValidation
+ */
+export const refreshTokenHandlerWithValidation = [
+  validate(data => RefreshTokenSchema.parse(data)),
+  refreshTokenHandler,
+];
+
 export const logoutHandler = asyncHandler(async (req: AuthenticatedRequest, res: ExpressResponse) => {
   try {
     // Get user info from request (should be set by auth middleware)
@@ -222,13 +342,13 @@ export const logoutHandler = asyncHandler(async (req: AuthenticatedRequest, res:
       timestamp: new Date().toISOString(),
     });
 
-    // Clear the JWT cookie
-    res.clearCookie('token', {
-      httpOnly: true,
-      secure: env.NODE_ENV === 'production',
-      sameSite: 'strict',
-      path: '/',
-    });
+    // Revoke the server-side session so the tokens cannot be reused
+    if (req.sessionId) {
+      await revokeSession(req.sessionId, 'logout');
+    }
+
+    // Clear the access and refresh token cookies
+    clearAuthCookies(res);
 
     logger.info('User logged out successfully', {
       userId: user.id,
@@ -242,8 +362,8 @@ export const logoutHandler = asyncHandler(async (req: AuthenticatedRequest, res:
       error: error instanceof Error ? error.message : 'Unknown error',
     });
 
-    // Even if there's an error, we should still clear the cookie
-    res.clearCookie('token');
+    // Even if there's an error, we should still clear the cookies
+    clearAuthCookies(res);
 
     // If it's an auth-related error, return 401
     if (error instanceof ErrorHandler && error.statusCode === 401) {
@@ -253,3 +373,166 @@ export const logoutHandler = asyncHandler(async (req: AuthenticatedRequest, res:
     throw error; // Re-throw other errors to be handled by asyncHandler
   }
 });
+
+/**
+ * Forgot Password Handler
+ * - Enqueues a reset_password OTP email if the email belongs to a user
+ * - Always responds with the same message so account existence is not revealed
+ *
+ * @exports forgotPasswordHandler
+ * @returns Generic success message
+ */
+export const forgotPasswordHandler = asyncHandler(async (req: ExpressRequest, _res: ExpressResponse) => {
+  const { email } = req.body;
+
+  const [user] = await db.select({ id: users.id }).from(users).where(eq(users.email, email)).limit(1);
+
+  if (user) {
+    try {
+      await enqueueViaOutbox('OTP_QUEUE', {
+        email,
+        type: 'reset_password',
+        locale: resolveEmailLocale(req.acceptsLanguages(...EMAIL_LOCALES)),
+      });
+      logger.info('Password reset OTP requested', { userId: user.id });
+    } catch (error) {
+      // Swallow queue failures so the response stays identical for every email
+      logger.error('Failed to enqueue password reset OTP', {
+        userId: user.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  } else {
+    logger.warn('Password reset requested for unknown email');
+  }
+
+  return Response.success(null, 'If the email is registered, a password reset OTP has been sent');
+});
+
+/**
+ * Forgot Password Handler with Validation Middleware
+ * - Validates request body against ForgotPasswordSchema
+ * - Calls forgotPasswordHandler
+ *
+ * @exports forgotPasswordHandlerWithValidation
+ */
+export const forgotPasswordHandlerWithValidation = [
+  validate(data => ForgotPasswordSchema.parse(data)),
+  forgotPasswordHandler,
+];
+
+/**
+ * Reset Password Handler
+ * - Consumes a reset_password OTP from otp_codes
+ * - Hashes and stores the new password
+ * - Revokes every existing session of the user
+ * - Uses the same error for unknown emails and bad OTPs
+ *
+ * @exports resetPasswordHandler
+ * @returns Success message
+ * @throws BadRequest if the OTP is invalid or expired
+ */
+export const resetPasswordHandler = asyncHandler(async (req: ExpressRequest, res: ExpressResponse) => {
+  const { email, otp, newPassword } = req.body;
+  const ipKey: ThrottleKey = { scope: 'otp_ip', identifier: req.ip ?? '' };
+
+  await assertNotThrottled([ipKey]);
+
+  const [user] = await db.select({ id: users.id }).from(users).where(eq(users.email, email)).limit(1);
+
+  if (!user) {
+    await registerFailedAttempt(ipKey);
+    throw ErrorHandler.BadRequest('Invalid or expired OTP');
+  }
+
+  // Consume the OTP and change the password together; a concurrent request with the same code waits and then fails
+  const result = await db.transaction(async tx => {
+    const outcome = await consumeOtp(tx, user.id, 'reset_password', otp);
+
+    if (outcome !== 'valid') {
+      return { outcome, revokedSessions: 0 };
+    }
+
+    const hashedPassword = await hashPassword(newPassword);
+    await tx.update(users).set({ password: hashedPassword, updatedAt: new Date() }).where(eq(users.id, user.id));
+
+    return { outcome, revokedSessions: await revokeAllUserSessions(user.id, 'password_reset', tx) };
+  });
+
+  if (result.outcome !== 'valid') {
+    await registerFailedAttempt(ipKey);
+    throw ErrorHandler.BadRequest('Invalid or expired OTP');
+  }
+
+  const { revokedSessions } = result;
+
+  clearAuthCookies(res);
+
+  // a successful reset also lifts any login lockout on the account
+  await clearFailedAttempts([{ scope: 'login_account', identifier: email }]);
+
+  logger.info('Password reset successfully', { userId: user.id, revokedSessions });
+
+  return Response.success(null, 'Password reset successfully');
+});
+
+/**
+ * Reset Password Handler with Validation Middleware
+ * - Validates request body against ResetPasswordSchema
+ * - Calls resetPasswordHandler
+ *
+ * @exports resetPasswordHandlerWithValidation
+ */
+export const resetPasswordHandlerWithValidation = [
+  validate(data => ResetPasswordSchema.parse(data)),
+  resetPasswordHandler,
+];
+
+/**
+ * Unlock Account Handler
+ * - Consumes the account_unlock OTP emailed when a login lockout was triggered
+ * - Clears the failed-login counter for the account
+ *
+ * @exports unlockAccountHandler
+ * @returns Success message
+ * @throws BadRequest if the OTP is invalid or expired
+ * @throws RateLimit if the client made too many wrong OTP guesses
+ */
+export const unlockAccountHandler = asyncHandler(async (req: ExpressRequest, _res: ExpressResponse) => {
+  const { email, otp } = req.body;
+  const ipKey: ThrottleKey = { scope: 'otp_ip', identifier: req.ip ?? '' };
+
+  await assertNotThrottled([ipKey]);
+
+  const [user] = await db.select({ id: users.id }).from(users).where(eq(users.email, email)).limit(1);
+
+  if (!user) {
+    await registerFailedAttempt(ipKey);
+    throw ErrorHandler.BadRequest('Invalid or expired OTP');
+  }
+
+  const result = await db.transaction(tx => consumeOtp(tx, user.id, 'account_unlock', otp));
+
+  if (result !== 'valid') {
+    await registerFailedAttempt(ipKey);
+    throw ErrorHandler.BadRequest('Invalid or expired OTP');
+  }
+
+  await clearFailedAttempts([{ scope: 'login_account', identifier: email }]);
+
+  logger.info('Account unlocked', { userId: user.id });
+
+  return Response.success(null, 'Account unlocked successfully');
+});
+
+/**
+ * Unlock Account Handler with Validation Middleware
+ * - Validates request body against UnlockAccountSchema
+ * - Calls unlockAccountHandler
+ *
+ * @exports unlockAccountHandlerWithValidation
+ */
+export const unlockAccountHandlerWithValidation = [
+  validate(data => UnlockAccountSchema.parse(data)),
+  unlockAccountHandler,
+];
@@ -0,0 +1,237 @@
+/**
+ * Avatar Controller
+ *
+ * Profile picture uploads that go straight from the client to storage:
+ *  1. POST /api/users/me/avatar/upload-url returns a presigned upload and an upload token.
+ *  2. The client PUTs the image to the presigned URL.
+ *  3. POST /api/users/me/avatar/confirm validates the object, renders the avatar
+ *     and thumbnail, and replaces (and deletes) the previous picture.
+ *
+ * Uploads land under `pending/avatars/`, outside the public `avatars/` prefix,
+ * so unvalidated files are never served; objects there that are never
+ * confirmed should be expired by a bucket lifecycle rule.
+ *
+ * @module controllers/avatar.controller
+ * @requires jsonwebtoken
+ * @requires @/core/storage
+ * @requires @/utils/image
+ * @exports requestAvatarUploadWithValidation - Issues a presigned avatar upload
+ * @exports confirmAvatarUploadWithValidation - Processes an uploaded avatar
+ * @exports deleteAvatarHandler - Removes the current avatar
+ */
+
+import { randomUUID } from 'crypto';
+import type { Response as ExpressResponse } from 'express';
+import jwt from 'jsonwebtoken';
+import { eq } from 'drizzle-orm';
+import { db } from '@/db';
+import { users } from '@/db/schemas';
+import { getStorageProvider } from '@/core/storage';
+import { asyncHandler, Response, validate } from '@/utils/asyncHandler';
+import ErrorHandler from '@/utils/errorHandler';
+import { AvatarUploadRequestSchema, ConfirmAvatarUploadSchema } from '@/utils/validations';
+import { processAvatarImage } from '@/utils/image';
+import { authMiddleware } from '@/middlewares/auth.middleware';
+import type { AuthenticatedRequest } from '@/types/auth-request';
+import logger from '@/core/logger';
+import { env } from '@/env';
+
+const AVATAR_UPLOAD_PURPOSE = 'avatar_upload';
+const UPLOAD_URL_TTL_SECONDS = 10 * 60;
+const UPLOAD_TOKEN_TTL = '30m';
+const AVATAR_CONTENT_TYPE = 'image/webp';
+
+interface AvatarUploadClaims {
+  userId: string;
+  key: string;
+  contentType: string;
+  size: number;
+}
+
+const thumbnailKeyFor = (key: string) => key.replace(/\.webp$/, '_thumb.webp');
+
+const signAvatarUploadToken = (claims: AvatarUploadClaims) =>
+  jwt.sign({ ...claims, purpose: AVATAR_UPLOAD_PURPOSE }, env.JWT_SECRET_KEY as string, {
+    expiresIn: UPLOAD_TOKEN_TTL,
+  });
+
+const verifyAvatarUploadToken = (token: string): AvatarUploadClaims => {
+  try {
+    const payload = jwt.verify(token, env.JWT_SECRET_KEY as string) as Partial<AvatarUploadClaims> & {
+      purpose?: string;
+    };
+    if (payload.purpose !== AVATAR_UPLOAD_PURPOSE || !payload.userId || !payload.key || !payload.contentType) {
+      throw ErrorHandler.BadRequest('Invalid upload token');
+    }
+    return { userId: payload.userId, key: payload.key, contentType: payload.contentType, size: payload.size ?? 0 };
+  } catch (error) {
+    if (error instanceof ErrorHandler) {
+      throw error;
+    }
+    throw ErrorHandler.BadRequest('Upload token expired or invalid');
+  }
+};
+
+/**
+ * Delete the stored avatar and thumbnail of a previous picture; failures are only logged
+ */
+async function deleteStoredAvatar(key: string) {
+  const storage = getStorageProvider();
+  try {
+    await Promise.all([storage.deleteObject(key), storage.deleteObject(thumbnailKeyFor(key))]);
+  } catch (error) {
+    logger.warn('Failed to delete previous avatar objects', {
+      key,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+/**
+ * Request Avatar Upload Handler
+ * - Validates the declared content type and size
+ * - Returns a presigned upload for a pending key and a token to confirm it with
+ *
+ * @route POST /api/users/me/avatar/upload-url
+ * @access Private
+ */
+export const requestAvatarUploadHandler = asyncHandler(async (req: AuthenticatedRequest, _res: ExpressResponse) => {
+  const { contentType, size } = req.body;
+
+  const key = `pending/avatars/${req.user.id}/${randomUUID()}`;
+  const upload = await getStorageProvider().presignUpload(key, {
+    contentType,
+    contentLength: size,
+    expiresInSeconds: UPLOAD_URL_TTL_SECONDS,
+  });
+
+  const uploadToken = signAvatarUploadToken({ userId: req.user.id, key, contentType, size });
+
+  return Response.success({ upload, uploadToken }, 'Upload the image, then confirm it with the upload token');
+});
+
+/**
+ * Confirm Avatar Upload Handler
+ * - Checks the uploaded object's size and content type against the request
+ * - Decodes the image and renders a 512px avatar and a 128px thumbnail (WebP)
+ * - Replaces the current picture and deletes the previous objects
+ *
+ * @route POST /api/users/me/avatar/confirm
+ * @access Private
+ * @throws BadRequest if the upload is missing, too large, mismatched or not an image
+ */
+export const confirmAvatarUploadHandler = asyncHandler(async (req: AuthenticatedRequest, _res: ExpressResponse) => {
+  const claims = verifyAvatarUploadToken(req.body.uploadToken);
+
+  if (claims.userId !== req.user.id) {
+    throw ErrorHandler.Forbidden('Upload token was issued for another user');
+  }
+
+  const storage = getStorageProvider();
+  const info = await storage.headObject(claims.key);
+
+  if (!info) {
+    throw ErrorHandler.BadRequest('No uploaded file found. Upload the image before confirming');
+  }
+
+  try {
+    if (info.size !== claims.size) {
+      throw ErrorHandler.BadRequest('Uploaded file size does not match the requested size');
+    }
+    if (info.contentType && info.contentType !== claims.contentType) {
+      throw ErrorHandler.BadRequest('Uploaded file type does not match the requested type');
+    }
+
+    const processed = await processAvatarImage(await storage.getObject(claims.key));
+    if (processed.sourceContentType !== claims.contentType) {
+      throw ErrorHandler.BadRequest('Uploaded file content does not match the requested type');
+    }
+
+    const key = `avatars/${req.user.id}/${randomUUID()}.webp`;
+    const thumbnailKey = thumbnailKeyFor(key);
+    await Promise.all([
+      storage.putObject(key, processed.avatar, AVATAR_CONTENT_TYPE),
+      storage.putObject(thumbnailKey, processed.thumbnail, AVATAR_CONTENT_TYPE),
+    ]);
+
+    const [previous] = await db
+      .select({ key: users.profilePictureKey })
+      .from(users)
+      .where(eq(users.id, req.user.id))
+      .limit(1);
+
+    const profile = {
+      profilePictureUrl: storage.getPublicUrl(key),
+      profilePictureThumbnailUrl: storage.getPublicUrl(thumbnailKey),
+    };
+
+    await db
+      .update(users)
+      .set({ ...profile, profilePictureKey: key, updatedAt: new Date() })
+      .where(eq(users.id, req.user.id));
+
+    if (previous?.key) {
+      await deleteStoredAvatar(previous.key);
+    }
+
+    logger.info('Avatar updated', { userId: req.user.id, key });
+
+    return Response.success(profile, 'Profile picture updated');
+  } finally {
+    // the raw upload is never served; drop it whether or not it was accepted
+    await storage.deleteObject(claims.key).catch(error => {
+      logger.warn('Failed to delete pending avatar upload', { key: claims.key, error });
+    });
+  }
+});
+
+/**
+ * Delete Avatar Handler
+ * - Clears the profile picture and deletes the stored objects
+ *
+ * @route DELETE /api/users/me/avatar
+ * @access Private
+ * @throws NotFound if the user has no profile picture
+ */
+export const deleteAvatarHandler = asyncHandler(async (req: AuthenticatedRequest, _res: ExpressResponse) => {
+  const [user] = await db
+    .select({ url: users.profilePictureUrl, key: users.profilePictureKey })
+    .from(users)
+    .where(eq(users.id, req.user.id))
+    .limit(1);
+
+  if (!user?.url) {
+    throw ErrorHandler.NotFound('No profile picture to delete');
+  }
+
+  await db
+    .update(users)
+    .set({
+      profilePictureUrl: null,
+      profilePictureThumbnailUrl: null,
+      profilePictureKey: null,
+      updatedAt: new Date(),
+    })
+    .where(eq(users.id, req.user.id));
+
+  if (user.key) {
+    await deleteStoredAvatar(user.key);
+  }
+
+  logger.info('Avatar removed', { userId: req.user.id });
+
+  return Response.success(null, 'Profile picture removed');
+});
+
+// Export handlers with validation middleware
+export const requestAvatarUploadWithValidation = [
+  validate(data => AvatarUploadRequestSchema.parse(data)),
+  authMiddleware,
+  requestAvatarUploadHandler,
+];
+
+export const confirmAvatarUploadWithValidation = [
+  validate(data => ConfirmAvatarUploadSchema.parse(data)),
+  authMiddleware,
+  confirmAvatarUploadHandler,
+];
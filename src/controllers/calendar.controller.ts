@@ -0,0 +1,367 @@
+/**
+ * Calendar Controller
+ *
+ * Google Calendar pull sync: the push notification webhook Google calls when
+ * a watched calendar changes, and an on-demand sync for the signed-in user.
+ * Also the user's calendar preferences: the calendars tasks can be synced to
+ * and the target calendar and event options of synced tasks. And the user's
+ * CalDAV account, which tasks sync to instead of Google once connected.
+ * Finally the background calendar jobs: importing calendar events as tasks,
+ * and the progress of imports and of the backfills run on connecting.
+ *
+ * @module controllers/calendar.controller
+ * @requires express
+ * @requires @/utils/googleCalendarSync
+ * @exports googleCalendarNotificationHandler - Receives Google Calendar push notifications
+ * @exports syncCalendarHandler - Pulls the user's Google Calendar changes now
+ * @exports listGoogleCalendarsHandler - Lists the calendars tasks can be synced to
+ * @exports getCalendarPreferencesHandler - Returns the user's calendar preferences
+ * @exports updateCalendarPreferencesWithValidation - Updates the user's calendar preferences
+ * @exports getCalDavAccountHandler - Returns the user's CalDAV account
+ * @exports connectCalDavAccountWithValidation - Connects a CalDAV account
+ * @exports listCalDavCalendarsHandler - Lists the calendars of the user's CalDAV account
+ * @exports disconnectCalDavAccountWithValidation - Disconnects the user's CalDAV account
+ * @exports startCalendarImportWithValidation - Starts importing calendar events as tasks
+ * @exports listCalendarJobsHandler - Lists the user's calendar backfills and imports
+ * @exports getCalendarJobWithValidation - Returns the progress of a calendar job
+ */
+
+import type { Request as ExpressRequest, Response as ExpressResponse } from 'express';
+import type { z } from 'zod';
+import logger from '@/core/logger';
+import { getCalendarProvider, listGoogleCalendars, type GoogleCalendarListEntry } from '@/core/calendar';
+import { authMiddleware } from '@/middlewares/auth.middleware';
+import { verifyUserAccess } from '@/middlewares/verifyUserAccess';
+import type { AuthenticatedRequest } from '@/types/auth-request';
+import { asyncHandler, Response, validate } from '@/utils/asyncHandler';
+import { connectCalDavAccount, disconnectCalDavAccount, getCalDavAccount } from '@/utils/caldavAccounts';
+import { getCalendarJob, listCalendarJobs, startCalendarImport } from '@/utils/calendarJobs';
+import { getCalendarPreferences, saveCalendarPreferences } from '@/utils/calendarPreferences';
+import ErrorHandler from '@/utils/errorHandler';
+import { handleCalendarNotification, pullCalendarChanges } from '@/utils/googleCalendarSync';
+import { getGoogleConnectionStatus } from '@/utils/googleStatus';
+import { getOAuthAccessToken } from '@/utils/oauthTokens';
+import {
+  CalDavAccountSchema,
+  CalDavDisconnectSchema,
+  CalendarImportSchema,
+  CalendarJobParamsSchema,
+  CalendarPreferencesSchema,
+} from '@/utils/validations';
+
+/**
+ * Google Calendar Notification Handler
+ * - Google identifies the channel with X-Goog-* headers; the body is empty
+ * - Notifications of unknown channels or with a wrong token are ignored
+ * - Always answers 204, since any other status makes Google retry
+ *
+ * @exports googleCalendarNotificationHandler
+ */
+export const googleCalendarNotificationHandler = asyncHandler(async (req: ExpressRequest, res: ExpressResponse) => {
+  const notification = {
+    channelId: req.get('X-Goog-Channel-ID'),
+    channelToken: req.get('X-Goog-Channel-Token'),
+    resourceId: req.get('X-Goog-Resource-ID'),
+    resourceState: req.get('X-Goog-Resource-State'),
+  };
+
+  if (!(await handleCalendarNotification(notification))) {
+    logger.warn('Ignored Google Calendar notification for an unknown channel', {
+      channelId: notification.channelId,
+      resourceState: notification.resourceState,
+    });
+  }
+
+  res.status(204).end();
+});
+
+/**
+ * Sync Calendar Handler
+ * - Applies the changes made in Google Calendar since the last pull right away
+ *
+ * @exports syncCalendarHandler
+ * @returns How many tasks were updated, deleted or pushed back to Google
+ * @throws BadRequest if Google Calendar is not connected
+ * @throws InternalServerError if Google rejects the sync or cannot be reached
+ */
+export const syncCalendarHandler = asyncHandler(async (req: AuthenticatedRequest) => {
+  verifyUserAccess(req);
+
+  let result: Awaited<ReturnType<typeof pullCalendarChanges>>;
+  try {
+    result = await pullCalendarChanges(req.user.id);
+  } catch (err) {
+    throw ErrorHandler.InternalServerError('Google Calendar could not be synced, please try again later', {
+      userId: req.user.id,
+      error: err instanceof Error ? err.message : String(err),
+    });
+  }
+
+  if (!result) {
+    throw ErrorHandler.BadRequest('Google Calendar is not connected');
+  }
+
+  logger.info('Google Calendar synced', { userId: req.user.id, ...result });
+  return Response.success(result, 'Google Calendar synced');
+});
+
+/**
+ * The calendars the user can add events to
+ *
+ * @throws BadRequest if Google Calendar is not connected
+ * @throws InternalServerError if Google rejects the request or cannot be reached
+ */
+async function writableCalendars(req: AuthenticatedRequest): Promise<GoogleCalendarListEntry[]> {
+  const accessToken = getGoogleConnectionStatus(req).connected
+    ? await getOAuthAccessToken('google', req.user.id)
+    : null;
+  if (!accessToken) {
+    throw ErrorHandler.BadRequest('Google Calendar is not connected');
+  }
+
+  try {
+    return await listGoogleCalendars(accessToken);
+  } catch (err) {
+    throw ErrorHandler.InternalServerError('Google calendars could not be listed, please try again later', {
+      userId: req.user.id,
+      error: err instanceof Error ? err.message : String(err),
+    });
+  }
+}
+
+/**
+ * Whether a calendar is the one set by a calendar id; `primary` is an alias of the primary calendar
+ */
+const isCalendar = (entry: GoogleCalendarListEntry, calendarId: string) =>
+  entry.id === calendarId || (calendarId === 'primary' && entry.primary === true);
+
+/**
+ * List Google Calendars Handler
+ * - Only calendars the user can write to; `selected` marks the default target calendar
+ *
+ * @exports listGoogleCalendarsHandler
+ * @throws BadRequest if Google Calendar is not connected
+ * @throws InternalServerError if Google rejects the request or cannot be reached
+ */
+export const listGoogleCalendarsHandler = asyncHandler(async (req: AuthenticatedRequest) => {
+  verifyUserAccess(req);
+
+  const [calendars, prefs] = await Promise.all([writableCalendars(req), getCalendarPreferences(req.user.id)]);
+
+  const data = calendars.map(entry => ({
+    id: entry.id,
+    summary: entry.summary,
+    primary: entry.primary === true,
+    accessRole: entry.accessRole,
+    backgroundColor: entry.backgroundColor ?? null,
+    timeZone: entry.timeZone ?? null,
+    selected: isCalendar(entry, prefs.calendarId),
+  }));
+
+  return Response.success(data, 'Google calendars retrieved');
+});
+
+/**
+ * Get Calendar Preferences Handler
+ * - Users who saved no preferences get the defaults
+ *
+ * @exports getCalendarPreferencesHandler
+ */
+export const getCalendarPreferencesHandler = asyncHandler(async (req: AuthenticatedRequest) => {
+  verifyUserAccess(req);
+
+  const prefs = await getCalendarPreferences(req.user.id);
+  return Response.success(prefs, 'Calendar preferences retrieved');
+});
+
+/**
+ * Update Calendar Preferences Handler
+ * - A new default calendar must be one the user can write to
+ * - Synced tasks pick up the new options the next time they are pushed
+ *
+ * @exports updateCalendarPreferencesHandler
+ * @throws BadRequest if the calendar is unknown, or Google Calendar is not connected to check it
+ */
+export const updateCalendarPreferencesHandler = asyncHandler(async (req: AuthenticatedRequest) => {
+  verifyUserAccess(req);
+
+  const changes = (req.body ?? {}) as z.infer<typeof CalendarPreferencesSchema>;
+
+  if (changes.calendarId !== undefined && changes.calendarId !== 'primary') {
+    const current = await getCalendarPreferences(req.user.id);
+    if (changes.calendarId !== current.calendarId) {
+      const calendars = await writableCalendars(req);
+      if (!calendars.some(entry => isCalendar(entry, changes.calendarId as string))) {
+        throw ErrorHandler.BadRequest('Calendar not found or not writable');
+      }
+    }
+  }
+
+  const prefs = await saveCalendarPreferences(req.user.id, changes);
+
+  logger.info('Calendar preferences updated', { userId: req.user.id, updatedFields: Object.keys(changes) });
+  return Response.success(prefs, 'Calendar preferences updated');
+});
+
+export const updateCalendarPreferencesWithValidation = [
+  validate(data => CalendarPreferencesSchema.parse(data)),
+  authMiddleware,
+  updateCalendarPreferencesHandler,
+];
+
+/**
+ * Get CalDAV Account Handler
+ * - The password is never returned
+ *
+ * @exports getCalDavAccountHandler
+ * @returns The account, or null if none is connected
+ */
+export const getCalDavAccountHandler = asyncHandler(async (req: AuthenticatedRequest) => {
+  verifyUserAccess(req);
+
+  const account = await getCalDavAccount(req.user.id);
+  return Response.success(account, account ? 'CalDAV account retrieved' : 'No CalDAV account connected');
+});
+
+/**
+ * Connect CalDAV Account Handler
+ * - Checks the credentials by discovering the server's calendars, then stores the account
+ * - Tasks sync to CalDAV from now on; existing events move over on their next push
+ *
+ * @exports connectCalDavAccountHandler
+ * @returns The account
+ * @throws BadRequest if the server cannot be reached, rejects the credentials or lacks the calendar
+ */
+export const connectCalDavAccountHandler = asyncHandler(async (req: AuthenticatedRequest) => {
+  verifyUserAccess(req);
+
+  const input = req.body as z.infer<typeof CalDavAccountSchema>;
+  const account = await connectCalDavAccount(req.user.id, input);
+
+  return Response.success(account, 'CalDAV account connected');
+});
+
+export const connectCalDavAccountWithValidation = [
+  validate(data => CalDavAccountSchema.parse(data)),
+  authMiddleware,
+  connectCalDavAccountHandler,
+];
+
+/**
+ * List CalDAV Calendars Handler
+ * - `selected` marks the default calendar of synced tasks
+ *
+ * @exports listCalDavCalendarsHandler
+ * @throws BadRequest if no CalDAV account is connected
+ * @throws InternalServerError if the server rejects the request or cannot be reached
+ */
+export const listCalDavCalendarsHandler = asyncHandler(async (req: AuthenticatedRequest) => {
+  verifyUserAccess(req);
+
+  const connection = await getCalendarProvider('caldav')?.connect(req.user.id);
+  if (!connection) {
+    throw ErrorHandler.BadRequest('No CalDAV account connected');
+  }
+
+  let calendars: Awaited<ReturnType<typeof connection.listCalendars>>;
+  try {
+    calendars = await connection.listCalendars();
+  } catch (err) {
+    throw ErrorHandler.InternalServerError('CalDAV calendars could not be listed, please try again later', {
+      userId: req.user.id,
+      error: err instanceof Error ? err.message : String(err),
+    });
+  }
+
+  const data = calendars.map(({ primary, ...calendar }) => ({ ...calendar, selected: primary }));
+  return Response.success(data, 'CalDAV calendars retrieved');
+});
+
+/**
+ * Disconnect CalDAV Account Handler
+ * - Optionally deletes the events synced for the user's tasks
+ * - Tasks go back to Google Calendar if it is connected
+ *
+ * @exports disconnectCalDavAccountHandler
+ * @returns Whether an account was connected and how many calendar events were removed
+ */
+export const disconnectCalDavAccountHandler = asyncHandler(async (req: AuthenticatedRequest) => {
+  verifyUserAccess(req);
+
+  const { removeCalendarEvents } = (req.body ?? {}) as z.infer<typeof CalDavDisconnectSchema>;
+  const result = await disconnectCalDavAccount(req.user.id, { removeCalendarEvents: removeCalendarEvents === true });
+
+  return Response.success(result, result.disconnected ? 'CalDAV account disconnected' : 'No CalDAV account connected');
+});
+
+export const disconnectCalDavAccountWithValidation = [
+  validate(data => CalDavDisconnectSchema.parse(data)),
+  authMiddleware,
+  disconnectCalDavAccountHandler,
+];
+
+/**
+ * Start Calendar Import Handler
+ * - Queues an import of the events in the range as tasks linked to their event
+ * - The import runs in the background; its progress is reported by the calendar jobs endpoints
+ *
+ * @exports startCalendarImportHandler
+ * @returns The queued job
+ * @throws BadRequest if no calendar is connected
+ * @throws Conflict if an import is still running
+ */
+export const startCalendarImportHandler = asyncHandler(async (req: AuthenticatedRequest) => {
+  verifyUserAccess(req);
+
+  const { from, to, calendarId } = req.body as z.infer<typeof CalendarImportSchema>;
+  const job = await startCalendarImport(req.user.id, {
+    from: from ? new Date(from) : new Date(),
+    to: new Date(to),
+    calendarId,
+  });
+
+  return Response.success(job, 'Calendar import started', 202);
+});
+
+export const startCalendarImportWithValidation = [
+  validate(data => CalendarImportSchema.parse(data)),
+  authMiddleware,
+  startCalendarImportHandler,
+];
+
+/**
+ * List Calendar Jobs Handler
+ * - The latest backfills and imports of the user, newest first
+ *
+ * @exports listCalendarJobsHandler
+ */
+export const listCalendarJobsHandler = asyncHandler(async (req: AuthenticatedRequest) => {
+  verifyUserAccess(req);
+
+  const jobs = await listCalendarJobs(req.user.id);
+  return Response.success(jobs, 'Calendar jobs retrieved');
+});
+
+/**
+ * Get Calendar Job Handler
+ *
+ * @exports getCalendarJobHandler
+ * @throws NotFound if the user has no job with this id
+ */
+export const getCalendarJobHandler = asyncHandler(async (req: AuthenticatedRequest) => {
+  verifyUserAccess(req);
+
+  const { id } = req.params;
+
+  const job = await getCalendarJob(req.user.id, id);
+  if (!job) {
+    throw ErrorHandler.NotFound('Calendar job not found');
+  }
+  return Response.success(job, 'Calendar job retrieved');
+});
+
+export const getCalendarJobWithValidation = [
+  validate(data => CalendarJobParamsSchema.parse(data)),
+  authMiddleware,
+  getCalendarJobHandler,
+];
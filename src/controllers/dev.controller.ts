@@ -0,0 +1,63 @@
+/**
+ * Development Controller
+ *
+ * Tools that only exist while NODE_ENV is development. The routes are not
+ * mounted in any other environment.
+ *
+ * @module controllers/dev.controller
+ * @requires @/core/mail
+ * @exports listEmailTemplatesHandler - Lists the email templates and locales
+ * @exports previewEmailHandler - Renders a template with sample data
+ */
+
+import type { Request as ExpressRequest, Response as ExpressResponse } from 'express';
+import {
+  EMAIL_LOCALES,
+  EMAIL_PREVIEW_DATA,
+  EMAIL_TEMPLATE_IDS,
+  isEmailTemplateId,
+  renderEmail,
+  resolveEmailLocale,
+} from '@/core/mail';
+import { asyncHandler, Response } from '@/utils/asyncHandler';
+import ErrorHandler from '@/utils/errorHandler';
+
+/**
+ * List Email Templates Handler
+ *
+ * @exports listEmailTemplatesHandler
+ * @returns Template ids and supported locales
+ */
+export const listEmailTemplatesHandler = asyncHandler(async () =>
+  Response.success({ templates: EMAIL_TEMPLATE_IDS, locales: EMAIL_LOCALES }, 'Email templates retrieved'),
+);
+
+/**
+ * Preview Email Handler
+ * - Renders the template with fixed sample data
+ * - `format` picks the HTML page (default), the plain-text body or both as JSON
+ *
+ * @exports previewEmailHandler
+ * @throws NotFound if the template id is unknown
+ */
+export const previewEmailHandler = asyncHandler(async (req: ExpressRequest, res: ExpressResponse) => {
+  const template = req.params.template as string;
+  const { locale, format } = req.query as { locale?: string; format?: string };
+
+  if (!isEmailTemplateId(template)) {
+    throw ErrorHandler.NotFound(`Unknown email template: ${template}`);
+  }
+
+  const rendered = renderEmail(template, EMAIL_PREVIEW_DATA[template], resolveEmailLocale(locale));
+
+  if (format === 'json') {
+    return Response.success(rendered, 'Email rendered');
+  }
+
+  if (format === 'text') {
+    res.type('text/plain').send(`Subject: ${rendered.subject}\n\n${rendered.text}`);
+    return;
+  }
+
+  res.type('html').send(rendered.html);
+});
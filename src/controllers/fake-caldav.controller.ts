@@ -0,0 +1,64 @@
+/**
+ * Fake CalDAV Controller
+ *
+ * HTTP front of the in-memory fake CalDAV server
+ * (`core/calendar/fake-caldav.server`). Connect a CalDAV account with the
+ * server URL <API_URL>/api/dev/caldav/ and any user name and password to
+ * sync against it. The routes are only mounted when DEV_SERVERS_ENABLED is true.
+ * Responses are WebDAV, not the API's envelope.
+ *
+ * @module controllers/fake-caldav.controller
+ * @requires @/core/calendar
+ * @exports fakeCalDavHandler - Serves every WebDAV request
+ */
+
+import type { Request as ExpressRequest, Response as ExpressResponse } from 'express';
+import { fakeCalDavServer } from '@/core/calendar';
+import { asyncHandler } from '@/utils/asyncHandler';
+
+/**
+ * User name of HTTP Basic credentials; the password is not checked
+ */
+const basicUser = (authorization: string | undefined): string | null => {
+  const match = /^Basic\s+(\S+)$/i.exec(authorization ?? '');
+  if (!match) {
+    return null;
+  }
+  const [user] = Buffer.from(match[1], 'base64').toString('utf8').split(':');
+  return user || null;
+};
+
+/**
+ * Fake CalDAV Handler
+ * - Rejects requests without Basic credentials, like a real server does
+ *
+ * @exports fakeCalDavHandler
+ */
+export const fakeCalDavHandler = asyncHandler(async (req: ExpressRequest, res: ExpressResponse) => {
+  const user = basicUser(req.headers.authorization);
+  if (!user) {
+    res.status(401).set('WWW-Authenticate', 'Basic realm="Fake CalDAV"').end();
+    return;
+  }
+
+  const headers: Record<string, string | undefined> = {};
+  for (const [name, value] of Object.entries(req.headers)) {
+    headers[name.toLowerCase()] = Array.isArray(value) ? value.join(', ') : value;
+  }
+
+  const response = fakeCalDavServer.handle({
+    method: req.method,
+    basePath: req.baseUrl,
+    path: req.path,
+    user,
+    headers,
+    body: typeof req.body === 'string' ? req.body : '',
+  });
+
+  res.status(response.status).set(response.headers ?? {});
+  if (response.body === undefined) {
+    res.end();
+    return;
+  }
+  res.send(response.body);
+});
@@ -0,0 +1,149 @@
+/**
+ * Fake Calendar Controller
+ *
+ * HTTP front of the in-memory fake Google Calendar server
+ * (`core/calendar/fake-google.server`). Point GOOGLE_CALENDAR_API_URL at
+ * <API_URL>/api/dev/calendar/v3 to sync against it. The routes are only
+ * mounted when DEV_SERVERS_ENABLED is true. Responses follow the Calendar API, not the
+ * API's envelope; any bearer token is accepted.
+ *
+ * @module controllers/fake-calendar.controller
+ * @requires @/core/calendar
+ * @exports fakeListCalendarsHandler - Lists the calendars of the account
+ * @exports fakeInsertCalendarHandler - Creates a secondary calendar
+ * @exports fakeListEventsHandler - Lists events, incrementally with a sync token
+ * @exports fakeInsertEventHandler - Creates an event
+ * @exports fakeGetEventHandler - Returns an event
+ * @exports fakePatchEventHandler - Updates an event
+ * @exports fakeMoveEventHandler - Moves an event to another calendar
+ * @exports fakeDeleteEventHandler - Deletes an event
+ * @exports fakeWatchEventsHandler - Opens a push channel
+ * @exports fakeStopChannelHandler - Closes a push channel
+ * @exports fakeExpireSyncTokensHandler - Invalidates every sync token
+ */
+
+import type { NextFunction, Request as ExpressRequest, Response as ExpressResponse } from 'express';
+import { fakeGoogleCalendarServer, type FakeCalendarResponse } from '@/core/calendar';
+import { asyncHandler } from '@/utils/asyncHandler';
+
+const send = (res: ExpressResponse, { status, body }: FakeCalendarResponse) => {
+  if (body === undefined) {
+    res.status(status).end();
+    return;
+  }
+  res.status(status).json(body);
+};
+
+/**
+ * Reject requests without a bearer token, like Google does
+ */
+export const requireFakeBearer = (req: ExpressRequest, res: ExpressResponse, next: NextFunction) => {
+  if (!/^Bearer \S+$/i.test(req.headers.authorization ?? '')) {
+    res.status(401).json({ error: { code: 401, message: 'Login Required', errors: [{ reason: 'required' }] } });
+    return;
+  }
+  next();
+};
+
+/**
+ * Fake List Calendars Handler
+ *
+ * @exports fakeListCalendarsHandler
+ */
+export const fakeListCalendarsHandler = asyncHandler(async (_req: ExpressRequest, res: ExpressResponse) => {
+  send(res, fakeGoogleCalendarServer.listCalendars());
+});
+
+/**
+ * Fake Insert Calendar Handler
+ *
+ * @exports fakeInsertCalendarHandler
+ */
+export const fakeInsertCalendarHandler = asyncHandler(async (req: ExpressRequest, res: ExpressResponse) => {
+  send(res, fakeGoogleCalendarServer.insertCalendar(req.body ?? {}));
+});
+
+/**
+ * Fake List Events Handler
+ *
+ * @exports fakeListEventsHandler
+ */
+export const fakeListEventsHandler = asyncHandler(async (req: ExpressRequest, res: ExpressResponse) => {
+  send(res, fakeGoogleCalendarServer.listEvents(req.params.calendarId, req.query as Record<string, string>));
+});
+
+/**
+ * Fake Insert Event Handler
+ *
+ * @exports fakeInsertEventHandler
+ */
+export const fakeInsertEventHandler = asyncHandler(async (req: ExpressRequest, res: ExpressResponse) => {
+  send(res, fakeGoogleCalendarServer.insertEvent(req.params.calendarId, req.body ?? {}));
+});
+
+/**
+ * Fake Get Event Handler
+ *
+ * @exports fakeGetEventHandler
+ */
+export const fakeGetEventHandler = asyncHandler(async (req: ExpressRequest, res: ExpressResponse) => {
+  send(res, fakeGoogleCalendarServer.getEvent(req.params.calendarId, req.params.eventId));
+});
+
+/**
+ * Fake Patch Event Handler
+ * - Also serves PUT; only summary, description, start and end are stored
+ *
+ * @exports fakePatchEventHandler
+ */
+export const fakePatchEventHandler = asyncHandler(async (req: ExpressRequest, res: ExpressResponse) => {
+  send(res, fakeGoogleCalendarServer.patchEvent(req.params.calendarId, req.params.eventId, req.body ?? {}));
+});
+
+/**
+ * Fake Move Event Handler
+ *
+ * @exports fakeMoveEventHandler
+ */
+export const fakeMoveEventHandler = asyncHandler(async (req: ExpressRequest, res: ExpressResponse) => {
+  const destination = typeof req.query.destination === 'string' ? req.query.destination : undefined;
+  send(res, fakeGoogleCalendarServer.moveEvent(req.params.calendarId, req.params.eventId, destination));
+});
+
+/**
+ * Fake Delete Event Handler
+ *
+ * @exports fakeDeleteEventHandler
+ */
+export const fakeDeleteEventHandler = asyncHandler(async (req: ExpressRequest, res: ExpressResponse) => {
+  send(res, fakeGoogleCalendarServer.deleteEvent(req.params.calendarId, req.params.eventId));
+});
+
+/**
+ * Fake Watch Events Handler
+ *
+ * @exports fakeWatchEventsHandler
+ */
+export const fakeWatchEventsHandler = asyncHandler(async (req: ExpressRequest, res: ExpressResponse) => {
+  send(res, fakeGoogleCalendarServer.watch(req.params.calendarId, req.body ?? {}));
+});
+
+/**
+ * Fake Stop Channel Handler
+ *
+ * @exports fakeStopChannelHandler
+ */
+export const fakeStopChannelHandler = asyncHandler(async (req: ExpressRequest, res: ExpressResponse) => {
+  send(res, fakeGoogleCalendarServer.stopChannel(req.body ?? {}));
+});
+
+/**
+ * Fake Expire Sync Tokens Handler
+ * - Test hook: the next incremental sync gets 410 and has to start over
+ *
+ * @exports fakeExpireSyncTokensHandler
+ */
+export const fakeExpireSyncTokensHandler = asyncHandler(async (_req: ExpressRequest, res: ExpressResponse) => {
+  fakeGoogleCalendarServer.expireSyncTokens();
+  res.status(204).end();
+});
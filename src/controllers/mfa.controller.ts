@@ -0,0 +1,311 @@
+/**
+ * MFA Controller
+ *
+ * Handles TOTP (RFC 6238) two-factor authentication: enrollment, confirmation,
+ * recovery codes, disabling and the second step of login.
+ *
+ * Login flow with MFA enabled:
+ *  1. POST /api/auth/login returns `{ mfaRequired: true, mfaToken }` instead of a session.
+ *  2. POST /api/auth/login/mfa with `mfaToken` and a TOTP or recovery code issues the real tokens.
+ * OAuth sign-ins hand the challenge over in an httpOnly cookie instead, which step 2 reads when the
+ * body has no `mfaToken`.
+ *
+ * Patterns Used:
+ *  - Controller Pattern: Encapsulates MFA logic in a dedicated controller.
+ *  - Middleware Pattern: Uses asyncHandler for cleaner async route handling.
+ *  - Validation Pattern: Centralized input validation with Zod schemas.
+ *
+ * @module controllers/mfa.controller
+ * @requires express
+ * @requires drizzle-orm
+ * @requires qrcode
+ * @requires @/db
+ * @requires @/db/schemas
+ * @requires @/utils/totp
+ * @requires @/utils/secretEncryption
+ * @requires @/utils/jwt_session
+ * @exports enrollMfaHandler - Starts TOTP enrollment
+ * @exports confirmMfaWithValidation - Confirms enrollment and returns recovery codes
+ * @exports disableMfaWithValidation - Disables TOTP 2FA
+ * @exports loginMfaWithValidation - Completes an MFA login challenge
+ */
+
+import type { Request as ExpressRequest, Response as ExpressResponse } from 'express';
+import { and, eq, isNull, lt, or } from 'drizzle-orm';
+import QRCode from 'qrcode';
+import { db } from '@/db';
+import { mfaRecoveryCodes, users } from '@/db/schemas';
+import { asyncHandler, Response, validate } from '@/utils/asyncHandler';
+import ErrorHandler from '@/utils/errorHandler';
+import { MfaCodeSchema, MfaLoginSchema } from '@/utils/validations';
+import { buildOtpauthUri, generateRecoveryCodes, generateTotpSecret, hashRecoveryCode, verifyTotp } from '@/utils/totp';
+import { decryptSecret, encryptSecret } from '@/utils/secretEncryption';
+import {
+  clearMfaChallengeCookie,
+  generateJWTandSetCookie,
+  getSessionContext,
+  MFA_CHALLENGE_COOKIE,
+  readCookie,
+  verifyMfaChallengeToken,
+} from '@/utils/jwt_session';
+import {
+  assertNotThrottled,
+  clearFailedAttempts,
+  registerFailedAttempt,
+  type ThrottleKey,
+} from '@/utils/bruteForceGuard';
+import { authMiddleware } from '@/middlewares/auth.middleware';
+import type { AuthenticatedRequest } from '@/types/auth-request';
+import logger from '@/core/logger';
+import { env } from '@/env';
+
+type SecondFactor = 'totp' | 'recovery_code';
+
+/**
+ * Verify a TOTP or recovery code for a user
+ * - TOTP codes are single-use: the accepted time step must be newer than the last one
+ * - Recovery codes are consumed atomically
+ * @param storedSecret - The encrypted TOTP secret as stored in users.mfa_secret
+ * @returns Which factor matched, or null if the code is invalid
+ */
+async function verifySecondFactor(userId: string, storedSecret: string, code: string): Promise<SecondFactor | null> {
+  const step = verifyTotp(decryptSecret(storedSecret), code.trim());
+
+  if (step !== null) {
+    const [accepted] = await db
+      .update(users)
+      .set({ mfaLastUsedStep: step })
+      .where(and(eq(users.id, userId), or(isNull(users.mfaLastUsedStep), lt(users.mfaLastUsedStep, step))))
+      .returning({ id: users.id });
+
+    return accepted ? 'totp' : null;
+  }
+
+  const [consumed] = await db
+    .update(mfaRecoveryCodes)
+    .set({ usedAt: new Date() })
+    .where(
+      and(
+        eq(mfaRecoveryCodes.userId, userId),
+        eq(mfaRecoveryCodes.codeHash, hashRecoveryCode(code)),
+        isNull(mfaRecoveryCodes.usedAt),
+      ),
+    )
+    .returning({ id: mfaRecoveryCodes.id });
+
+  return consumed ? 'recovery_code' : null;
+}
+
+/**
+ * Enroll MFA Handler
+ * - Generates a new TOTP secret for the authenticated user
+ * - Returns the secret, the otpauth URI and a QR code data URL
+ * - 2FA stays disabled until the enrollment is confirmed with a valid code
+ * - The secret is stored encrypted with CREDENTIALS_ENCRYPTION_KEY
+ *
+ * @route POST /api/auth/mfa/enroll
+ * @access Private
+ * @throws Conflict if 2FA is already enabled
+ */
+export const enrollMfaHandler = asyncHandler(async (req: AuthenticatedRequest, _res: ExpressResponse) => {
+  const [user] = await db
+    .select({ id: users.id, email: users.email, mfaEnabled: users.mfaEnabled })
+    .from(users)
+    .where(eq(users.id, req.user.id))
+    .limit(1);
+
+  if (!user) {
+    throw ErrorHandler.NotFound('User not found');
+  }
+
+  if (user.mfaEnabled) {
+    throw ErrorHandler.Conflict('Two-factor authentication is already enabled');
+  }
+
+  const secret = generateTotpSecret();
+  const otpauthUri = buildOtpauthUri({ secret, accountName: user.email, issuer: env.MFA_ISSUER as string });
+  const qrCodeDataUrl = await QRCode.toDataURL(otpauthUri);
+
+  await db
+    .update(users)
+    .set({ mfaSecret: encryptSecret(secret), mfaLastUsedStep: null })
+    .where(eq(users.id, user.id));
+
+  logger.info('MFA enrollment started', { userId: user.id });
+
+  return Response.success({ secret, otpauthUri, qrCodeDataUrl }, 'Scan the QR code and confirm with a code');
+});
+
+/**
+ * Confirm MFA Handler
+ * - Verifies a TOTP code against the pending secret
+ * - Enables 2FA and returns freshly generated one-time recovery codes
+ *
+ * @route POST /api/auth/mfa/confirm
+ * @access Private
+ * @throws BadRequest if enrollment was not started or the code is invalid
+ */
+export const confirmMfaHandler = asyncHandler(async (req: AuthenticatedRequest, _res: ExpressResponse) => {
+  const { code } = req.body;
+
+  const [user] = await db
+    .select({ id: users.id, mfaEnabled: users.mfaEnabled, mfaSecret: users.mfaSecret })
+    .from(users)
+    .where(eq(users.id, req.user.id))
+    .limit(1);
+
+  if (!user?.mfaSecret) {
+    throw ErrorHandler.BadRequest('MFA enrollment has not been started');
+  }
+
+  if (user.mfaEnabled) {
+    throw ErrorHandler.Conflict('Two-factor authentication is already enabled');
+  }
+
+  const step = verifyTotp(decryptSecret(user.mfaSecret), code.trim());
+  if (step === null) {
+    throw ErrorHandler.BadRequest('Invalid verification code');
+  }
+
+  const recoveryCodes = generateRecoveryCodes();
+
+  await db.transaction(async tx => {
+    await tx.update(users).set({ mfaEnabled: true, mfaLastUsedStep: step }).where(eq(users.id, user.id));
+    await tx.delete(mfaRecoveryCodes).where(eq(mfaRecoveryCodes.userId, user.id));
+    await tx
+      .insert(mfaRecoveryCodes)
+      .values(recoveryCodes.map(recoveryCode => ({ userId: user.id, codeHash: hashRecoveryCode(recoveryCode) })));
+  });
+
+  logger.info('MFA enabled', { userId: user.id });
+
+  return Response.success({ recoveryCodes }, 'Two-factor authentication enabled. Store the recovery codes safely');
+});
+
+/**
+ * Disable MFA Handler
+ * - Requires a valid TOTP or recovery code
+ * - Clears the secret and all recovery codes
+ *
+ * @route POST /api/auth/mfa/disable
+ * @access Private
+ * @throws BadRequest if 2FA is not enabled or the code is invalid
+ */
+export const disableMfaHandler = asyncHandler(async (req: AuthenticatedRequest, _res: ExpressResponse) => {
+  const { code } = req.body;
+
+  const [user] = await db
+    .select({ id: users.id, mfaEnabled: users.mfaEnabled, mfaSecret: users.mfaSecret })
+    .from(users)
+    .where(eq(users.id, req.user.id))
+    .limit(1);
+
+  if (!user?.mfaEnabled || !user.mfaSecret) {
+    throw ErrorHandler.BadRequest('Two-factor authentication is not enabled');
+  }
+
+  const factor = await verifySecondFactor(user.id, user.mfaSecret, code);
+  if (!factor) {
+    throw ErrorHandler.BadRequest('Invalid verification code');
+  }
+
+  await db.transaction(async tx => {
+    await tx
+      .update(users)
+      .set({ mfaEnabled: false, mfaSecret: null, mfaLastUsedStep: null })
+      .where(eq(users.id, user.id));
+    await tx.delete(mfaRecoveryCodes).where(eq(mfaRecoveryCodes.userId, user.id));
+  });
+
+  logger.info('MFA disabled', { userId: user.id, factor });
+
+  return Response.success(null, 'Two-factor authentication disabled');
+});
+
+/**
+ * Login MFA Handler
+ * - Completes a login that returned an "mfa pending" challenge
+ * - Accepts a TOTP code or an unused recovery code
+ * - The challenge comes from the body or, after an OAuth sign-in, from the MFA cookie
+ * - Creates the session and sets auth cookies like a regular login
+ *
+ * @route POST /api/auth/login/mfa
+ * @access Public (requires an MFA challenge token)
+ * @throws AuthError if the challenge or the code is invalid
+ */
+export const loginMfaHandler = asyncHandler(async (req: ExpressRequest, res: ExpressResponse) => {
+  const { code } = req.body;
+  const mfaToken = (req.body.mfaToken as string | undefined) ?? readCookie(req, MFA_CHALLENGE_COOKIE);
+  if (!mfaToken) {
+    throw ErrorHandler.AuthError('MFA token is required');
+  }
+
+  const userId = verifyMfaChallengeToken(mfaToken);
+
+  const [user] = await db
+    .select({
+      id: users.id,
+      username: users.username,
+      email: users.email,
+      role: users.role,
+      profilePictureUrl: users.profilePictureUrl,
+      isVerified: users.isVerified,
+      googleConnected: users.googleConnected,
+      mfaEnabled: users.mfaEnabled,
+      mfaSecret: users.mfaSecret,
+      suspendedAt: users.suspendedAt,
+      createdAt: users.createdAt,
+      updatedAt: users.updatedAt,
+    })
+    .from(users)
+    .where(eq(users.id, userId))
+    .limit(1);
+
+  if (!user?.mfaEnabled || !user.mfaSecret) {
+    throw ErrorHandler.AuthError('Invalid MFA challenge');
+  }
+
+  // the 6-digit code is as guessable as a password; its account counter survives a correct password
+  const throttleKeys: ThrottleKey[] = [
+    { scope: 'mfa_account', identifier: user.id },
+    { scope: 'login_ip', identifier: req.ip ?? '' },
+  ];
+  await assertNotThrottled(throttleKeys);
+
+  const factor = await verifySecondFactor(user.id, user.mfaSecret, code);
+  if (!factor) {
+    await Promise.all(throttleKeys.map(registerFailedAttempt));
+    throw ErrorHandler.AuthError('Invalid verification code');
+  }
+
+  await clearFailedAttempts([throttleKeys[0]]);
+
+  if (user.suspendedAt) {
+    throw ErrorHandler.Forbidden('Account suspended');
+  }
+
+  if (factor === 'recovery_code') {
+    logger.warn('Login completed with an MFA recovery code', { userId: user.id });
+  }
+
+  const { mfaSecret: _s, suspendedAt: _sa, ...userSafe } = user;
+  const { accessToken, refreshToken } = await generateJWTandSetCookie(res, user.id, getSessionContext(req));
+  clearMfaChallengeCookie(res);
+
+  return Response.success({ token: accessToken, refreshToken, user: userSafe }, 'Login successful');
+});
+
+// Export handlers with validation middleware
+export const confirmMfaWithValidation = [
+  validate(data => MfaCodeSchema.parse(data)),
+  authMiddleware,
+  confirmMfaHandler,
+];
+
+export const disableMfaWithValidation = [
+  validate(data => MfaCodeSchema.parse(data)),
+  authMiddleware,
+  disableMfaHandler,
+];
+
+export const loginMfaWithValidation = [validate(data => MfaLoginSchema.parse(data)), loginMfaHandler];
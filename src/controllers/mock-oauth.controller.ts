@@ -0,0 +1,74 @@
+/**
+ * Mock OAuth Controller
+ *
+ * HTTP front of the in-memory mock OAuth server (`core/oauth/mock.server`),
+ * the provider behind the "mock" OAuth provider. The routes are only mounted
+ * when DEV_SERVERS_ENABLED is true. Responses follow OAuth 2.0, not the API's envelope.
+ *
+ * @module controllers/mock-oauth.controller
+ * @requires @/core/oauth
+ * @exports mockAuthorizeHandler - Grants consent and redirects back with a code
+ * @exports mockTokenHandler - Token endpoint
+ * @exports mockUserinfoHandler - Profile of the account behind an access token
+ * @exports mockRevokeHandler - Revokes a token
+ */
+
+import type { Request as ExpressRequest, Response as ExpressResponse } from 'express';
+import { mockOAuthServer } from '@/core/oauth';
+import { asyncHandler } from '@/utils/asyncHandler';
+
+const stringParams = (source: unknown): Record<string, string | undefined> =>
+  Object.fromEntries(
+    Object.entries((source ?? {}) as Record<string, unknown>).filter(([, value]) => typeof value === 'string'),
+  ) as Record<string, string>;
+
+/**
+ * Mock Authorize Handler
+ *
+ * @exports mockAuthorizeHandler
+ * @throws BadRequest for an unknown client or redirect URI
+ */
+export const mockAuthorizeHandler = asyncHandler(async (req: ExpressRequest, res: ExpressResponse) => {
+  res.redirect(302, mockOAuthServer.authorize(stringParams(req.query)));
+});
+
+/**
+ * Mock Token Handler
+ *
+ * @exports mockTokenHandler
+ */
+export const mockTokenHandler = asyncHandler(async (req: ExpressRequest, res: ExpressResponse) => {
+  const { status, body } = mockOAuthServer.token(stringParams(req.body));
+  res.status(status).set('Cache-Control', 'no-store').json(body);
+});
+
+/**
+ * Mock Userinfo Handler
+ *
+ * @exports mockUserinfoHandler
+ */
+export const mockUserinfoHandler = asyncHandler(async (req: ExpressRequest, res: ExpressResponse) => {
+  const accessToken = /^Bearer (.+)$/i.exec(req.headers.authorization ?? '')?.[1];
+  const profile = accessToken ? mockOAuthServer.userinfo(accessToken) : null;
+
+  if (!profile) {
+    res.status(401).set('WWW-Authenticate', 'Bearer error="invalid_token"').json({ error: 'invalid_token' });
+    return;
+  }
+
+  res.json(profile);
+});
+
+/**
+ * Mock Revoke Handler
+ * - Unknown tokens are accepted, as RFC 7009 requires
+ *
+ * @exports mockRevokeHandler
+ */
+export const mockRevokeHandler = asyncHandler(async (req: ExpressRequest, res: ExpressResponse) => {
+  const { token } = stringParams(req.body);
+  if (token) {
+    mockOAuthServer.revoke(token);
+  }
+  res.status(200).end();
+});
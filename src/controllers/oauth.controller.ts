@@ -0,0 +1,311 @@
+/**
+ * OAuth Controller
+ *
+ * Sign-in and connect flows for every provider in the OAuth registry
+ * (`core/oauth`). Flows use the authorization code grant with PKCE and a
+ * signed, single-use state; callbacks always end with a redirect to
+ * OAUTH_REDIRECT_URL carrying `provider`, `status` and, on failure, `reason`.
+ *
+ * The Google routes that predate the registry are kept as aliases.
+ *
+ * @module controllers/oauth.controller
+ * @requires express
+ * @requires @/core/oauth
+ * @requires @/utils/oauthState
+ * @requires @/utils/oauthTokens
+ * @requires @/utils/userIdentity
+ * @exports listOAuthProvidersHandler - Lists the registered providers
+ * @exports oauthLoginHandler - Starts signing in with a provider
+ * @exports oauthConnectHandler - Starts connecting a provider to the signed-in user
+ * @exports oauthCallbackHandler - Completes a flow of a provider
+ * @exports googleLoginHandler - Starts signing in with Google
+ * @exports googleVerificationHandler - Starts connecting Google Calendar
+ * @exports googleOAuthCallbackHandler - Completes a Google flow
+ */
+
+import type { Request as ExpressRequest, Response as ExpressResponse } from 'express';
+import {
+  buildAuthorizationUrl,
+  exchangeAuthorizationCode,
+  getOAuthProvider,
+  listOAuthProviders,
+  type OAuthProfile,
+  type OAuthProvider,
+} from '@/core/oauth';
+import logger from '@/core/logger';
+import { env } from '@/env';
+import { verifyUserAccess } from '@/middlewares/verifyUserAccess';
+import type { AuthenticatedRequest } from '@/types/auth-request';
+import { asyncHandler, Response } from '@/utils/asyncHandler';
+import ErrorHandler from '@/utils/errorHandler';
+import {
+  generateJWTandSetCookie,
+  getSessionContext,
+  setMfaChallengeCookie,
+  signMfaChallengeToken,
+} from '@/utils/jwt_session';
+import {
+  clearOAuthBindingCookie,
+  consumeOAuthState,
+  createOAuthState,
+  readOAuthBindingCookie,
+  setOAuthBindingCookie,
+  type ConsumedOAuthState,
+} from '@/utils/oauthState';
+import { saveOAuthTokens } from '@/utils/oauthTokens';
+import { signInWithIdentity } from '@/utils/userIdentity';
+
+/**
+ * Registered provider for a route parameter
+ * @throws NotFound if no such provider is registered
+ */
+const resolveProvider = (providerId: string | undefined): OAuthProvider => {
+  const provider = providerId ? getOAuthProvider(providerId) : null;
+  if (!provider) {
+    throw ErrorHandler.NotFound('OAuth provider not found');
+  }
+  return provider;
+};
+
+/**
+ * List OAuth Providers Handler
+ * - Returns the providers users can sign in with, and which of them can be connected
+ *
+ * @exports listOAuthProvidersHandler
+ */
+export const listOAuthProvidersHandler = asyncHandler(async () =>
+  Response.success(
+    listOAuthProviders().map(provider => ({
+      id: provider.id,
+      name: provider.displayName,
+      login: true,
+      connect: Boolean(provider.connectScopes),
+    })),
+    'OAuth providers retrieved',
+  ),
+);
+
+async function startLogin(res: ExpressResponse, provider: OAuthProvider) {
+  const { state, nonce, codeChallenge } = await createOAuthState(provider.id, { purpose: 'login' });
+  // The callback only completes the sign-in in the browser that started it
+  setOAuthBindingCookie(res, nonce);
+  const url = buildAuthorizationUrl(provider, 'login', { state, nonce, codeChallenge });
+
+  return Response.success({ url }, `${provider.displayName} sign-in URL generated`);
+}
+
+async function startConnect(req: AuthenticatedRequest, res: ExpressResponse, provider: OAuthProvider) {
+  verifyUserAccess(req);
+
+  if (!provider.connectScopes) {
+    throw ErrorHandler.BadRequest(`${provider.displayName} cannot be connected`);
+  }
+
+  const { state, nonce, codeChallenge } = await createOAuthState(provider.id, {
+    purpose: 'connect',
+    userId: req.user!.id,
+  });
+  // Nor does it store tokens the user did not grant in this browser
+  setOAuthBindingCookie(res, nonce);
+  const url = buildAuthorizationUrl(provider, 'connect', { state, nonce, codeChallenge });
+
+  return Response.success({ url }, `${provider.displayName} OAuth URL generated`);
+}
+
+/**
+ * OAuth Login Handler
+ * - Starts signing in with the provider in the route; no session is needed
+ *
+ * @exports oauthLoginHandler
+ * @returns The authorization URL to send the user to
+ * @throws NotFound if the provider is not registered
+ */
+export const oauthLoginHandler = asyncHandler(async (req: ExpressRequest, res: ExpressResponse) =>
+  startLogin(res, resolveProvider(req.params.provider)),
+);
+
+/**
+ * OAuth Connect Handler
+ * - Starts granting the provider in the route access for the signed-in user
+ *
+ * @exports oauthConnectHandler
+ * @returns The authorization URL to send the user to
+ * @throws NotFound if the provider is not registered
+ * @throws BadRequest if the provider only supports sign-in
+ */
+export const oauthConnectHandler = asyncHandler(async (req: AuthenticatedRequest, res: ExpressResponse) =>
+  startConnect(req, res, resolveProvider(req.params.provider)),
+);
+
+/**
+ * Google Sign-In Handler
+ *
+ * @exports googleLoginHandler
+ * @returns The Google authorization URL to send the user to
+ */
+export const googleLoginHandler = asyncHandler(async (_req: ExpressRequest, res: ExpressResponse) =>
+  startLogin(res, resolveProvider('google')),
+);
+
+/**
+ * Google Verification Handler
+ * - Starts the Google OAuth flow that connects Google Calendar to the signed-in user
+ *
+ * @exports googleVerificationHandler
+ * @returns The Google authorization URL to send the user to
+ */
+export const googleVerificationHandler = asyncHandler(async (req: AuthenticatedRequest, res: ExpressResponse) =>
+  startConnect(req, res, resolveProvider('google')),
+);
+
+/**
+ * Send the browser back to the frontend with the outcome of an OAuth flow
+ */
+const redirectToFrontend = (res: ExpressResponse, provider: OAuthProvider, outcome: Record<string, string>) => {
+  const url = new URL(env.OAUTH_REDIRECT_URL as string);
+  url.searchParams.set('provider', provider.id);
+  for (const [key, value] of Object.entries(outcome)) {
+    url.searchParams.set(key, value);
+  }
+  res.redirect(303, url.toString());
+};
+
+/**
+ * Sign in the user behind a provider's profile
+ * - Suspended users are turned away; users with 2FA get an MFA challenge cookie instead of a session
+ */
+async function completeSignIn(
+  req: ExpressRequest,
+  res: ExpressResponse,
+  provider: OAuthProvider,
+  profile: OAuthProfile,
+) {
+  let signIn: Awaited<ReturnType<typeof signInWithIdentity>>;
+  try {
+    signIn = await signInWithIdentity({ provider: provider.id, ...profile });
+  } catch (err) {
+    // Only unknown identities with an unverified email are refused
+    if (err instanceof ErrorHandler && err.statusCode === 403) {
+      return redirectToFrontend(res, provider, { status: 'error', reason: 'email_not_verified' });
+    }
+    throw err;
+  }
+
+  const { user, created } = signIn;
+
+  if (user.suspendedAt) {
+    return redirectToFrontend(res, provider, { status: 'error', reason: 'account_suspended' });
+  }
+
+  if (user.mfaEnabled) {
+    // The challenge goes in a cookie, never in the redirect URL
+    setMfaChallengeCookie(res, signMfaChallengeToken(user.id));
+    return redirectToFrontend(res, provider, { status: 'mfa_required' });
+  }
+
+  await generateJWTandSetCookie(res, user.id, getSessionContext(req));
+
+  logger.info('User signed in with OAuth', { provider: provider.id, userId: user.id, created });
+  return redirectToFrontend(res, provider, { status: 'signed_in' });
+}
+
+/**
+ * Complete a flow: verify and consume the state, exchange the code with the PKCE
+ * verifier, then store the tokens (connect) or sign the user in (login)
+ */
+async function completeFlow(req: ExpressRequest, res: ExpressResponse, provider: OAuthProvider) {
+  const { code, state, error } = req.query as { code?: string; state?: string; error?: string };
+  const binding = readOAuthBindingCookie(req);
+  if (binding) {
+    clearOAuthBindingCookie(res);
+  }
+
+  if (error) {
+    logger.info('OAuth flow was not completed', { provider: provider.id, error });
+    return redirectToFrontend(res, provider, {
+      status: 'error',
+      reason: error === 'access_denied' ? 'access_denied' : 'oauth_error',
+    });
+  }
+
+  if (!code || !state) {
+    return redirectToFrontend(res, provider, { status: 'error', reason: 'invalid_request' });
+  }
+
+  let flow: ConsumedOAuthState;
+  try {
+    flow = await consumeOAuthState(state, provider.id, binding);
+  } catch (err) {
+    logger.warn('Rejected OAuth callback with an invalid state', {
+      provider: provider.id,
+      error: err instanceof Error ? err.message : String(err),
+    });
+    return redirectToFrontend(res, provider, { status: 'error', reason: 'invalid_state' });
+  }
+
+  try {
+    const { ok, status, data } = await exchangeAuthorizationCode(provider, code, flow.codeVerifier);
+
+    if (!ok || !data.access_token) {
+      logger.warn('OAuth token exchange failed', {
+        provider: provider.id,
+        purpose: flow.purpose,
+        status,
+        error: data.error,
+      });
+      return redirectToFrontend(res, provider, { status: 'error', reason: 'token_exchange_failed' });
+    }
+
+    const tokens = { ...data, access_token: data.access_token };
+
+    if (flow.purpose === 'login') {
+      let profile: OAuthProfile;
+      try {
+        profile = await provider.getProfile(tokens, flow.nonce);
+      } catch (err) {
+        logger.warn('Rejected OAuth profile', {
+          provider: provider.id,
+          error: err instanceof Error ? err.message : String(err),
+        });
+        return redirectToFrontend(res, provider, { status: 'error', reason: 'invalid_profile' });
+      }
+
+      return await completeSignIn(req, res, provider, profile);
+    }
+
+    // Replaces any earlier tokens of the user for this provider
+    await saveOAuthTokens(provider.id, flow.userId!, tokens);
+  } catch (err) {
+    logger.error('Failed to complete OAuth flow', {
+      provider: provider.id,
+      purpose: flow.purpose,
+      userId: flow.userId,
+      error: err instanceof Error ? err.message : String(err),
+    });
+    return redirectToFrontend(res, provider, { status: 'error', reason: 'server_error' });
+  }
+
+  logger.info('OAuth account connected', { provider: provider.id, userId: flow.userId });
+  return redirectToFrontend(res, provider, { status: 'connected' });
+}
+
+/**
+ * OAuth Callback Handler
+ * - The provider in the route redirects here with `code` and `state` (or `error`)
+ *
+ * @exports oauthCallbackHandler
+ * @throws NotFound if the provider is not registered
+ */
+export const oauthCallbackHandler = asyncHandler(async (req: ExpressRequest, res: ExpressResponse) =>
+  completeFlow(req, res, resolveProvider(req.params.provider)),
+);
+
+/**
+ * Google OAuth Callback Handler
+ * - Callback URL of GOOGLE_REDIRECT_URI registrations made before the generic callback existed
+ *
+ * @exports googleOAuthCallbackHandler
+ */
+export const googleOAuthCallbackHandler = asyncHandler(async (req: ExpressRequest, res: ExpressResponse) =>
+  completeFlow(req, res, resolveProvider('google')),
+);
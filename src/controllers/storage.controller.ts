@@ -0,0 +1,90 @@
+/**
+ * Storage Controller
+ *
+ * Receives direct uploads and serves presigned downloads for the local
+ * filesystem storage driver, standing in for S3 presigned URLs during development.
+ *
+ * @module controllers/storage.controller
+ * @requires @/core/storage
+ * @exports localUploadHandler - Stores a file uploaded to a local presigned URL
+ * @exports localDownloadHandler - Streams a file from a local presigned URL
+ */
+
+import { pipeline } from 'stream/promises';
+import type { Request as ExpressRequest, Response as ExpressResponse } from 'express';
+import {
+  getStorageProvider,
+  verifyLocalDownloadToken,
+  verifyLocalUploadToken,
+  type StorageBucket,
+} from '@/core/storage';
+import { asyncHandler, Response } from '@/utils/asyncHandler';
+import ErrorHandler from '@/utils/errorHandler';
+import logger from '@/core/logger';
+
+/**
+ * Resolve the provider for a bucket, refusing when the local driver is not in use
+ */
+const getLocalProvider = (bucket: StorageBucket) => {
+  const storage = getStorageProvider(bucket);
+  if (storage.driver !== 'local') {
+    throw ErrorHandler.NotFound('Local storage is disabled');
+  }
+  return storage;
+};
+
+/**
+ * Local Upload Handler
+ * - Verifies the upload token issued by the local storage driver
+ * - Requires the signed content type and exact size
+ *
+ * @route PUT /api/storage/uploads/:token
+ * @access Public (requires an upload token)
+ * @throws AuthError if the token is invalid or expired
+ * @throws BadRequest if the content type or size does not match the token
+ */
+export const localUploadHandler = asyncHandler(async (req: ExpressRequest, _res: ExpressResponse) => {
+  const claims = verifyLocalUploadToken(req.params.token);
+  const storage = getLocalProvider(claims.bucket);
+  const body = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+
+  if (req.headers['content-type'] !== claims.contentType) {
+    throw ErrorHandler.BadRequest('Content-Type does not match the signed upload');
+  }
+
+  if (body.length !== claims.contentLength) {
+    throw ErrorHandler.BadRequest('Upload size does not match the signed upload');
+  }
+
+  await storage.putObject(claims.key, body, claims.contentType);
+
+  logger.info('Local upload stored', { bucket: claims.bucket, key: claims.key, size: body.length });
+
+  return Response.success(null, 'Upload complete');
+});
+
+/**
+ * Local Download Handler
+ * - Verifies the download token issued by the local storage driver
+ * - Streams the object with its stored content type
+ *
+ * @route GET /api/storage/files/:token
+ * @access Public (requires a download token)
+ * @throws AuthError if the token is invalid or expired
+ * @throws NotFound if the object does not exist
+ */
+export const localDownloadHandler = asyncHandler(async (req: ExpressRequest, res: ExpressResponse) => {
+  const claims = verifyLocalDownloadToken(req.params.token);
+  const storage = getLocalProvider(claims.bucket);
+
+  const info = await storage.headObject(claims.key);
+  if (!info) {
+    throw ErrorHandler.NotFound('File not found');
+  }
+
+  res.setHeader('Content-Type', info.contentType ?? 'application/octet-stream');
+  res.setHeader('Content-Length', String(info.size));
+  res.setHeader('Content-Disposition', `attachment; filename="${claims.key.split('/').pop()}"`);
+
+  await pipeline(await storage.getObjectStream(claims.key), res);
+});
@@ -25,14 +25,17 @@
  * @requires @/utils/errorHandler
  * @requires @/utils/validations
  * @requires @/core/logger
+ * @requires @/core/outbox
+ * @requires @/utils/calendarSyncState
  *
  * @author Development Team
  * @version 1.0.0
  */
 
 import { eq, and, desc, asc, count, like } from 'drizzle-orm';
-import { db } from '@/db';
-import { tasks } from '@/db/schemas';
+import type { z } from 'zod';
+import { db, type DbExecutor } from '@/db';
+import { tasks, type NewTask, type Task } from '@/db/schemas';
 import { asyncHandler, Response, validate } from '@/utils/asyncHandler';
 import ErrorHandler from '@/utils/errorHandler';
 import { CreateTaskSchema, UpdateTaskSchema, TaskQuerySchema, TaskParamsSchema } from '@/utils/validations';
@@ -40,11 +43,11 @@ import logger from '@/core/logger';
 import { authMiddleware } from '@/middlewares/auth.middleware';
 import type { AuthenticatedRequest } from '@/types/auth-request';
 import { verifyUserAccess } from '@/middlewares/verifyUserAccess';
-import getGoogleConnectionStatus, {
-  createCalendarEventForTask,
-  updateCalendarEventForTask,
-  deleteCalendarEventForTask,
-} from '@/utils/googleStatus';
+import { requirePermission } from '@/middlewares/requirePermission';
+import { recordOutboxEvent } from '@/core/outbox';
+import { queueTaskCalendarSync } from '@/utils/calendarSyncState';
+import { getUserCalendarProvider } from '@/utils/taskCalendar';
+import { containsPattern } from '@/utils/helpers';
 
 /**
  * Create New Task Handler
@@ -91,31 +94,41 @@ import getGoogleConnectionStatus, {
 export const createTaskHandler = asyncHandler(async (req: AuthenticatedRequest) => {
   verifyUserAccess(req);
 
-  const { title, description, status, startTime, endTime, calendarEventId } = req.body;
+  const { title, description, status, startTime, endTime, calendarEventId, calendarId } = req.body;
 
   // Validate time constraints
   if (startTime && endTime && new Date(startTime) >= new Date(endTime)) {
     throw ErrorHandler.ValidationError('Start time must be before end time');
   }
 
-  const [newTask] = await db
-    .insert(tasks)
-    .values({
-      userId: req.user.id,
-      title: title.trim(),
-      description: description?.trim(),
-      status: status ?? 'pending',
-      startTime: startTime ? new Date(startTime) : null,
-      endTime: endTime ? new Date(endTime) : null,
-      // Always initialize calendarEventId as null on create. We'll sync with Google and
-      // persist the real calendar event id returned by Google.
-      calendarEventId: null,
-    })
-    .returning();
+  let calendarSyncScheduled = false;
+
+  // The calendar sync is recorded in the outbox in the same transaction as the task
+  const newTask = await db.transaction(async tx => {
+    const [task] = await tx
+      .insert(tasks)
+      .values({
+        userId: req.user.id,
+        title: title.trim(),
+        description: description?.trim(),
+        status: status ?? 'pending',
+        startTime: startTime ? new Date(startTime) : null,
+        endTime: endTime ? new Date(endTime) : null,
+        calendarId: calendarId ?? null,
+        // Always initialize calendarEventId as null on create. The outbox dispatcher syncs with
+        // the user's calendar provider and persists the real calendar event id it returns.
+        calendarEventId: null,
+      })
+      .returning();
+
+    if (!task) {
+      throw ErrorHandler.DatabaseError('Failed to create task');
+    }
 
-  if (!newTask) {
-    throw ErrorHandler.DatabaseError('Failed to create task');
-  }
+    const scheduled = await scheduleCalendarSync(task, tx);
+    calendarSyncScheduled = scheduled !== null;
+    return scheduled ?? task;
+  });
 
   logger.info('Task created successfully', {
     taskId: newTask.id,
@@ -123,33 +136,11 @@ export const createTaskHandler = asyncHandler(async (req: AuthenticatedRequest)
     title: newTask.title,
   });
 
-  // Attempt to sync to Google Calendar if user has connected Google
-  let calendarSynced = false;
-  let calendarSyncMessage = 'Not attempted';
-
-  try {
-    const eventId = await createCalendarEventForTask(req.user.id, newTask as any);
-    if (eventId) {
-      // ensure response contains calendarEventId
-      newTask.calendarEventId = eventId;
-      calendarSynced = true;
-      calendarSyncMessage = 'Task created in Google Calendar';
-    } else {
-      calendarSynced = false;
-      calendarSyncMessage = 'Task not synced to Google Calendar (no token or API error)';
-    }
-  } catch (err) {
-    // don't block task creation on calendar errors
-    logger.warn('Google calendar create failed for new task', { err, taskId: newTask.id, userId: req.user.id });
-    calendarSynced = false;
-    calendarSyncMessage = 'Google calendar create failed (see server logs)';
-  }
-
   return {
     data: newTask,
     message: 'Task created successfully',
     statusCode: 201,
-    meta: { calendarSynced, calendarSyncMessage },
+    meta: { calendarSyncScheduled },
   };
 });
 
@@ -170,6 +161,7 @@ export const createTaskHandler = asyncHandler(async (req: AuthenticatedRequest)
  *
  * @example
  * // Request: GET /api/tasks?page=1&limit=10&status=pending&search=project&sortBy=createdAt&sortOrder=desc
+ * // Tasks whose calendar sync failed: GET /api/tasks?syncState=failed
  *
  * // Response:
  * {
@@ -207,6 +199,7 @@ export const getTasksHandler = asyncHandler(async (req: AuthenticatedRequest) =>
     sortOrder = 'desc',
     startDate,
     endDate,
+    syncState,
   } = req.query;
 
   // Build dynamic where conditions
@@ -216,8 +209,12 @@ export const getTasksHandler = asyncHandler(async (req: AuthenticatedRequest) =>
     whereConditions.push(eq(tasks.status, status as string));
   }
 
+  if (syncState) {
+    whereConditions.push(eq(tasks.calendarSyncState, syncState as string));
+  }
+
   if (search) {
-    whereConditions.push(like(tasks.title, `%${search}%`));
+    whereConditions.push(like(tasks.title, containsPattern(search as string)));
   }
 
   if (startDate) {
@@ -252,6 +249,12 @@ export const getTasksHandler = asyncHandler(async (req: AuthenticatedRequest) =>
       startTime: tasks.startTime,
       endTime: tasks.endTime,
       calendarEventId: tasks.calendarEventId,
+      calendarId: tasks.calendarId,
+      calendarSyncState: tasks.calendarSyncState,
+      calendarSyncAttempts: tasks.calendarSyncAttempts,
+      calendarSyncAttemptedAt: tasks.calendarSyncAttemptedAt,
+      calendarSyncError: tasks.calendarSyncError,
+      calendarSyncRetryAt: tasks.calendarSyncRetryAt,
       createdAt: tasks.createdAt,
       updatedAt: tasks.updatedAt,
     })
@@ -266,7 +269,7 @@ export const getTasksHandler = asyncHandler(async (req: AuthenticatedRequest) =>
     count: userTasks.length,
     total,
     page: Number(page),
-    filters: { status, search, startDate, endDate },
+    filters: { status, search, startDate, endDate, syncState },
   });
 
   return Response.paginated(userTasks, total, Number(page), Number(limit), 'Tasks retrieved successfully');
@@ -312,38 +315,62 @@ export const getTaskByIdHandler = asyncHandler(async (req: AuthenticatedRequest)
 });
 
 /**
- * Update Task Handler
- *
- * Updates an existing task for the authenticated user. Validates input data,
- * ensures task ownership, and applies partial updates.
+ * Record a calendar sync for a task in the outbox
+ * - Only tasks with a time range are synced; the dispatcher creates or updates the event
+ * - The task's sync state becomes pending, with a fresh set of retries
  *
- * @route PUT /api/tasks/:id
- * @access Private (Authenticated + Verified users only)
- * @param {AuthenticatedRequest} req - Express request with task ID and update data
- * @returns {Object} Updated task details
- * @throws {AuthError} If user is not authenticated
- * @throws {ForbiddenError} If user email is not verified
- * @throws {NotFoundError} If task doesn't exist or doesn't belong to user
- * @throws {ValidationError} If update data is invalid
- * @throws {DatabaseError} If update operation fails
+ * Pass the transaction executor of the task write so both commit together.
+ * @returns The task with its new sync state, or null if no sync was scheduled
  */
-export const updateTaskHandler = asyncHandler(async (req: AuthenticatedRequest) => {
-  verifyUserAccess(req);
-
-  const { id } = req.params;
-  const updateData = req.body;
-
-  // Check if task exists and belongs to user
-  const [existingTask] = await db
-    .select()
-    .from(tasks)
-    .where(and(eq(tasks.id, id), eq(tasks.userId, req.user.id)))
-    .limit(1);
+export async function scheduleCalendarSync(
+  task: Pick<Task, 'id' | 'userId' | 'startTime' | 'endTime'>,
+  executor: DbExecutor,
+): Promise<Task | null> {
+  if (!task.startTime || !task.endTime) {
+    return null;
+  }
+  return queueTaskCalendarSync(task, executor);
+}
 
-  if (!existingTask) {
-    throw ErrorHandler.NotFound('Task not found or access denied');
+/**
+ * Record the removal of a deleted task's calendar event in the outbox
+ *
+ * @returns Whether a removal was scheduled
+ */
+export async function scheduleCalendarEventDeletion(
+  task: Pick<Task, 'userId' | 'calendarEventId' | 'calendarEventCalendarId' | 'calendarEventProvider'>,
+  executor: DbExecutor,
+): Promise<boolean> {
+  if (!task.calendarEventId) {
+    return false;
   }
+  await recordOutboxEvent(
+    {
+      type: 'calendar.delete_event',
+      payload: {
+        userId: task.userId,
+        calendarEventId: task.calendarEventId,
+        calendarId: task.calendarEventCalendarId ?? undefined,
+        provider: task.calendarEventProvider ?? undefined,
+      },
+    },
+    executor,
+  );
+  return true;
+}
 
+/**
+ * Build a partial task update from a validated request body
+ * - Validates time constraints against the existing task
+ * - Only includes fields that were provided
+ *
+ * Shared by the owner and admin update handlers.
+ * @throws {ValidationError} If start time is not before end time
+ */
+export function buildTaskUpdates(
+  existingTask: Pick<Task, 'startTime' | 'endTime'>,
+  updateData: z.infer<typeof UpdateTaskSchema>,
+): Partial<NewTask> & { updatedAt: Date } {
   // Validate time constraints if both times are provided
   const startTime = updateData.startTime ?? existingTask.startTime;
   const endTime = updateData.endTime ?? existingTask.endTime;
@@ -353,7 +380,7 @@ export const updateTaskHandler = asyncHandler(async (req: AuthenticatedRequest)
   }
 
   // Prepare update object with only provided fields
-  const updates: Partial<typeof tasks.$inferInsert> & { updatedAt: Date } = {
+  const updates: Partial<NewTask> & { updatedAt: Date } = {
     updatedAt: new Date(),
   };
 
@@ -375,48 +402,76 @@ export const updateTaskHandler = asyncHandler(async (req: AuthenticatedRequest)
   if (updateData.calendarEventId !== undefined) {
     updates.calendarEventId = updateData.calendarEventId;
   }
+  if (updateData.calendarId !== undefined) {
+    updates.calendarId = updateData.calendarId;
+  }
+
+  return updates;
+}
+
+/**
+ * Update Task Handler
+ *
+ * Updates an existing task for the authenticated user. Validates input data,
+ * ensures task ownership, and applies partial updates.
+ *
+ * @route PUT /api/tasks/:id
+ * @access Private (Authenticated + Verified users only)
+ * @param {AuthenticatedRequest} req - Express request with task ID and update data
+ * @returns {Object} Updated task details
+ * @throws {AuthError} If user is not authenticated
+ * @throws {ForbiddenError} If user email is not verified
+ * @throws {NotFoundError} If task doesn't exist or doesn't belong to user
+ * @throws {ValidationError} If update data is invalid
+ * @throws {DatabaseError} If update operation fails
+ */
+export const updateTaskHandler = asyncHandler(async (req: AuthenticatedRequest) => {
+  verifyUserAccess(req);
 
-  const [updatedTask] = await db
-    .update(tasks)
-    .set(updates)
+  const { id } = req.params;
+  const updateData = req.body;
+
+  // Check if task exists and belongs to user
+  const [existingTask] = await db
+    .select()
+    .from(tasks)
     .where(and(eq(tasks.id, id), eq(tasks.userId, req.user.id)))
-    .returning();
+    .limit(1);
 
-  if (!updatedTask) {
-    throw ErrorHandler.DatabaseError('Failed to update task');
+  if (!existingTask) {
+    throw ErrorHandler.NotFound('Task not found or access denied');
   }
 
+  const updates = buildTaskUpdates(existingTask, updateData);
+  let calendarSyncScheduled = false;
+
+  const updatedTask = await db.transaction(async tx => {
+    const [task] = await tx
+      .update(tasks)
+      .set(updates)
+      .where(and(eq(tasks.id, id), eq(tasks.userId, req.user.id)))
+      .returning();
+
+    if (!task) {
+      throw ErrorHandler.DatabaseError('Failed to update task');
+    }
+
+    const scheduled = await scheduleCalendarSync(task, tx);
+    calendarSyncScheduled = scheduled !== null;
+    return scheduled ?? task;
+  });
+
   logger.info('Task updated successfully', {
     taskId: updatedTask.id,
     userId: req.user.id,
     updatedFields: Object.keys(updates),
   });
 
-  // Attempt to sync update to Google Calendar if user has connected Google
-  let calendarSynced = false;
-  let calendarSyncMessage = 'Not attempted';
-
-  try {
-    const eventId = await updateCalendarEventForTask(req.user.id, updatedTask as any);
-    if (eventId) {
-      updatedTask.calendarEventId = eventId;
-      calendarSynced = true;
-      calendarSyncMessage = 'Task updated in Google Calendar';
-    } else {
-      calendarSynced = false;
-      calendarSyncMessage = 'Task not synced to Google Calendar (no token or API error)';
-    }
-  } catch (err) {
-    logger.warn('Google calendar update failed for updated task', { err, taskId: updatedTask.id, userId: req.user.id });
-    calendarSynced = false;
-    calendarSyncMessage = 'Google calendar update failed (see server logs)';
-  }
-
   return {
     data: updatedTask,
     message: 'Task updated successfully',
     statusCode: 200,
-    meta: { calendarSynced, calendarSyncMessage },
+    meta: { calendarSyncScheduled },
   };
 });
 
@@ -442,7 +497,7 @@ export const deleteTaskHandler = asyncHandler(async (req: AuthenticatedRequest)
 
   // Check if task exists and belongs to user
   const [existingTask] = await db
-    .select({ id: tasks.id, title: tasks.title, calendarEventId: tasks.calendarEventId })
+    .select({ id: tasks.id, title: tasks.title })
     .from(tasks)
     .where(and(eq(tasks.id, id), eq(tasks.userId, req.user.id)))
     .limit(1);
@@ -451,15 +506,27 @@ export const deleteTaskHandler = asyncHandler(async (req: AuthenticatedRequest)
     throw ErrorHandler.NotFound('Task not found or access denied');
   }
 
-  // Delete the task
-  const [deletedTask] = await db
-    .delete(tasks)
-    .where(and(eq(tasks.id, id), eq(tasks.userId, req.user.id)))
-    .returning({ id: tasks.id });
+  let calendarSyncScheduled = false;
+
+  // Delete the task and record the calendar event removal together
+  await db.transaction(async tx => {
+    const [deletedTask] = await tx
+      .delete(tasks)
+      .where(and(eq(tasks.id, id), eq(tasks.userId, req.user.id)))
+      .returning({
+        id: tasks.id,
+        userId: tasks.userId,
+        calendarEventId: tasks.calendarEventId,
+        calendarEventCalendarId: tasks.calendarEventCalendarId,
+        calendarEventProvider: tasks.calendarEventProvider,
+      });
+
+    if (!deletedTask) {
+      throw ErrorHandler.DatabaseError('Failed to delete task');
+    }
 
-  if (!deletedTask) {
-    throw ErrorHandler.DatabaseError('Failed to delete task');
-  }
+    calendarSyncScheduled = await scheduleCalendarEventDeletion(deletedTask, tx);
+  });
 
   logger.info('Task deleted successfully', {
     taskId: existingTask.id,
@@ -467,33 +534,60 @@ export const deleteTaskHandler = asyncHandler(async (req: AuthenticatedRequest)
     title: existingTask.title,
   });
 
-  // Attempt to delete associated calendar event when deleting task
-  let calendarSynced = false;
-  let calendarSyncMessage = 'Not attempted';
-
-  try {
-    const deleted = await deleteCalendarEventForTask(req.user.id, existingTask.calendarEventId);
-    if (deleted) {
-      calendarSynced = true;
-      calendarSyncMessage = 'Calendar event deleted';
-      logger.info('Deleted calendar event for task', { taskId: existingTask.id, userId: req.user.id });
-    } else {
-      calendarSynced = false;
-      calendarSyncMessage = 'Calendar event not deleted (no token or API error)';
-    }
-  } catch (err) {
-    logger.warn('Google calendar delete failed for task', { err, taskId: existingTask.id, userId: req.user.id });
-    calendarSynced = false;
-    calendarSyncMessage = 'Google calendar delete failed (see server logs)';
-  }
-
   return {
     message: 'Task deleted successfully',
     statusCode: 200,
-    meta: { calendarSynced, calendarSyncMessage },
+    meta: { calendarSyncScheduled },
   };
 });
 
+/**
+ * Resync Task Handler
+ *
+ * Queues a fresh push of a task to the user's calendar, e.g. after its sync
+ * failed for good. The retry count starts over.
+ *
+ * @route POST /api/tasks/:id/resync
+ * @access Private (Authenticated + Verified users only)
+ * @param {AuthenticatedRequest} req - Express request with task ID parameter
+ * @returns {Object} The task with its sync state set to pending
+ * @throws {NotFoundError} If task doesn't exist or doesn't belong to user
+ * @throws {BadRequest} If the task has no time range or no calendar is connected
+ */
+export const resyncTaskHandler = asyncHandler(async (req: AuthenticatedRequest) => {
+  verifyUserAccess(req);
+
+  const { id } = req.params;
+
+  const [existingTask] = await db
+    .select()
+    .from(tasks)
+    .where(and(eq(tasks.id, id), eq(tasks.userId, req.user.id)))
+    .limit(1);
+
+  if (!existingTask) {
+    throw ErrorHandler.NotFound('Task not found or access denied');
+  }
+
+  if (!(await getUserCalendarProvider(req.user.id))) {
+    throw ErrorHandler.BadRequest('No calendar is connected');
+  }
+
+  const task = await db.transaction(tx => scheduleCalendarSync(existingTask, tx));
+
+  if (!task) {
+    throw ErrorHandler.BadRequest('Only tasks with a start and end time are synced to the calendar');
+  }
+
+  logger.info('Task calendar resync scheduled', {
+    taskId: task.id,
+    userId: req.user.id,
+    previousState: existingTask.calendarSyncState,
+  });
+
+  return Response.success(task, 'Calendar sync scheduled');
+});
+
 /**
  * Get Task Statistics Handler
  *
@@ -569,25 +663,41 @@ export const getTaskStatsHandler = asyncHandler(async (req: AuthenticatedRequest
 export const createTaskWithValidation = [
   validate(data => CreateTaskSchema.parse(data)),
   authMiddleware,
+  requirePermission('tasks:write:own'),
   createTaskHandler,
 ];
 
-export const getTasksWithValidation = [validate(data => TaskQuerySchema.parse(data)), authMiddleware, getTasksHandler];
+export const getTasksWithValidation = [
+  validate(data => TaskQuerySchema.parse(data)),
+  authMiddleware,
+  requirePermission('tasks:read:own'),
+  getTasksHandler,
+];
 
 export const updateTaskWithValidation = [
   validate(data => UpdateTaskSchema.parse(data)),
   authMiddleware,
+  requirePermission('tasks:write:own'),
   updateTaskHandler,
 ];
 
 export const getTaskByIdWithValidation = [
   validate(data => TaskParamsSchema.parse(data)),
   authMiddleware,
+  requirePermission('tasks:read:own'),
   getTaskByIdHandler,
 ];
 
+export const resyncTaskWithValidation = [
+  validate(data => TaskParamsSchema.parse(data)),
+  authMiddleware,
+  requirePermission('tasks:write:own'),
+  resyncTaskHandler,
+];
+
 export const deleteTaskWithValidation = [
   validate(data => TaskParamsSchema.parse(data)),
   authMiddleware,
+  requirePermission('tasks:write:own'),
   deleteTaskHandler,
 ];
@@ -52,9 +52,224 @@
  * And enhances developer experience by reducing boilerplate code.
  */
 
-import type { Request, Response } from 'express';
-import { asyncHandler } from '@/utils/asyncHandler';
+import type { Response as ExpressResponse } from 'express';
+import { and, count, eq, ne, sql } from 'drizzle-orm';
+import { db } from '@/db';
+import { users } from '@/db/schemas';
+import { asyncHandler, Response, validate } from '@/utils/asyncHandler';
+import ErrorHandler from '@/utils/errorHandler';
+import { ChangePasswordSchema, DeleteAccountSchema, UpdateProfileSchema } from '@/utils/validations';
+import { comparePasswords, hashPassword } from '@/utils/helpers';
+import { clearAuthCookies, revokeOtherUserSessions } from '@/utils/jwt_session';
+import {
+  assertNotThrottled,
+  clearFailedAttempts,
+  registerFailedAttempt,
+  type ThrottleKey,
+} from '@/utils/bruteForceGuard';
+import { authMiddleware } from '@/middlewares/auth.middleware';
+import type { AuthenticatedRequest } from '@/types/auth-request';
+import logger from '@/core/logger';
 
-export const baseAPIHandler = asyncHandler(async (req: Request, res: Response) => {
-  res.json({ message: 'Hello from the User API' });
+/**
+ * Profile fields returned to the account owner; never includes secrets
+ */
+const profileColumns = {
+  id: users.id,
+  username: users.username,
+  email: users.email,
+  role: users.role,
+  profilePictureUrl: users.profilePictureUrl,
+  profilePictureThumbnailUrl: users.profilePictureThumbnailUrl,
+  isVerified: users.isVerified,
+  googleConnected: users.googleConnected,
+  mfaEnabled: users.mfaEnabled,
+  hasPassword: sql<boolean>`${users.password} IS NOT NULL`,
+  createdAt: users.createdAt,
+  updatedAt: users.updatedAt,
+};
+
+/**
+ * Check the caller's current password before a sensitive change
+ * - Wrong guesses count towards the same lockout as login
+ * - Accounts created through Google sign-in may have no password; nothing is checked for them
+ * @returns Whether the account has a password
+ * @throws AuthError if the account has a password and it is missing or wrong
+ */
+async function confirmCurrentPassword(req: AuthenticatedRequest, password: string | undefined): Promise<boolean> {
+  const throttleKeys: ThrottleKey[] = [
+    { scope: 'login_account', identifier: req.user.email },
+    { scope: 'login_ip', identifier: req.ip ?? '' },
+  ];
+  await assertNotThrottled(throttleKeys);
+
+  const [user] = await db.select({ password: users.password }).from(users).where(eq(users.id, req.user.id)).limit(1);
+
+  if (!user) {
+    throw ErrorHandler.NotFound('User not found');
+  }
+
+  if (user.password === null) {
+    return false;
+  }
+
+  if (!password) {
+    throw ErrorHandler.AuthError('Current password is required');
+  }
+
+  if (!(await comparePasswords(password, user.password))) {
+    await Promise.all(throttleKeys.map(registerFailedAttempt));
+    throw ErrorHandler.AuthError('Current password is incorrect');
+  }
+
+  await clearFailedAttempts([throttleKeys[0]]);
+  return true;
+}
+
+/**
+ * Get Profile Handler
+ * - Returns the authenticated user's profile
+ *
+ * @route GET /api/users/me
+ * @access Private
+ */
+export const getProfileHandler = asyncHandler(async (req: AuthenticatedRequest, _res: ExpressResponse) => {
+  const [profile] = await db.select(profileColumns).from(users).where(eq(users.id, req.user.id)).limit(1);
+
+  if (!profile) {
+    throw ErrorHandler.NotFound('User not found');
+  }
+
+  return Response.success(profile, 'Profile retrieved successfully');
+});
+
+/**
+ * Update Profile Handler
+ * - Updates username and profile fields; email and role cannot be changed here
+ * - The profile picture is set through the avatar upload flow
+ *
+ * @route PATCH /api/users/me
+ * @access Private
+ * @throws Conflict if another user has the username, regardless of case
+ */
+export const updateProfileHandler = asyncHandler(async (req: AuthenticatedRequest, _res: ExpressResponse) => {
+  const { username } = req.body;
+
+  const updates: Partial<typeof users.$inferInsert> & { updatedAt: Date } = { updatedAt: new Date() };
+
+  if (username !== undefined) {
+    const [taken] = await db
+      .select({ id: users.id })
+      .from(users)
+      .where(and(sql`lower(${users.username}) = lower(${username})`, ne(users.id, req.user.id)))
+      .limit(1);
+
+    if (taken) {
+      throw ErrorHandler.Conflict('Username already in use');
+    }
+
+    updates.username = username;
+  }
+
+  let profile;
+  try {
+    [profile] = await db.update(users).set(updates).where(eq(users.id, req.user.id)).returning(profileColumns);
+  } catch (error) {
+    // Another user took the username after the check above
+    if ((error as { code?: string } | null)?.code === '23505') {
+      throw ErrorHandler.Conflict('Username already in use');
+    }
+    throw error;
+  }
+
+  logger.info('Profile updated', { userId: req.user.id, updatedFields: Object.keys(updates) });
+
+  return Response.success(profile, 'Profile updated successfully');
+});
+
+/**
+ * Change Password Handler
+ * - Requires the current password, unless the account has none yet (Google sign-in)
+ * - Signs out every other session; the current one stays active
+ *
+ * @route POST /api/users/me/password
+ * @access Private
+ * @throws AuthError if the current password is wrong
+ */
+export const changePasswordHandler = asyncHandler(async (req: AuthenticatedRequest, _res: ExpressResponse) => {
+  const { currentPassword, newPassword } = req.body;
+
+  const hadPassword = await confirmCurrentPassword(req, currentPassword);
+
+  const hashedPassword = await hashPassword(newPassword);
+
+  const revokedSessions = await db.transaction(async tx => {
+    await tx.update(users).set({ password: hashedPassword, updatedAt: new Date() }).where(eq(users.id, req.user.id));
+    return req.sessionId ? revokeOtherUserSessions(req.user.id, req.sessionId, 'password_change', tx) : 0;
+  });
+
+  logger.info(hadPassword ? 'Password changed' : 'Password added', { userId: req.user.id, revokedSessions });
+
+  return Response.success(
+    { revokedSessions },
+    hadPassword ? 'Password changed successfully' : 'Password set successfully',
+  );
 });
+
+/**
+ * Delete Account Handler
+ * - Requires the current password; password-less accounts must set one first
+ * - Tasks, sessions, tokens and other owned rows are removed by cascade
+ * - The last remaining admin cannot delete their account
+ *
+ * @route DELETE /api/users/me
+ * @access Private
+ * @throws AuthError if the password is wrong
+ * @throws BadRequest if the account has no password
+ * @throws Conflict if the user is the last admin
+ */
+export const deleteAccountHandler = asyncHandler(async (req: AuthenticatedRequest, res: ExpressResponse) => {
+  const { password } = req.body;
+
+  if (!(await confirmCurrentPassword(req, password))) {
+    throw ErrorHandler.BadRequest('Set a password before deleting your account');
+  }
+
+  if (req.user.role === 'admin') {
+    const [otherAdmins] = await db
+      .select({ count: count() })
+      .from(users)
+      .where(and(eq(users.role, 'admin'), ne(users.id, req.user.id)));
+
+    if (otherAdmins.count === 0) {
+      throw ErrorHandler.Conflict('The last admin account cannot be deleted');
+    }
+  }
+
+  await db.delete(users).where(eq(users.id, req.user.id));
+
+  clearAuthCookies(res);
+
+  logger.warn('Account deleted by owner', { userId: req.user.id });
+
+  return Response.success(null, 'Account deleted successfully');
+});
+
+// Export handlers with validation middleware
+export const updateProfileWithValidation = [
+  validate(data => UpdateProfileSchema.parse(data)),
+  authMiddleware,
+  updateProfileHandler,
+];
+
+export const changePasswordWithValidation = [
+  validate(data => ChangePasswordSchema.parse(data)),
+  authMiddleware,
+  changePasswordHandler,
+];
+
+export const deleteAccountWithValidation = [
+  validate(data => DeleteAccountSchema.parse(data)),
+  authMiddleware,
+  deleteAccountHandler,
+];
@@ -11,32 +11,41 @@
  * @requires drizzle-orm
  * @requires @/db
  * @requires @/db/schemas
- * @requires @/core/aws/sqs.service
+ * @requires @/core/outbox
  * @requires @/utils/asyncHandler
  * @requires @/utils/errorHandler
  * @requires @/utils/validations
  * @exports sendVerificationEmailWithValidation - Handler to send verification email with validation
  * @exports verifyAccountWithValidation - Handler to verify account with validation
+ * @exports disconnectGoogleWithValidation - Handler to disconnect the Google account with validation
  */
 
 import type { Request as ExpressRequest, Response as ExpressResponse } from 'express';
-import { eq, and } from 'drizzle-orm';
-import { sendMessageToQueue } from '@/core/aws/sqs.service';
+import { and, eq, isNotNull } from 'drizzle-orm';
+import { EMAIL_LOCALES, resolveEmailLocale } from '@/core/mail';
+import { enqueueViaOutbox } from '@/core/outbox';
 import { asyncHandler, Response, validate } from '@/utils/asyncHandler';
-import { EmailVerificationSchema, verifyOtpSchema } from '@/utils/validations';
+import { EmailVerificationSchema, GoogleDisconnectSchema, verifyOtpSchema } from '@/utils/validations';
 import ErrorHandler from '@/utils/errorHandler';
 import { users } from '@/db/schemas/user.schema';
 import { db } from '@/db';
-import { authTokens, otpCodes } from '@/db/schemas';
+import { tasks } from '@/db/schemas';
+import logger from '@/core/logger';
 import type { AuthenticatedRequest } from '@/types/auth-request';
-import { verifyUserAccess } from '@/middlewares/verifyUserAccess';
+import { authMiddleware } from '@/middlewares/auth.middleware';
+import { assertNotThrottled, registerFailedAttempt, type ThrottleKey } from '@/utils/bruteForceGuard';
+import { consumeOtp } from '@/utils/otp';
+import { clearOAuthTokens, revokeOAuthTokens } from '@/utils/oauthTokens';
+import { detachTaskCalendarEvents, getUserCalendarProvider, removeTaskCalendarEvents } from '@/utils/taskCalendar';
+import { stopCalendarChannel } from '@/utils/googleCalendarSync';
+import { CLEARED_CALENDAR_SYNC } from '@/utils/calendarSyncState';
 
 /**
  * Verify Account Handler
- * - Sends a verification OTP to the user's email via SQS
+ * - Enqueues a verification OTP email for the user
  *
  * Utilizes asyncHandler for automatic error handling and response formatting.
- * Interacts with AWS SQS to enqueue the OTP sending request.
+ * Hands the OTP email to the job queue.
  * @returns Success message indicating OTP has been sent
  * @throws InternalServerError for any failures in sending the message
  * @exports verifyAccountHandler
@@ -56,8 +65,12 @@ export const sendVerificationEmail = asyncHandler(async (req: ExpressRequest, _r
     throw ErrorHandler.NotFound('Email not found');
   }
 
-  // Send message to SQS to trigger OTP email
-  await sendMessageToQueue('OTP_QUEUE', { email, type });
+  // Record the OTP email job; the outbox dispatcher hands it to the queue
+  await enqueueViaOutbox('OTP_QUEUE', {
+    email,
+    type,
+    locale: resolveEmailLocale(req.acceptsLanguages(...EMAIL_LOCALES)),
+  });
   // Respond with success message
   return Response.success(null, 'Verification OTP sent successfully');
 });
@@ -76,6 +89,11 @@ export const sendVerificationEmailWithValidation = [
 
 export const verifyAccountHandler = asyncHandler(async (req: ExpressRequest, _res: ExpressResponse) => {
   const { email, otp, type } = req.body;
+  const ipKey: ThrottleKey = { scope: 'otp_ip', identifier: req.ip ?? '' };
+
+  // Reject early while this client is delayed / locked out for wrong guesses
+  await assertNotThrottled([ipKey]);
+
   // Check if email exists in the database
   const existingEmail = await db
     .select({
@@ -85,6 +103,7 @@ export const verifyAccountHandler = asyncHandler(async (req: ExpressRequest, _re
     .where(eq(users.email, email));
 
   if (existingEmail.length === 0) {
+    await registerFailedAttempt(ipKey);
     throw ErrorHandler.NotFound('Email not found');
   }
   // Fetch the user id for the email
@@ -96,144 +115,111 @@ export const verifyAccountHandler = asyncHandler(async (req: ExpressRequest, _re
     .where(eq(users.email, email))
     .then(res => res[0].id);
 
-  const existingOtp = await db
-    .select()
-    .from(otpCodes)
-    .where(and(eq(otpCodes.userId, userId), eq(otpCodes.code, otp), eq(otpCodes.type, type)));
+  // Consume the OTP and verify the account together, so a used code always means a verified account
+  const result = await db.transaction(async tx => {
+    const outcome = await consumeOtp(tx, userId, type, otp);
 
-  if (existingOtp.length === 0) {
-    throw ErrorHandler.BadRequest('Invalid OTP');
-  }
+    if (outcome === 'valid') {
+      await tx.update(users).set({ isVerified: true }).where(eq(users.id, userId));
+    }
+
+    return outcome;
+  });
 
-  const currentTime = new Date();
-  if (existingOtp[0].expiresAt < currentTime) {
+  if (result === 'expired') {
     throw ErrorHandler.BadRequest('OTP has expired');
   }
 
-  // If OTP is valid and not expired, proceed to verify the user's account
-  await db.update(users).set({ isVerified: true }).where(eq(users.id, userId));
-
-  // Optionally, delete the used OTP
-  await db.delete(otpCodes).where(eq(otpCodes.id, existingOtp[0].id));
+  if (result !== 'valid') {
+    await registerFailedAttempt(ipKey);
+    throw ErrorHandler.BadRequest(
+      result === 'exhausted' ? 'Too many wrong attempts, please request a new OTP' : 'Invalid OTP',
+    );
+  }
 
   return Response.success(null, 'Account verified successfully');
 });
 
 export const verifyAccountWithValidation = [validate(data => verifyOtpSchema.parse(data)), verifyAccountHandler];
 
-export const googleVerificationHandler = asyncHandler(async (req: AuthenticatedRequest, _res: ExpressResponse) => {
-  verifyUserAccess(req);
-  const { email } = req.user!;
-
-  // Build state to include the email (base64 encoded JSON)
-  const state = Buffer.from(JSON.stringify({ email, ts: Date.now() })).toString('base64');
-
-  const params = new URLSearchParams({
-    client_id: process.env.GOOGLE_CLIENT_ID,
-    redirect_uri: process.env.GOOGLE_REDIRECT_URI,
-    response_type: 'code',
-    scope: process.env.GOOGLE_OAUTH_SCOPE,
-    access_type: 'offline',
-    include_granted_scopes: 'true',
-    state,
-    prompt: 'consent',
-  } as Record<string, string>);
-
-  const url = `https://accounts.google.com/o/oauth2/v2/auth?${params.toString()}`;
-
-  return Response.success({ url }, 'Google OAuth URL generated');
-});
-
 /**
- * Google OAuth callback handler (skeleton)
- * - This endpoint will receive Google redirect with `code` and `state`.
- * - Implementation: exchange `code` for tokens and store tokens in `auth_tokens` table.
- * - Currently returns 501 to indicate not implemented.
+ * Google Disconnect Handler
+ * - Optionally deletes the calendar events created for the user's tasks
+ * - Closes the calendar push channel
+ * - Revokes the grant with Google
+ * - Deletes the stored tokens, clears calendarEventId and the sync state of tasks and marks the user as disconnected
+ *
+ * Google failures are logged and reported in the response; the local cleanup
+ * always runs, so the account is disconnected here even if Google is unreachable.
+ *
+ * @exports disconnectGoogleHandler
+ * @returns Whether the grant was revoked and how many calendar events were removed
  */
-export const googleOAuthCallbackHandler = asyncHandler(async (req: ExpressRequest, _res: ExpressResponse) => {
-  const code = (req.query.code as string) || (req.body.code as string);
-  const state = (req.query.state as string) || (req.body.state as string);
-
-  if (!code) {
-    throw ErrorHandler.BadRequest('Authorization code is required');
+export const disconnectGoogleHandler = asyncHandler(async (req: AuthenticatedRequest) => {
+  if (!req.user) {
+    throw ErrorHandler.AuthError('Authentication required');
   }
 
-  if (!state) {
-    throw ErrorHandler.BadRequest('Missing state');
-  }
-
-  const parsedState = JSON.parse(Buffer.from(state, 'base64').toString('utf-8')) as { email?: string };
-  // Determine user by email present in state
-  const email = parsedState.email as string | undefined;
-  if (!email) {
-    throw ErrorHandler.BadRequest('Missing email in state');
-  }
+  const userId = req.user.id;
+  const removeCalendarEvents = req.body?.removeCalendarEvents === true;
 
-  const existingUser = await db.select({ id: users.id }).from(users).where(eq(users.email, email));
+  let calendarEventsRemoved = 0;
+  let calendarEventsFailed = 0;
 
-  const userId = existingUser[0].id;
-
-  // Exchange authorization code for tokens with Google
-  const tokenUrl = 'https://oauth2.googleapis.com/token';
-  const body = new URLSearchParams({
-    client_id: process.env.GOOGLE_CLIENT_ID as string,
-    client_secret: process.env.GOOGLE_CLIENT_SECRET as string,
-    code,
-    grant_type: 'authorization_code',
-    redirect_uri: process.env.GOOGLE_REDIRECT_URI as string,
-  });
+  // Events have to go before the tokens do
+  if (removeCalendarEvents) {
+    ({ removed: calendarEventsRemoved, failed: calendarEventsFailed } = await removeTaskCalendarEvents(
+      userId,
+      'google',
+    ));
+  }
 
-  let tokenResp;
+  // Closing the push channel also needs a token
   try {
-    tokenResp = await fetch(tokenUrl, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
-      body: body.toString(),
-    });
+    await stopCalendarChannel(userId);
   } catch (err) {
-    // Surface the underlying error message for easier debugging
-    throw ErrorHandler.InternalServerError('Failed to contact Google token endpoint', {
+    logger.warn('Failed to stop the Google Calendar channel while disconnecting Google', {
+      userId,
       error: err instanceof Error ? err.message : String(err),
     });
   }
 
-  if (!tokenResp.ok) {
-    const text = await tokenResp.text();
-    throw ErrorHandler.InternalServerError('Google token exchange failed', { status: tokenResp.status, body: text });
-  }
-
-  const tokenData = (await tokenResp.json()) as {
-    access_token?: string;
-    refresh_token?: string;
-    expires_in?: number;
-    id_token?: string;
-    scope?: string;
-    token_type?: string;
-  };
-
-  if (!tokenData?.access_token) {
-    throw ErrorHandler.InternalServerError('Invalid token response from Google');
-  }
-
-  const expiresAt = new Date(Date.now() + (tokenData.expires_in ? tokenData.expires_in * 1000 : 3600 * 1000));
-
-  // Persist tokens in auth_tokens table
+  let revoked = false;
   try {
-    await db.insert(authTokens).values({
-      userId,
-      accessToken: tokenData.access_token,
-      refreshToken: tokenData.refresh_token ?? '',
-      provider: 'google',
-      expiresAt,
-    });
-
-    // mark user as googleConnected
-    await db.update(users).set({ googleConnected: true }).where(eq(users.id, userId));
+    revoked = await revokeOAuthTokens('google', userId);
   } catch (err) {
-    throw ErrorHandler.DatabaseError('Failed to store auth tokens', {
+    logger.warn('Failed to revoke Google tokens; removing them locally anyway', {
+      userId,
       error: err instanceof Error ? err.message : String(err),
     });
   }
 
-  return Response.success({ message: 'Google account connected' }, 'Google OAuth callback handled');
+  await db.transaction(async tx => {
+    await clearOAuthTokens('google', userId, tx);
+    await detachTaskCalendarEvents(userId, 'google', tx);
+    // Nothing is pushed or retried for a disconnected account, unless its tasks go to CalDAV
+    if (!(await getUserCalendarProvider(userId, tx))) {
+      await tx
+        .update(tasks)
+        .set(CLEARED_CALENDAR_SYNC)
+        .where(and(eq(tasks.userId, userId), isNotNull(tasks.calendarSyncState)));
+    }
+  });
+
+  logger.info('Google account disconnected', { userId, revoked, calendarEventsRemoved, calendarEventsFailed });
+
+  return Response.success({ revoked, calendarEventsRemoved, calendarEventsFailed }, 'Google account disconnected');
 });
+
+/**
+ * Google Disconnect Handler with Validation Middleware
+ * - Validates request body against GoogleDisconnectSchema
+ * - Requires an authenticated user
+ *
+ * @exports disconnectGoogleWithValidation
+ */
+export const disconnectGoogleWithValidation = [
+  validate(data => GoogleDisconnectSchema.parse(data)),
+  authMiddleware,
+  disconnectGoogleHandler,
+];
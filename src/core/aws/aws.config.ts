@@ -1,13 +1,15 @@
 /**
  * AWS Configuration Module
- * - Configures AWS SDK v3 clients for SQS and S3
+ * - Configures AWS SDK v3 clients for SQS, S3 and SES
  *
  * @module aws.config
  * @requires @aws-sdk/client-sqs
  * @requires @aws-sdk/client-s3
+ * @requires @aws-sdk/client-sesv2
  * @requires dotenv
  * @exports sqsClient - Configured SQS client
  * @exports s3Client - Configured S3 client
+ * @exports sesClient - Configured SES (v2) client
  * @exports AWS_REGION - AWS region used in configuration
  *
  * --- IGNORE ---
@@ -20,6 +22,7 @@
 
 import { SQSClient } from '@aws-sdk/client-sqs';
 import { S3Client } from '@aws-sdk/client-s3';
+import { SESv2Client } from '@aws-sdk/client-sesv2';
 import dotenv from 'dotenv';
 
 dotenv.config();
@@ -40,3 +43,6 @@ export const sqsClient = new SQSClient(awsConfig);
 
 // Initialize S3 client
 export const s3Client = new S3Client(awsConfig);
+
+// Initialize SES client
+export const sesClient = new SESv2Client(awsConfig);
@@ -0,0 +1,351 @@
+/**
+ * CalDAV Client (RFC 4791)
+ * - Calendar discovery: principal, calendar home, calendar collections
+ * - Calendar objects: GET, PUT with preconditions, DELETE, MOVE between collections
+ * - Time-range calendar-query REPORT
+ * - HTTP Basic authentication, as Nextcloud, Fastmail and Radicale expect with app passwords;
+ *   credentials are only sent to the origin of the account's server URL, and URLs
+ *   elsewhere (in hrefs or redirects) are refused
+ * - Requests go through `caldav.http`, which refuses non-public addresses; redirects
+ *   are followed here, each hop checked again
+ * - Multistatus responses are read with a small namespace-agnostic reader;
+ *   only the handful of properties used here are extracted
+ *
+ * @module calendar/caldav.api
+ * @exports CalDavApiError - Non-OK response of a CalDAV server
+ * @exports discoverCalDavCalendars - Event calendars reachable from a server URL
+ * @exports queryCalDavEvents - Calendar objects with events overlapping a time range
+ * @exports getCalDavObject - Returns a calendar object
+ * @exports putCalDavObject - Creates or replaces a calendar object
+ * @exports moveCalDavObject - Moves a calendar object to another collection
+ * @exports deleteCalDavObject - Deletes a calendar object
+ * @exports calDavObjectUrl - URL of a calendar object in a collection
+ */
+
+import { calDavFetch, CalDavBlockedAddressError } from './caldav.http';
+import { formatICalDateTime } from './ical';
+
+export interface CalDavCredentials {
+  /** Origin of the account's server URL; no request leaves it */
+  origin: string;
+  username: string;
+  password: string;
+}
+
+export interface CalDavCalendar {
+  /** Absolute URL of the calendar collection, with a trailing slash */
+  url: string;
+  displayName: string | null;
+  color: string | null;
+  timeZone: string | null;
+}
+
+export interface CalDavObject {
+  /** Absolute URL of the calendar object */
+  url: string;
+  etag: string | null;
+  calendarData: string;
+}
+
+export class CalDavApiError extends Error {
+  constructor(
+    readonly action: string,
+    readonly status: number,
+  ) {
+    super(`CalDAV ${action} failed with status ${status}`);
+    this.name = 'CalDavApiError';
+  }
+}
+
+interface DavResponse {
+  href: string;
+  /** Properties of the 200 propstat, by local name, as raw inner XML */
+  props: Map<string, string>;
+}
+
+const DAV_PROPFIND = (props: string) =>
+  `<?xml version="1.0" encoding="utf-8"?>
+<d:propfind xmlns:d="DAV:" xmlns:c="urn:ietf:params:xml:ns:caldav" xmlns:cs="http://calendarserver.org/ns/" xmlns:ic="http://apple.com/ns/ical/">
+  <d:prop>${props}</d:prop>
+</d:propfind>`;
+
+const decodeXml = (value: string) =>
+  value
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code: string) => String.fromCodePoint(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code: string) => String.fromCodePoint(parseInt(code, 16)))
+    .replace(/&amp;/g, '&');
+
+/** Elements with a local name, whatever their namespace prefix */
+const elements = (xml: string, name: string) =>
+  [
+    ...xml.matchAll(new RegExp(`<(?:[\\w.-]+:)?${name}(?:\\s[^>]*)?(?:/>|>([\\s\\S]*?)</(?:[\\w.-]+:)?${name}>)`, 'g')),
+  ].map(match => match[1] ?? '');
+
+const firstElement = (xml: string, name: string): string | null => elements(xml, name)[0] ?? null;
+
+const hasElement = (xml: string, name: string) => new RegExp(`<(?:[\\w.-]+:)?${name}[\\s/>]`).test(xml);
+
+/**
+ * Responses of a multistatus body with the properties the server returned with 200
+ */
+const parseMultistatus = (xml: string): DavResponse[] =>
+  elements(xml, 'response').map(response => {
+    const props = new Map<string, string>();
+
+    for (const propstat of elements(response, 'propstat')) {
+      if (!/\s200\s/.test(firstElement(propstat, 'status') ?? '')) {
+        continue;
+      }
+      const prop = firstElement(propstat, 'prop') ?? '';
+      for (const child of prop.matchAll(/<(?:[\w.-]+:)?([\w.-]+)(?:\s[^>]*)?(?:\/>|>([\s\S]*?)<\/(?:[\w.-]+:)?\1>)/g)) {
+        props.set(child[1], child[2] ?? '');
+      }
+    }
+
+    return { href: decodeXml(firstElement(response, 'href') ?? '').trim(), props };
+  });
+
+const authorization = ({ username, password }: CalDavCredentials) =>
+  `Basic ${Buffer.from(`${username}:${password}`).toString('base64')}`;
+
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+const MAX_REDIRECTS = 5;
+
+async function davRequest(
+  action: string,
+  url: string,
+  credentials: CalDavCredentials,
+  init: { method: string; headers?: Record<string, string>; body?: string },
+): Promise<globalThis.Response> {
+  let target = new URL(url);
+  let { method, body } = init;
+
+  for (let redirects = 0; ; redirects++) {
+    if (target.origin !== credentials.origin) {
+      throw new Error(`CalDAV ${action} refused a URL outside the server's origin: ${target.origin}`);
+    }
+
+    const res = await calDavFetch(target, {
+      method,
+      headers: { Authorization: authorization(credentials), ...init.headers },
+      body,
+    }).catch((err: unknown) => {
+      if (err instanceof CalDavBlockedAddressError) {
+        throw err;
+      }
+      throw new Error(
+        `CalDAV ${action} could not reach the server: ${err instanceof Error ? err.message : String(err)}`,
+      );
+    });
+
+    const location = res.headers.get('Location');
+    if (!REDIRECT_STATUSES.has(res.status) || !location) {
+      return res;
+    }
+    if (redirects >= MAX_REDIRECTS) {
+      throw new Error(`CalDAV ${action} was redirected too many times`);
+    }
+
+    target = new URL(location, target);
+    if (res.status === 303) {
+      method = 'GET';
+      body = undefined;
+    }
+  }
+}
+
+async function propfind(
+  url: string,
+  credentials: CalDavCredentials,
+  depth: '0' | '1',
+  props: string,
+): Promise<DavResponse[]> {
+  const res = await davRequest('discovery', url, credentials, {
+    method: 'PROPFIND',
+    headers: { Depth: depth, 'Content-Type': 'application/xml; charset=utf-8' },
+    body: DAV_PROPFIND(props),
+  });
+  if (res.status !== 207) {
+    throw new CalDavApiError('discovery', res.status);
+  }
+  return parseMultistatus(await res.text());
+}
+
+const withTrailingSlash = (url: string) => (url.endsWith('/') ? url : `${url}/`);
+
+/**
+ * URL a property's href points to, resolved against the request URL
+ */
+const hrefIn = (xml: string | undefined, base: string): string | null => {
+  const href = xml && firstElement(xml, 'href');
+  return href ? new URL(decodeXml(href).trim(), base).toString() : null;
+};
+
+/**
+ * Event calendars reachable from a server URL
+ * - The URL may be the server root, a principal or a calendar home; the
+ *   principal and its calendar home are followed when the server names them
+ * - Calendars that do not accept events (task lists) are left out
+ *
+ * @throws CalDavApiError if the server rejects the credentials or is not a CalDAV server
+ */
+export async function discoverCalDavCalendars(
+  serverUrl: string,
+  credentials: CalDavCredentials,
+): Promise<CalDavCalendar[]> {
+  const [root] = await propfind(serverUrl, credentials, '0', '<d:current-user-principal/>');
+  const principalUrl = hrefIn(root?.props.get('current-user-principal'), serverUrl) ?? serverUrl;
+
+  const [principal] = await propfind(principalUrl, credentials, '0', '<c:calendar-home-set/>');
+  const homeUrl = withTrailingSlash(hrefIn(principal?.props.get('calendar-home-set'), principalUrl) ?? principalUrl);
+
+  const collections = await propfind(
+    homeUrl,
+    credentials,
+    '1',
+    '<d:resourcetype/><d:displayname/><ic:calendar-color/><c:supported-calendar-component-set/><c:calendar-timezone/>',
+  );
+
+  return collections
+    .filter(({ props }) => hasElement(props.get('resourcetype') ?? '', 'calendar'))
+    .filter(({ props }) => {
+      const components = props.get('supported-calendar-component-set');
+      return !components || /name=["']VEVENT["']/i.test(components);
+    })
+    .map(({ href, props }) => ({
+      url: withTrailingSlash(new URL(href, homeUrl).toString()),
+      displayName: props.get('displayname') ? decodeXml(props.get('displayname') ?? '') : null,
+      color: props.get('calendar-color') ? decodeXml(props.get('calendar-color') ?? '').trim() : null,
+      timeZone: /TZID:([^\r\n]+)/.exec(decodeXml(props.get('calendar-timezone') ?? ''))?.[1] ?? null,
+    }));
+}
+
+/**
+ * Calendar objects with events overlapping a time range
+ * @throws CalDavApiError if the server rejects the query
+ */
+export async function queryCalDavEvents(
+  calendarUrl: string,
+  credentials: CalDavCredentials,
+  range: { from: Date; to: Date },
+): Promise<CalDavObject[]> {
+  const body = `<?xml version="1.0" encoding="utf-8"?>
+<c:calendar-query xmlns:d="DAV:" xmlns:c="urn:ietf:params:xml:ns:caldav">
+  <d:prop><d:getetag/><c:calendar-data/></d:prop>
+  <c:filter>
+    <c:comp-filter name="VCALENDAR">
+      <c:comp-filter name="VEVENT">
+        <c:time-range start="${formatICalDateTime(range.from)}" end="${formatICalDateTime(range.to)}"/>
+      </c:comp-filter>
+    </c:comp-filter>
+  </c:filter>
+</c:calendar-query>`;
+
+  const res = await davRequest('query', calendarUrl, credentials, {
+    method: 'REPORT',
+    headers: { Depth: '1', 'Content-Type': 'application/xml; charset=utf-8' },
+    body,
+  });
+  if (res.status !== 207) {
+    throw new CalDavApiError('query', res.status);
+  }
+
+  return parseMultistatus(await res.text())
+    .filter(({ props }) => props.has('calendar-data'))
+    .map(({ href, props }) => ({
+      url: new URL(href, calendarUrl).toString(),
+      etag: props.get('getetag') ? decodeXml(props.get('getetag') ?? '').trim() : null,
+      calendarData: decodeXml(props.get('calendar-data') ?? ''),
+    }));
+}
+
+/**
+ * URL of a calendar object in a collection
+ */
+export const calDavObjectUrl = (calendarUrl: string, objectName: string) =>
+  new URL(encodeURIComponent(objectName), withTrailingSlash(calendarUrl)).toString();
+
+/**
+ * A calendar object with its ETag
+ * @returns null if the object does not exist
+ * @throws CalDavApiError for other failures
+ */
+export async function getCalDavObject(url: string, credentials: CalDavCredentials): Promise<CalDavObject | null> {
+  const res = await davRequest('get', url, credentials, { method: 'GET', headers: { Accept: 'text/calendar' } });
+
+  if (res.status === 404 || res.status === 410) {
+    return null;
+  }
+  if (!res.ok) {
+    throw new CalDavApiError('get', res.status);
+  }
+  return { url, etag: res.headers.get('ETag'), calendarData: await res.text() };
+}
+
+/**
+ * Create or replace a calendar object
+ *
+ * @param precondition - create: the object must not exist yet; etag: the version
+ *   the object must still have, or null when the server reported none
+ * @returns The ETag of the written version, if the server reports it
+ * @throws CalDavApiError if the precondition fails (412) or the server rejects the object
+ */
+export async function putCalDavObject(
+  url: string,
+  credentials: CalDavCredentials,
+  calendarData: string,
+  precondition: { create: true } | { etag: string | null },
+): Promise<string | null> {
+  const action = 'create' in precondition ? 'create' : 'update';
+  const conditionHeaders: Record<string, string> =
+    'create' in precondition ? { 'If-None-Match': '*' } : precondition.etag ? { 'If-Match': precondition.etag } : {};
+
+  const res = await davRequest(action, url, credentials, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'text/calendar; charset=utf-8', ...conditionHeaders },
+    body: calendarData,
+  });
+
+  if (!res.ok) {
+    throw new CalDavApiError(action, res.status);
+  }
+  return res.headers.get('ETag');
+}
+
+/**
+ * Move a calendar object to another collection; existing objects are not overwritten
+ *
+ * @returns false if the object no longer exists
+ * @throws CalDavApiError for other failures
+ */
+export async function moveCalDavObject(url: string, credentials: CalDavCredentials, destination: string) {
+  const res = await davRequest('move', url, credentials, {
+    method: 'MOVE',
+    headers: { Destination: destination, Overwrite: 'F' },
+  });
+
+  if (res.status === 404 || res.status === 410) {
+    return false;
+  }
+  if (!res.ok) {
+    throw new CalDavApiError('move', res.status);
+  }
+  return true;
+}
+
+/**
+ * Delete a calendar object; an object that is already gone counts as deleted
+ * @throws CalDavApiError for other failures
+ */
+export async function deleteCalDavObject(url: string, credentials: CalDavCredentials): Promise<void> {
+  const res = await davRequest('delete', url, credentials, { method: 'DELETE' });
+
+  if (!res.ok && res.status !== 404 && res.status !== 410) {
+    throw new CalDavApiError('delete', res.status);
+  }
+}
@@ -0,0 +1,179 @@
+/**
+ * CalDAV HTTP Transport
+ * - CalDAV server URLs come from users, so requests must not reach the
+ *   server's own network: loopback, private, link-local, carrier-grade NAT,
+ *   multicast and reserved addresses are refused
+ * - The address is checked when the connection is made, on the address
+ *   actually dialled, so a host name cannot pass the check and then resolve
+ *   elsewhere (DNS rebinding)
+ * - Redirects are not followed here; callers decide whether to follow them
+ * - The fake CalDAV server of this API is reachable when DEV_SERVERS_ENABLED is true
+ *
+ * @module calendar/caldav.http
+ * @exports CalDavBlockedAddressError - A CalDAV URL points to a non-public address
+ * @exports assertPublicCalDavUrl - Checks that a URL resolves to public addresses only
+ * @exports calDavFetch - Sends one request to a public address
+ */
+
+import { lookup as dnsLookup, type LookupAddress, type LookupOptions } from 'dns';
+import { lookup as dnsLookupAll } from 'dns/promises';
+import http from 'http';
+import https from 'https';
+import { BlockList, isIP } from 'net';
+import { env } from '@/env';
+
+const REQUEST_TIMEOUT_MS = 30 * 1000;
+const MAX_RESPONSE_BYTES = 10 * 1024 * 1024;
+// Responses that must not carry a body
+const NULL_BODY_STATUSES = new Set([204, 205, 304]);
+
+export class CalDavBlockedAddressError extends Error {
+  constructor(readonly host: string) {
+    super(`CalDAV host ${host} does not resolve to a public address`);
+    this.name = 'CalDavBlockedAddressError';
+  }
+}
+
+const blockedAddresses = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  // IPv4-mapped and NAT64 addresses can name any IPv4 address
+  ['::ffff:0:0', 96],
+  ['64:ff9b::', 96],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, 'ipv6');
+}
+
+const isBlockedAddress = (address: string) => blockedAddresses.check(address, isIP(address) === 6 ? 'ipv6' : 'ipv4');
+
+/** Origin of the fake CalDAV server, which runs on this API's own address */
+const devServerOrigin = () =>
+  env.DEV_SERVERS_ENABLED === 'true' && env.NODE_ENV !== 'production' ? new URL(env.API_URL as string).origin : null;
+
+/** Host of a URL without the brackets of IPv6 literals */
+const hostOf = (url: URL) => url.hostname.replace(/^\[(.*)\]$/, '$1');
+
+/**
+ * Check that a URL resolves to public addresses only
+ * @throws CalDavBlockedAddressError if the host is, or resolves to, a non-public address
+ */
+export async function assertPublicCalDavUrl(url: string | URL): Promise<void> {
+  const target = new URL(url);
+  if (target.origin === devServerOrigin()) {
+    return;
+  }
+
+  const host = hostOf(target);
+  const addresses = isIP(host) ? [host] : (await dnsLookupAll(host, { all: true })).map(entry => entry.address);
+  if (addresses.some(isBlockedAddress)) {
+    throw new CalDavBlockedAddressError(host);
+  }
+}
+
+/**
+ * DNS lookup for outgoing connections that fails for non-public addresses
+ */
+const publicLookup = (
+  hostname: string,
+  options: LookupOptions,
+  callback: (err: Error | null, address: string | LookupAddress[], family?: number) => void,
+) => {
+  dnsLookup(hostname, { ...options, all: true }, (err, addresses) => {
+    if (err) {
+      return callback(err, []);
+    }
+    if (addresses.some(entry => isBlockedAddress(entry.address))) {
+      return callback(new CalDavBlockedAddressError(hostname), []);
+    }
+    if (options.all) {
+      return callback(null, addresses);
+    }
+    return callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+/**
+ * Send one request; redirects are returned as they are
+ *
+ * @returns The response, with its body read (at most 10 MB)
+ * @throws CalDavBlockedAddressError if the host is not a public address
+ * @throws Error if the server cannot be reached, times out or sends too much
+ */
+export async function calDavFetch(
+  url: string | URL,
+  init: { method: string; headers: Record<string, string>; body?: string },
+): Promise<globalThis.Response> {
+  const target = new URL(url);
+  const trusted = target.origin === devServerOrigin();
+
+  // Connections to IP literals skip the lookup
+  const host = hostOf(target);
+  if (!trusted && isIP(host) && isBlockedAddress(host)) {
+    throw new CalDavBlockedAddressError(host);
+  }
+
+  const client = target.protocol === 'https:' ? https : http;
+
+  return new Promise((resolve, reject) => {
+    const req = client.request(
+      target,
+      {
+        method: init.method,
+        headers: {
+          ...init.headers,
+          ...(init.body !== undefined && { 'Content-Length': String(Buffer.byteLength(init.body)) }),
+        },
+        timeout: REQUEST_TIMEOUT_MS,
+        ...(!trusted && { lookup: publicLookup }),
+      },
+      res => {
+        const chunks: Buffer[] = [];
+        let size = 0;
+
+        res.on('data', (chunk: Buffer) => {
+          size += chunk.length;
+          if (size > MAX_RESPONSE_BYTES) {
+            res.destroy(new Error('CalDAV response is too large'));
+            return;
+          }
+          chunks.push(chunk);
+        });
+        res.on('error', reject);
+        res.on('end', () => {
+          const headers = new Headers();
+          for (const [name, value] of Object.entries(res.headers)) {
+            for (const item of Array.isArray(value) ? value : value === undefined ? [] : [value]) {
+              headers.append(name, item);
+            }
+          }
+
+          const status = res.statusCode ?? 502;
+          resolve(new Response(NULL_BODY_STATUSES.has(status) ? null : Buffer.concat(chunks), { status, headers }));
+        });
+      },
+    );
+
+    req.on('timeout', () => req.destroy(new Error('CalDAV request timed out')));
+    req.on('error', reject);
+    req.end(init.body);
+  });
+}
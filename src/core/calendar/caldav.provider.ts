@@ -0,0 +1,169 @@
+/**
+ * CalDAV Calendar Provider
+ * - Works with any CalDAV server (Nextcloud, Fastmail, Radicale) through the
+ *   user's `caldav_accounts` row: server URL, user name and encrypted app password
+ * - Calendar ids are collection URLs; `primary` is the account's default calendar
+ * - Events are calendar objects named `<uid>.ics`; the object name is the event id
+ * - Colors are not written; reminders become VALARMs, visibility becomes CLASS
+ *
+ * @module calendar/caldav.provider
+ * @exports createCalDavCalendarProvider
+ */
+
+import { randomUUID } from 'crypto';
+import { eq } from 'drizzle-orm';
+import { db } from '@/db';
+import { caldavAccounts, type CaldavAccount } from '@/db/schemas';
+import { decryptSecret } from '@/utils/secretEncryption';
+import {
+  calDavObjectUrl,
+  deleteCalDavObject,
+  discoverCalDavCalendars,
+  getCalDavObject,
+  moveCalDavObject,
+  putCalDavObject,
+  queryCalDavEvents,
+  type CalDavCredentials,
+} from './caldav.api';
+import { buildICalEvent, parseICalEvents } from './ical';
+import { PRIMARY_CALENDAR_ID, type CalendarConnection, type CalendarProvider } from './provider';
+
+const PROVIDER = 'caldav';
+
+/** Name of a calendar object, the last segment of its URL */
+const objectNameOf = (url: string) => decodeURIComponent(new URL(url).pathname.split('/').filter(Boolean).pop() ?? '');
+
+/** Where a page of events ends; events are ordered by start, then id */
+interface PageCursor {
+  start: string;
+  id: string;
+}
+
+const compareEvents = (a: { start: Date; id: string }, b: { start: Date; id: string }) =>
+  a.start.getTime() - b.start.getTime() || a.id.localeCompare(b.id);
+
+const connectCalDav = (account: CaldavAccount): CalendarConnection => {
+  const credentials: CalDavCredentials = {
+    origin: new URL(account.serverUrl).origin,
+    username: account.username,
+    password: decryptSecret(account.password),
+  };
+  const calendarUrl = (calendarId: string) => (calendarId === PRIMARY_CALENDAR_ID ? account.calendarUrl : calendarId);
+
+  const listEvents: CalendarConnection['listEvents'] = async (calendarId, range) => {
+    const objects = await queryCalDavEvents(calendarUrl(calendarId), credentials, range);
+
+    return objects.flatMap(object => {
+      // Exceptions of a recurring event share its object; the master comes first
+      const [event] = parseICalEvents(object.calendarData);
+      if (event?.status === 'CANCELLED') {
+        return [];
+      }
+      return [
+        {
+          id: objectNameOf(object.url),
+          calendarId,
+          updatedAt: event.lastModified,
+          title: event.summary ?? '',
+          description: event.description,
+          start: event.start,
+          end: event.end,
+          allDay: event.allDay,
+        },
+      ];
+    });
+  };
+
+  return {
+    defaultCalendarId: account.calendarUrl,
+
+    async listCalendars() {
+      const calendars = await discoverCalDavCalendars(account.serverUrl, credentials);
+      return calendars.map(calendar => ({
+        id: calendar.url,
+        summary: calendar.displayName ?? objectNameOf(calendar.url),
+        primary: calendar.url === account.calendarUrl,
+        color: calendar.color,
+        timeZone: calendar.timeZone,
+      }));
+    },
+
+    listEvents,
+
+    async listEventPage(calendarId, range, { pageToken, pageSize }) {
+      // CalDAV has no paging: the token holds the last event handed out, and the next page is listed from its start
+      const cursor = pageToken ? (JSON.parse(Buffer.from(pageToken, 'base64url').toString()) as PageCursor) : null;
+      const after = cursor && { start: new Date(cursor.start), id: cursor.id };
+      const from = after && after.start > range.from ? after.start : range.from;
+
+      const events = (await listEvents(calendarId, { from, to: range.to }))
+        .filter(event => !after || compareEvents(event, after) > 0)
+        .sort(compareEvents);
+      const page = events.slice(0, pageSize);
+      const last = page.at(-1);
+
+      return {
+        events: page,
+        nextPageToken:
+          last && events.length > pageSize
+            ? Buffer.from(JSON.stringify({ start: last.start.toISOString(), id: last.id })).toString('base64url')
+            : null,
+      };
+    },
+
+    async createEvent(calendarId, event) {
+      const uid = randomUUID();
+      const objectName = `${uid}.ics`;
+      const modified = new Date();
+
+      await putCalDavObject(
+        calDavObjectUrl(calendarUrl(calendarId), objectName),
+        credentials,
+        buildICalEvent(uid, event, modified),
+        { create: true },
+      );
+      return { id: objectName, calendarId, updatedAt: modified };
+    },
+
+    async updateEvent(calendarId, eventId, event) {
+      const url = calDavObjectUrl(calendarUrl(calendarId), eventId);
+
+      // The object keeps its UID, which need not match its name for events created elsewhere
+      const current = await getCalDavObject(url, credentials);
+      if (!current) {
+        return null;
+      }
+      const uid = parseICalEvents(current.calendarData)[0]?.uid ?? eventId.replace(/\.ics$/, '');
+      const modified = new Date();
+
+      await putCalDavObject(url, credentials, buildICalEvent(uid, event, modified), { etag: current.etag });
+      return { id: eventId, calendarId, updatedAt: modified };
+    },
+
+    async moveEvent(calendarId, eventId, destinationCalendarId) {
+      const moved = await moveCalDavObject(
+        calDavObjectUrl(calendarUrl(calendarId), eventId),
+        credentials,
+        calDavObjectUrl(calendarUrl(destinationCalendarId), eventId),
+      );
+      return moved ? { id: eventId, calendarId: destinationCalendarId, updatedAt: null } : null;
+    },
+
+    async deleteEvent(calendarId, eventId) {
+      await deleteCalDavObject(calDavObjectUrl(calendarUrl(calendarId), eventId), credentials);
+    },
+  };
+};
+
+export const createCalDavCalendarProvider = (): CalendarProvider => ({
+  id: PROVIDER,
+  displayName: 'CalDAV',
+
+  async connect(userId) {
+    const [account] = await db.select().from(caldavAccounts).where(eq(caldavAccounts.userId, userId)).limit(1);
+    if (!account) {
+      return null;
+    }
+    return connectCalDav(account);
+  },
+});
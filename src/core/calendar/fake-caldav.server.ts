@@ -0,0 +1,333 @@
+/**
+ * Fake CalDAV Server
+ * - Radicale-style layout: every user name is a principal whose collections
+ *   are its calendars, e.g. /alice/calendar/ with objects /alice/calendar/<name>.ics
+ * - A principal and its default `calendar` collection are created on first use;
+ *   MKCALENDAR adds more
+ * - The subset of WebDAV/CalDAV this app uses: OPTIONS, PROPFIND (depth 0 and 1),
+ *   MKCALENDAR, GET, PUT with If-Match/If-None-Match, DELETE, MOVE and the
+ *   time-range calendar-query REPORT
+ * - Users only see their own principal; any password is accepted
+ * - Everything is kept in memory and lost on restart
+ *
+ * @module calendar/fake-caldav.server
+ * @exports FakeCalDavServer
+ * @exports fakeCalDavServer - Shared instance served at /api/dev/caldav
+ */
+
+import { parseICalEvents } from './ical';
+
+const DEFAULT_CALENDAR = 'calendar';
+
+interface StoredObject {
+  data: string;
+  etag: string;
+}
+
+interface FakeCalDavCalendar {
+  displayName: string;
+  color: string;
+  objects: Map<string, StoredObject>;
+}
+
+export interface FakeCalDavRequest {
+  method: string;
+  /** Path the server is mounted at, used to build hrefs */
+  basePath: string;
+  /** Path below the mount */
+  path: string;
+  /** Authenticated user name */
+  user: string;
+  headers: Record<string, string | undefined>;
+  body: string;
+}
+
+export interface FakeCalDavResponse {
+  status: number;
+  headers?: Record<string, string>;
+  body?: string;
+}
+
+const XML_HEADERS = { 'Content-Type': 'application/xml; charset=utf-8' };
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const encodePath = (...segments: string[]) => segments.map(encodeURIComponent).join('/');
+
+const multistatus = (responses: Array<{ href: string; props: string }>): FakeCalDavResponse => ({
+  status: 207,
+  headers: XML_HEADERS,
+  body: `<?xml version="1.0" encoding="utf-8"?>
+<d:multistatus xmlns:d="DAV:" xmlns:c="urn:ietf:params:xml:ns:caldav" xmlns:ic="http://apple.com/ns/ical/">${responses
+    .map(
+      ({ href, props }) =>
+        `<d:response><d:href>${escapeXml(href)}</d:href><d:propstat><d:prop>${props}</d:prop><d:status>HTTP/1.1 200 OK</d:status></d:propstat></d:response>`,
+    )
+    .join('')}</d:multistatus>`,
+});
+
+const status = (code: number): FakeCalDavResponse => ({ status: code });
+
+/**
+ * Parse a time-range bound (UTC DATE-TIME) of a calendar-query
+ */
+const parseBound = (value: string | undefined): number | undefined => {
+  const match = value && /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/.exec(value);
+  return match ? Date.UTC(+match[1], +match[2] - 1, +match[3], +match[4], +match[5], +match[6]) : undefined;
+};
+
+export class FakeCalDavServer {
+  private seq = 0;
+  private principals = new Map<string, Map<string, FakeCalDavCalendar>>();
+
+  /**
+   * Handle a WebDAV request
+   */
+  handle(req: FakeCalDavRequest): FakeCalDavResponse {
+    const segments = req.path
+      .split('/')
+      .filter(Boolean)
+      .map(segment => decodeURIComponent(segment));
+
+    if (segments.length > 0 && segments[0] !== req.user) {
+      return status(403);
+    }
+    if (req.method === 'OPTIONS') {
+      return {
+        status: 200,
+        headers: {
+          DAV: '1, 2, 3, calendar-access',
+          Allow: 'OPTIONS, PROPFIND, REPORT, MKCALENDAR, GET, PUT, DELETE, MOVE',
+        },
+      };
+    }
+
+    if (segments.length <= 1) {
+      return req.method === 'PROPFIND' ? this.propfindPrincipal(req, segments.length === 1) : status(405);
+    }
+
+    const [user, calendarName, objectName] = segments;
+    if (segments.length === 2) {
+      return this.handleCalendar(req, user, calendarName);
+    }
+    if (segments.length === 3) {
+      return this.handleObject(req, user, calendarName, objectName);
+    }
+    return status(404);
+  }
+
+  /**
+   * Forget every principal, calendar and object
+   */
+  reset(): void {
+    this.seq = 0;
+    this.principals.clear();
+  }
+
+  private calendars(user: string): Map<string, FakeCalDavCalendar> {
+    let calendars = this.principals.get(user);
+    if (!calendars) {
+      calendars = new Map([[DEFAULT_CALENDAR, { displayName: 'Calendar', color: '#4986e7', objects: new Map() }]]);
+      this.principals.set(user, calendars);
+    }
+    return calendars;
+  }
+
+  private principalHref(req: FakeCalDavRequest) {
+    return `${req.basePath}/${encodePath(req.user)}/`;
+  }
+
+  private calendarResponse(req: FakeCalDavRequest, name: string, calendar: FakeCalDavCalendar) {
+    return {
+      href: `${req.basePath}/${encodePath(req.user, name)}/`,
+      props:
+        '<d:resourcetype><d:collection/><c:calendar/></d:resourcetype>' +
+        `<d:displayname>${escapeXml(calendar.displayName)}</d:displayname>` +
+        `<ic:calendar-color>${escapeXml(calendar.color)}</ic:calendar-color>` +
+        '<c:supported-calendar-component-set><c:comp name="VEVENT"/></c:supported-calendar-component-set>' +
+        `<d:getctag>${this.seq}</d:getctag>`,
+    };
+  }
+
+  /**
+   * The server root names the principal; the principal is also the calendar home
+   */
+  private propfindPrincipal(req: FakeCalDavRequest, isPrincipal: boolean): FakeCalDavResponse {
+    const principalHref = this.principalHref(req);
+    const principal = {
+      href: isPrincipal ? principalHref : `${req.basePath}/`,
+      props:
+        `<d:current-user-principal><d:href>${escapeXml(principalHref)}</d:href></d:current-user-principal>` +
+        `<c:calendar-home-set><d:href>${escapeXml(principalHref)}</d:href></c:calendar-home-set>` +
+        `<d:resourcetype><d:collection/>${
+          isPrincipal ? '<d:principal/>' : ''
+        }</d:resourcetype>` +
+        `<d:displayname>${escapeXml(req.user)}</d:displayname>`,
+    };
+
+    if (!isPrincipal || req.headers.depth !== '1') {
+      return multistatus([principal]);
+    }
+    return multistatus([
+      principal,
+      ...[...this.calendars(req.user)].map(([name, calendar]) => this.calendarResponse(req, name, calendar)),
+    ]);
+  }
+
+  private handleCalendar(req: FakeCalDavRequest, user: string, name: string): FakeCalDavResponse {
+    const calendars = this.calendars(user);
+    const calendar = calendars.get(name);
+
+    if (req.method === 'MKCALENDAR') {
+      if (calendar) {
+        return status(405);
+      }
+      const displayName = /<(?:[\w.-]+:)?displayname>([^<]*)</.exec(req.body)?.[1];
+      calendars.set(name, { displayName: displayName ?? name, color: '#9fe1e7', objects: new Map() });
+      return status(201);
+    }
+    if (!calendar) {
+      return status(404);
+    }
+
+    if (req.method === 'PROPFIND') {
+      const self = this.calendarResponse(req, name, calendar);
+      if (req.headers.depth !== '1') {
+        return multistatus([self]);
+      }
+      return multistatus([
+        self,
+        ...[...calendar.objects].map(([objectName, object]) => ({
+          href: `${self.href}${encodeURIComponent(objectName)}`,
+          props:
+            `<d:getetag>${escapeXml(object.etag)}</d:getetag>` +
+            '<d:getcontenttype>text/calendar; charset=utf-8; component=vevent</d:getcontenttype><d:resourcetype/>',
+        })),
+      ]);
+    }
+    if (req.method === 'REPORT') {
+      return this.calendarQuery(req, name, calendar);
+    }
+    if (req.method === 'DELETE') {
+      calendars.delete(name);
+      return status(204);
+    }
+    return status(405);
+  }
+
+  /**
+   * calendar-query REPORT; only the VEVENT time-range filter is understood
+   */
+  private calendarQuery(req: FakeCalDavRequest, name: string, calendar: FakeCalDavCalendar): FakeCalDavResponse {
+    if (!/calendar-query/.test(req.body)) {
+      return status(501);
+    }
+
+    const range = /<(?:[\w.-]+:)?time-range([^>]*)\/?>/.exec(req.body)?.[1] ?? '';
+    const from = parseBound(/start="([^"]+)"/.exec(range)?.[1]);
+    const to = parseBound(/end="([^"]+)"/.exec(range)?.[1]);
+
+    const matches = [...calendar.objects].filter(([, object]) =>
+      parseICalEvents(object.data).some(event => {
+        const start = event.start.getTime();
+        const end = Math.max(event.end.getTime(), start + 1);
+        return (from === undefined || end > from) && (to === undefined || start < to);
+      }),
+    );
+
+    return multistatus(
+      matches.map(([objectName, object]) => ({
+        href: `${req.basePath}/${encodePath(req.user, name, objectName)}`,
+        props: `<d:getetag>${escapeXml(object.etag)}</d:getetag><c:calendar-data>${escapeXml(object.data)}</c:calendar-data>`,
+      })),
+    );
+  }
+
+  private handleObject(req: FakeCalDavRequest, user: string, calendarName: string, name: string): FakeCalDavResponse {
+    const calendar = this.calendars(user).get(calendarName);
+    const object = calendar?.objects.get(name);
+
+    if (req.method === 'GET') {
+      return object
+        ? {
+          status: 200,
+          headers: { 'Content-Type': 'text/calendar; charset=utf-8', ETag: object.etag },
+          body: object.data,
+        }
+        : status(404);
+    }
+    if (req.method === 'DELETE') {
+      if (!object) {
+        return status(404);
+      }
+      calendar?.objects.delete(name);
+      return status(204);
+    }
+    if (req.method === 'PUT') {
+      if (!calendar) {
+        return status(409);
+      }
+      const { 'if-match': ifMatch, 'if-none-match': ifNoneMatch } = req.headers;
+      if ((ifNoneMatch === '*' && object) || (ifMatch && (!object || (ifMatch !== '*' && ifMatch !== object.etag)))) {
+        return status(412);
+      }
+      if (parseICalEvents(req.body).length === 0) {
+        return status(400);
+      }
+
+      const etag = `"${++this.seq}"`;
+      calendar.objects.set(name, { data: req.body, etag });
+      return { status: object ? 204 : 201, headers: { ETag: etag } };
+    }
+    if (req.method === 'MOVE') {
+      return this.move(req, calendar, name, object);
+    }
+    return status(405);
+  }
+
+  private move(
+    req: FakeCalDavRequest,
+    calendar: FakeCalDavCalendar | undefined,
+    name: string,
+    object: StoredObject | undefined,
+  ): FakeCalDavResponse {
+    if (!calendar || !object) {
+      return status(404);
+    }
+
+    let destination: string[];
+    try {
+      const path = new URL(req.headers.destination ?? '', 'http://fake.invalid').pathname;
+      if (!path.startsWith(`${req.basePath}/`)) {
+        return status(502);
+      }
+      destination = path
+        .slice(req.basePath.length)
+        .split('/')
+        .filter(Boolean)
+        .map(segment => decodeURIComponent(segment));
+    } catch {
+      return status(400);
+    }
+
+    const [user, calendarName, objectName] = destination;
+    if (destination.length !== 3 || user !== req.user) {
+      return status(403);
+    }
+    const target = this.calendars(user).get(calendarName);
+    if (!target) {
+      return status(409);
+    }
+    const existing = target.objects.get(objectName);
+    if (existing && req.headers.overwrite?.toUpperCase() === 'F') {
+      return status(412);
+    }
+
+    calendar.objects.delete(name);
+    target.objects.set(objectName, { data: object.data, etag: `"${++this.seq}"` });
+    return status(existing ? 204 : 201);
+  }
+}
+
+export const fakeCalDavServer = new FakeCalDavServer();
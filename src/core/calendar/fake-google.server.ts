@@ -0,0 +1,365 @@
+/**
+ * Fake Google Calendar Server
+ * - The subset of the Calendar API this app uses: the calendar list, calendars
+ *   (insert), events (list by time range, insert, get, patch, move, delete),
+ *   incremental sync tokens, and push channels (watch, stop)
+ * - Events are stored as written; recurring events are not expanded
+ * - Deleted events stay listed as `cancelled`, like Google's, so incremental syncs see them
+ * - Open channels receive `sync` and `exists` notifications the way Google sends them
+ * - One shared account; everything is kept in memory and lost on restart
+ *
+ * @module calendar/fake-google.server
+ * @exports FakeGoogleCalendarServer
+ * @exports fakeGoogleCalendarServer - Shared instance served at /api/dev/calendar/v3
+ */
+
+import { randomBytes } from 'crypto';
+import logger from '@/core/logger';
+import type { GoogleCalendarEvent, GoogleCalendarListEntry } from './google.api';
+
+const DEFAULT_PAGE_SIZE = 250;
+const DEFAULT_CHANNEL_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+interface StoredEvent {
+  event: GoogleCalendarEvent;
+  /** Change sequence number of the last modification */
+  seq: number;
+}
+
+interface FakeChannel {
+  id: string;
+  calendarId: string;
+  resourceId: string;
+  address: string;
+  token?: string;
+  expiration: number;
+  messageNumber: number;
+}
+
+interface PageCursor {
+  since: number | null;
+  showDeleted: boolean;
+  offset: number;
+  /** Time range of a listing without sync token (ms since the epoch) */
+  timeMin?: number;
+  timeMax?: number;
+}
+
+export interface FakeCalendarResponse {
+  status: number;
+  body?: unknown;
+}
+
+const randomId = (bytes = 12) => randomBytes(bytes).toString('hex');
+
+const PRIMARY_CALENDAR: GoogleCalendarListEntry = {
+  id: 'primary',
+  summary: 'Primary',
+  primary: true,
+  accessRole: 'owner',
+  backgroundColor: '#9fe1e7',
+  timeZone: 'UTC',
+};
+
+/** Event fields clients can write */
+const writableFields = (body: Partial<GoogleCalendarEvent>): Partial<GoogleCalendarEvent> => {
+  const { summary, description, start, end, colorId, visibility, reminders, source } = body;
+  return Object.fromEntries(
+    Object.entries({ summary, description, start, end, colorId, visibility, reminders, source }).filter(
+      ([, value]) => value !== undefined,
+    ),
+  );
+};
+
+const eventTime = (time?: GoogleCalendarEvent['start']) => Date.parse(time?.dateTime ?? time?.date ?? '');
+
+/** Whether an event overlaps [timeMin, timeMax); events without times only match unbounded listings */
+const overlaps = (event: GoogleCalendarEvent, timeMin?: number, timeMax?: number) =>
+  (timeMin === undefined || eventTime(event.end) > timeMin) &&
+  (timeMax === undefined || eventTime(event.start) < timeMax);
+
+const apiError = (status: number, message: string, reason: string): FakeCalendarResponse => ({
+  status,
+  body: { error: { code: status, message, errors: [{ reason, message }] } },
+});
+
+const notFound = () => apiError(404, 'Not Found', 'notFound');
+const deleted = () => apiError(410, 'Resource has been deleted', 'deleted');
+
+export class FakeGoogleCalendarServer {
+  private seq = 0;
+  /** Sync tokens from before this sequence number are rejected with 410 */
+  private oldestValidSeq = 0;
+  private lastUpdated = 0;
+  private calendars = new Map<string, Map<string, StoredEvent>>();
+  private calendarList = new Map<string, GoogleCalendarListEntry>([[PRIMARY_CALENDAR.id, PRIMARY_CALENDAR]]);
+  private channels = new Map<string, FakeChannel>();
+
+  /**
+   * Calendars of the account; everything in the fake is writable
+   */
+  listCalendars(): FakeCalendarResponse {
+    return { status: 200, body: { kind: 'calendar#calendarList', items: [...this.calendarList.values()] } };
+  }
+
+  insertCalendar(body: { summary?: string; timeZone?: string }): FakeCalendarResponse {
+    if (!body.summary) {
+      return apiError(400, 'Missing summary', 'required');
+    }
+
+    const entry: GoogleCalendarListEntry = {
+      id: `${randomId()}@group.calendar.google.com`,
+      summary: body.summary,
+      accessRole: 'owner',
+      timeZone: body.timeZone ?? 'UTC',
+    };
+    this.calendarList.set(entry.id, entry);
+    return { status: 200, body: { kind: 'calendar#calendar', id: entry.id, summary: entry.summary } };
+  }
+
+  /**
+   * List events; with `syncToken` only those changed since, including deletions,
+   * otherwise optionally those overlapping `timeMin`/`timeMax`
+   */
+  listEvents(calendarId: string, query: Record<string, string | undefined>): FakeCalendarResponse {
+    let cursor: PageCursor;
+
+    if (query.pageToken) {
+      try {
+        cursor = JSON.parse(Buffer.from(query.pageToken, 'base64url').toString()) as PageCursor;
+      } catch {
+        return apiError(400, 'Invalid page token', 'invalid');
+      }
+    } else if (query.syncToken) {
+      const since = /^sync-(\d+)$/.exec(query.syncToken);
+      if (!since || Number(since[1]) < this.oldestValidSeq || Number(since[1]) > this.seq) {
+        return apiError(410, 'Sync token is no longer valid, a full sync is required.', 'fullSyncRequired');
+      }
+      cursor = { since: Number(since[1]), showDeleted: true, offset: 0 };
+    } else {
+      cursor = {
+        since: null,
+        showDeleted: query.showDeleted === 'true',
+        offset: 0,
+        timeMin: query.timeMin ? Date.parse(query.timeMin) : undefined,
+        timeMax: query.timeMax ? Date.parse(query.timeMax) : undefined,
+      };
+    }
+
+    const changed = [...this.calendar(calendarId).values()]
+      .filter(({ event, seq }) =>
+        cursor.since === null ? cursor.showDeleted || event.status !== 'cancelled' : seq > cursor.since,
+      )
+      .filter(({ event }) => overlaps(event, cursor.timeMin, cursor.timeMax))
+      .sort((a, b) => a.seq - b.seq);
+
+    const pageSize = Math.min(Number(query.maxResults) || DEFAULT_PAGE_SIZE, DEFAULT_PAGE_SIZE);
+    const items = changed.slice(cursor.offset, cursor.offset + pageSize).map(({ event }) => event);
+    const nextOffset = cursor.offset + pageSize;
+
+    return {
+      status: 200,
+      body: {
+        kind: 'calendar#events',
+        items,
+        ...(nextOffset < changed.length
+          ? {
+            nextPageToken: Buffer.from(JSON.stringify({ ...cursor, offset: nextOffset })).toString('base64url'),
+          }
+          : { nextSyncToken: `sync-${this.seq}` }),
+      },
+    };
+  }
+
+  insertEvent(calendarId: string, body: Partial<GoogleCalendarEvent>): FakeCalendarResponse {
+    if (!this.calendarList.has(calendarId)) {
+      return notFound();
+    }
+
+    const event = this.store(calendarId, { ...writableFields(body), id: randomId(), status: 'confirmed' });
+    return { status: 200, body: event };
+  }
+
+  getEvent(calendarId: string, eventId: string): FakeCalendarResponse {
+    const stored = this.calendar(calendarId).get(eventId);
+    return stored ? { status: 200, body: stored.event } : notFound();
+  }
+
+  /**
+   * Update the given fields of an event
+   */
+  patchEvent(calendarId: string, eventId: string, body: Partial<GoogleCalendarEvent>): FakeCalendarResponse {
+    const stored = this.calendar(calendarId).get(eventId);
+    if (!stored) {
+      return notFound();
+    }
+    if (stored.event.status === 'cancelled') {
+      return deleted();
+    }
+
+    const event = this.store(calendarId, { ...stored.event, ...writableFields(body) });
+    return { status: 200, body: event };
+  }
+
+  /**
+   * Move an event to another calendar; the source lists it as cancelled
+   */
+  moveEvent(calendarId: string, eventId: string, destination: string | undefined): FakeCalendarResponse {
+    const stored = this.calendar(calendarId).get(eventId);
+    if (!stored) {
+      return notFound();
+    }
+    if (stored.event.status === 'cancelled') {
+      return deleted();
+    }
+    if (!destination || !this.calendarList.has(destination)) {
+      return apiError(404, 'Destination calendar not found', 'notFound');
+    }
+    if (destination === calendarId) {
+      return { status: 200, body: stored.event };
+    }
+
+    this.store(calendarId, { ...stored.event, status: 'cancelled' });
+    const event = this.store(destination, { ...stored.event });
+    return { status: 200, body: event };
+  }
+
+  deleteEvent(calendarId: string, eventId: string): FakeCalendarResponse {
+    const stored = this.calendar(calendarId).get(eventId);
+    if (!stored) {
+      return notFound();
+    }
+    if (stored.event.status === 'cancelled') {
+      return deleted();
+    }
+
+    this.store(calendarId, { ...stored.event, status: 'cancelled' });
+    return { status: 204 };
+  }
+
+  /**
+   * Open a push channel; it receives a `sync` notification right away
+   */
+  watch(
+    calendarId: string,
+    body: { id?: string; type?: string; address?: string; token?: string; params?: { ttl?: string } },
+  ): FakeCalendarResponse {
+    if (!body.id || body.type !== 'web_hook' || !body.address) {
+      return apiError(400, 'id, type web_hook and address are required', 'required');
+    }
+    if (this.channels.has(body.id)) {
+      return apiError(400, `Channel id ${body.id} not unique`, 'channelIdNotUnique');
+    }
+
+    const ttlSeconds = Number(body.params?.ttl) || DEFAULT_CHANNEL_TTL_SECONDS;
+    const channel: FakeChannel = {
+      id: body.id,
+      calendarId,
+      resourceId: randomId(),
+      address: body.address,
+      token: body.token,
+      expiration: Date.now() + ttlSeconds * 1000,
+      messageNumber: 0,
+    };
+    this.channels.set(channel.id, channel);
+    this.notify(channel, 'sync');
+
+    return {
+      status: 200,
+      body: {
+        kind: 'api#channel',
+        id: channel.id,
+        resourceId: channel.resourceId,
+        resourceUri: `/calendars/${encodeURIComponent(calendarId)}/events`,
+        token: channel.token,
+        expiration: String(channel.expiration),
+      },
+    };
+  }
+
+  stopChannel(body: { id?: string; resourceId?: string }): FakeCalendarResponse {
+    const channel = body.id ? this.channels.get(body.id) : undefined;
+    if (!channel || channel.resourceId !== body.resourceId) {
+      return apiError(404, 'Channel not found', 'notFound');
+    }
+
+    this.channels.delete(channel.id);
+    return { status: 204 };
+  }
+
+  /**
+   * Invalidate every sync token handed out so far, as Google does from time to time
+   */
+  expireSyncTokens(): void {
+    this.oldestValidSeq = this.seq + 1;
+  }
+
+  /**
+   * Forget every calendar, event and channel
+   */
+  reset(): void {
+    this.seq = 0;
+    this.oldestValidSeq = 0;
+    this.calendars.clear();
+    this.calendarList = new Map([[PRIMARY_CALENDAR.id, PRIMARY_CALENDAR]]);
+    this.channels.clear();
+  }
+
+  private calendar(calendarId: string): Map<string, StoredEvent> {
+    let events = this.calendars.get(calendarId);
+    if (!events) {
+      events = new Map();
+      this.calendars.set(calendarId, events);
+    }
+    return events;
+  }
+
+  /**
+   * Save a new version of an event and tell the channels watching its calendar
+   */
+  private store(calendarId: string, event: GoogleCalendarEvent): GoogleCalendarEvent {
+    // Modification times strictly increase, even within the same millisecond
+    this.lastUpdated = Math.max(Date.now(), this.lastUpdated + 1);
+    const version: GoogleCalendarEvent = {
+      ...event,
+      updated: new Date(this.lastUpdated).toISOString(),
+      etag: `"${this.lastUpdated}"`,
+    };
+
+    this.calendar(calendarId).set(event.id, { event: version, seq: ++this.seq });
+
+    for (const channel of this.channels.values()) {
+      if (channel.calendarId === calendarId) {
+        this.notify(channel, 'exists');
+      }
+    }
+
+    return version;
+  }
+
+  private notify(channel: FakeChannel, state: 'sync' | 'exists'): void {
+    if (channel.expiration <= Date.now()) {
+      this.channels.delete(channel.id);
+      return;
+    }
+
+    fetch(channel.address, {
+      method: 'POST',
+      headers: {
+        'X-Goog-Channel-ID': channel.id,
+        ...(channel.token && { 'X-Goog-Channel-Token': channel.token }),
+        'X-Goog-Channel-Expiration': new Date(channel.expiration).toUTCString(),
+        'X-Goog-Resource-ID': channel.resourceId,
+        'X-Goog-Resource-State': state,
+        'X-Goog-Message-Number': String(++channel.messageNumber),
+      },
+    }).catch((error: unknown) => {
+      logger.debug('[FakeCalendar] Notification could not be delivered', {
+        channelId: channel.id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    });
+  }
+}
+
+export const fakeGoogleCalendarServer = new FakeGoogleCalendarServer();
@@ -0,0 +1,356 @@
+/**
+ * Google Calendar API Client
+ * - Calendar list (calendars the user can write to)
+ * - Events (insert, patch, delete, listing by time range) and moves between calendars
+ * - Event changes (full and incremental listing with sync tokens)
+ * - Push notification channels (watch, stop)
+ * - Requests go to GOOGLE_CALENDAR_API_URL, so the fake server can stand in for Google
+ *
+ * @module calendar/google.api
+ * @exports GoogleCalendarApiError - Non-OK response of the Calendar API
+ * @exports googleCalendarEventsUrl - Events collection URL of a calendar
+ * @exports listGoogleCalendars - Calendars the user can add events to
+ * @exports listGoogleEventPage - One page of the events overlapping a time range
+ * @exports listGoogleEvents - Events overlapping a time range
+ * @exports listGoogleEventChanges - Events changed since a sync token
+ * @exports insertGoogleEvent - Creates an event
+ * @exports patchGoogleEvent - Updates the given fields of an event
+ * @exports deleteGoogleEvent - Deletes an event
+ * @exports moveGoogleEvent - Moves an event to another calendar
+ * @exports watchGoogleEvents - Opens a push notification channel
+ * @exports stopGoogleChannel - Closes a push notification channel
+ */
+
+import { env } from '@/env';
+
+export interface GoogleEventDateTime {
+  dateTime?: string;
+  /** All-day events carry a date instead of a date-time */
+  date?: string;
+  timeZone?: string;
+}
+
+export interface GoogleCalendarEvent {
+  id: string;
+  status?: 'confirmed' | 'tentative' | 'cancelled';
+  summary?: string;
+  description?: string;
+  start?: GoogleEventDateTime;
+  end?: GoogleEventDateTime;
+  /** Null resets the field to the calendar's default on patch */
+  colorId?: string | null;
+  visibility?: 'default' | 'public' | 'private' | 'confidential';
+  reminders?: { useDefault: boolean; overrides?: Array<{ method: 'email' | 'popup'; minutes: number }> };
+  /** Link back to where the event came from */
+  source?: { title: string; url: string } | null;
+  /** Last modification time (RFC 3339) */
+  updated?: string;
+  etag?: string;
+}
+
+export interface GoogleCalendarListEntry {
+  id: string;
+  summary: string;
+  primary?: boolean;
+  accessRole: 'owner' | 'writer' | 'reader' | 'freeBusyReader';
+  backgroundColor?: string;
+  timeZone?: string;
+}
+
+export interface GoogleEventChanges {
+  events: GoogleCalendarEvent[];
+  /** Token to pass to the next incremental listing */
+  nextSyncToken: string;
+}
+
+export interface GoogleChannel {
+  id: string;
+  resourceId: string;
+  /** Milliseconds since the epoch */
+  expiration: number;
+}
+
+export class GoogleCalendarApiError extends Error {
+  constructor(
+    readonly action: string,
+    readonly status: number,
+  ) {
+    super(`Google Calendar ${action} failed with status ${status}`);
+    this.name = 'GoogleCalendarApiError';
+  }
+
+  /** The sync token has expired; a full sync is needed */
+  get syncTokenExpired() {
+    return this.status === 410;
+  }
+}
+
+const apiUrl = (path: string) => `${(env.GOOGLE_CALENDAR_API_URL as string).replace(/\/$/, '')}${path}`;
+
+export const googleCalendarEventsUrl = (calendarId = 'primary') =>
+  apiUrl(`/calendars/${encodeURIComponent(calendarId)}/events`);
+
+const googleEventUrl = (calendarId: string, eventId: string) =>
+  `${googleCalendarEventsUrl(calendarId)}/${encodeURIComponent(eventId)}`;
+
+/**
+ * Calendars the user can add events to, following every page
+ * @throws GoogleCalendarApiError if Google rejects the request
+ */
+export async function listGoogleCalendars(accessToken: string): Promise<GoogleCalendarListEntry[]> {
+  const calendars: GoogleCalendarListEntry[] = [];
+  let pageToken: string | undefined;
+
+  do {
+    const params = new URLSearchParams({ minAccessRole: 'writer', maxResults: '250' });
+    if (pageToken) {
+      params.set('pageToken', pageToken);
+    }
+
+    const res = await fetch(apiUrl(`/users/me/calendarList?${params.toString()}`), {
+      headers: { Authorization: `Bearer ${accessToken}` },
+    });
+    if (!res.ok) {
+      throw new GoogleCalendarApiError('calendar list', res.status);
+    }
+
+    const page = (await res.json()) as { items?: GoogleCalendarListEntry[]; nextPageToken?: string };
+    calendars.push(...(page.items ?? []));
+    pageToken = page.nextPageToken;
+  } while (pageToken);
+
+  return calendars;
+}
+
+/**
+ * One page of the events overlapping a time range, recurring events expanded, in order of start
+ * @throws GoogleCalendarApiError if Google rejects the request
+ */
+export async function listGoogleEventPage(
+  accessToken: string,
+  calendarId: string,
+  range: { from: Date; to: Date },
+  page: { pageToken?: string | null; maxResults?: number } = {},
+): Promise<{ items: GoogleCalendarEvent[]; nextPageToken: string | null }> {
+  const params = new URLSearchParams({
+    timeMin: range.from.toISOString(),
+    timeMax: range.to.toISOString(),
+    singleEvents: 'true',
+    orderBy: 'startTime',
+    maxResults: String(page.maxResults ?? 250),
+  });
+  if (page.pageToken) {
+    params.set('pageToken', page.pageToken);
+  }
+
+  const res = await fetch(`${googleCalendarEventsUrl(calendarId)}?${params.toString()}`, {
+    headers: { Authorization: `Bearer ${accessToken}` },
+  });
+  if (!res.ok) {
+    throw new GoogleCalendarApiError('list', res.status);
+  }
+
+  const body = (await res.json()) as { items?: GoogleCalendarEvent[]; nextPageToken?: string };
+  return { items: body.items ?? [], nextPageToken: body.nextPageToken ?? null };
+}
+
+/**
+ * Events overlapping a time range, recurring events expanded, following every page
+ * @throws GoogleCalendarApiError if Google rejects the request
+ */
+export async function listGoogleEvents(
+  accessToken: string,
+  calendarId: string,
+  range: { from: Date; to: Date },
+): Promise<GoogleCalendarEvent[]> {
+  const events: GoogleCalendarEvent[] = [];
+  let pageToken: string | null = null;
+
+  do {
+    const page = await listGoogleEventPage(accessToken, calendarId, range, { pageToken });
+    events.push(...page.items);
+    pageToken = page.nextPageToken;
+  } while (pageToken);
+
+  return events;
+}
+
+/**
+ * Events changed since the sync token, following every page
+ * - Without a sync token all events are listed (full sync)
+ * - Deleted events are included with status `cancelled`
+ *
+ * @throws GoogleCalendarApiError with `syncTokenExpired` when a full sync is needed
+ */
+export async function listGoogleEventChanges(
+  accessToken: string,
+  calendarId: string,
+  syncToken: string | null,
+): Promise<GoogleEventChanges> {
+  const events: GoogleCalendarEvent[] = [];
+  let pageToken: string | undefined;
+
+  for (;;) {
+    const params = new URLSearchParams({ showDeleted: 'true', maxResults: '250' });
+    if (syncToken) {
+      params.set('syncToken', syncToken);
+    }
+    if (pageToken) {
+      params.set('pageToken', pageToken);
+    }
+
+    const res = await fetch(`${googleCalendarEventsUrl(calendarId)}?${params.toString()}`, {
+      headers: { Authorization: `Bearer ${accessToken}` },
+    });
+    if (!res.ok) {
+      throw new GoogleCalendarApiError('list', res.status);
+    }
+
+    const page = (await res.json()) as {
+      items?: GoogleCalendarEvent[];
+      nextPageToken?: string;
+      nextSyncToken?: string;
+    };
+    events.push(...(page.items ?? []));
+
+    if (page.nextPageToken) {
+      pageToken = page.nextPageToken;
+      continue;
+    }
+    if (!page.nextSyncToken) {
+      throw new Error('Google Calendar list returned no sync token');
+    }
+    return { events, nextSyncToken: page.nextSyncToken };
+  }
+}
+
+/**
+ * Create an event
+ * @throws GoogleCalendarApiError if Google rejects the request
+ */
+export async function insertGoogleEvent(
+  accessToken: string,
+  calendarId: string,
+  event: Partial<GoogleCalendarEvent>,
+): Promise<GoogleCalendarEvent> {
+  const res = await fetch(googleCalendarEventsUrl(calendarId), {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${accessToken}`, 'Content-Type': 'application/json' },
+    body: JSON.stringify(event),
+  });
+  if (!res.ok) {
+    throw new GoogleCalendarApiError('create', res.status);
+  }
+
+  return (await res.json()) as GoogleCalendarEvent;
+}
+
+/**
+ * Update the given fields of an event
+ * @throws GoogleCalendarApiError if Google rejects the request (404/410 when the event is gone)
+ */
+export async function patchGoogleEvent(
+  accessToken: string,
+  calendarId: string,
+  eventId: string,
+  event: Partial<GoogleCalendarEvent>,
+): Promise<GoogleCalendarEvent> {
+  const res = await fetch(googleEventUrl(calendarId, eventId), {
+    method: 'PATCH',
+    headers: { Authorization: `Bearer ${accessToken}`, 'Content-Type': 'application/json' },
+    body: JSON.stringify(event),
+  });
+  if (!res.ok) {
+    throw new GoogleCalendarApiError('update', res.status);
+  }
+
+  return (await res.json()) as GoogleCalendarEvent;
+}
+
+/**
+ * Delete an event; an event that is already gone counts as deleted
+ * @throws GoogleCalendarApiError for other failures
+ */
+export async function deleteGoogleEvent(accessToken: string, calendarId: string, eventId: string): Promise<void> {
+  const res = await fetch(googleEventUrl(calendarId, eventId), {
+    method: 'DELETE',
+    headers: { Authorization: `Bearer ${accessToken}` },
+  });
+
+  if (!res.ok && res.status !== 404 && res.status !== 410) {
+    throw new GoogleCalendarApiError('delete', res.status);
+  }
+}
+
+/**
+ * Move an event to another calendar; it keeps its id
+ * @throws GoogleCalendarApiError if Google rejects the move (404/410 when the event is gone)
+ */
+export async function moveGoogleEvent(
+  accessToken: string,
+  calendarId: string,
+  eventId: string,
+  destinationCalendarId: string,
+): Promise<GoogleCalendarEvent> {
+  const params = new URLSearchParams({ destination: destinationCalendarId });
+  const res = await fetch(`${googleEventUrl(calendarId, eventId)}/move?${params.toString()}`, {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${accessToken}` },
+  });
+  if (!res.ok) {
+    throw new GoogleCalendarApiError('move', res.status);
+  }
+
+  return (await res.json()) as GoogleCalendarEvent;
+}
+
+/**
+ * Open a push notification channel for the events of a calendar
+ *
+ * @param channel.address - HTTPS URL notifications are posted to
+ * @param channel.token - Secret echoed in the X-Goog-Channel-Token header
+ * @throws GoogleCalendarApiError if Google refuses the channel (e.g. an address that is not HTTPS)
+ */
+export async function watchGoogleEvents(
+  accessToken: string,
+  calendarId: string,
+  channel: { id: string; address: string; token: string; ttlSeconds: number },
+): Promise<GoogleChannel> {
+  const res = await fetch(`${googleCalendarEventsUrl(calendarId)}/watch`, {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${accessToken}`, 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      id: channel.id,
+      type: 'web_hook',
+      address: channel.address,
+      token: channel.token,
+      params: { ttl: String(channel.ttlSeconds) },
+    }),
+  });
+  if (!res.ok) {
+    throw new GoogleCalendarApiError('watch', res.status);
+  }
+
+  const data = (await res.json()) as { id: string; resourceId: string; expiration?: string };
+  return {
+    id: data.id,
+    resourceId: data.resourceId,
+    expiration: data.expiration ? Number(data.expiration) : Date.now() + channel.ttlSeconds * 1000,
+  };
+}
+
+/**
+ * Close a push notification channel; a channel that is already gone counts as closed
+ * @throws GoogleCalendarApiError for other failures
+ */
+export async function stopGoogleChannel(accessToken: string, channelId: string, resourceId: string): Promise<void> {
+  const res = await fetch(apiUrl('/channels/stop'), {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${accessToken}`, 'Content-Type': 'application/json' },
+    body: JSON.stringify({ id: channelId, resourceId }),
+  });
+
+  if (!res.ok && res.status !== 404) {
+    throw new GoogleCalendarApiError('channel stop', res.status);
+  }
+}
@@ -0,0 +1,158 @@
+/**
+ * Google Calendar Provider
+ * - Connects with the user's OAuth access token (`utils/oauthTokens`), which
+ *   is refreshed once it has expired; a rejected token is expired so the
+ *   next attempt refreshes it
+ * - Event options map to Google's fields; `primary` is Google's own alias
+ *
+ * @module calendar/google.provider
+ * @exports createGoogleCalendarProvider
+ */
+
+import { expireOAuthAccessToken, getOAuthAccessToken } from '@/utils/oauthTokens';
+import {
+  deleteGoogleEvent,
+  GoogleCalendarApiError,
+  insertGoogleEvent,
+  listGoogleCalendars,
+  listGoogleEventPage,
+  listGoogleEvents,
+  moveGoogleEvent,
+  patchGoogleEvent,
+  type GoogleCalendarEvent,
+  type GoogleEventDateTime,
+} from './google.api';
+import {
+  PRIMARY_CALENDAR_ID,
+  type CalendarConnection,
+  type CalendarEventDetails,
+  type CalendarEventRecord,
+  type CalendarListedEvent,
+  type CalendarProvider,
+} from './provider';
+
+const PROVIDER = 'google';
+
+/**
+ * Event body for the details
+ * - Unset options are sent as null so updates reset them to the calendar's defaults
+ */
+const eventBody = (event: CalendarEventDetails): Partial<GoogleCalendarEvent> => ({
+  summary: event.title,
+  description: event.description ?? undefined,
+  start: { dateTime: event.start.toISOString() },
+  end: { dateTime: event.end.toISOString() },
+  colorId: event.colorId ?? null,
+  reminders: event.reminders ?? { useDefault: true },
+  visibility: event.visibility ?? 'default',
+  source: event.url ? { title: event.title, url: event.url } : null,
+});
+
+const toRecord = (calendarId: string, event: GoogleCalendarEvent): CalendarEventRecord => {
+  if (!event.id) {
+    throw new Error('Google Calendar returned no event id');
+  }
+  return { id: event.id, calendarId, updatedAt: event.updated ? new Date(event.updated) : null };
+};
+
+const eventTime = (time?: GoogleEventDateTime) => new Date(time?.dateTime ?? `${time?.date}T00:00:00Z`);
+
+/** Listed events that still take place, as provider-neutral events */
+const toListedEvents = (calendarId: string, events: GoogleCalendarEvent[]): CalendarListedEvent[] =>
+  events
+    .filter(event => event.status !== 'cancelled' && event.start && event.end)
+    .map(event => ({
+      ...toRecord(calendarId, event),
+      title: event.summary ?? '',
+      description: event.description ?? null,
+      start: eventTime(event.start),
+      end: eventTime(event.end),
+      allDay: !event.start?.dateTime,
+    }));
+
+const isGone = (err: unknown) => err instanceof GoogleCalendarApiError && (err.status === 404 || err.status === 410);
+
+/**
+ * Run a Calendar API call; a rejected access token is expired so the retry refreshes it
+ */
+async function call<T>(userId: string, request: () => Promise<T>): Promise<T> {
+  try {
+    return await request();
+  } catch (err) {
+    if (err instanceof GoogleCalendarApiError && err.status === 401) {
+      await expireOAuthAccessToken(PROVIDER, userId);
+    }
+    throw err;
+  }
+}
+
+const connectGoogle = (userId: string, accessToken: string): CalendarConnection => ({
+  // Google resolves the alias itself
+  defaultCalendarId: PRIMARY_CALENDAR_ID,
+
+  async listCalendars() {
+    const calendars = await call(userId, () => listGoogleCalendars(accessToken));
+    return calendars.map(entry => ({
+      id: entry.id,
+      summary: entry.summary,
+      primary: entry.primary === true,
+      color: entry.backgroundColor ?? null,
+      timeZone: entry.timeZone ?? null,
+    }));
+  },
+
+  async listEvents(calendarId, range) {
+    const events = await call(userId, () => listGoogleEvents(accessToken, calendarId, range));
+    return toListedEvents(calendarId, events);
+  },
+
+  async listEventPage(calendarId, range, { pageToken, pageSize }) {
+    const page = await call(userId, () =>
+      listGoogleEventPage(accessToken, calendarId, range, { pageToken, maxResults: pageSize }),
+    );
+    return { events: toListedEvents(calendarId, page.items), nextPageToken: page.nextPageToken };
+  },
+
+  async createEvent(calendarId, event) {
+    const created = await call(userId, () => insertGoogleEvent(accessToken, calendarId, eventBody(event)));
+    return toRecord(calendarId, created);
+  },
+
+  async updateEvent(calendarId, eventId, event) {
+    try {
+      const updated = await call(userId, () => patchGoogleEvent(accessToken, calendarId, eventId, eventBody(event)));
+      return toRecord(calendarId, updated);
+    } catch (err) {
+      if (isGone(err)) {
+        return null;
+      }
+      throw err;
+    }
+  },
+
+  async moveEvent(calendarId, eventId, destinationCalendarId) {
+    try {
+      const moved = await call(userId, () => moveGoogleEvent(accessToken, calendarId, eventId, destinationCalendarId));
+      return toRecord(destinationCalendarId, moved);
+    } catch (err) {
+      if (isGone(err)) {
+        return null;
+      }
+      throw err;
+    }
+  },
+
+  async deleteEvent(calendarId, eventId) {
+    await call(userId, () => deleteGoogleEvent(accessToken, calendarId, eventId));
+  },
+});
+
+export const createGoogleCalendarProvider = (): CalendarProvider => ({
+  id: PROVIDER,
+  displayName: 'Google Calendar',
+
+  async connect(userId) {
+    const accessToken = await getOAuthAccessToken(PROVIDER, userId);
+    return accessToken ? connectGoogle(userId, accessToken) : null;
+  },
+});
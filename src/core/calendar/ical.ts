@@ -0,0 +1,293 @@
+/**
+ * iCalendar (RFC 5545) Events
+ * - Writes the VEVENT of a task, with reminders as VALARMs and visibility as CLASS
+ * - Reads the VEVENTs of calendar objects: UTC, floating, TZID and date-only
+ *   times, DTEND or DURATION; recurrence rules are not expanded
+ *
+ * @module calendar/ical
+ * @exports buildICalEvent - Calendar object holding one event
+ * @exports parseICalEvents - Events of a calendar object
+ * @exports formatICalDateTime - UTC DATE-TIME value of an instant
+ */
+
+import type { CalendarEventDetails } from './provider';
+
+const PRODID = '-//Task API//Calendar Sync//EN';
+
+/** Lines are folded at 75 octets */
+const MAX_LINE_OCTETS = 75;
+
+export interface ICalEvent {
+  uid: string;
+  summary: string | null;
+  description: string | null;
+  start: Date;
+  end: Date;
+  /** Date-only event */
+  allDay: boolean;
+  lastModified: Date | null;
+  status: string | null;
+}
+
+const escapeText = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+const unescapeText = (value: string) =>
+  value.replace(/\\([\\;,nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+
+/**
+ * UTC DATE-TIME value of an instant, e.g. 20241025T090000Z
+ */
+export const formatICalDateTime = (date: Date) =>
+  date
+    .toISOString()
+    .replace(/[-:]/g, '')
+    .replace(/\.\d{3}/, '');
+
+/**
+ * Fold a content line so no physical line exceeds 75 octets
+ */
+const fold = (line: string): string => {
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    // Continuation lines start with a space, which counts towards their length
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+};
+
+const CLASS_BY_VISIBILITY: Partial<Record<NonNullable<CalendarEventDetails['visibility']>, string>> = {
+  public: 'PUBLIC',
+  private: 'PRIVATE',
+  confidential: 'CONFIDENTIAL',
+};
+
+/**
+ * Calendar object holding one event
+ * - Colors are not written; CalDAV has no counterpart of Google's color ids
+ *
+ * @param modified - Written as DTSTAMP and LAST-MODIFIED
+ */
+export function buildICalEvent(uid: string, event: CalendarEventDetails, modified: Date): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODID}`,
+    'BEGIN:VEVENT',
+    `UID:${uid}`,
+    `DTSTAMP:${formatICalDateTime(modified)}`,
+    `LAST-MODIFIED:${formatICalDateTime(modified)}`,
+    `DTSTART:${formatICalDateTime(event.start)}`,
+    `DTEND:${formatICalDateTime(event.end)}`,
+    `SUMMARY:${escapeText(event.title)}`,
+  ];
+
+  if (event.description) {
+    lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  }
+  if (event.url) {
+    lines.push(`URL:${event.url}`);
+  }
+  const classification = event.visibility && CLASS_BY_VISIBILITY[event.visibility];
+  if (classification) {
+    lines.push(`CLASS:${classification}`);
+  }
+
+  if (event.reminders && !event.reminders.useDefault) {
+    for (const reminder of event.reminders.overrides ?? []) {
+      lines.push(
+        'BEGIN:VALARM',
+        `ACTION:${reminder.method === 'email' ? 'EMAIL' : 'DISPLAY'}`,
+        `TRIGGER:-PT${reminder.minutes}M`,
+        ...(reminder.method === 'email' ? [`SUMMARY:${escapeText(event.title)}`] : []),
+        `DESCRIPTION:${escapeText(event.title)}`,
+        'END:VALARM',
+      );
+    }
+  }
+
+  lines.push('END:VEVENT', 'END:VCALENDAR');
+  return `${lines.map(fold).join('\r\n')}\r\n`;
+}
+
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+const parseLine = (line: string): ContentLine | null => {
+  const match = /^([A-Za-z0-9-]+)((?:;[^:;]+=(?:"[^"]*"|[^:;]*))*):(.*)$/.exec(line);
+  if (!match) {
+    return null;
+  }
+
+  const params: Record<string, string> = {};
+  for (const param of match[2].matchAll(/;([^=;]+)=("[^"]*"|[^:;]*)/g)) {
+    params[param[1].toUpperCase()] = param[2].replace(/^"|"$/g, '');
+  }
+  return { name: match[1].toUpperCase(), params, value: match[3] };
+};
+
+/**
+ * Offset of a time zone from UTC at an instant, in milliseconds
+ */
+const zoneOffset = (timeZone: string, instant: number) => {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    })
+      .formatToParts(new Date(instant))
+      .map(part => [part.type, Number(part.value)]),
+  );
+  return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second) - instant;
+};
+
+/**
+ * Instant of a DATE or DATE-TIME value
+ * - Floating times and unknown time zones are read as UTC
+ */
+const parseDateTime = (line: ContentLine): { date: Date; allDay: boolean } | null => {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(line.value.trim());
+  if (!match) {
+    return null;
+  }
+
+  const [, year, month, day, hour, minute, second, utc] = match;
+  const wallClock = Date.UTC(+year, +month - 1, +day, +(hour ?? 0), +(minute ?? 0), +(second ?? 0));
+  if (hour === undefined) {
+    return { date: new Date(wallClock), allDay: true };
+  }
+
+  const timeZone = line.params.TZID;
+  if (utc || !timeZone) {
+    return { date: new Date(wallClock), allDay: false };
+  }
+
+  try {
+    // Correct the guess once, so times next to a DST change land right
+    const guess = wallClock - zoneOffset(timeZone, wallClock);
+    return { date: new Date(wallClock - zoneOffset(timeZone, guess)), allDay: false };
+  } catch {
+    return { date: new Date(wallClock), allDay: false };
+  }
+};
+
+/**
+ * Length of a DURATION value in milliseconds
+ */
+const parseDuration = (value: string): number | null => {
+  const match = /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(value.trim());
+  if (!match) {
+    return null;
+  }
+
+  const [, sign, weeks, days, hours, minutes, seconds] = match;
+  const ms =
+    ((+(weeks ?? 0) * 7 + +(days ?? 0)) * 86400 + +(hours ?? 0) * 3600 + +(minutes ?? 0) * 60 + +(seconds ?? 0)) * 1000;
+  return sign === '-' ? -ms : ms;
+};
+
+/**
+ * Events of a calendar object
+ * - Events without UID or start are skipped
+ * - Without DTEND or DURATION, timed events are instants and date-only events last a day
+ */
+export function parseICalEvents(ics: string): ICalEvent[] {
+  const lines = ics.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  const events: ICalEvent[] = [];
+
+  let current: Map<string, ContentLine> | null = null;
+  // Nested components (VALARM) must not overwrite the event's properties
+  let depth = 0;
+
+  for (const raw of lines) {
+    const line = parseLine(raw);
+    if (!line) {
+      continue;
+    }
+
+    if (line.name === 'BEGIN') {
+      if (line.value.toUpperCase() === 'VEVENT') {
+        current = new Map();
+        depth = 0;
+      } else if (current) {
+        depth++;
+      }
+      continue;
+    }
+
+    if (line.name === 'END' && current) {
+      if (depth > 0) {
+        depth--;
+        continue;
+      }
+      if (line.value.toUpperCase() === 'VEVENT') {
+        const event = toEvent(current);
+        if (event) {
+          events.push(event);
+        }
+        current = null;
+      }
+      continue;
+    }
+
+    if (current && depth === 0 && !current.has(line.name)) {
+      current.set(line.name, line);
+    }
+  }
+
+  return events;
+}
+
+const toEvent = (props: Map<string, ContentLine>): ICalEvent | null => {
+  const uid = props.get('UID')?.value;
+  const startLine = props.get('DTSTART');
+  const start = startLine && parseDateTime(startLine);
+  if (!uid || !start) {
+    return null;
+  }
+
+  const endLine = props.get('DTEND');
+  const duration = props.get('DURATION') && parseDuration(props.get('DURATION')?.value ?? '');
+  const end =
+    (endLine && parseDateTime(endLine)?.date) ??
+    new Date(start.date.getTime() + (duration ?? (start.allDay ? 86400 * 1000 : 0)));
+
+  const modifiedLine = props.get('LAST-MODIFIED') ?? props.get('DTSTAMP');
+  const text = (name: string) => {
+    const value = props.get(name)?.value;
+    return value === undefined ? null : unescapeText(value);
+  };
+
+  return {
+    uid,
+    summary: text('SUMMARY'),
+    description: text('DESCRIPTION'),
+    start: start.date,
+    end,
+    allDay: start.allDay,
+    lastModified: (modifiedLine && parseDateTime(modifiedLine)?.date) ?? null,
+    status: props.get('STATUS')?.value.toUpperCase() ?? null,
+  };
+};
@@ -0,0 +1,92 @@
+/**
+ * Calendar Integration
+ * - Calendar providers (Google Calendar, CalDAV) behind the `CalendarProvider`
+ *   contract; task sync only talks to the contract
+ * - Google Calendar API and CalDAV clients
+ * - Fake Google Calendar server at /api/dev/calendar/v3 and fake CalDAV server
+ *   at /api/dev/caldav, when DEV_SERVERS_ENABLED is true
+ * - `CalendarSyncScheduler` polls calendars without a push channel and renews channels
+ * - `CalendarSyncRetrier` retries failed task pushes with backoff
+ * - `CalendarJobRunner` runs calendar backfills and imports in chunks
+ *
+ * @module calendar
+ * @exports getCalendarProvider - Returns a registered provider by id
+ * @exports listCalendarProviders - Returns every registered provider
+ * @exports isFakeCalendarEnabled - Whether the fake calendar servers are served
+ */
+
+import { env } from '@/env';
+import { createCalDavCalendarProvider } from './caldav.provider';
+import { createGoogleCalendarProvider } from './google.provider';
+import type { CalendarProvider } from './provider';
+
+export {
+  PRIMARY_CALENDAR_ID,
+  type CalendarConnection,
+  type CalendarEntry,
+  type CalendarEventDetails,
+  type CalendarEventPage,
+  type CalendarEventRecord,
+  type CalendarListedEvent,
+  type CalendarProvider,
+} from './provider';
+export {
+  deleteGoogleEvent,
+  GoogleCalendarApiError,
+  googleCalendarEventsUrl,
+  insertGoogleEvent,
+  listGoogleCalendars,
+  listGoogleEventChanges,
+  listGoogleEventPage,
+  listGoogleEvents,
+  moveGoogleEvent,
+  patchGoogleEvent,
+  stopGoogleChannel,
+  watchGoogleEvents,
+  type GoogleCalendarEvent,
+  type GoogleCalendarListEntry,
+  type GoogleChannel,
+  type GoogleEventChanges,
+  type GoogleEventDateTime,
+} from './google.api';
+export {
+  CalDavApiError,
+  calDavObjectUrl,
+  deleteCalDavObject,
+  discoverCalDavCalendars,
+  getCalDavObject,
+  moveCalDavObject,
+  putCalDavObject,
+  queryCalDavEvents,
+  type CalDavCalendar,
+  type CalDavCredentials,
+  type CalDavObject,
+} from './caldav.api';
+export { assertPublicCalDavUrl, CalDavBlockedAddressError } from './caldav.http';
+export { buildICalEvent, formatICalDateTime, parseICalEvents, type ICalEvent } from './ical';
+export { FakeGoogleCalendarServer, fakeGoogleCalendarServer, type FakeCalendarResponse } from './fake-google.server';
+export {
+  FakeCalDavServer,
+  fakeCalDavServer,
+  type FakeCalDavRequest,
+  type FakeCalDavResponse,
+} from './fake-caldav.server';
+
+export { CalendarSyncScheduler, type CalendarSyncSchedulerOptions } from './scheduler';
+export { CalendarSyncRetrier, type CalendarSyncRetrierOptions } from './retrier';
+export { CalendarJobRunner, type CalendarJobRunnerOptions } from './job-runner';
+
+let providers: Map<string, CalendarProvider> | null = null;
+
+const registry = () => {
+  providers ??= new Map(
+    [createGoogleCalendarProvider(), createCalDavCalendarProvider()].map(provider => [provider.id, provider]),
+  );
+  return providers;
+};
+
+export const getCalendarProvider = (id: string): CalendarProvider | null => registry().get(id) ?? null;
+
+export const listCalendarProviders = (): CalendarProvider[] => [...registry().values()];
+
+export const isFakeCalendarEnabled = () => env.DEV_SERVERS_ENABLED === 'true' && env.NODE_ENV !== 'production';
@@ -0,0 +1,63 @@
+/**
+ * Calendar Job Runner
+ * - Works through calendar backfills and imports one chunk at a time
+ * - Jobs take turns, so a large import does not hold up the backfill of a newly connected user
+ * - Progress and failures are recorded on the job (`utils/calendarJobs`)
+ *
+ * @module calendar/job-runner
+ * @exports CalendarJobRunner
+ */
+
+import logger from '@/core/logger';
+import { errorMessage, PollingLoop } from '@/core/polling-loop';
+import { runNextCalendarJobChunk } from '@/utils/calendarJobs';
+
+export interface CalendarJobRunnerOptions {
+  /** Pause between polls when no job is due */
+  pollIntervalMs?: number;
+  /** Tasks pushed or events imported per chunk */
+  batchSize?: number;
+}
+
+export class CalendarJobRunner {
+  private readonly pollIntervalMs: number;
+  private readonly batchSize: number;
+
+  private readonly poller: PollingLoop;
+
+  constructor(options: CalendarJobRunnerOptions = {}) {
+    this.pollIntervalMs = options.pollIntervalMs ?? 5 * 1000;
+    this.batchSize = options.batchSize ?? 25;
+    this.poller = new PollingLoop({
+      runOnce: () => this.runOnce(),
+      intervalMs: this.pollIntervalMs,
+      onError: error => logger.error('[CalendarJobs] Failed to run a calendar job', { error: errorMessage(error) }),
+    });
+  }
+
+  /**
+   * Start polling for due jobs
+   */
+  start(): void {
+    if (this.poller.start()) {
+      logger.info('[CalendarJobs] Runner started');
+    }
+  }
+
+  /**
+   * Stop polling and wait for the current chunk to finish
+   */
+  async stop(): Promise<void> {
+    await this.poller.stop();
+    logger.info('[CalendarJobs] Runner stopped');
+  }
+
+  /**
+   * Run one chunk of the job that waited longest
+   *
+   * @returns Whether a job was due
+   */
+  async runOnce(): Promise<boolean> {
+    return runNextCalendarJobChunk(this.batchSize);
+  }
+}
@@ -0,0 +1,134 @@
+/**
+ * Calendar Provider Contract
+ * - A provider opens a connection to a user's calendars; the connection
+ *   creates, updates, moves, deletes and lists events
+ * - Calendar ids are provider-specific (Google calendar ids, CalDAV collection
+ *   URLs); `primary` always stands for the user's default calendar
+ * - Event ids are whatever the provider needs to address the event again
+ * - A connection reports events that are gone (404/410) through its return
+ *   values; every other failure throws so the caller can retry
+ *
+ * @module calendar/provider
+ */
+
+import type { CalendarReminders } from '@/db/schemas';
+import type { CalendarEventVisibility } from '@/utils/calendarPreferences';
+
+/** Alias of the user's default calendar, understood by every provider */
+export const PRIMARY_CALENDAR_ID = 'primary';
+
+/**
+ * What a task becomes in a calendar
+ * - Options a provider cannot express are left out (e.g. colors on CalDAV)
+ */
+export interface CalendarEventDetails {
+  title: string;
+  description?: string | null;
+  start: Date;
+  end: Date;
+  /** Link back to the task; null for none */
+  url?: string | null;
+  /** Google event color id; null for the calendar's color */
+  colorId?: string | null;
+  /** Null for the calendar's default reminders */
+  reminders?: CalendarReminders | null;
+  visibility?: CalendarEventVisibility;
+}
+
+/**
+ * An event as stored by the provider after a write
+ */
+export interface CalendarEventRecord {
+  id: string;
+  calendarId: string;
+  /** Provider's last-modified time of the written version */
+  updatedAt: Date | null;
+}
+
+/**
+ * An event listed from a calendar
+ */
+export interface CalendarListedEvent extends CalendarEventRecord {
+  title: string;
+  description: string | null;
+  start: Date;
+  end: Date;
+  /** Date-only events; start and end are midnight UTC */
+  allDay: boolean;
+}
+
+/**
+ * A page of listed events
+ */
+export interface CalendarEventPage {
+  events: CalendarListedEvent[];
+  /** Token of the next page; null after the last one */
+  nextPageToken: string | null;
+}
+
+/**
+ * A calendar the user can add events to
+ */
+export interface CalendarEntry {
+  id: string;
+  summary: string;
+  /** The calendar `primary` stands for */
+  primary: boolean;
+  color: string | null;
+  timeZone: string | null;
+}
+
+export interface CalendarConnection {
+  /** Concrete id of the calendar `primary` stands for, where the provider needs one */
+  readonly defaultCalendarId: string;
+
+  /**
+   * Calendars the user can add events to
+   */
+  listCalendars(): Promise<CalendarEntry[]>;
+
+  /**
+   * Events that overlap the range, recurring events expanded where the provider does so
+   */
+  listEvents(calendarId: string, range: { from: Date; to: Date }): Promise<CalendarListedEvent[]>;
+
+  /**
+   * One page of the events that overlap the range, in order of start
+   * - Start with a null token and pass each `nextPageToken` back with the same range
+   * - Pages may hold fewer events than the page size, even before the last one
+   */
+  listEventPage(
+    calendarId: string,
+    range: { from: Date; to: Date },
+    page: { pageToken: string | null; pageSize: number },
+  ): Promise<CalendarEventPage>;
+
+  createEvent(calendarId: string, event: CalendarEventDetails): Promise<CalendarEventRecord>;
+
+  /**
+   * @returns The new version, or null if the event no longer exists
+   */
+  updateEvent(calendarId: string, eventId: string, event: CalendarEventDetails): Promise<CalendarEventRecord | null>;
+
+  /**
+   * Move an event to another calendar of the same account
+   * @returns The event in its new calendar, or null if it no longer exists
+   */
+  moveEvent(calendarId: string, eventId: string, destinationCalendarId: string): Promise<CalendarEventRecord | null>;
+
+  /**
+   * Delete an event; an event that is already gone counts as deleted
+   */
+  deleteEvent(calendarId: string, eventId: string): Promise<void>;
+}
+
+export interface CalendarProvider {
+  readonly id: string;
+  readonly displayName: string;
+
+  /**
+   * Connect to the user's calendars
+   * @returns null when the user has not connected the provider or its credentials are gone
+   */
+  connect(userId: string): Promise<CalendarConnection | null>;
+}
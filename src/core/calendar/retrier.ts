@@ -0,0 +1,67 @@
+/**
+ * Calendar Sync Retrier
+ * - Hands failed task pushes back to the outbox once their backoff has passed
+ * - The outcome of each retry is recorded on the task (`utils/calendarSyncState`)
+ *
+ * @module calendar/retrier
+ * @exports CalendarSyncRetrier
+ */
+
+import logger from '@/core/logger';
+import { errorMessage, PollingLoop } from '@/core/polling-loop';
+import { requeueDueCalendarSyncs } from '@/utils/calendarSyncState';
+
+export interface CalendarSyncRetrierOptions {
+  /** Pause between polls when nothing is due */
+  pollIntervalMs?: number;
+  /** Tasks queued per poll */
+  batchSize?: number;
+}
+
+export class CalendarSyncRetrier {
+  private readonly pollIntervalMs: number;
+  private readonly batchSize: number;
+
+  private readonly poller: PollingLoop;
+
+  constructor(options: CalendarSyncRetrierOptions = {}) {
+    this.pollIntervalMs = options.pollIntervalMs ?? 30 * 1000;
+    this.batchSize = options.batchSize ?? 100;
+    this.poller = new PollingLoop({
+      // A full batch means more retries may be due
+      runOnce: async () => (await this.runOnce()) >= this.batchSize,
+      intervalMs: this.pollIntervalMs,
+      onError: error => logger.error('[CalendarSync] Failed to queue retries', { error: errorMessage(error) }),
+    });
+  }
+
+  /**
+   * Start polling for due retries
+   */
+  start(): void {
+    if (this.poller.start()) {
+      logger.info('[CalendarSync] Retrier started');
+    }
+  }
+
+  /**
+   * Stop polling and wait for the current poll to finish
+   */
+  async stop(): Promise<void> {
+    await this.poller.stop();
+    logger.info('[CalendarSync] Retrier stopped');
+  }
+
+  /**
+   * Queue one batch of due retries
+   *
+   * @returns Number of tasks queued
+   */
+  async runOnce(): Promise<number> {
+    const queued = await requeueDueCalendarSyncs(this.batchSize);
+    if (queued > 0) {
+      logger.info('[CalendarSync] Retrying failed task syncs', { count: queued });
+    }
+    return queued;
+  }
+}
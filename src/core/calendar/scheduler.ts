@@ -0,0 +1,85 @@
+/**
+ * Calendar Sync Scheduler
+ * - Periodically syncs the calendars that push notifications do not cover:
+ *   users without a channel (never opened, or refused by Google) are polled,
+ *   and channels about to expire are replaced after a catch-up pull
+ * - Users with a healthy channel are left to their notifications
+ *
+ * @module calendar/scheduler
+ * @exports CalendarSyncScheduler
+ */
+
+import logger from '@/core/logger';
+import { errorMessage, PollingLoop } from '@/core/polling-loop';
+import { findCalendarsDueForSync, pullCalendarChanges, registerCalendarChannel } from '@/utils/googleCalendarSync';
+
+export interface CalendarSyncSchedulerOptions {
+  /** Pause between runs */
+  intervalMs?: number;
+  /** Calendars synced per run */
+  batchSize?: number;
+}
+
+export class CalendarSyncScheduler {
+  private readonly intervalMs: number;
+  private readonly batchSize: number;
+
+  private readonly poller: PollingLoop;
+
+  constructor(options: CalendarSyncSchedulerOptions = {}) {
+    this.intervalMs = options.intervalMs ?? 15 * 60 * 1000;
+    this.batchSize = options.batchSize ?? 50;
+    this.poller = new PollingLoop({
+      // Runs are spaced by the interval, however many calendars were due
+      runOnce: async () => {
+        await this.runOnce();
+        return false;
+      },
+      intervalMs: this.intervalMs,
+      errorDelayMs: this.intervalMs,
+      onError: error => logger.error('[CalendarSync] Failed to find calendars to sync', { error: errorMessage(error) }),
+    });
+  }
+
+  /**
+   * Start syncing on the interval
+   */
+  start(): void {
+    if (this.poller.start()) {
+      logger.info('[CalendarSync] Scheduler started');
+    }
+  }
+
+  /**
+   * Stop and wait for the current run to finish
+   */
+  async stop(): Promise<void> {
+    await this.poller.stop();
+    logger.info('[CalendarSync] Scheduler stopped');
+  }
+
+  /**
+   * Pull and re-watch one batch of calendars; a failing calendar does not stop the others
+   *
+   * @returns Number of calendars synced
+   */
+  async runOnce(): Promise<number> {
+    const userIds = await findCalendarsDueForSync(this.batchSize);
+    let synced = 0;
+
+    for (const userId of userIds) {
+      if (this.poller.stopping) {
+        break;
+      }
+      try {
+        await pullCalendarChanges(userId);
+        await registerCalendarChannel(userId);
+        synced++;
+      } catch (error) {
+        logger.warn('[CalendarSync] Calendar sync failed', { userId, error: errorMessage(error) });
+      }
+    }
+
+    return synced;
+  }
+}
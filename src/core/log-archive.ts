@@ -0,0 +1,37 @@
+/**
+ * Log Archive
+ * - Copies rotated log files to the `logs` storage bucket
+ * - Uses the configured storage driver, so log shipping also works offline
+ *
+ * @module log-archive
+ * @requires fs
+ * @requires @/core/storage
+ * @exports archiveLogFile - Uploads a log file to the logs bucket
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { getStorageProvider } from '@/core/storage';
+import logger from './logger';
+
+/**
+ * Upload a log file to the logs bucket under `logs/<file name>`
+ */
+export const archiveLogFile = async (filePath: string) => {
+  const storage = getStorageProvider('logs');
+  const key = `logs/${path.basename(filePath)}`;
+
+  try {
+    const fileContent = await fs.readFile(filePath);
+    await storage.putObject(key, fileContent, 'application/json');
+
+    logger.info(`[Storage] Log file archived: ${key} (${storage.driver})`);
+  } catch (error) {
+    logger.error(`[Storage] Failed to archive log file: ${filePath}`, {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    throw new Error(
+      `Failed to archive log file ${filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    );
+  }
+};
@@ -32,7 +32,6 @@
 import fs from 'fs';
 import { createLogger, format, transports } from 'winston';
 import DailyRotateFile from 'winston-daily-rotate-file';
-import { uploadLogToS3 } from './aws/s3.service';
 
 // Use process.env directly to avoid circular dependency with @/env
 const dir = process.env.LOG_DIR ?? './logs';
@@ -88,9 +87,11 @@ const dailyRotateFile: DailyRotateFile = new DailyRotateFile({
 
 dailyRotateFile.on('new', async (filename: string) => {
   try {
-    await uploadLogToS3(filename);
+    // imported lazily: storage depends on env, which depends on this logger
+    const { archiveLogFile } = await import('./log-archive');
+    await archiveLogFile(filename);
   } catch (error) {
-    console.error('Error uploading log file to S3:', error);
+    console.error('Error archiving log file:', error);
   }
 });
 
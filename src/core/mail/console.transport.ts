@@ -0,0 +1,21 @@
+/**
+ * Console Mail Transport
+ * - Writes messages to the application log instead of delivering them
+ * - For local development only: OTP codes end up in the log
+ *
+ * @module mail/console.transport
+ * @exports ConsoleMailTransport
+ */
+
+import logger from '@/core/logger';
+import type { MailMessage, MailTransport } from './mail';
+
+export class ConsoleMailTransport implements MailTransport {
+  readonly transport = 'console' as const;
+
+  constructor(private readonly from: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    logger.info(`[Mail] ${message.subject}`, { from: this.from, to: message.to, text: message.text });
+  }
+}
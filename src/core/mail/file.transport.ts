@@ -0,0 +1,40 @@
+/**
+ * File Mail Transport
+ * - Renders each message as an .eml file in a local directory
+ * - For local development: open the files in any mail client to check them
+ *
+ * @module mail/file.transport
+ * @requires nodemailer
+ * @exports FileMailTransport
+ */
+
+import { randomUUID } from 'crypto';
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+import nodemailer from 'nodemailer';
+import logger from '@/core/logger';
+import type { MailMessage, MailTransport } from './mail';
+
+export class FileMailTransport implements MailTransport {
+  readonly transport = 'file' as const;
+
+  private readonly renderer = nodemailer.createTransport({ streamTransport: true, buffer: true });
+  private readonly dir: string;
+
+  constructor(
+    dir: string,
+    private readonly from: string,
+  ) {
+    this.dir = path.resolve(dir);
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    const info = await this.renderer.sendMail({ from: this.from, ...message });
+    const filePath = path.join(this.dir, `${new Date().toISOString().replace(/[:.]/g, '-')}-${randomUUID()}.eml`);
+
+    await mkdir(this.dir, { recursive: true });
+    await writeFile(filePath, info.message as Buffer);
+
+    logger.info(`[Mail] ${message.subject} written to ${filePath}`, { to: message.to });
+  }
+}
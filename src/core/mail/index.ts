@@ -0,0 +1,60 @@
+/**
+ * Mail Transport Factory
+ * - Selects the transport from MAIL_TRANSPORT (console | file | smtp | ses)
+ * - One shared transport instance per process
+ * - Re-exports the email templates rendered before sending
+ *
+ * @module mail
+ * @exports getMailTransport - Returns the configured transport
+ */
+
+import { env } from '@/env';
+import { ConsoleMailTransport } from './console.transport';
+import { FileMailTransport } from './file.transport';
+import { SesMailTransport } from './ses.transport';
+import { SmtpMailTransport } from './smtp.transport';
+import type { MailTransport } from './mail';
+
+export type { MailMessage, MailTransport, MailTransportName } from './mail';
+export { ConsoleMailTransport } from './console.transport';
+export { FileMailTransport } from './file.transport';
+export { SesMailTransport } from './ses.transport';
+export { SmtpMailTransport, type SmtpOptions } from './smtp.transport';
+export * from './templates';
+
+let transport: MailTransport | null = null;
+
+const createMailTransport = (): MailTransport => {
+  const from = env.MAIL_FROM as string;
+
+  if (env.MAIL_TRANSPORT === 'smtp') {
+    if (!env.SMTP_HOST) {
+      throw new Error('SMTP_HOST must be set when MAIL_TRANSPORT is smtp');
+    }
+    return new SmtpMailTransport(
+      {
+        host: env.SMTP_HOST as string,
+        port: env.SMTP_PORT as number,
+        secure: env.SMTP_SECURE === 'true',
+        user: env.SMTP_USER as string | undefined,
+        password: env.SMTP_PASSWORD as string | undefined,
+      },
+      from,
+    );
+  }
+
+  if (env.MAIL_TRANSPORT === 'ses') {
+    return new SesMailTransport(from);
+  }
+
+  if (env.MAIL_TRANSPORT === 'file') {
+    return new FileMailTransport(env.MAIL_FILE_DIR as string, from);
+  }
+
+  return new ConsoleMailTransport(from);
+};
+
+export const getMailTransport = (): MailTransport => {
+  transport ??= createMailTransport();
+  return transport;
+};
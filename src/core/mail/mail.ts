@@ -0,0 +1,26 @@
+/**
+ * Mail Transport Contract
+ * - Implemented by the console, file, SMTP and SES transports
+ *
+ * @module mail/mail
+ */
+
+export type MailTransportName = 'console' | 'file' | 'smtp' | 'ses';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  /** Plain-text body; always sent */
+  text: string;
+  /** Optional HTML alternative */
+  html?: string;
+}
+
+export interface MailTransport {
+  readonly transport: MailTransportName;
+
+  /**
+   * Deliver a message from the configured sender address
+   */
+  send(message: MailMessage): Promise<void>;
+}
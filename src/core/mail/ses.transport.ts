@@ -0,0 +1,37 @@
+/**
+ * SES Mail Transport
+ * - Delivers messages through Amazon SES (v2 API)
+ * - The sender address must be verified in SES
+ *
+ * @module mail/ses.transport
+ * @requires @aws-sdk/client-sesv2
+ * @exports SesMailTransport
+ */
+
+import { SendEmailCommand } from '@aws-sdk/client-sesv2';
+import { sesClient } from '@/core/aws/aws.config';
+import type { MailMessage, MailTransport } from './mail';
+
+export class SesMailTransport implements MailTransport {
+  readonly transport = 'ses' as const;
+
+  constructor(private readonly from: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await sesClient.send(
+      new SendEmailCommand({
+        FromEmailAddress: this.from,
+        Destination: { ToAddresses: [message.to] },
+        Content: {
+          Simple: {
+            Subject: { Data: message.subject, Charset: 'UTF-8' },
+            Body: {
+              Text: { Data: message.text, Charset: 'UTF-8' },
+              Html: message.html ? { Data: message.html, Charset: 'UTF-8' } : undefined,
+            },
+          },
+        },
+      }),
+    );
+  }
+}
@@ -0,0 +1,43 @@
+/**
+ * SMTP Mail Transport
+ * - Delivers messages through an SMTP server with a pooled connection
+ *
+ * @module mail/smtp.transport
+ * @requires nodemailer
+ * @exports SmtpMailTransport
+ */
+
+import nodemailer, { type Transporter } from 'nodemailer';
+import type { MailMessage, MailTransport } from './mail';
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  /** Use TLS from the start (port 465); otherwise STARTTLS is negotiated */
+  secure: boolean;
+  user?: string;
+  password?: string;
+}
+
+export class SmtpMailTransport implements MailTransport {
+  readonly transport = 'smtp' as const;
+
+  private readonly mailer: Transporter;
+
+  constructor(
+    options: SmtpOptions,
+    private readonly from: string,
+  ) {
+    this.mailer = nodemailer.createTransport({
+      pool: true,
+      host: options.host,
+      port: options.port,
+      secure: options.secure,
+      auth: options.user ? { user: options.user, pass: options.password } : undefined,
+    });
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.mailer.sendMail({ from: this.from, ...message });
+  }
+}
@@ -0,0 +1,22 @@
+/**
+ * Email Formatting Helpers
+ * - Dates are always shown in UTC so rendering does not depend on the host
+ *
+ * @module mail/templates/format
+ */
+
+import type { EmailLocale } from './types';
+
+export const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+export const formatDateTime = (date: Date, locale: EmailLocale): string =>
+  `${new Intl.DateTimeFormat(locale, { dateStyle: 'medium', timeStyle: 'short', timeZone: 'UTC' }).format(date)} UTC`;
+
+export const formatDate = (date: Date, locale: EmailLocale): string =>
+  new Intl.DateTimeFormat(locale, { dateStyle: 'long', timeZone: 'UTC' }).format(date);
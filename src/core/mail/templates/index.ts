@@ -0,0 +1,64 @@
+/**
+ * Email Templates
+ * - Typed template ids rendered to subject, HTML and plain text
+ * - Strings live per locale; unknown locales fall back to English
+ *
+ * Rendering is a pure function of the template id, data and locale, so the
+ * output can be compared against stored snapshots.
+ *
+ * @module mail/templates
+ * @exports renderEmail - Renders a template for a locale
+ * @exports resolveEmailLocale - Picks a supported locale from a language tag
+ * @exports isEmailTemplateId - Type guard for template ids
+ */
+
+import { renderHtml, renderText } from './layout';
+import { en } from './locales/en';
+import { es } from './locales/es';
+import {
+  DEFAULT_EMAIL_LOCALE,
+  EMAIL_LOCALES,
+  EMAIL_TEMPLATE_IDS,
+  type EmailCopy,
+  type EmailLocale,
+  type EmailStrings,
+  type EmailTemplateData,
+  type EmailTemplateId,
+  type RenderedEmail,
+} from './types';
+
+export * from './types';
+export { EMAIL_PREVIEW_DATA } from './preview';
+
+const STRINGS: Record<EmailLocale, EmailStrings> = { en, es };
+
+export const isEmailTemplateId = (value: string): value is EmailTemplateId =>
+  (EMAIL_TEMPLATE_IDS as readonly string[]).includes(value);
+
+/**
+ * Map a language tag such as "es-MX" to a supported locale
+ */
+export function resolveEmailLocale(value?: string | false | null): EmailLocale {
+  if (!value) {
+    return DEFAULT_EMAIL_LOCALE;
+  }
+
+  const language = value.toLowerCase().split('-')[0];
+  return EMAIL_LOCALES.find(locale => locale === language) ?? DEFAULT_EMAIL_LOCALE;
+}
+
+export function renderEmail<T extends EmailTemplateId>(
+  template: T,
+  data: EmailTemplateData[T],
+  locale: EmailLocale = DEFAULT_EMAIL_LOCALE,
+): RenderedEmail {
+  const strings = STRINGS[locale];
+  const build = strings.templates[template] as (data: EmailTemplateData[T]) => EmailCopy;
+  const copy = build(data);
+
+  return {
+    subject: copy.subject,
+    text: renderText(copy, strings, data.username),
+    html: renderHtml(copy, strings, data.username, locale),
+  };
+}
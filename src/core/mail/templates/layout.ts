@@ -0,0 +1,73 @@
+/**
+ * Email Layout
+ * - Lays out EmailCopy as a self-contained HTML document and as plain text
+ * - HTML uses inline styles only, since most mail clients drop <style> blocks
+ *
+ * @module mail/templates/layout
+ */
+
+import { escapeHtml } from './format';
+import type { EmailCopy, EmailLocale, EmailStrings } from './types';
+
+const paragraphHtml = (text: string): string => `<p style="margin:0 0 12px">${escapeHtml(text)}</p>`;
+
+export function renderHtml(copy: EmailCopy, strings: EmailStrings, username: string, locale: EmailLocale): string {
+  const blocks = [
+    `<h1 style="margin:0 0 16px;font-size:20px;color:#111827">${escapeHtml(copy.heading)}</h1>`,
+    paragraphHtml(strings.greeting(username)),
+    ...copy.paragraphs.map(paragraphHtml),
+  ];
+
+  if (copy.code) {
+    blocks.push(
+      `<p style="margin:16px 0;font-size:28px;font-weight:bold;letter-spacing:6px;color:#111827">${escapeHtml(copy.code)}</p>`,
+    );
+  }
+
+  if (copy.list && copy.list.length > 0) {
+    const items = copy.list.map(item => `<li style="margin:0 0 4px">${escapeHtml(item)}</li>`).join('');
+    blocks.push(`<ul style="margin:0 0 12px;padding-left:20px">${items}</ul>`);
+  }
+
+  if (copy.action) {
+    blocks.push(
+      `<p style="margin:16px 0"><a href="${escapeHtml(copy.action.url)}" style="display:inline-block;padding:10px 18px;background:#2563eb;color:#ffffff;text-decoration:none;border-radius:6px">${escapeHtml(copy.action.label)}</a></p>`,
+    );
+  }
+
+  blocks.push(...(copy.closing ?? []).map(paragraphHtml));
+
+  return [
+    '<!DOCTYPE html>',
+    `<html lang="${locale}">`,
+    '<head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1">',
+    `<title>${escapeHtml(copy.subject)}</title></head>`,
+    '<body style="margin:0;padding:24px;background:#f3f4f6;font-family:Arial,Helvetica,sans-serif;font-size:15px;line-height:1.5;color:#374151">',
+    '<div style="max-width:560px;margin:0 auto;padding:24px;background:#ffffff;border-radius:8px">',
+    ...blocks,
+    `<p style="margin:24px 0 0;font-size:12px;color:#6b7280">${escapeHtml(strings.footer)}</p>`,
+    '</div>',
+    '</body>',
+    '</html>',
+  ].join('\n');
+}
+
+export function renderText(copy: EmailCopy, strings: EmailStrings, username: string): string {
+  const blocks = [strings.greeting(username), ...copy.paragraphs];
+
+  if (copy.code) {
+    blocks.push(`    ${copy.code}`);
+  }
+
+  if (copy.list && copy.list.length > 0) {
+    blocks.push(copy.list.map(item => `- ${item}`).join('\n'));
+  }
+
+  if (copy.action) {
+    blocks.push(`${copy.action.label}: ${copy.action.url}`);
+  }
+
+  blocks.push(...(copy.closing ?? []), `--\n${strings.footer}`);
+
+  return `${blocks.join('\n\n')}\n`;
+}
@@ -0,0 +1,68 @@
+/**
+ * English email strings
+ *
+ * @module mail/templates/locales/en
+ */
+
+import { formatDate, formatDateTime } from '../format';
+import type { EmailStrings } from '../types';
+
+export const en: EmailStrings = {
+  greeting: username => `Hi ${username},`,
+  footer: 'You are receiving this email because of activity on your Tasks account.',
+  templates: {
+    verify_email: ({ code, expiresInMinutes }) => ({
+      subject: 'Verify your email',
+      heading: 'Confirm your email address',
+      paragraphs: ['Enter this code in the app to verify your email address:'],
+      closing: [
+        `The code expires in ${expiresInMinutes} minutes. If you did not create an account, you can ignore this email.`,
+      ],
+      code,
+    }),
+    reset_password: ({ code, expiresInMinutes }) => ({
+      subject: 'Reset your password',
+      heading: 'Reset your password',
+      paragraphs: ['Use this code to choose a new password:'],
+      closing: [
+        `The code expires in ${expiresInMinutes} minutes. If you did not ask for a reset, your password has not been changed.`,
+      ],
+      code,
+    }),
+    unlock_account: ({ code, expiresInMinutes }) => ({
+      subject: 'Unlock your account',
+      heading: 'Your account was locked',
+      paragraphs: ['We locked your account after several failed sign-in attempts. Use this code to unlock it:'],
+      closing: [
+        `The code expires in ${expiresInMinutes} minutes. If these attempts were not yours, consider changing your password.`,
+      ],
+      code,
+    }),
+    login_alert: ({ ipAddress, userAgent, occurredAt }) => ({
+      subject: 'New sign-in to your account',
+      heading: 'New sign-in detected',
+      paragraphs: ['Your account was just signed in to:'],
+      closing: ['If this was you, there is nothing to do. Otherwise, reset your password right away.'],
+      list: [`Time: ${formatDateTime(occurredAt, 'en')}`, `IP address: ${ipAddress}`, `Device: ${userAgent}`],
+    }),
+    task_reminder: ({ taskTitle, startTime, endTime, taskUrl }) => ({
+      subject: `Reminder: ${taskTitle}`,
+      heading: taskTitle,
+      paragraphs: [
+        endTime
+          ? `Starts ${formatDateTime(startTime, 'en')} and ends ${formatDateTime(endTime, 'en')}.`
+          : `Starts ${formatDateTime(startTime, 'en')}.`,
+      ],
+      action: taskUrl ? { label: 'Open task', url: taskUrl } : undefined,
+    }),
+    weekly_digest: ({ weekStart, completedCount, pendingCount, upcomingTasks }) => ({
+      subject: `Your week of ${formatDate(weekStart, 'en')}`,
+      heading: 'Your weekly summary',
+      paragraphs: [
+        `You completed ${completedCount} ${completedCount === 1 ? 'task' : 'tasks'} and have ${pendingCount} still pending.`,
+        upcomingTasks.length > 0 ? 'Coming up next:' : 'Nothing is scheduled for the coming week.',
+      ],
+      list: upcomingTasks.map(task => `${task.title} (${formatDateTime(task.startTime, 'en')})`),
+    }),
+  },
+};
@@ -0,0 +1,68 @@
+/**
+ * Spanish email strings
+ *
+ * @module mail/templates/locales/es
+ */
+
+import { formatDate, formatDateTime } from '../format';
+import type { EmailStrings } from '../types';
+
+export const es: EmailStrings = {
+  greeting: username => `Hola ${username}:`,
+  footer: 'Recibes este correo por la actividad de tu cuenta de Tasks.',
+  templates: {
+    verify_email: ({ code, expiresInMinutes }) => ({
+      subject: 'Verifica tu correo',
+      heading: 'Confirma tu dirección de correo',
+      paragraphs: ['Introduce este código en la aplicación para verificar tu correo:'],
+      closing: [`El código caduca en ${expiresInMinutes} minutos. Si no has creado una cuenta, ignora este correo.`],
+      code,
+    }),
+    reset_password: ({ code, expiresInMinutes }) => ({
+      subject: 'Restablece tu contraseña',
+      heading: 'Restablece tu contraseña',
+      paragraphs: ['Usa este código para elegir una contraseña nueva:'],
+      closing: [
+        `El código caduca en ${expiresInMinutes} minutos. Si no lo has solicitado, tu contraseña no ha cambiado.`,
+      ],
+      code,
+    }),
+    unlock_account: ({ code, expiresInMinutes }) => ({
+      subject: 'Desbloquea tu cuenta',
+      heading: 'Tu cuenta se ha bloqueado',
+      paragraphs: [
+        'Hemos bloqueado tu cuenta tras varios intentos de inicio de sesión fallidos. Usa este código para desbloquearla:',
+      ],
+      closing: [
+        `El código caduca en ${expiresInMinutes} minutos. Si esos intentos no fueron tuyos, te recomendamos cambiar la contraseña.`,
+      ],
+      code,
+    }),
+    login_alert: ({ ipAddress, userAgent, occurredAt }) => ({
+      subject: 'Nuevo inicio de sesión en tu cuenta',
+      heading: 'Nuevo inicio de sesión',
+      paragraphs: ['Se acaba de iniciar sesión en tu cuenta:'],
+      closing: ['Si has sido tú, no tienes que hacer nada. Si no, restablece tu contraseña cuanto antes.'],
+      list: [`Hora: ${formatDateTime(occurredAt, 'es')}`, `Dirección IP: ${ipAddress}`, `Dispositivo: ${userAgent}`],
+    }),
+    task_reminder: ({ taskTitle, startTime, endTime, taskUrl }) => ({
+      subject: `Recordatorio: ${taskTitle}`,
+      heading: taskTitle,
+      paragraphs: [
+        endTime
+          ? `Empieza el ${formatDateTime(startTime, 'es')} y termina el ${formatDateTime(endTime, 'es')}.`
+          : `Empieza el ${formatDateTime(startTime, 'es')}.`,
+      ],
+      action: taskUrl ? { label: 'Abrir tarea', url: taskUrl } : undefined,
+    }),
+    weekly_digest: ({ weekStart, completedCount, pendingCount, upcomingTasks }) => ({
+      subject: `Tu semana del ${formatDate(weekStart, 'es')}`,
+      heading: 'Tu resumen semanal',
+      paragraphs: [
+        `Has completado ${completedCount} ${completedCount === 1 ? 'tarea' : 'tareas'} y tienes ${pendingCount} pendientes.`,
+        upcomingTasks.length > 0 ? 'Próximamente:' : 'No hay nada programado para la próxima semana.',
+      ],
+      list: upcomingTasks.map(task => `${task.title} (${formatDateTime(task.startTime, 'es')})`),
+    }),
+  },
+};
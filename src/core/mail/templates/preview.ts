@@ -0,0 +1,38 @@
+/**
+ * Email Preview Data
+ * - Fixed sample data for every template, used by the development preview
+ *   route; the values never change, so rendered output is stable
+ *
+ * @module mail/templates/preview
+ */
+
+import type { EmailTemplateData } from './types';
+
+export const EMAIL_PREVIEW_DATA: EmailTemplateData = {
+  verify_email: { username: 'Ada', code: '482913', expiresInMinutes: 10 },
+  reset_password: { username: 'Ada', code: '105724', expiresInMinutes: 10 },
+  unlock_account: { username: 'Ada', code: '660381', expiresInMinutes: 10 },
+  login_alert: {
+    username: 'Ada',
+    ipAddress: '203.0.113.42',
+    userAgent: 'Mozilla/5.0 (Macintosh; Intel Mac OS X 14_5) Firefox/128.0',
+    occurredAt: new Date('2025-03-14T09:26:00Z'),
+  },
+  task_reminder: {
+    username: 'Ada',
+    taskTitle: 'Quarterly planning',
+    startTime: new Date('2025-03-17T14:00:00Z'),
+    endTime: new Date('2025-03-17T15:30:00Z'),
+    taskUrl: 'http://localhost:3000/tasks/8d6f3c1e-5b7a-4f0e-9c2d-1a2b3c4d5e6f',
+  },
+  weekly_digest: {
+    username: 'Ada',
+    weekStart: new Date('2025-03-10T00:00:00Z'),
+    completedCount: 7,
+    pendingCount: 3,
+    upcomingTasks: [
+      { title: 'Quarterly planning', startTime: new Date('2025-03-17T14:00:00Z') },
+      { title: 'Review design doc', startTime: new Date('2025-03-18T10:00:00Z') },
+    ],
+  },
+};
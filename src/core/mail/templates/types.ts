@@ -0,0 +1,107 @@
+/**
+ * Email Template Types
+ * - Template ids and the data each template is rendered with
+ * - The locale-independent content model both HTML and text are built from
+ *
+ * @module mail/templates/types
+ */
+
+export const EMAIL_TEMPLATE_IDS = [
+  'verify_email',
+  'reset_password',
+  'unlock_account',
+  'login_alert',
+  'task_reminder',
+  'weekly_digest',
+] as const;
+
+export type EmailTemplateId = (typeof EMAIL_TEMPLATE_IDS)[number];
+
+export const EMAIL_LOCALES = ['en', 'es'] as const;
+
+export type EmailLocale = (typeof EMAIL_LOCALES)[number];
+
+export const DEFAULT_EMAIL_LOCALE: EmailLocale = 'en';
+
+export interface OtpEmailData {
+  username: string;
+  code: string;
+  expiresInMinutes: number;
+}
+
+export interface LoginAlertEmailData {
+  username: string;
+  ipAddress: string;
+  userAgent: string;
+  occurredAt: Date;
+}
+
+export interface TaskReminderEmailData {
+  username: string;
+  taskTitle: string;
+  startTime: Date;
+  endTime?: Date | null;
+  taskUrl?: string;
+}
+
+export interface DigestTask {
+  title: string;
+  startTime: Date;
+}
+
+export interface WeeklyDigestEmailData {
+  username: string;
+  weekStart: Date;
+  completedCount: number;
+  pendingCount: number;
+  upcomingTasks: DigestTask[];
+}
+
+export interface EmailTemplateData {
+  verify_email: OtpEmailData;
+  reset_password: OtpEmailData;
+  unlock_account: OtpEmailData;
+  login_alert: LoginAlertEmailData;
+  task_reminder: TaskReminderEmailData;
+  weekly_digest: WeeklyDigestEmailData;
+}
+
+export interface EmailAction {
+  label: string;
+  url: string;
+}
+
+/**
+ * Content of one email, before it is laid out as HTML or plain text
+ */
+export interface EmailCopy {
+  subject: string;
+  heading: string;
+  /** Shown before the code, list and action */
+  paragraphs: string[];
+  /** One-time code shown prominently */
+  code?: string;
+  list?: string[];
+  action?: EmailAction;
+  /** Shown after the code, list and action */
+  closing?: string[];
+}
+
+export type EmailTemplates = {
+  [T in EmailTemplateId]: (data: EmailTemplateData[T]) => EmailCopy;
+};
+
+/**
+ * Everything a locale has to translate
+ */
+export interface EmailStrings {
+  greeting: (username: string) => string;
+  footer: string;
+  templates: EmailTemplates;
+}
+
+export interface RenderedEmail {
+  subject: string;
+  text: string;
+  html: string;
+}
@@ -0,0 +1,138 @@
+/**
+ * OAuth 2.0 Client
+ * - Authorization URLs with state, nonce and PKCE S256 challenge
+ * - Token endpoint grants (authorization code, refresh token) and revocation
+ * - Client credentials are sent in the form body, which every registered provider accepts
+ *
+ * @module oauth/client
+ * @exports buildAuthorizationUrl - Authorization URL for a flow
+ * @exports exchangeAuthorizationCode - Exchanges an authorization code for tokens
+ * @exports refreshAccessToken - Exchanges a refresh token for a new access token
+ * @exports revokeToken - Revokes a token at the provider
+ * @exports fetchUserinfo - Loads a JSON profile with an access token
+ */
+
+import type { OAuthProvider, OAuthPurpose, OAuthTokenResponse } from './provider';
+
+export interface AuthorizationRequest {
+  state: string;
+  nonce: string;
+  codeChallenge: string;
+}
+
+export interface TokenResult {
+  ok: boolean;
+  status: number;
+  data: OAuthTokenResponse;
+}
+
+/**
+ * Authorization URL for a flow; sign-in flows also send the nonce
+ * @throws Error if the provider cannot be connected
+ */
+export function buildAuthorizationUrl(
+  provider: OAuthProvider,
+  purpose: OAuthPurpose,
+  { state, nonce, codeChallenge }: AuthorizationRequest,
+): string {
+  const scopes = purpose === 'connect' ? provider.connectScopes : provider.loginScopes;
+  if (!scopes) {
+    throw new Error(`OAuth provider ${provider.id} cannot be connected`);
+  }
+
+  const params = new URLSearchParams({
+    client_id: provider.clientId,
+    redirect_uri: provider.redirectUri,
+    response_type: 'code',
+    scope: scopes.join(' '),
+    state,
+    code_challenge: codeChallenge,
+    code_challenge_method: 'S256',
+    ...(purpose === 'login' && { nonce }),
+    ...provider.authorizeParams?.[purpose],
+  });
+
+  return `${provider.authorizeUrl}?${params.toString()}`;
+}
+
+async function requestTokens(provider: OAuthProvider, grant: Record<string, string>): Promise<TokenResult> {
+  const res = await fetch(provider.tokenUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded', Accept: 'application/json' },
+    body: new URLSearchParams({
+      client_id: provider.clientId,
+      client_secret: provider.clientSecret,
+      ...grant,
+    }).toString(),
+  });
+
+  const data = (await res.json().catch(() => ({}))) as OAuthTokenResponse;
+
+  // Some providers report grant errors with a 200 status
+  return { ok: res.ok && !data.error, status: res.status, data };
+}
+
+/**
+ * Exchange the authorization code of a callback, proving the flow with its PKCE verifier
+ */
+export const exchangeAuthorizationCode = (provider: OAuthProvider, code: string, codeVerifier: string) =>
+  requestTokens(provider, {
+    grant_type: 'authorization_code',
+    code,
+    code_verifier: codeVerifier,
+    redirect_uri: provider.redirectUri,
+  });
+
+/**
+ * Exchange a refresh token for a new access token
+ */
+export const refreshAccessToken = (provider: OAuthProvider, refreshToken: string) =>
+  requestTokens(provider, { grant_type: 'refresh_token', refresh_token: refreshToken });
+
+/**
+ * Revoke a token at the provider
+ * - A token the provider no longer knows counts as revoked
+ *
+ * @returns false if the provider has no revocation endpoint
+ * @throws Error if the provider cannot be reached or rejects the revocation
+ */
+export async function revokeToken(provider: OAuthProvider, token: string): Promise<boolean> {
+  if (!provider.revokeUrl) {
+    return false;
+  }
+
+  const res = await fetch(provider.revokeUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({ token, client_id: provider.clientId }).toString(),
+  });
+
+  if (res.ok) {
+    return true;
+  }
+
+  const data = (await res.json().catch(() => ({}))) as OAuthTokenResponse;
+  if (res.status === 400 && data.error === 'invalid_token') {
+    return true;
+  }
+
+  throw new Error(
+    `${provider.displayName} token revocation failed with status ${res.status}${data.error ? `: ${data.error}` : ''}`,
+  );
+}
+
+/**
+ * Load a JSON profile document with an access token
+ * @throws Error if the request fails
+ */
+export async function fetchUserinfo<T = Record<string, unknown>>(url: string, accessToken: string): Promise<T> {
+  const res = await fetch(url, {
+    headers: { Authorization: `Bearer ${accessToken}`, Accept: 'application/json' },
+  });
+
+  if (!res.ok) {
+    throw new Error(`Loading the profile from ${new URL(url).host} failed with status ${res.status}`);
+  }
+
+  return (await res.json()) as T;
+}
@@ -0,0 +1,61 @@
+/**
+ * GitHub OAuth Provider
+ * - Sign-in only; GitHub has no calendar to connect
+ * - GitHub is not an OpenID Connect provider, so the profile comes from its REST API;
+ *   the email is the primary verified address from `/user/emails`
+ * - GitHub has no token revocation endpoint for OAuth apps; tokens are only forgotten locally
+ *
+ * @module oauth/github.provider
+ * @exports createGitHubProvider
+ */
+
+import { env } from '@/env';
+import { fetchUserinfo } from './client';
+import { oauthCallbackUrl, type OAuthProvider } from './provider';
+
+const GITHUB_API_URL = 'https://api.github.com';
+
+interface GitHubUser {
+  id?: number;
+  login?: string;
+  name?: string | null;
+  email?: string | null;
+}
+
+interface GitHubEmail {
+  email: string;
+  primary: boolean;
+  verified: boolean;
+}
+
+export const createGitHubProvider = (): OAuthProvider => ({
+  id: 'github',
+  displayName: 'GitHub',
+  clientId: env.GITHUB_CLIENT_ID as string,
+  clientSecret: env.GITHUB_CLIENT_SECRET as string,
+  redirectUri: oauthCallbackUrl('github'),
+  authorizeUrl: 'https://github.com/login/oauth/authorize',
+  tokenUrl: 'https://github.com/login/oauth/access_token',
+  loginScopes: ['read:user', 'user:email'],
+
+  async getProfile(tokens) {
+    const [user, emails] = await Promise.all([
+      fetchUserinfo<GitHubUser>(`${GITHUB_API_URL}/user`, tokens.access_token),
+      fetchUserinfo<GitHubEmail[]>(`${GITHUB_API_URL}/user/emails`, tokens.access_token),
+    ]);
+
+    const verified = emails.find(e => e.primary && e.verified) ?? emails.find(e => e.verified);
+    const email = verified?.email ?? user.email;
+
+    if (!user.id || !email) {
+      throw new Error('GitHub returned no account id or email address');
+    }
+
+    return {
+      subject: String(user.id),
+      email,
+      emailVerified: Boolean(verified),
+      name: user.name ?? user.login,
+    };
+  },
+});
@@ -0,0 +1,62 @@
+/**
+ * Google OAuth Provider
+ * - Sign-in uses OpenID Connect; the profile comes from the verified ID token
+ * - Connecting asks for offline access to the scopes in GOOGLE_OAUTH_SCOPE (calendar)
+ * - Keeps `users.googleConnected` in step with the stored tokens; connecting
+ *   starts calendar sync and a backfill of unsynced tasks, disconnecting drops
+ *   its sync state
+ *
+ * @module oauth/google.provider
+ * @exports createGoogleProvider
+ */
+
+import { and, eq } from 'drizzle-orm';
+import { calendarSyncs, users } from '@/db/schemas';
+import { recordOutboxEvent } from '@/core/outbox';
+import { env } from '@/env';
+import { verifyGoogleIdToken } from '@/utils/googleOidc';
+import { oauthCallbackUrl, type OAuthProvider } from './provider';
+
+export const createGoogleProvider = (): OAuthProvider => ({
+  id: 'google',
+  displayName: 'Google',
+  clientId: env.GOOGLE_CLIENT_ID as string,
+  clientSecret: env.GOOGLE_CLIENT_SECRET as string,
+  redirectUri: (env.GOOGLE_REDIRECT_URI as string | undefined) ?? oauthCallbackUrl('google'),
+  authorizeUrl: 'https://accounts.google.com/o/oauth2/v2/auth',
+  tokenUrl: 'https://oauth2.googleapis.com/token',
+  revokeUrl: 'https://oauth2.googleapis.com/revoke',
+  loginScopes: ['openid', 'email', 'profile'],
+  connectScopes: (env.GOOGLE_OAUTH_SCOPE as string).split(/\s+/).filter(Boolean),
+  authorizeParams: {
+    connect: { access_type: 'offline', include_granted_scopes: 'true', prompt: 'consent' },
+    login: { prompt: 'select_account' },
+  },
+
+  async getProfile(tokens, nonce) {
+    if (!tokens.id_token) {
+      throw new Error('Google returned no ID token');
+    }
+
+    const claims = await verifyGoogleIdToken(tokens.id_token, nonce);
+    return {
+      subject: claims.sub,
+      email: claims.email,
+      emailVerified: claims.email_verified === true,
+      name: claims.name,
+    };
+  },
+
+  async onConnectionChange(userId, connected, executor) {
+    await executor.update(users).set({ googleConnected: connected }).where(eq(users.id, userId));
+
+    if (connected) {
+      await recordOutboxEvent({ type: 'calendar.watch', payload: { userId } }, executor);
+      await recordOutboxEvent({ type: 'calendar.backfill', payload: { userId } }, executor);
+    } else {
+      await executor
+        .delete(calendarSyncs)
+        .where(and(eq(calendarSyncs.userId, userId), eq(calendarSyncs.provider, 'google')));
+    }
+  },
+});
@@ -0,0 +1,58 @@
+/**
+ * OAuth Provider Registry
+ * - Google is always registered; GitHub and Microsoft once their client id and secret are set
+ * - The mock provider is registered when DEV_SERVERS_ENABLED is true
+ * - Built once per process on first use
+ *
+ * @module oauth
+ * @exports getOAuthProvider - Returns a registered provider by id
+ * @exports listOAuthProviders - Returns every registered provider
+ */
+
+import { env } from '@/env';
+import { createGitHubProvider } from './github.provider';
+import { createGoogleProvider } from './google.provider';
+import { createMicrosoftProvider } from './microsoft.provider';
+import { createMockProvider, isMockOAuthEnabled } from './mock.provider';
+import type { OAuthProvider } from './provider';
+
+export type { OAuthProfile, OAuthProvider, OAuthPurpose, OAuthTokenResponse, OAuthTokens } from './provider';
+export { oauthCallbackUrl } from './provider';
+export {
+  buildAuthorizationUrl,
+  exchangeAuthorizationCode,
+  fetchUserinfo,
+  refreshAccessToken,
+  revokeToken,
+  type AuthorizationRequest,
+  type TokenResult,
+} from './client';
+export { isMockOAuthEnabled, MOCK_OAUTH_CLIENT_ID, MOCK_OAUTH_CLIENT_SECRET } from './mock.provider';
+export { MockOAuthServer, mockOAuthServer, type MockTokenResult } from './mock.server';
+
+let providers: Map<string, OAuthProvider> | null = null;
+
+const createOAuthProviders = (): OAuthProvider[] => {
+  const registered = [createGoogleProvider()];
+
+  if (env.GITHUB_CLIENT_ID && env.GITHUB_CLIENT_SECRET) {
+    registered.push(createGitHubProvider());
+  }
+  if (env.MICROSOFT_CLIENT_ID && env.MICROSOFT_CLIENT_SECRET) {
+    registered.push(createMicrosoftProvider());
+  }
+  if (isMockOAuthEnabled()) {
+    registered.push(createMockProvider());
+  }
+
+  return registered;
+};
+
+const registry = () => {
+  providers ??= new Map(createOAuthProviders().map(provider => [provider.id, provider]));
+  return providers;
+};
+
+export const getOAuthProvider = (id: string): OAuthProvider | null => registry().get(id) ?? null;
+
+export const listOAuthProviders = (): OAuthProvider[] => [...registry().values()];
@@ -0,0 +1,58 @@
+/**
+ * Microsoft OAuth Provider
+ * - Microsoft identity platform (v2.0 endpoints) for the tenant in MICROSOFT_TENANT
+ * - Sign-in uses the OpenID Connect userinfo endpoint of Microsoft Graph
+ * - Connecting asks for offline access to Outlook calendars
+ * - Microsoft only reports `email_verified` for some account types; accounts without it
+ *   can sign in once linked but are never linked or created by email
+ * - Microsoft has no token revocation endpoint; tokens are only forgotten locally
+ *
+ * @module oauth/microsoft.provider
+ * @exports createMicrosoftProvider
+ */
+
+import { env } from '@/env';
+import { fetchUserinfo } from './client';
+import { oauthCallbackUrl, type OAuthProvider } from './provider';
+
+const MICROSOFT_USERINFO_URL = 'https://graph.microsoft.com/oidc/userinfo';
+
+interface MicrosoftUserinfo {
+  sub?: string;
+  email?: string;
+  email_verified?: boolean;
+  name?: string;
+}
+
+export const createMicrosoftProvider = (): OAuthProvider => {
+  const baseUrl = `https://login.microsoftonline.com/${encodeURIComponent(env.MICROSOFT_TENANT as string)}/oauth2/v2.0`;
+
+  return {
+    id: 'microsoft',
+    displayName: 'Microsoft',
+    clientId: env.MICROSOFT_CLIENT_ID as string,
+    clientSecret: env.MICROSOFT_CLIENT_SECRET as string,
+    redirectUri: oauthCallbackUrl('microsoft'),
+    authorizeUrl: `${baseUrl}/authorize`,
+    tokenUrl: `${baseUrl}/token`,
+    loginScopes: ['openid', 'email', 'profile'],
+    connectScopes: ['openid', 'email', 'profile', 'offline_access', 'Calendars.ReadWrite'],
+    authorizeParams: {
+      login: { prompt: 'select_account' },
+    },
+
+    async getProfile(tokens) {
+      const profile = await fetchUserinfo<MicrosoftUserinfo>(MICROSOFT_USERINFO_URL, tokens.access_token);
+      if (!profile.sub || !profile.email) {
+        throw new Error('Microsoft returned no account id or email address');
+      }
+
+      return {
+        subject: profile.sub,
+        email: profile.email,
+        emailVerified: profile.email_verified === true,
+        name: profile.name,
+      };
+    },
+  };
+};
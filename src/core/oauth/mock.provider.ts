@@ -0,0 +1,55 @@
+/**
+ * Mock OAuth Provider
+ * - Points at the mock OAuth server this API serves at /api/dev/oauth
+ * - Registered only when DEV_SERVERS_ENABLED is true (refused in production), for local
+ *   sign-in and connect flows without real credentials
+ *
+ * @module oauth/mock.provider
+ * @exports MOCK_OAUTH_CLIENT_ID - Client id the mock server accepts
+ * @exports MOCK_OAUTH_CLIENT_SECRET - Client secret the mock server accepts
+ * @exports isMockOAuthEnabled - Whether the mock provider and server are available
+ * @exports createMockProvider
+ */
+
+import { env } from '@/env';
+import { fetchUserinfo } from './client';
+import { oauthCallbackUrl, type OAuthProvider } from './provider';
+
+export const MOCK_OAUTH_CLIENT_ID = 'mock-client';
+export const MOCK_OAUTH_CLIENT_SECRET = 'mock-secret';
+
+export const isMockOAuthEnabled = () => env.DEV_SERVERS_ENABLED === 'true' && env.NODE_ENV !== 'production';
+
+interface MockUserinfo {
+  sub: string;
+  email: string;
+  email_verified: boolean;
+  name?: string;
+}
+
+export const createMockProvider = (): OAuthProvider => {
+  const baseUrl = new URL('/api/dev/oauth', env.API_URL as string).toString();
+
+  return {
+    id: 'mock',
+    displayName: 'Mock OAuth',
+    clientId: MOCK_OAUTH_CLIENT_ID,
+    clientSecret: MOCK_OAUTH_CLIENT_SECRET,
+    redirectUri: oauthCallbackUrl('mock'),
+    authorizeUrl: `${baseUrl}/authorize`,
+    tokenUrl: `${baseUrl}/token`,
+    revokeUrl: `${baseUrl}/revoke`,
+    loginScopes: ['openid', 'email', 'profile'],
+    connectScopes: ['openid', 'email', 'calendar'],
+
+    async getProfile(tokens) {
+      const profile = await fetchUserinfo<MockUserinfo>(`${baseUrl}/userinfo`, tokens.access_token);
+      return {
+        subject: profile.sub,
+        email: profile.email,
+        emailVerified: profile.email_verified,
+        name: profile.name,
+      };
+    },
+  };
+};
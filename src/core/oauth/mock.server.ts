@@ -0,0 +1,190 @@
+/**
+ * Mock OAuth Server
+ * - Authorization code flow with PKCE (S256), refresh tokens, userinfo and revocation
+ * - Consent is granted automatically; `login_hint` picks the account's email and
+ *   `deny=true` simulates the user declining
+ * - Everything is kept in memory and lost on restart
+ *
+ * @module oauth/mock.server
+ * @exports MockOAuthServer
+ * @exports mockOAuthServer - Shared instance served at /api/dev/oauth
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import ErrorHandler from '@/utils/errorHandler';
+import { MOCK_OAUTH_CLIENT_ID, MOCK_OAUTH_CLIENT_SECRET } from './mock.provider';
+import { oauthCallbackUrl, type OAuthTokenResponse } from './provider';
+
+const CODE_TTL_MS = 60 * 1000;
+const ACCESS_TOKEN_TTL_SECONDS = 3600;
+const DEFAULT_EMAIL = 'mock.user@example.com';
+
+interface MockGrant {
+  email: string;
+  scope: string;
+}
+
+interface PendingCode {
+  grant: MockGrant;
+  redirectUri: string;
+  codeChallenge: string;
+  expiresAt: number;
+}
+
+interface IssuedAccessToken {
+  grant: MockGrant;
+  refreshToken: string;
+  expiresAt: number;
+}
+
+export interface MockTokenResult {
+  status: number;
+  body: OAuthTokenResponse;
+}
+
+const randomToken = () => randomBytes(24).toString('base64url');
+
+const tokenError = (status: number, error: string, description: string): MockTokenResult => ({
+  status,
+  body: { error, error_description: description },
+});
+
+export class MockOAuthServer {
+  private codes = new Map<string, PendingCode>();
+  private accessTokens = new Map<string, IssuedAccessToken>();
+  private refreshTokens = new Map<string, MockGrant>();
+
+  /**
+   * Handle an authorization request
+   * @returns The URL the browser is sent back to, carrying a code or an error
+   * @throws BadRequest for an unknown client or redirect URI, which must not be redirected to
+   */
+  authorize(params: Record<string, string | undefined>): string {
+    if (params.client_id !== MOCK_OAUTH_CLIENT_ID || params.redirect_uri !== oauthCallbackUrl('mock')) {
+      throw ErrorHandler.BadRequest('Unknown client_id or redirect_uri');
+    }
+
+    const redirect = new URL(params.redirect_uri);
+    if (params.state) {
+      redirect.searchParams.set('state', params.state);
+    }
+
+    const invalid =
+      params.response_type !== 'code' || params.code_challenge_method !== 'S256' || !params.code_challenge;
+    if (params.deny === 'true' || invalid) {
+      redirect.searchParams.set('error', invalid ? 'invalid_request' : 'access_denied');
+      return redirect.toString();
+    }
+
+    const now = Date.now();
+    for (const [code, pending] of this.codes) {
+      if (pending.expiresAt <= now) {
+        this.codes.delete(code);
+      }
+    }
+
+    const code = randomToken();
+    this.codes.set(code, {
+      grant: { email: (params.login_hint ?? DEFAULT_EMAIL).toLowerCase(), scope: params.scope ?? '' },
+      redirectUri: params.redirect_uri,
+      codeChallenge: params.code_challenge!,
+      expiresAt: now + CODE_TTL_MS,
+    });
+
+    redirect.searchParams.set('code', code);
+    return redirect.toString();
+  }
+
+  /**
+   * Handle a token request (authorization_code or refresh_token grant)
+   */
+  token(form: Record<string, string | undefined>): MockTokenResult {
+    if (form.client_id !== MOCK_OAUTH_CLIENT_ID || form.client_secret !== MOCK_OAUTH_CLIENT_SECRET) {
+      return tokenError(401, 'invalid_client', 'Unknown client or wrong secret');
+    }
+
+    if (form.grant_type === 'authorization_code') {
+      const pending = form.code ? this.codes.get(form.code) : undefined;
+      if (pending) {
+        this.codes.delete(form.code!);
+      }
+
+      if (!pending || pending.expiresAt <= Date.now() || pending.redirectUri !== form.redirect_uri) {
+        return tokenError(400, 'invalid_grant', 'Authorization code is invalid or expired');
+      }
+
+      const challenge = createHash('sha256')
+        .update(form.code_verifier ?? '')
+        .digest('base64url');
+      if (challenge !== pending.codeChallenge) {
+        return tokenError(400, 'invalid_grant', 'PKCE verification failed');
+      }
+
+      const refreshToken = randomToken();
+      this.refreshTokens.set(refreshToken, pending.grant);
+      return { status: 200, body: this.issueAccessToken(pending.grant, refreshToken, true) };
+    }
+
+    if (form.grant_type === 'refresh_token') {
+      const grant = form.refresh_token ? this.refreshTokens.get(form.refresh_token) : undefined;
+      if (!grant) {
+        return tokenError(400, 'invalid_grant', 'Refresh token is invalid or revoked');
+      }
+      return { status: 200, body: this.issueAccessToken(grant, form.refresh_token!, false) };
+    }
+
+    return tokenError(400, 'unsupported_grant_type', 'Only authorization_code and refresh_token are supported');
+  }
+
+  /**
+   * Profile of the account behind an access token, or null if the token is unknown or expired
+   */
+  userinfo(accessToken: string) {
+    const issued = this.accessTokens.get(accessToken);
+    if (!issued || issued.expiresAt <= Date.now()) {
+      return null;
+    }
+
+    const { email } = issued.grant;
+    return {
+      sub: `mock-${createHash('sha256').update(email).digest('hex').slice(0, 16)}`,
+      email,
+      email_verified: true,
+      name: email.split('@')[0],
+    };
+  }
+
+  /**
+   * Revoke an access or refresh token; revoking a refresh token also revokes its access tokens
+   */
+  revoke(token: string) {
+    this.accessTokens.delete(token);
+
+    if (this.refreshTokens.delete(token)) {
+      for (const [accessToken, issued] of this.accessTokens) {
+        if (issued.refreshToken === token) {
+          this.accessTokens.delete(accessToken);
+        }
+      }
+    }
+  }
+
+  private issueAccessToken(grant: MockGrant, refreshToken: string, includeRefreshToken: boolean): OAuthTokenResponse {
+    const accessToken = randomToken();
+    this.accessTokens.set(accessToken, {
+      grant,
+      refreshToken,
+      expiresAt: Date.now() + ACCESS_TOKEN_TTL_SECONDS * 1000,
+    });
+
+    return {
+      access_token: accessToken,
+      token_type: 'Bearer',
+      expires_in: ACCESS_TOKEN_TTL_SECONDS,
+      scope: grant.scope,
+      ...(includeRefreshToken && { refresh_token: refreshToken }),
+    };
+  }
+}
+
+export const mockOAuthServer = new MockOAuthServer();
@@ -0,0 +1,87 @@
+/**
+ * OAuth Provider Contract
+ * - Each provider declares its endpoints, scopes and how its profile maps to an identity
+ * - Generic authorization code flow with PKCE; the protocol itself lives in `client.ts`
+ * - A provider with `connectScopes` can also be connected for calendar access
+ *
+ * @module oauth/provider
+ */
+
+import type { DbExecutor } from '@/db';
+import { env } from '@/env';
+
+/**
+ * What an OAuth flow is for
+ * - connect: a signed-in user grants access to a provider (calendar sync)
+ * - login: sign in with the provider
+ */
+export type OAuthPurpose = 'connect' | 'login';
+
+/**
+ * Callback URL of a provider on this API
+ */
+export const oauthCallbackUrl = (providerId: string) =>
+  new URL(`/api/auth/oauth/${providerId}/callback`, env.API_URL as string).toString();
+
+/**
+ * Body returned by a token endpoint (authorization code and refresh grants)
+ */
+export interface OAuthTokenResponse {
+  access_token?: string;
+  refresh_token?: string;
+  expires_in?: number;
+  id_token?: string;
+  scope?: string;
+  token_type?: string;
+  error?: string;
+  error_description?: string;
+}
+
+export type OAuthTokens = OAuthTokenResponse & { access_token: string };
+
+/**
+ * Identity reported by a provider for a sign-in
+ */
+export interface OAuthProfile {
+  /** Stable id of the account at the provider */
+  subject: string;
+  email: string;
+  /** Whether the provider vouches for the address; only verified addresses are linked or used to create users */
+  emailVerified: boolean;
+  name?: string;
+}
+
+export interface OAuthProvider {
+  readonly id: string;
+  readonly displayName: string;
+
+  readonly clientId: string;
+  readonly clientSecret: string;
+  /** Callback URL registered with the provider */
+  readonly redirectUri: string;
+
+  readonly authorizeUrl: string;
+  readonly tokenUrl: string;
+  /** Endpoint tokens are revoked at; providers without one only forget the tokens locally */
+  readonly revokeUrl?: string;
+
+  /** Scopes requested by sign-in flows */
+  readonly loginScopes: string[];
+  /** Scopes requested when connecting the provider; omitted for sign-in-only providers */
+  readonly connectScopes?: string[];
+  /** Extra authorization URL parameters per flow, e.g. offline access or a forced consent prompt */
+  readonly authorizeParams?: Partial<Record<OAuthPurpose, Record<string, string>>>;
+
+  /**
+   * Map the signed-in account to an identity, from the ID token or the provider's user API
+   * @param tokens - Tokens of the completed code exchange
+   * @param nonce - Nonce sent with the authorization request, for providers that return an ID token
+   * @throws Error if the profile cannot be loaded or does not check out
+   */
+  getProfile(tokens: OAuthTokens, nonce: string): Promise<OAuthProfile>;
+
+  /**
+   * Keep provider-specific user flags in step when the stored tokens are saved or removed
+   */
+  onConnectionChange?(userId: string, connected: boolean, executor: DbExecutor): Promise<void>;
+}
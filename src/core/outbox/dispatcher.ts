@@ -0,0 +1,141 @@
+/**
+ * Outbox Dispatcher
+ * - Polls the outbox and performs each recorded side effect
+ * - Failed attempts are retried with exponential backoff until `maxAttempts`,
+ *   after which the event is marked failed and left for an admin to retry
+ * - Delivery is at-least-once: a crash after the side effect but before the
+ *   event is removed repeats it, so handlers should tolerate repeats
+ *
+ * @module outbox/dispatcher
+ * @exports OutboxDispatcher
+ */
+
+import { z } from 'zod';
+import logger from '@/core/logger';
+import { errorMessage, PollingLoop } from '@/core/polling-loop';
+import { OUTBOX_EVENT_SCHEMAS, type OutboxEventType, type OutboxPayload } from './events';
+import {
+  claimOutboxEvents,
+  markOutboxEventDispatched,
+  markOutboxEventFailed,
+  rescheduleOutboxEvent,
+  type ClaimedOutboxEvent,
+} from './store';
+
+export type OutboxHandler<T extends OutboxEventType> = (payload: OutboxPayload<T>) => Promise<void>;
+
+export type OutboxHandlers = { [T in OutboxEventType]: OutboxHandler<T> };
+
+export interface OutboxDispatcherOptions {
+  handlers: OutboxHandlers;
+  /** Events claimed per poll */
+  batchSize?: number;
+  /** Pause between polls when nothing is due */
+  pollIntervalMs?: number;
+  /** How long an attempt may run before the event is claimed again */
+  lockSeconds?: number;
+  /** Attempts before an event is marked failed */
+  maxAttempts?: number;
+}
+
+const RETRY_BASE_DELAY_SECONDS = 5;
+const RETRY_MAX_DELAY_SECONDS = 10 * 60;
+
+const retryDelayFor = (attempts: number) =>
+  Math.min(RETRY_BASE_DELAY_SECONDS * 2 ** (attempts - 1), RETRY_MAX_DELAY_SECONDS);
+
+export class OutboxDispatcher {
+  private readonly handlers: OutboxHandlers;
+  private readonly batchSize: number;
+  private readonly pollIntervalMs: number;
+  private readonly lockSeconds: number;
+  private readonly maxAttempts: number;
+
+  private readonly poller: PollingLoop;
+
+  constructor(options: OutboxDispatcherOptions) {
+    this.handlers = options.handlers;
+    this.batchSize = options.batchSize ?? 20;
+    this.pollIntervalMs = options.pollIntervalMs ?? 1000;
+    this.lockSeconds = options.lockSeconds ?? 60;
+    this.maxAttempts = options.maxAttempts ?? 10;
+    this.poller = new PollingLoop({
+      runOnce: async () => (await this.runOnce()) > 0,
+      intervalMs: this.pollIntervalMs,
+      onError: error => logger.error('[Outbox] Failed to poll outbox', { error: errorMessage(error) }),
+    });
+  }
+
+  /**
+   * Start polling the outbox
+   */
+  start(): void {
+    if (this.poller.start()) {
+      logger.info('[Outbox] Dispatcher started');
+    }
+  }
+
+  /**
+   * Stop polling and wait for the current batch to finish
+   */
+  async stop(): Promise<void> {
+    await this.poller.stop();
+    logger.info('[Outbox] Dispatcher stopped');
+  }
+
+  /**
+   * Claim and dispatch one batch
+   *
+   * @returns Number of events handled
+   */
+  async runOnce(): Promise<number> {
+    const events = await claimOutboxEvents(this.batchSize, this.lockSeconds);
+
+    for (const event of events) {
+      await this.dispatch(event);
+    }
+
+    return events.length;
+  }
+
+  private async dispatch(event: ClaimedOutboxEvent): Promise<void> {
+    const schema = OUTBOX_EVENT_SCHEMAS[event.type] as z.ZodType | undefined;
+    const parsed = schema?.safeParse(event.payload);
+
+    if (!parsed?.success) {
+      const error = parsed ? `Invalid payload: ${z.prettifyError(parsed.error)}` : `Unknown event type: ${event.type}`;
+      logger.error('[Outbox] Event cannot be dispatched', { id: event.id, type: event.type, error });
+      await markOutboxEventFailed(event, error);
+      return;
+    }
+
+    try {
+      const handler = this.handlers[event.type] as OutboxHandler<OutboxEventType>;
+      await handler(parsed.data as OutboxPayload<OutboxEventType>);
+      await markOutboxEventDispatched(event);
+    } catch (error) {
+      const message = errorMessage(error);
+
+      if (event.attempts >= this.maxAttempts) {
+        logger.error('[Outbox] Event failed permanently', {
+          id: event.id,
+          type: event.type,
+          attempts: event.attempts,
+          error: message,
+        });
+        await markOutboxEventFailed(event, message);
+        return;
+      }
+
+      const delaySeconds = retryDelayFor(event.attempts);
+      logger.warn('[Outbox] Event failed, retrying', {
+        id: event.id,
+        type: event.type,
+        attempts: event.attempts,
+        delaySeconds,
+        error: message,
+      });
+      await rescheduleOutboxEvent(event, delaySeconds, message);
+    }
+  }
+}
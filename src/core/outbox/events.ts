@@ -0,0 +1,57 @@
+/**
+ * Outbox Event Types
+ * - Payload schemas per event type; payloads are validated when recorded
+ *   and again before dispatch
+ *
+ * @module outbox/events
+ */
+
+import { z } from 'zod';
+import { QUEUE_NAMES, type QueueName } from '@/core/queue';
+
+export const OUTBOX_EVENT_SCHEMAS = {
+  /** Hand a job to the queue once the transaction has committed */
+  'queue.enqueue': z.object({
+    queue: z.enum(QUEUE_NAMES as [QueueName, ...QueueName[]]),
+    payload: z.record(z.string(), z.unknown()),
+  }),
+  /** Create or update the calendar event of a task from its current state */
+  'calendar.sync_task': z.object({
+    userId: z.uuid(),
+    taskId: z.uuid(),
+  }),
+  /** Remove a calendar event whose task is gone */
+  'calendar.delete_event': z.object({
+    userId: z.uuid(),
+    calendarEventId: z.string().min(1),
+    /** Calendar the event is in; events from before calendars could be chosen are in the primary one */
+    calendarId: z.string().min(1).optional(),
+    /** Provider holding the event; events from before providers were recorded are Google's */
+    provider: z.string().min(1).optional(),
+  }),
+  /** Apply the changes made in the user's Google Calendar since the last pull */
+  'calendar.pull_changes': z.object({
+    userId: z.uuid(),
+  }),
+  /** Run the first pull of a newly connected Google Calendar and open its push channel */
+  'calendar.watch': z.object({
+    userId: z.uuid(),
+  }),
+  /** Queue a backfill of the tasks a newly connected calendar does not have yet */
+  'calendar.backfill': z.object({
+    userId: z.uuid(),
+  }),
+};
+
+export type OutboxEventType = keyof typeof OUTBOX_EVENT_SCHEMAS;
+
+export type OutboxPayload<T extends OutboxEventType> = z.infer<(typeof OUTBOX_EVENT_SCHEMAS)[T]>;
+
+export type OutboxEvent = { [T in OutboxEventType]: { type: T; payload: OutboxPayload<T> } }[OutboxEventType];
+
+export const OUTBOX_STATUSES = ['pending', 'processing', 'failed'] as const;
+
+export type OutboxStatus = (typeof OUTBOX_STATUSES)[number];
+
+/** Pending events still undispatched this long after they became available count as stuck */
+export const OUTBOX_STUCK_AFTER_MS = 5 * 60 * 1000;
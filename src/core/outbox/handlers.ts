@@ -0,0 +1,40 @@
+/**
+ * Outbox Handlers
+ * - Performs the side effect recorded by each outbox event type
+ *
+ * @module outbox/handlers
+ * @exports outboxHandlers
+ */
+
+import { enqueue, type QueuePayload } from '@/core/queue';
+import { pullCalendarChanges, registerCalendarChannel } from '@/utils/googleCalendarSync';
+import { runTaskCalendarSync } from '@/utils/calendarSyncState';
+import { startCalendarBackfill } from '@/utils/calendarJobs';
+import { deleteTaskCalendarEvent } from '@/utils/taskCalendar';
+import type { OutboxHandlers } from './dispatcher';
+
+export const outboxHandlers: OutboxHandlers = {
+  'queue.enqueue': async ({ queue, payload }) => {
+    // enqueue validates the payload against the queue schema
+    await enqueue(queue, payload as QueuePayload<typeof queue>);
+  },
+  'calendar.sync_task': async ({ userId, taskId }) => {
+    // Failures are recorded on the task and retried by the calendar sync retrier
+    await runTaskCalendarSync(userId, taskId);
+  },
+  'calendar.delete_event': async ({ userId, calendarEventId, calendarId, provider }) => {
+    await deleteTaskCalendarEvent(userId, { eventId: calendarEventId, calendarId, provider });
+  },
+  'calendar.pull_changes': async ({ userId }) => {
+    await pullCalendarChanges(userId);
+  },
+  'calendar.watch': async ({ userId }) => {
+    // The first pull sets the sync token the channel's notifications continue from
+    await pullCalendarChanges(userId);
+    await registerCalendarChannel(userId);
+  },
+  'calendar.backfill': async ({ userId }) => {
+    // The backfill itself runs in the calendar job runner
+    await startCalendarBackfill(userId);
+  },
+};
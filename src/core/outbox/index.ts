@@ -0,0 +1,14 @@
+/**
+ * Transactional Outbox
+ * - Producers record side effects with `recordOutboxEvent` / `enqueueViaOutbox`,
+ *   passing their transaction executor
+ * - `OutboxDispatcher` relays recorded events with `outboxHandlers`
+ *
+ * @module outbox
+ */
+
+export type { OutboxEvent, OutboxEventType, OutboxPayload, OutboxStatus } from './events';
+export { OUTBOX_EVENT_SCHEMAS, OUTBOX_STATUSES, OUTBOX_STUCK_AFTER_MS } from './events';
+export { enqueueViaOutbox, recordOutboxEvent, type ClaimedOutboxEvent } from './store';
+export { OutboxDispatcher, type OutboxDispatcherOptions, type OutboxHandler, type OutboxHandlers } from './dispatcher';
+export { outboxHandlers } from './handlers';
@@ -0,0 +1,144 @@
+/**
+ * Outbox Store
+ * - Writes outbox events, usually with the transaction executor of the change
+ *   that causes them, so the side effect is recorded if and only if it commits
+ * - Claims due events for the dispatcher with FOR UPDATE SKIP LOCKED
+ *
+ * @module outbox/store
+ * @exports recordOutboxEvent - Records a side effect in the outbox
+ * @exports enqueueViaOutbox - Records a queue job to be enqueued after commit
+ */
+
+import { z } from 'zod';
+import { and, asc, eq, inArray, lte, or, sql } from 'drizzle-orm';
+import { db, type DbExecutor } from '@/db';
+import { outboxEvents } from '@/db/schemas';
+import { QUEUE_PAYLOAD_SCHEMAS, type QueueName, type QueuePayload } from '@/core/queue';
+import { OUTBOX_EVENT_SCHEMAS, type OutboxEvent, type OutboxEventType } from './events';
+
+export interface ClaimedOutboxEvent {
+  id: string;
+  type: OutboxEventType;
+  payload: unknown;
+  /** Dispatch attempts so far, including this one */
+  attempts: number;
+}
+
+const secondsFromNow = (seconds: number) => sql`now() + make_interval(secs => ${seconds})`;
+
+/** Matches the event only while this attempt still holds its claim */
+const claimedBy = (event: ClaimedOutboxEvent) =>
+  and(eq(outboxEvents.id, event.id), eq(outboxEvents.status, 'processing'), eq(outboxEvents.attempts, event.attempts));
+
+/**
+ * Record a side effect in the outbox
+ *
+ * @returns The outbox event id
+ * @throws Error if the payload does not match the event type
+ */
+export async function recordOutboxEvent(event: OutboxEvent, executor: DbExecutor = db): Promise<string> {
+  const parsed = OUTBOX_EVENT_SCHEMAS[event.type].safeParse(event.payload);
+  if (!parsed.success) {
+    throw new Error(`Invalid ${event.type} outbox payload: ${z.prettifyError(parsed.error)}`);
+  }
+
+  const [row] = await executor
+    .insert(outboxEvents)
+    .values({ type: event.type, payload: parsed.data })
+    .returning({ id: outboxEvents.id });
+
+  return row.id;
+}
+
+/**
+ * Record a queue job that is enqueued once the surrounding transaction commits
+ */
+export async function enqueueViaOutbox<Q extends QueueName>(
+  queue: Q,
+  payload: QueuePayload<Q>,
+  executor: DbExecutor = db,
+): Promise<string> {
+  const parsed = QUEUE_PAYLOAD_SCHEMAS[queue].safeParse(payload);
+  if (!parsed.success) {
+    throw new Error(`Invalid ${queue} payload: ${z.prettifyError(parsed.error)}`);
+  }
+
+  return recordOutboxEvent({ type: 'queue.enqueue', payload: { queue, payload: parsed.data } }, executor);
+}
+
+/**
+ * Claim due events, oldest first; claims expire after `lockSeconds`
+ */
+export async function claimOutboxEvents(limit: number, lockSeconds: number): Promise<ClaimedOutboxEvent[]> {
+  const due = or(
+    and(eq(outboxEvents.status, 'pending'), lte(outboxEvents.availableAt, sql`now()`)),
+    and(eq(outboxEvents.status, 'processing'), lte(outboxEvents.lockedUntil, sql`now()`)),
+  );
+
+  const claimable = db
+    .select({ id: outboxEvents.id })
+    .from(outboxEvents)
+    .where(due)
+    .orderBy(asc(outboxEvents.createdAt))
+    .limit(limit)
+    .for('update', { skipLocked: true });
+
+  const events = await db
+    .update(outboxEvents)
+    .set({
+      status: 'processing',
+      attempts: sql`${outboxEvents.attempts} + 1`,
+      lockedUntil: secondsFromNow(lockSeconds),
+      updatedAt: new Date(),
+    })
+    .where(inArray(outboxEvents.id, claimable))
+    .returning({
+      id: outboxEvents.id,
+      type: outboxEvents.type,
+      payload: outboxEvents.payload,
+      attempts: outboxEvents.attempts,
+      createdAt: outboxEvents.createdAt,
+    });
+
+  // UPDATE ... RETURNING does not keep the subquery order
+  return events
+    .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+    .map(({ id, type, payload, attempts }) => ({ id, type: type as OutboxEventType, payload, attempts }));
+}
+
+/**
+ * Remove an event whose side effect has been performed
+ */
+export async function markOutboxEventDispatched(event: ClaimedOutboxEvent): Promise<void> {
+  await db.delete(outboxEvents).where(claimedBy(event));
+}
+
+/**
+ * Release an event for another attempt after a delay
+ */
+export async function rescheduleOutboxEvent(
+  event: ClaimedOutboxEvent,
+  delaySeconds: number,
+  error: string,
+): Promise<void> {
+  await db
+    .update(outboxEvents)
+    .set({
+      status: 'pending',
+      availableAt: secondsFromNow(delaySeconds),
+      lockedUntil: null,
+      lastError: error,
+      updatedAt: new Date(),
+    })
+    .where(claimedBy(event));
+}
+
+/**
+ * Give up on an event; it stays in the outbox until an admin retries it
+ */
+export async function markOutboxEventFailed(event: ClaimedOutboxEvent, error: string): Promise<void> {
+  await db
+    .update(outboxEvents)
+    .set({ status: 'failed', lockedUntil: null, lastError: error, updatedAt: new Date() })
+    .where(claimedBy(event));
+}
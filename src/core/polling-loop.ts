@@ -0,0 +1,104 @@
+/**
+ * Polling Loop
+ * - Runs a poll over and over in the background until stopped; the background
+ *   workers (queue worker, outbox dispatcher, calendar runners) each supply
+ *   only the poll itself
+ * - Polls follow each other at once while work is waiting, and pause for the
+ *   interval once it is done; a failed poll is reported and waits longer
+ * - Stopping wakes a pausing loop and waits for the running poll to finish
+ *
+ * @module polling-loop
+ * @exports PollingLoop
+ * @exports errorMessage - Message of a caught error, for logs
+ */
+
+export interface PollingLoopOptions {
+  /**
+   * One poll
+   * @returns Whether more work is waiting, so the next poll follows at once
+   */
+  runOnce: () => Promise<boolean>;
+  /** Pause after a poll that left no work waiting */
+  intervalMs: number;
+  /** Pause after a failed poll; five intervals by default */
+  errorDelayMs?: number;
+  /** Reports a failed poll */
+  onError: (error: unknown) => void;
+}
+
+export const errorMessage = (error: unknown) => (error instanceof Error ? error.message : 'Unknown error');
+
+export class PollingLoop {
+  private readonly options: PollingLoopOptions;
+
+  private running = false;
+  private loopPromise: Promise<void> | null = null;
+  private wake: (() => void) | null = null;
+
+  constructor(options: PollingLoopOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Whether stop was called while the loop still runs; long polls can end early
+   */
+  get stopping(): boolean {
+    return !this.running && this.loopPromise !== null;
+  }
+
+  /**
+   * Start polling
+   *
+   * @returns False if the loop was already running
+   */
+  start(): boolean {
+    if (this.running) {
+      return false;
+    }
+    this.running = true;
+    this.loopPromise = this.loop();
+    return true;
+  }
+
+  /**
+   * Stop polling and wait for the current poll to finish
+   */
+  async stop(): Promise<void> {
+    this.running = false;
+    this.wake?.();
+    await this.loopPromise;
+    this.loopPromise = null;
+  }
+
+  private async loop(): Promise<void> {
+    const { runOnce, intervalMs, errorDelayMs = intervalMs * 5, onError } = this.options;
+
+    while (this.running) {
+      try {
+        if (!(await runOnce())) {
+          await this.sleep(intervalMs);
+        }
+      } catch (error) {
+        onError(error);
+        await this.sleep(errorDelayMs);
+      }
+    }
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise(resolve => {
+      if (!this.running) {
+        return resolve();
+      }
+      const timer = setTimeout(() => {
+        this.wake = null;
+        resolve();
+      }, ms);
+      this.wake = () => {
+        clearTimeout(timer);
+        this.wake = null;
+        resolve();
+      };
+    });
+  }
+}
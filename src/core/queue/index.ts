@@ -0,0 +1,89 @@
+/**
+ * Queue Driver Factory
+ * - Selects the driver from QUEUE_DRIVER (sqs | postgres | memory)
+ * - One shared driver instance per process
+ * - `enqueue` is the typed entry point for producers
+ *
+ * @module queue
+ * @exports getQueueDriver - Returns the configured driver
+ * @exports enqueue - Validates a payload and adds a job to a queue
+ */
+
+import { z } from 'zod';
+import { env } from '@/env';
+import logger from '@/core/logger';
+import { MemoryQueueDriver } from './memory.driver';
+import { PostgresQueueDriver } from './postgres.driver';
+import { SqsQueueDriver } from './sqs.driver';
+import {
+  QUEUE_PAYLOAD_SCHEMAS,
+  type EnqueueOptions,
+  type QueueDriver,
+  type QueueName,
+  type QueuePayload,
+} from './queue';
+
+export type {
+  EnqueueOptions,
+  QueueDriver,
+  QueueDriverName,
+  QueueName,
+  QueuePayload,
+  ReceivedJob,
+  ReceiveOptions,
+} from './queue';
+export { QUEUE_NAMES, QUEUE_PAYLOAD_SCHEMAS } from './queue';
+export { MemoryQueueDriver } from './memory.driver';
+export { PostgresQueueDriver } from './postgres.driver';
+export { SqsQueueDriver } from './sqs.driver';
+export { QueueWorker, type JobHandler, type JobHandlers, type QueueWorkerOptions } from './worker';
+
+let driver: QueueDriver | null = null;
+
+const createQueueDriver = (): QueueDriver => {
+  if (env.QUEUE_DRIVER === 'sqs') {
+    return new SqsQueueDriver({
+      OTP_QUEUE: env.AWS_SQS_OTP_QUEUE_URL as string | undefined,
+      AI_REPORT_QUEUE: env.AWS_SQS_AI_REPORT_QUEUE_URL as string | undefined,
+    });
+  }
+  return env.QUEUE_DRIVER === 'postgres' ? new PostgresQueueDriver() : new MemoryQueueDriver();
+};
+
+export const getQueueDriver = (): QueueDriver => {
+  driver ??= createQueueDriver();
+  return driver;
+};
+
+/**
+ * Validate a payload against its queue schema and enqueue it
+ *
+ * @returns The job id assigned by the driver
+ * @throws Error if the payload is invalid or the driver fails
+ */
+export async function enqueue<Q extends QueueName>(
+  queue: Q,
+  payload: QueuePayload<Q>,
+  options?: EnqueueOptions,
+): Promise<string> {
+  const queueDriver = getQueueDriver();
+
+  try {
+    const parsed = QUEUE_PAYLOAD_SCHEMAS[queue].safeParse(payload);
+    if (!parsed.success) {
+      throw new Error(`Invalid payload: ${z.prettifyError(parsed.error)}`);
+    }
+    const id = await queueDriver.send(queue, parsed.data, options);
+
+    logger.info(`[Queue] Job enqueued on ${queue}`, { id, queue, driver: queueDriver.driver });
+
+    return id;
+  } catch (error) {
+    logger.error(`[Queue] Failed to enqueue job on ${queue}`, {
+      queue,
+      driver: queueDriver.driver,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    throw new Error(`Failed to enqueue job on ${queue}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
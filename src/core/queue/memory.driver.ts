@@ -0,0 +1,112 @@
+/**
+ * In-Memory Queue Driver
+ * - Keeps jobs in per-queue arrays inside this process
+ * - Jobs are lost on restart; suitable for development and tests only
+ * - Failed jobs stay in memory for inspection via `failedJobs`
+ *
+ * @module queue/memory.driver
+ * @exports MemoryQueueDriver
+ */
+
+import { randomUUID } from 'crypto';
+import type { EnqueueOptions, QueueDriver, QueueName, ReceivedJob, ReceiveOptions } from './queue';
+
+interface MemoryJob {
+  id: string;
+  body: unknown;
+  attempts: number;
+  runAt: number;
+  lockedUntil: number | null;
+  status: 'pending' | 'processing' | 'failed';
+  lastError: string | null;
+}
+
+export class MemoryQueueDriver implements QueueDriver {
+  readonly driver = 'memory' as const;
+
+  private readonly queues = new Map<QueueName, MemoryJob[]>();
+
+  private jobsFor(queue: QueueName): MemoryJob[] {
+    let jobs = this.queues.get(queue);
+    if (!jobs) {
+      jobs = [];
+      this.queues.set(queue, jobs);
+    }
+    return jobs;
+  }
+
+  private findDelivery(job: ReceivedJob): MemoryJob | undefined {
+    return this.jobsFor(job.queue).find(
+      entry => entry.id === job.id && entry.status === 'processing' && String(entry.attempts) === job.receipt,
+    );
+  }
+
+  async send(queue: QueueName, body: unknown, options: EnqueueOptions = {}): Promise<string> {
+    const id = randomUUID();
+    this.jobsFor(queue).push({
+      id,
+      body,
+      attempts: 0,
+      runAt: Date.now() + (options.delaySeconds ?? 0) * 1000,
+      lockedUntil: null,
+      status: 'pending',
+      lastError: null,
+    });
+    return id;
+  }
+
+  async receive(queue: QueueName, options: ReceiveOptions): Promise<ReceivedJob[]> {
+    const now = Date.now();
+    const due = this.jobsFor(queue)
+      .filter(
+        job =>
+          (job.status === 'pending' && job.runAt <= now) ||
+          (job.status === 'processing' && job.lockedUntil !== null && job.lockedUntil <= now),
+      )
+      .sort((a, b) => a.runAt - b.runAt)
+      .slice(0, options.maxJobs);
+
+    return due.map(job => {
+      job.status = 'processing';
+      job.attempts += 1;
+      job.lockedUntil = now + options.visibilityTimeoutSeconds * 1000;
+      return { id: job.id, queue, body: job.body, attempts: job.attempts, receipt: String(job.attempts) };
+    });
+  }
+
+  async complete(job: ReceivedJob): Promise<void> {
+    const entry = this.findDelivery(job);
+    if (entry) {
+      const jobs = this.jobsFor(job.queue);
+      jobs.splice(jobs.indexOf(entry), 1);
+    }
+  }
+
+  async retry(job: ReceivedJob, delaySeconds: number, error: string): Promise<void> {
+    const entry = this.findDelivery(job);
+    if (entry) {
+      entry.status = 'pending';
+      entry.runAt = Date.now() + delaySeconds * 1000;
+      entry.lockedUntil = null;
+      entry.lastError = error;
+    }
+  }
+
+  async fail(job: ReceivedJob, error: string): Promise<void> {
+    const entry = this.findDelivery(job);
+    if (entry) {
+      entry.status = 'failed';
+      entry.lockedUntil = null;
+      entry.lastError = error;
+    }
+  }
+
+  /**
+   * Jobs that were given up on, oldest first
+   */
+  failedJobs(queue: QueueName): Array<{ id: string; body: unknown; attempts: number; lastError: string | null }> {
+    return this.jobsFor(queue)
+      .filter(job => job.status === 'failed')
+      .map(({ id, body, attempts, lastError }) => ({ id, body, attempts, lastError }));
+  }
+}
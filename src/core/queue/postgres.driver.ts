@@ -0,0 +1,97 @@
+/**
+ * Postgres Queue Driver
+ * - Stores jobs in the `queue_jobs` table
+ * - Jobs are claimed with FOR UPDATE SKIP LOCKED, so several workers can share a queue
+ * - A claim expires after the visibility timeout and the job is handed out again
+ * - Completed jobs are deleted; failed jobs are kept with their last error
+ *
+ * @module queue/postgres.driver
+ * @exports PostgresQueueDriver
+ */
+
+import { and, asc, eq, inArray, lte, or, sql } from 'drizzle-orm';
+import { db } from '@/db';
+import { queueJobs } from '@/db/schemas';
+import type { EnqueueOptions, QueueDriver, QueueName, ReceivedJob, ReceiveOptions } from './queue';
+
+const secondsFromNow = (seconds: number) => sql`now() + make_interval(secs => ${seconds})`;
+
+export class PostgresQueueDriver implements QueueDriver {
+  readonly driver = 'postgres' as const;
+
+  /** Matches the job only while this delivery still holds its claim */
+  private delivery(job: ReceivedJob) {
+    return and(
+      eq(queueJobs.id, job.id),
+      eq(queueJobs.status, 'processing'),
+      eq(queueJobs.attempts, Number(job.receipt)),
+    );
+  }
+
+  async send(queue: QueueName, body: unknown, options: EnqueueOptions = {}): Promise<string> {
+    const [job] = await db
+      .insert(queueJobs)
+      .values({ queue, payload: body, runAt: secondsFromNow(options.delaySeconds ?? 0) })
+      .returning({ id: queueJobs.id });
+
+    return job.id;
+  }
+
+  async receive(queue: QueueName, options: ReceiveOptions): Promise<ReceivedJob[]> {
+    const due = or(
+      and(eq(queueJobs.status, 'pending'), lte(queueJobs.runAt, sql`now()`)),
+      and(eq(queueJobs.status, 'processing'), lte(queueJobs.lockedUntil, sql`now()`)),
+    );
+
+    const claimable = db
+      .select({ id: queueJobs.id })
+      .from(queueJobs)
+      .where(and(eq(queueJobs.queue, queue), due))
+      .orderBy(asc(queueJobs.runAt))
+      .limit(options.maxJobs)
+      .for('update', { skipLocked: true });
+
+    const jobs = await db
+      .update(queueJobs)
+      .set({
+        status: 'processing',
+        attempts: sql`${queueJobs.attempts} + 1`,
+        lockedUntil: secondsFromNow(options.visibilityTimeoutSeconds),
+        updatedAt: new Date(),
+      })
+      .where(inArray(queueJobs.id, claimable))
+      .returning({ id: queueJobs.id, payload: queueJobs.payload, attempts: queueJobs.attempts });
+
+    return jobs.map(job => ({
+      id: job.id,
+      queue,
+      body: job.payload,
+      attempts: job.attempts,
+      receipt: String(job.attempts),
+    }));
+  }
+
+  async complete(job: ReceivedJob): Promise<void> {
+    await db.delete(queueJobs).where(this.delivery(job));
+  }
+
+  async retry(job: ReceivedJob, delaySeconds: number, error: string): Promise<void> {
+    await db
+      .update(queueJobs)
+      .set({
+        status: 'pending',
+        runAt: secondsFromNow(delaySeconds),
+        lockedUntil: null,
+        lastError: error,
+        updatedAt: new Date(),
+      })
+      .where(this.delivery(job));
+  }
+
+  async fail(job: ReceivedJob, error: string): Promise<void> {
+    await db
+      .update(queueJobs)
+      .set({ status: 'failed', lockedUntil: null, lastError: error, updatedAt: new Date() })
+      .where(this.delivery(job));
+  }
+}
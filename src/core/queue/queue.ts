@@ -0,0 +1,85 @@
+/**
+ * Queue Contract
+ * - Payload schemas per queue; every job is validated against its schema
+ *   when enqueued and again before a handler runs
+ * - Driver interface implemented by the SQS, Postgres and in-memory drivers
+ *
+ * @module queue/queue
+ */
+
+import { z } from 'zod';
+
+export const QUEUE_PAYLOAD_SCHEMAS = {
+  OTP_QUEUE: z.object({
+    email: z.email(),
+    type: z.enum(['email_verification', 'reset_password', 'account_unlock']),
+    /** Language tag of the requesting client; the email falls back to English */
+    locale: z.string().max(35).optional(),
+  }),
+  AI_REPORT_QUEUE: z.object({
+    reportId: z.uuid(),
+    userId: z.uuid(),
+  }),
+};
+
+export type QueueName = keyof typeof QUEUE_PAYLOAD_SCHEMAS;
+
+export type QueuePayload<Q extends QueueName> = z.infer<(typeof QUEUE_PAYLOAD_SCHEMAS)[Q]>;
+
+export const QUEUE_NAMES = Object.keys(QUEUE_PAYLOAD_SCHEMAS) as QueueName[];
+
+export type QueueDriverName = 'sqs' | 'postgres' | 'memory';
+
+export interface EnqueueOptions {
+  /** Hold the job back for this many seconds before it can be received */
+  delaySeconds?: number;
+}
+
+export interface ReceiveOptions {
+  /** Upper bound of jobs returned by one call */
+  maxJobs: number;
+  /** How long a received job stays hidden from other workers */
+  visibilityTimeoutSeconds: number;
+  /** Long-poll duration; drivers without long polling return immediately */
+  waitSeconds: number;
+}
+
+export interface ReceivedJob {
+  id: string;
+  queue: QueueName;
+  /** Raw message body; validated by the worker before it reaches a handler */
+  body: unknown;
+  /** Deliveries so far, including this one */
+  attempts: number;
+  /** Driver-specific handle identifying this delivery */
+  receipt: string;
+}
+
+export interface QueueDriver {
+  readonly driver: QueueDriverName;
+
+  /**
+   * Add a job to the queue and return its id
+   */
+  send(queue: QueueName, body: unknown, options?: EnqueueOptions): Promise<string>;
+
+  /**
+   * Claim due jobs; they are redelivered if not completed before the visibility timeout
+   */
+  receive(queue: QueueName, options: ReceiveOptions): Promise<ReceivedJob[]>;
+
+  /**
+   * Remove a successfully processed job
+   */
+  complete(job: ReceivedJob): Promise<void>;
+
+  /**
+   * Make a job available again after a delay
+   */
+  retry(job: ReceivedJob, delaySeconds: number, error: string): Promise<void>;
+
+  /**
+   * Give up on a job that cannot succeed or has run out of attempts
+   */
+  fail(job: ReceivedJob, error: string): Promise<void>;
+}
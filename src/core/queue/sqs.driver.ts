@@ -0,0 +1,113 @@
+/**
+ * SQS Queue Driver
+ * - Sends and receives jobs through AWS SQS (one SQS queue per logical queue)
+ * - Retries are scheduled by changing the message visibility; messages that keep
+ *   failing are moved by the queue's redrive policy if one is configured
+ * - Messages given up on are deleted and logged, as SQS has no manual dead-lettering
+ *
+ * Queue URLs:
+ * - OTP_QUEUE: AWS_SQS_OTP_QUEUE_URL
+ * - AI_REPORT_QUEUE: AWS_SQS_AI_REPORT_QUEUE_URL
+ *
+ * @module queue/sqs.driver
+ * @requires @aws-sdk/client-sqs
+ * @exports SqsQueueDriver
+ */
+
+import {
+  ChangeMessageVisibilityCommand,
+  DeleteMessageCommand,
+  ReceiveMessageCommand,
+  SendMessageCommand,
+} from '@aws-sdk/client-sqs';
+import { sqsClient } from '@/core/aws/aws.config';
+import logger from '@/core/logger';
+import type { EnqueueOptions, QueueDriver, QueueName, ReceivedJob, ReceiveOptions } from './queue';
+
+/** SQS limits */
+const MAX_BATCH_SIZE = 10;
+const MAX_DELAY_SECONDS = 900;
+const MAX_VISIBILITY_TIMEOUT_SECONDS = 12 * 60 * 60;
+
+const parseBody = (body: string | undefined): unknown => {
+  try {
+    return JSON.parse(body ?? '');
+  } catch {
+    return body;
+  }
+};
+
+export class SqsQueueDriver implements QueueDriver {
+  readonly driver = 'sqs' as const;
+
+  constructor(private readonly queueUrls: Partial<Record<QueueName, string>>) {}
+
+  private urlFor(queue: QueueName): string {
+    const url = this.queueUrls[queue];
+    if (!url) {
+      throw new Error(`Queue URL not found for queue: ${queue}`);
+    }
+    return url;
+  }
+
+  async send(queue: QueueName, body: unknown, options: EnqueueOptions = {}): Promise<string> {
+    const response = await sqsClient.send(
+      new SendMessageCommand({
+        QueueUrl: this.urlFor(queue),
+        MessageBody: JSON.stringify(body),
+        DelaySeconds: options.delaySeconds ? Math.min(options.delaySeconds, MAX_DELAY_SECONDS) : undefined,
+        MessageAttributes: {
+          MessageType: {
+            StringValue: queue,
+            DataType: 'String',
+          },
+          Timestamp: {
+            StringValue: new Date().toISOString(),
+            DataType: 'String',
+          },
+        },
+      }),
+    );
+
+    return response.MessageId ?? '';
+  }
+
+  async receive(queue: QueueName, options: ReceiveOptions): Promise<ReceivedJob[]> {
+    const response = await sqsClient.send(
+      new ReceiveMessageCommand({
+        QueueUrl: this.urlFor(queue),
+        MaxNumberOfMessages: Math.min(options.maxJobs, MAX_BATCH_SIZE),
+        VisibilityTimeout: options.visibilityTimeoutSeconds,
+        WaitTimeSeconds: options.waitSeconds,
+        MessageSystemAttributeNames: ['ApproximateReceiveCount'],
+      }),
+    );
+
+    return (response.Messages ?? []).map(message => ({
+      id: message.MessageId ?? '',
+      queue,
+      body: parseBody(message.Body),
+      attempts: Number(message.Attributes?.ApproximateReceiveCount ?? 1),
+      receipt: message.ReceiptHandle ?? '',
+    }));
+  }
+
+  async complete(job: ReceivedJob): Promise<void> {
+    await sqsClient.send(new DeleteMessageCommand({ QueueUrl: this.urlFor(job.queue), ReceiptHandle: job.receipt }));
+  }
+
+  async retry(job: ReceivedJob, delaySeconds: number, _error: string): Promise<void> {
+    await sqsClient.send(
+      new ChangeMessageVisibilityCommand({
+        QueueUrl: this.urlFor(job.queue),
+        ReceiptHandle: job.receipt,
+        VisibilityTimeout: Math.min(delaySeconds, MAX_VISIBILITY_TIMEOUT_SECONDS),
+      }),
+    );
+  }
+
+  async fail(job: ReceivedJob, error: string): Promise<void> {
+    logger.error('[Queue] Dropping SQS message', { queue: job.queue, id: job.id, attempts: job.attempts, error });
+    await this.complete(job);
+  }
+}
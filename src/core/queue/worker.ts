@@ -0,0 +1,157 @@
+/**
+ * Queue Worker
+ * - Consumes jobs inside the Node process, one polling loop per queue with a handler
+ * - Validates each payload against its queue schema before the handler runs
+ * - Failed jobs are retried with exponential backoff until `maxAttempts`, then given up on
+ * - Invalid payloads are given up on immediately, as retrying cannot fix them
+ *
+ * @module queue/worker
+ * @exports QueueWorker
+ */
+
+import { z } from 'zod';
+import logger from '@/core/logger';
+import { errorMessage, PollingLoop } from '@/core/polling-loop';
+import { QUEUE_PAYLOAD_SCHEMAS, type QueueDriver, type QueueName, type QueuePayload, type ReceivedJob } from './queue';
+
+export type JobHandler<Q extends QueueName> = (payload: QueuePayload<Q>, job: ReceivedJob) => Promise<void>;
+
+export type JobHandlers = { [Q in QueueName]?: JobHandler<Q> };
+
+export interface QueueWorkerOptions {
+  driver: QueueDriver;
+  handlers: JobHandlers;
+  /** Jobs claimed per poll */
+  batchSize?: number;
+  /** Pause between polls when a queue is empty */
+  pollIntervalMs?: number;
+  /** Long-poll duration for drivers that support it (SQS) */
+  waitSeconds?: number;
+  /** How long a job may run before it is handed to another worker */
+  visibilityTimeoutSeconds?: number;
+  /** Deliveries before a failing job is given up on */
+  maxAttempts?: number;
+}
+
+const RETRY_BASE_DELAY_SECONDS = 5;
+const RETRY_MAX_DELAY_SECONDS = 5 * 60;
+
+const retryDelayFor = (attempts: number) =>
+  Math.min(RETRY_BASE_DELAY_SECONDS * 2 ** (attempts - 1), RETRY_MAX_DELAY_SECONDS);
+
+export class QueueWorker {
+  private readonly driver: QueueDriver;
+  private readonly handlers: JobHandlers;
+  private readonly batchSize: number;
+  private readonly pollIntervalMs: number;
+  private readonly waitSeconds: number;
+  private readonly visibilityTimeoutSeconds: number;
+  private readonly maxAttempts: number;
+
+  private running = false;
+  private pollers: PollingLoop[] = [];
+
+  constructor(options: QueueWorkerOptions) {
+    this.driver = options.driver;
+    this.handlers = options.handlers;
+    this.batchSize = options.batchSize ?? 5;
+    this.pollIntervalMs = options.pollIntervalMs ?? 1000;
+    this.waitSeconds = options.waitSeconds ?? 10;
+    this.visibilityTimeoutSeconds = options.visibilityTimeoutSeconds ?? 60;
+    this.maxAttempts = options.maxAttempts ?? 5;
+  }
+
+  /**
+   * Start polling every queue that has a handler
+   */
+  start(): void {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+
+    const queues = (Object.keys(this.handlers) as QueueName[]).filter(queue => this.handlers[queue]);
+    this.pollers = queues.map(
+      queue =>
+        new PollingLoop({
+          runOnce: async () => (await this.runOnce(queue)) > 0,
+          intervalMs: this.pollIntervalMs,
+          onError: error => logger.error('[Queue] Failed to poll queue', { queue, error: errorMessage(error) }),
+        }),
+    );
+    this.pollers.forEach(poller => poller.start());
+
+    logger.info('[Queue] Worker started', { driver: this.driver.driver, queues });
+  }
+
+  /**
+   * Stop polling and wait for in-flight jobs to finish
+   */
+  async stop(): Promise<void> {
+    this.running = false;
+    await Promise.all(this.pollers.map(poller => poller.stop()));
+    this.pollers = [];
+    logger.info('[Queue] Worker stopped');
+  }
+
+  /**
+   * Claim and process one batch from a queue
+   *
+   * @returns Number of jobs processed
+   */
+  async runOnce(queue: QueueName): Promise<number> {
+    const jobs = await this.driver.receive(queue, {
+      maxJobs: this.batchSize,
+      visibilityTimeoutSeconds: this.visibilityTimeoutSeconds,
+      waitSeconds: this.running ? this.waitSeconds : 0,
+    });
+
+    for (const job of jobs) {
+      await this.process(job);
+    }
+
+    return jobs.length;
+  }
+
+  private async process(job: ReceivedJob): Promise<void> {
+    const handler = this.handlers[job.queue] as JobHandler<QueueName> | undefined;
+    if (!handler) {
+      throw new Error(`No handler registered for queue: ${job.queue}`);
+    }
+
+    const parsed = QUEUE_PAYLOAD_SCHEMAS[job.queue].safeParse(job.body);
+    if (!parsed.success) {
+      logger.error('[Queue] Invalid job payload', { queue: job.queue, id: job.id, issues: parsed.error.issues });
+      await this.driver.fail(job, `Invalid payload: ${z.prettifyError(parsed.error)}`);
+      return;
+    }
+
+    try {
+      await handler(parsed.data, job);
+      await this.driver.complete(job);
+    } catch (error) {
+      const message = errorMessage(error);
+
+      if (job.attempts >= this.maxAttempts) {
+        logger.error('[Queue] Job failed permanently', {
+          queue: job.queue,
+          id: job.id,
+          attempts: job.attempts,
+          error: message,
+        });
+        await this.driver.fail(job, message);
+        return;
+      }
+
+      const delaySeconds = retryDelayFor(job.attempts);
+      logger.warn('[Queue] Job failed, retrying', {
+        queue: job.queue,
+        id: job.id,
+        attempts: job.attempts,
+        delaySeconds,
+        error: message,
+      });
+      await this.driver.retry(job, delaySeconds, message);
+    }
+  }
+}
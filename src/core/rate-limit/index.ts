@@ -0,0 +1,24 @@
+/**
+ * Rate Limit Store Factory
+ * - Selects the store from RATE_LIMIT_STORE (memory | postgres)
+ * - One shared store instance per process
+ *
+ * @module rate-limit
+ * @exports getRateLimitStore - Returns the configured store
+ */
+
+import { env } from '@/env';
+import { MemoryRateLimitStore } from './memory.store';
+import { PostgresRateLimitStore } from './postgres.store';
+import type { RateLimitStore } from './store';
+
+export type { RateLimitHit, RateLimitStore } from './store';
+export { MemoryRateLimitStore } from './memory.store';
+export { PostgresRateLimitStore } from './postgres.store';
+
+let store: RateLimitStore | null = null;
+
+export const getRateLimitStore = (): RateLimitStore => {
+  store ??= env.RATE_LIMIT_STORE === 'postgres' ? new PostgresRateLimitStore() : new MemoryRateLimitStore();
+  return store;
+};
@@ -0,0 +1,46 @@
+/**
+ * In-Memory Rate Limit Store
+ * - Keeps fixed-window counters in a Map
+ * - Suitable for development, tests and single-instance deployments only
+ *
+ * @module rate-limit/memory.store
+ * @exports MemoryRateLimitStore
+ */
+
+import type { RateLimitHit, RateLimitStore } from './store';
+
+const CLEANUP_INTERVAL_MS = 60 * 1000;
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  private readonly hits = new Map<string, RateLimitHit>();
+
+  constructor() {
+    // Drop expired windows periodically; unref so the timer never keeps the process alive
+    setInterval(() => {
+      const now = Date.now();
+      for (const [key, hit] of this.hits) {
+        if (hit.resetAt.getTime() <= now) {
+          this.hits.delete(key);
+        }
+      }
+    }, CLEANUP_INTERVAL_MS).unref();
+  }
+
+  async increment(key: string, windowMs: number): Promise<RateLimitHit> {
+    const now = Date.now();
+    const current = this.hits.get(key);
+
+    if (!current || current.resetAt.getTime() <= now) {
+      const hit = { count: 1, resetAt: new Date(now + windowMs) };
+      this.hits.set(key, hit);
+      return { ...hit };
+    }
+
+    current.count += 1;
+    return { ...current };
+  }
+
+  async reset(key: string): Promise<void> {
+    this.hits.delete(key);
+  }
+}
@@ -0,0 +1,67 @@
+/**
+ * Postgres Rate Limit Store
+ * - Keeps fixed-window counters in the `rate_limit_buckets` table
+ * - A single upsert per request keeps the counter consistent across instances
+ * - Rows of ended windows are deleted at most once a minute per instance, off
+ *   the request path
+ *
+ * @module rate-limit/postgres.store
+ * @exports PostgresRateLimitStore
+ */
+
+import { eq, lte, sql } from 'drizzle-orm';
+import { db } from '@/db';
+import { rateLimitBuckets } from '@/db/schemas';
+import logger from '@/core/logger';
+import type { RateLimitHit, RateLimitStore } from './store';
+
+const PRUNE_INTERVAL_MS = 60 * 1000;
+
+export class PostgresRateLimitStore implements RateLimitStore {
+  private lastPrunedAt = 0;
+
+  async increment(key: string, windowMs: number): Promise<RateLimitHit> {
+    const windowEnd = sql`now() + make_interval(secs => ${windowMs / 1000})`;
+    const windowOver = sql`${rateLimitBuckets.resetAt} <= now()`;
+
+    const [bucket] = await db
+      .insert(rateLimitBuckets)
+      .values({ key, count: 1, resetAt: windowEnd })
+      .onConflictDoUpdate({
+        target: rateLimitBuckets.key,
+        set: {
+          count: sql`CASE WHEN ${windowOver} THEN 1 ELSE ${rateLimitBuckets.count} + 1 END`,
+          resetAt: sql`CASE WHEN ${windowOver} THEN ${windowEnd} ELSE ${rateLimitBuckets.resetAt} END`,
+        },
+      })
+      .returning({ count: rateLimitBuckets.count, resetAt: rateLimitBuckets.resetAt });
+
+    this.pruneExpired();
+
+    return bucket;
+  }
+
+  async reset(key: string): Promise<void> {
+    await db.delete(rateLimitBuckets).where(eq(rateLimitBuckets.key, key));
+  }
+
+  /**
+   * Delete the rows of ended windows, unless this instance did so within the last minute
+   * - Not awaited; a key seen again simply opens a new window
+   */
+  private pruneExpired(): void {
+    const now = Date.now();
+    if (now - this.lastPrunedAt < PRUNE_INTERVAL_MS) {
+      return;
+    }
+    this.lastPrunedAt = now;
+
+    db.delete(rateLimitBuckets)
+      .where(lte(rateLimitBuckets.resetAt, sql`now()`))
+      .catch(error => {
+        logger.warn('Failed to prune expired rate limit buckets', {
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      });
+  }
+}
@@ -0,0 +1,25 @@
+/**
+ * Rate Limit Store Contract
+ * - Implemented by the in-memory and Postgres stores
+ *
+ * @module rate-limit/store
+ */
+
+export interface RateLimitHit {
+  /** Requests counted in the current window, including this one */
+  count: number;
+  /** When the current window ends */
+  resetAt: Date;
+}
+
+export interface RateLimitStore {
+  /**
+   * Count a request for the key, opening a new window if the previous one ended
+   */
+  increment(key: string, windowMs: number): Promise<RateLimitHit>;
+
+  /**
+   * Forget the counter for a key
+   */
+  reset(key: string): Promise<void>;
+}
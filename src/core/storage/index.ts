@@ -0,0 +1,65 @@
+/**
+ * Storage Provider Factory
+ * - Selects the driver from STORAGE_DRIVER (s3 | local)
+ * - One shared provider instance per logical bucket and process
+ *
+ * S3 bucket names:
+ * - uploads: STORAGE_S3_BUCKET
+ * - logs: AWS_S3_LOG_BUCKET_NAME
+ *
+ * @module storage
+ * @exports getStorageProvider - Returns the configured provider for a bucket
+ */
+
+import { env } from '@/env';
+import { LocalStorageProvider } from './local.provider';
+import { S3StorageProvider } from './s3.provider';
+import type { StorageBucket, StorageProvider } from './storage';
+
+export type {
+  PresignedUpload,
+  PresignUploadOptions,
+  StorageBucket,
+  StorageDriver,
+  StorageProvider,
+  StoredObject,
+  StoredObjectInfo,
+} from './storage';
+export { PUBLIC_KEY_PREFIXES } from './storage';
+export {
+  isLocalMetadataFile,
+  LocalStorageProvider,
+  verifyLocalDownloadToken,
+  verifyLocalUploadToken,
+} from './local.provider';
+export { S3StorageProvider } from './s3.provider';
+
+const providers = new Map<StorageBucket, StorageProvider>();
+
+const S3_BUCKET_ENV: Record<StorageBucket, 'STORAGE_S3_BUCKET' | 'AWS_S3_LOG_BUCKET_NAME'> = {
+  uploads: 'STORAGE_S3_BUCKET',
+  logs: 'AWS_S3_LOG_BUCKET_NAME',
+};
+
+const createStorageProvider = (bucket: StorageBucket): StorageProvider => {
+  const publicBaseUrl = env.STORAGE_PUBLIC_URL as string | undefined;
+
+  if (env.STORAGE_DRIVER === 's3') {
+    const bucketName = env[S3_BUCKET_ENV[bucket]] as string | undefined;
+    if (!bucketName) {
+      throw new Error(`${S3_BUCKET_ENV[bucket]} must be set when STORAGE_DRIVER is s3`);
+    }
+    return new S3StorageProvider(bucket, bucketName, publicBaseUrl);
+  }
+
+  return new LocalStorageProvider(bucket, env.STORAGE_LOCAL_DIR as string, env.API_URL as string, publicBaseUrl);
+};
+
+export const getStorageProvider = (bucket: StorageBucket = 'uploads'): StorageProvider => {
+  let provider = providers.get(bucket);
+  if (!provider) {
+    provider = createStorageProvider(bucket);
+    providers.set(bucket, provider);
+  }
+  return provider;
+};
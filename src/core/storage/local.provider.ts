@@ -0,0 +1,237 @@
+/**
+ * Local Filesystem Storage Provider
+ * - Stores objects under `<STORAGE_LOCAL_DIR>/<bucket>` for development without AWS
+ * - Presigned uploads point at `PUT /api/storage/uploads/:token` and presigned
+ *   downloads at `GET /api/storage/files/:token` on this API; tokens are
+ *   short-lived JWTs naming the bucket and key
+ * - Public key prefixes of the uploads bucket are served statically from `/uploads`
+ *
+ * @module storage/local.provider
+ * @exports LocalStorageProvider
+ * @exports verifyLocalUploadToken - Verifies a local upload token
+ * @exports verifyLocalDownloadToken - Verifies a local download token
+ * @exports isLocalMetadataFile - Whether a path names a metadata file kept next to an object
+ */
+
+import { createReadStream } from 'fs';
+import fs from 'fs/promises';
+import path from 'path';
+import type { Readable } from 'stream';
+import jwt from 'jsonwebtoken';
+import { env } from '@/env';
+import ErrorHandler from '@/utils/errorHandler';
+import type {
+  PresignedUpload,
+  PresignUploadOptions,
+  StorageBucket,
+  StorageProvider,
+  StoredObject,
+  StoredObjectInfo,
+} from './storage';
+
+const LOCAL_UPLOAD_PURPOSE = 'local_upload';
+const LOCAL_DOWNLOAD_PURPOSE = 'local_download';
+const CONTENT_TYPE_SUFFIX = '.content-type';
+
+/**
+ * Whether a URL path names a metadata file kept next to an object, which must not be served
+ * - Compared decoded and case-insensitively, as the static file server and some filesystems would
+ */
+export const isLocalMetadataFile = (urlPath: string) => {
+  let decoded: string;
+  try {
+    decoded = decodeURIComponent(urlPath);
+  } catch {
+    decoded = urlPath;
+  }
+  return decoded.toLowerCase().endsWith(CONTENT_TYPE_SUFFIX);
+};
+
+const isMissing = (error: unknown) => (error as { code?: string } | null)?.code === 'ENOENT';
+
+export interface LocalDownloadClaims {
+  bucket: StorageBucket;
+  key: string;
+}
+
+export interface LocalUploadClaims extends LocalDownloadClaims {
+  contentType: string;
+  contentLength: number;
+}
+
+const verifyLocalToken = <T>(token: string, purpose: string, required: Array<keyof T>): T => {
+  try {
+    const payload = jwt.verify(token, env.JWT_SECRET_KEY as string) as Partial<T> & { purpose?: string };
+    if (payload.purpose !== purpose || required.some(field => !payload[field])) {
+      throw ErrorHandler.AuthError('Invalid storage token');
+    }
+    return payload as T;
+  } catch (error) {
+    if (error instanceof ErrorHandler) {
+      throw error;
+    }
+    throw ErrorHandler.AuthError('Storage token expired or invalid');
+  }
+};
+
+/**
+ * Verify a token issued by LocalStorageProvider.presignUpload
+ * @throws AuthError if the token is invalid, expired or not an upload token
+ */
+export const verifyLocalUploadToken = (token: string): LocalUploadClaims =>
+  verifyLocalToken<LocalUploadClaims>(token, LOCAL_UPLOAD_PURPOSE, ['bucket', 'key', 'contentType', 'contentLength']);
+
+/**
+ * Verify a token issued by LocalStorageProvider.presignDownload
+ * @throws AuthError if the token is invalid, expired or not a download token
+ */
+export const verifyLocalDownloadToken = (token: string): LocalDownloadClaims =>
+  verifyLocalToken<LocalDownloadClaims>(token, LOCAL_DOWNLOAD_PURPOSE, ['bucket', 'key']);
+
+export class LocalStorageProvider implements StorageProvider {
+  readonly driver = 'local' as const;
+  private readonly root: string;
+  private readonly apiBaseUrl: string;
+
+  constructor(
+    readonly bucket: StorageBucket,
+    baseDir: string,
+    apiBaseUrl: string,
+    private readonly publicBaseUrl: string = `${apiBaseUrl.replace(/\/$/, '')}/uploads`,
+  ) {
+    this.root = path.resolve(baseDir, bucket);
+    this.apiBaseUrl = apiBaseUrl.replace(/\/$/, '');
+  }
+
+  /**
+   * Resolve a key inside the bucket directory, rejecting path traversal
+   */
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.root, key);
+    if (!filePath.startsWith(this.root + path.sep) || filePath.endsWith(CONTENT_TYPE_SUFFIX)) {
+      throw ErrorHandler.BadRequest('Invalid storage key');
+    }
+    return filePath;
+  }
+
+  private signToken(claims: Record<string, unknown>, expiresInSeconds: number) {
+    return jwt.sign({ ...claims, bucket: this.bucket }, env.JWT_SECRET_KEY as string, {
+      expiresIn: expiresInSeconds,
+    });
+  }
+
+  async putObject(key: string, body: Buffer, contentType: string): Promise<void> {
+    const filePath = this.resolve(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, body);
+    await fs.writeFile(filePath + CONTENT_TYPE_SUFFIX, contentType);
+  }
+
+  async getObject(key: string): Promise<Buffer> {
+    try {
+      return await fs.readFile(this.resolve(key));
+    } catch (error) {
+      if (isMissing(error)) {
+        throw ErrorHandler.NotFound(`Object not found: ${key}`);
+      }
+      throw error;
+    }
+  }
+
+  async getObjectStream(key: string): Promise<Readable> {
+    const filePath = this.resolve(key);
+    try {
+      await fs.access(filePath);
+    } catch (error) {
+      if (isMissing(error)) {
+        throw ErrorHandler.NotFound(`Object not found: ${key}`);
+      }
+      throw error;
+    }
+    return createReadStream(filePath);
+  }
+
+  async headObject(key: string): Promise<StoredObjectInfo | null> {
+    const filePath = this.resolve(key);
+    try {
+      const stats = await fs.stat(filePath);
+      const contentType = await fs.readFile(filePath + CONTENT_TYPE_SUFFIX, 'utf8').catch(() => undefined);
+      return { size: stats.size, contentType };
+    } catch (error) {
+      if (isMissing(error)) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async deleteObject(key: string): Promise<void> {
+    const filePath = this.resolve(key);
+    await fs.rm(filePath, { force: true });
+    await fs.rm(filePath + CONTENT_TYPE_SUFFIX, { force: true });
+  }
+
+  async listObjects(prefix = ''): Promise<StoredObject[]> {
+    let entries: string[];
+    try {
+      entries = await fs.readdir(this.root, { recursive: true });
+    } catch (error) {
+      if (isMissing(error)) {
+        return [];
+      }
+      throw error;
+    }
+
+    const objects: StoredObject[] = [];
+    for (const entry of entries) {
+      const key = entry.split(path.sep).join('/');
+      if (!key.startsWith(prefix) || key.endsWith(CONTENT_TYPE_SUFFIX)) {
+        continue;
+      }
+      const stats = await fs.stat(path.join(this.root, entry));
+      if (stats.isFile()) {
+        objects.push({ key, size: stats.size, lastModified: stats.mtime });
+      }
+    }
+
+    return objects.sort((a, b) => a.key.localeCompare(b.key));
+  }
+
+  async presignUpload(key: string, options: PresignUploadOptions): Promise<PresignedUpload> {
+    this.resolve(key);
+
+    const token = this.signToken(
+      {
+        purpose: LOCAL_UPLOAD_PURPOSE,
+        key,
+        contentType: options.contentType,
+        contentLength: options.contentLength,
+      },
+      options.expiresInSeconds,
+    );
+
+    return {
+      url: `${this.apiBaseUrl}/api/storage/uploads/${token}`,
+      method: 'PUT',
+      headers: { 'Content-Type': options.contentType },
+      expiresAt: new Date(Date.now() + options.expiresInSeconds * 1000),
+    };
+  }
+
+  async presignDownload(key: string, expiresInSeconds: number): Promise<string> {
+    this.resolve(key);
+    const token = this.signToken({ purpose: LOCAL_DOWNLOAD_PURPOSE, key }, expiresInSeconds);
+    return `${this.apiBaseUrl}/api/storage/files/${token}`;
+  }
+
+  getPublicUrl(key: string): string {
+    return `${this.publicBaseUrl.replace(/\/$/, '')}/${key}`;
+  }
+
+  /**
+   * Absolute directory the bucket's objects are stored in
+   */
+  get rootDir(): string {
+    return this.root;
+  }
+}
@@ -0,0 +1,127 @@
+/**
+ * S3 Storage Provider
+ * - Stores objects in one S3 bucket per logical bucket
+ * - Direct uploads use presigned PUT URLs with the content type and length signed in
+ *
+ * @module storage/s3.provider
+ * @exports S3StorageProvider
+ */
+
+import type { Readable } from 'stream';
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  ListObjectsV2Command,
+  PutObjectCommand,
+} from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import { AWS_REGION, s3Client } from '@/core/aws/aws.config';
+import ErrorHandler from '@/utils/errorHandler';
+import type {
+  PresignedUpload,
+  PresignUploadOptions,
+  StorageBucket,
+  StorageProvider,
+  StoredObject,
+  StoredObjectInfo,
+} from './storage';
+
+const isNotFound = (error: unknown) =>
+  error instanceof Error && (error.name === 'NotFound' || error.name === 'NoSuchKey');
+
+export class S3StorageProvider implements StorageProvider {
+  readonly driver = 's3' as const;
+
+  constructor(
+    readonly bucket: StorageBucket,
+    private readonly bucketName: string,
+    private readonly publicBaseUrl: string = `https://${bucketName}.s3.${AWS_REGION}.amazonaws.com`,
+  ) {}
+
+  async putObject(key: string, body: Buffer, contentType: string): Promise<void> {
+    await s3Client.send(
+      new PutObjectCommand({ Bucket: this.bucketName, Key: key, Body: body, ContentType: contentType }),
+    );
+  }
+
+  async getObject(key: string): Promise<Buffer> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of await this.getObjectStream(key)) {
+      chunks.push(Buffer.from(chunk));
+    }
+    return Buffer.concat(chunks);
+  }
+
+  async getObjectStream(key: string): Promise<Readable> {
+    try {
+      const result = await s3Client.send(new GetObjectCommand({ Bucket: this.bucketName, Key: key }));
+      return result.Body as Readable;
+    } catch (error) {
+      if (isNotFound(error)) {
+        throw ErrorHandler.NotFound(`Object not found: ${key}`);
+      }
+      throw error;
+    }
+  }
+
+  async headObject(key: string): Promise<StoredObjectInfo | null> {
+    try {
+      const result = await s3Client.send(new HeadObjectCommand({ Bucket: this.bucketName, Key: key }));
+      return { size: result.ContentLength ?? 0, contentType: result.ContentType };
+    } catch (error) {
+      if (isNotFound(error)) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async deleteObject(key: string): Promise<void> {
+    await s3Client.send(new DeleteObjectCommand({ Bucket: this.bucketName, Key: key }));
+  }
+
+  async listObjects(prefix = ''): Promise<StoredObject[]> {
+    const objects: StoredObject[] = [];
+    let continuationToken: string | undefined;
+
+    do {
+      const page = await s3Client.send(
+        new ListObjectsV2Command({ Bucket: this.bucketName, Prefix: prefix, ContinuationToken: continuationToken }),
+      );
+      for (const item of page.Contents ?? []) {
+        objects.push({ key: item.Key!, size: item.Size ?? 0, lastModified: item.LastModified ?? new Date(0) });
+      }
+      continuationToken = page.IsTruncated ? page.NextContinuationToken : undefined;
+    } while (continuationToken);
+
+    return objects;
+  }
+
+  async presignUpload(key: string, options: PresignUploadOptions): Promise<PresignedUpload> {
+    const command = new PutObjectCommand({
+      Bucket: this.bucketName,
+      Key: key,
+      ContentType: options.contentType,
+      ContentLength: options.contentLength,
+    });
+    const url = await getSignedUrl(s3Client, command, { expiresIn: options.expiresInSeconds });
+
+    return {
+      url,
+      method: 'PUT',
+      headers: { 'Content-Type': options.contentType, 'Content-Length': String(options.contentLength) },
+      expiresAt: new Date(Date.now() + options.expiresInSeconds * 1000),
+    };
+  }
+
+  async presignDownload(key: string, expiresInSeconds: number): Promise<string> {
+    return getSignedUrl(s3Client, new GetObjectCommand({ Bucket: this.bucketName, Key: key }), {
+      expiresIn: expiresInSeconds,
+    });
+  }
+
+  getPublicUrl(key: string): string {
+    return `${this.publicBaseUrl.replace(/\/$/, '')}/${key}`;
+  }
+}
@@ -0,0 +1,102 @@
+/**
+ * Storage Provider Contract
+ * - Implemented by the S3 and local filesystem drivers
+ * - Keys are `/`-separated paths such as `avatars/<userId>/<id>.webp`
+ * - Each logical bucket maps to an S3 bucket or to a directory on disk
+ *
+ * @module storage/storage
+ */
+
+import type { Readable } from 'stream';
+
+export type StorageDriver = 's3' | 'local';
+
+/**
+ * Logical buckets
+ * - uploads: user content (avatars, report files); only PUBLIC_KEY_PREFIXES are publicly readable
+ * - logs: rotated application log files
+ */
+export type StorageBucket = 'uploads' | 'logs';
+
+/**
+ * Key prefixes in the uploads bucket that are served publicly
+ */
+export const PUBLIC_KEY_PREFIXES = ['avatars'] as const;
+
+export interface StoredObjectInfo {
+  size: number;
+  contentType?: string;
+}
+
+export interface StoredObject {
+  key: string;
+  size: number;
+  lastModified: Date;
+}
+
+export interface PresignUploadOptions {
+  contentType: string;
+  /** Exact size in bytes the client has to upload */
+  contentLength: number;
+  expiresInSeconds: number;
+}
+
+export interface PresignedUpload {
+  url: string;
+  method: 'PUT';
+  /** Headers the client must send with the upload */
+  headers: Record<string, string>;
+  expiresAt: Date;
+}
+
+export interface StorageProvider {
+  readonly driver: StorageDriver;
+  readonly bucket: StorageBucket;
+
+  /**
+   * Store an object, replacing any existing object with the same key
+   */
+  putObject(key: string, body: Buffer, contentType: string): Promise<void>;
+
+  /**
+   * Read a whole object into memory
+   * @throws NotFound if the object does not exist
+   */
+  getObject(key: string): Promise<Buffer>;
+
+  /**
+   * Stream an object
+   * @throws NotFound if the object does not exist
+   */
+  getObjectStream(key: string): Promise<Readable>;
+
+  /**
+   * Size and content type of an object, or null if it does not exist
+   */
+  headObject(key: string): Promise<StoredObjectInfo | null>;
+
+  /**
+   * Delete an object; deleting a missing object is not an error
+   */
+  deleteObject(key: string): Promise<void>;
+
+  /**
+   * List objects whose key starts with the prefix, sorted by key
+   */
+  listObjects(prefix?: string): Promise<StoredObject[]>;
+
+  /**
+   * Create a URL the client can upload an object to directly
+   */
+  presignUpload(key: string, options: PresignUploadOptions): Promise<PresignedUpload>;
+
+  /**
+   * Create a short-lived URL to download a private object
+   */
+  presignDownload(key: string, expiresInSeconds: number): Promise<string>;
+
+  /**
+   * Public URL an object is served from (only for PUBLIC_KEY_PREFIXES in the uploads bucket)
+   */
+  getPublicUrl(key: string): string;
+}
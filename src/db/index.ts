@@ -20,12 +20,13 @@ import * as schema from './schemas';
 
 const connectionString = env.DATABASE_URL as string;
 
+// AWS RDS requires SSL; a local or in-process database usually has none
+const ssl = env.DB_SSL === 'true' ? { rejectUnauthorized: false } : false;
+
 // AWS RDS connection pool with SSL
 const pool = new Pool({
   connectionString,
-  ssl: {
-    rejectUnauthorized: false, // Required for AWS RDS
-  },
+  ssl,
   max: 20,
   min: 5,
   idleTimeoutMillis: 30000,
@@ -41,6 +42,15 @@ export const db = drizzle(pool, {
 
 export { pool };
 
+/**
+ * Database executor types
+ * - `Transaction` is the handle passed to `db.transaction` callbacks
+ * - `DbExecutor` accepts either, so helpers can join an outer transaction
+ */
+export type Database = typeof db;
+export type Transaction = Parameters<Parameters<Database['transaction']>[0]>[0];
+export type DbExecutor = Database | Transaction;
+
 /**
  * Initialize database connection
  */
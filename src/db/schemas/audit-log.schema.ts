@@ -0,0 +1,59 @@
+/**
+ * Audit Log Schema Definition using Drizzle ORM for PostgreSQL.
+ * This schema records privileged actions (admin user management, admin task edits).
+ *
+ * Design Pattern Used:
+ *  - Append-Only Log Pattern: Rows are inserted, never updated.
+ *  - Relational Mapping: The acting user is linked to the users table.
+ */
+
+import { pgTable, varchar, timestamp, uuid, jsonb, index } from 'drizzle-orm/pg-core';
+import { relations, sql } from 'drizzle-orm';
+import { users } from './user.schema';
+
+/**
+ * Audit Logs Table Definition
+ *
+ * Columns:
+ * - id: Primary key, UUID string.
+ * - actorId: User who performed the action (null once that user is deleted).
+ * - action: What was done (user.suspend, user.role_change, task.delete, etc.).
+ * - target_type: Kind of resource acted on (user, task).
+ * - target_id: ID of the resource acted on.
+ * - metadata: Action details such as previous and new values.
+ * - ip_address: IP address the action was performed from.
+ * - createdAt: Timestamp of when the action was performed.
+ */
+export const auditLogs = pgTable(
+  'audit_logs',
+  {
+    id: uuid('id')
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    actorId: uuid('actor_id').references(() => users.id, { onDelete: 'set null' }),
+    action: varchar('action', { length: 100 }).notNull(),
+    targetType: varchar('target_type', { length: 50 }).notNull(),
+    targetId: varchar('target_id', { length: 255 }),
+    metadata: jsonb('metadata').$type<Record<string, unknown>>(),
+    ipAddress: varchar('ip_address', { length: 64 }),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+  },
+  table => [
+    index('audit_logs_target_idx').on(table.targetType, table.targetId),
+    index('audit_logs_actor_id_idx').on(table.actorId),
+  ],
+);
+
+/**
+ * Relations for Audit Logs Table
+ */
+export const auditLogRelations = relations(auditLogs, ({ one }) => ({
+  actor: one(users, {
+    fields: [auditLogs.actorId],
+    references: [users.id],
+  }),
+}));
+
+// Type exports
+export type AuditLog = typeof auditLogs.$inferSelect;
+export type NewAuditLog = typeof auditLogs.$inferInsert;
@@ -0,0 +1,43 @@
+/**
+ * Auth Attempt Schema Definition using Drizzle ORM for PostgreSQL.
+ * This schema tracks failed authentication attempts for brute-force protection.
+ *
+ * Design Pattern Used:
+ *  - Throttling Pattern: Progressive delays and temporary lockouts.
+ *  - Keyed Counter Pattern: One row per (scope, identifier) pair.
+ */
+
+import { pgTable, varchar, timestamp, uuid, integer, uniqueIndex } from 'drizzle-orm/pg-core';
+import { sql } from 'drizzle-orm';
+
+/**
+ * Auth Attempts Table Definition
+ *
+ * Columns:
+ * - id: Primary key, UUID string.
+ * - scope: What is being throttled (login_account, login_ip, mfa_account, otp_ip).
+ * - identifier: The throttled key within the scope (normalised email, user id or IP address).
+ * - failed_count: Consecutive failures within the tracking window.
+ * - last_failed_at: Timestamp of the most recent failure.
+ * - locked_until: Attempts are rejected until this timestamp.
+ * - createdAt: Timestamp of when the row was created.
+ */
+export const authAttempts = pgTable(
+  'auth_attempts',
+  {
+    id: uuid('id')
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    scope: varchar('scope', { length: 50 }).notNull(),
+    identifier: varchar('identifier', { length: 255 }).notNull(),
+    failedCount: integer('failed_count').default(0).notNull(),
+    lastFailedAt: timestamp('last_failed_at').defaultNow().notNull(),
+    lockedUntil: timestamp('locked_until'),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+  },
+  table => [uniqueIndex('auth_attempts_scope_identifier_idx').on(table.scope, table.identifier)],
+);
+
+// Type exports
+export type AuthAttempt = typeof authAttempts.$inferSelect;
+export type NewAuthAttempt = typeof authAttempts.$inferInsert;
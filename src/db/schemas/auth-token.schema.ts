@@ -7,7 +7,7 @@
  *  - OAuth Integration Pattern: Support for multiple OAuth providers.
  */
 
-import { pgTable, varchar, text, timestamp, uuid } from 'drizzle-orm/pg-core';
+import { pgTable, varchar, text, timestamp, uuid, uniqueIndex } from 'drizzle-orm/pg-core';
 import { relations, sql } from 'drizzle-orm';
 import { users } from './user.schema';
 
@@ -18,24 +18,28 @@ import { users } from './user.schema';
  * - id: Primary key, UUID string.
  * - userId: Foreign key referencing users table.
  * - access_token: OAuth access token.
- * - refresh_token: OAuth refresh token.
- * - provider: OAuth provider (google, github, etc.).
- * - expiresAt: Token expiration timestamp.
+ * - refresh_token: OAuth refresh token; empty if the provider issued none.
+ * - provider: OAuth provider (google, github, etc.). One row per user and provider.
+ * - expiresAt: Access token expiration timestamp; the row is rotated on refresh.
  * - createdAt: Timestamp of when the token was created.
  */
-export const authTokens = pgTable('auth_tokens', {
-  id: uuid('id')
-    .primaryKey()
-    .default(sql`gen_random_uuid()`),
-  userId: uuid('user_id')
-    .references(() => users.id, { onDelete: 'cascade' })
-    .notNull(),
-  accessToken: text('access_token').notNull(),
-  refreshToken: text('refresh_token').notNull(),
-  provider: varchar('provider', { length: 50 }).notNull(),
-  expiresAt: timestamp('expires_at').notNull(),
-  createdAt: timestamp('created_at').defaultNow().notNull(),
-});
+export const authTokens = pgTable(
+  'auth_tokens',
+  {
+    id: uuid('id')
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    userId: uuid('user_id')
+      .references(() => users.id, { onDelete: 'cascade' })
+      .notNull(),
+    accessToken: text('access_token').notNull(),
+    refreshToken: text('refresh_token').notNull(),
+    provider: varchar('provider', { length: 50 }).notNull(),
+    expiresAt: timestamp('expires_at').notNull(),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+  },
+  table => [uniqueIndex('auth_tokens_user_id_provider_idx').on(table.userId, table.provider)],
+);
 
 /**
  * Relations for Auth Tokens Table
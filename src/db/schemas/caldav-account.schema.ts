@@ -0,0 +1,62 @@
+/**
+ * CalDAV Account Schema Definition using Drizzle ORM for PostgreSQL.
+ * This schema stores the CalDAV server a user syncs tasks to.
+ *
+ * One row per user. CalDAV servers (Nextcloud, Fastmail, Radicale) use
+ * HTTP Basic authentication, so the row holds an app password rather than
+ * OAuth tokens, encrypted with CREDENTIALS_ENCRYPTION_KEY (`utils/secretEncryption`);
+ * it is deleted on disconnect.
+ *
+ * Design Pattern Used:
+ *  - Credential Storage Pattern: Per-user credentials of an external service.
+ */
+
+import { pgTable, varchar, text, timestamp, uuid, uniqueIndex } from 'drizzle-orm/pg-core';
+import { relations, sql } from 'drizzle-orm';
+import { users } from './user.schema';
+
+/**
+ * CalDAV Accounts Table Definition
+ *
+ * Columns:
+ * - id: Primary key, UUID string.
+ * - userId: Foreign key referencing users table. One row per user.
+ * - serverUrl: URL calendars were discovered from (server root, principal or calendar home).
+ * - username: Basic authentication user name.
+ * - password: Basic authentication password, usually an app password; encrypted.
+ * - calendarUrl: Calendar collection tasks are written to unless they choose another one.
+ * - createdAt: Timestamp of when the account was connected.
+ * - updatedAt: Timestamp of when the account last changed.
+ */
+export const caldavAccounts = pgTable(
+  'caldav_accounts',
+  {
+    id: uuid('id')
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    userId: uuid('user_id')
+      .references(() => users.id, { onDelete: 'cascade' })
+      .notNull(),
+    serverUrl: varchar('server_url', { length: 500 }).notNull(),
+    username: varchar('username', { length: 255 }).notNull(),
+    password: text('password').notNull(),
+    calendarUrl: varchar('calendar_url', { length: 500 }).notNull(),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+    updatedAt: timestamp('updated_at').defaultNow().notNull(),
+  },
+  table => [uniqueIndex('caldav_accounts_user_id_idx').on(table.userId)],
+);
+
+/**
+ * Relations for CalDAV Accounts Table
+ */
+export const caldavAccountRelations = relations(caldavAccounts, ({ one }) => ({
+  user: one(users, {
+    fields: [caldavAccounts.userId],
+    references: [users.id],
+  }),
+}));
+
+// Type exports
+export type CaldavAccount = typeof caldavAccounts.$inferSelect;
+export type NewCaldavAccount = typeof caldavAccounts.$inferInsert;
@@ -0,0 +1,94 @@
+/**
+ * Calendar Job Schema Definition using Drizzle ORM for PostgreSQL.
+ * This schema tracks bulk calendar work running in the background.
+ *
+ * A backfill pushes a user's tasks that were never synced to their calendar;
+ * an import turns the events of a calendar range into tasks. Jobs run in
+ * chunks, so the counters report progress while they run.
+ *
+ * Design Pattern Used:
+ *  - Job Tracking Pattern: Status and progress of long-running work per user.
+ */
+
+import { pgTable, varchar, text, timestamp, uuid, integer, index, uniqueIndex } from 'drizzle-orm/pg-core';
+import { relations, sql } from 'drizzle-orm';
+import { users } from './user.schema';
+
+/**
+ * Calendar Jobs Table Definition
+ *
+ * Columns:
+ * - id: Primary key, UUID string.
+ * - userId: Foreign key referencing users table.
+ * - type: backfill or import.
+ * - status: pending, running, completed or failed.
+ * - provider: Calendar provider the job works with; set when a backfill starts.
+ * - calendarId: Import only: calendar the events are read from; null for the default one.
+ * - rangeStart: Import only: events ending after this time are imported.
+ * - rangeEnd: Import only: events starting before this time are imported.
+ * - total: Items the job works through; null until counted.
+ * - processed: Items handled so far.
+ * - created: Tasks pushed (backfill) or created (import).
+ * - skipped: Items left alone, e.g. events already linked to a task.
+ * - failed: Items that could not be handled.
+ * - cursor: Where the next chunk starts: id of the last task handled (backfill) or the provider's token of the next page of events (import).
+ * - attempts: Chunks that failed in a row; the job fails after too many.
+ * - error: Error of the last failed chunk.
+ * - lockedUntil: The job is not picked up before then, while a runner works on it or a failed chunk waits for its retry.
+ * - startedAt: Timestamp of when the first chunk ran.
+ * - finishedAt: Timestamp of when the job completed or failed.
+ * - createdAt: Timestamp of when the job was created.
+ * - updatedAt: Timestamp of when the job last changed.
+ */
+export const calendarJobs = pgTable(
+  'calendar_jobs',
+  {
+    id: uuid('id')
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    userId: uuid('user_id')
+      .references(() => users.id, { onDelete: 'cascade' })
+      .notNull(),
+    type: varchar('type', { length: 20 }).notNull(),
+    status: varchar('status', { length: 20 }).notNull().default('pending'),
+    provider: varchar('provider', { length: 50 }),
+    calendarId: varchar('calendar_id', { length: 500 }),
+    rangeStart: timestamp('range_start'),
+    rangeEnd: timestamp('range_end'),
+    total: integer('total'),
+    processed: integer('processed').notNull().default(0),
+    created: integer('created').notNull().default(0),
+    skipped: integer('skipped').notNull().default(0),
+    failed: integer('failed').notNull().default(0),
+    cursor: text('cursor'),
+    attempts: integer('attempts').notNull().default(0),
+    error: text('error'),
+    lockedUntil: timestamp('locked_until'),
+    startedAt: timestamp('started_at'),
+    finishedAt: timestamp('finished_at'),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+    updatedAt: timestamp('updated_at').defaultNow().notNull(),
+  },
+  table => [
+    // One unfinished job of each type per user
+    uniqueIndex('calendar_jobs_unfinished_idx')
+      .on(table.userId, table.type)
+      .where(sql`${table.status} in ('pending', 'running')`),
+    index('calendar_jobs_user_id_idx').on(table.userId, table.createdAt),
+    index('calendar_jobs_status_idx').on(table.status, table.lockedUntil),
+  ],
+);
+
+/**
+ * Relations for Calendar Jobs Table
+ */
+export const calendarJobRelations = relations(calendarJobs, ({ one }) => ({
+  user: one(users, {
+    fields: [calendarJobs.userId],
+    references: [users.id],
+  }),
+}));
+
+// Type exports
+export type CalendarJob = typeof calendarJobs.$inferSelect;
+export type NewCalendarJob = typeof calendarJobs.$inferInsert;
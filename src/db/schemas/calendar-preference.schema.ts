@@ -0,0 +1,75 @@
+/**
+ * Calendar Preference Schema Definition using Drizzle ORM for PostgreSQL.
+ * This schema stores how a user's tasks are written to their calendar.
+ *
+ * One row per user and provider; users without a row get the defaults
+ * (primary calendar, calendar's own color and reminders, a link to the task).
+ * Preferences outlive a disconnect, so reconnecting keeps them.
+ *
+ * Design Pattern Used:
+ *  - User Preference Pattern: Per-user settings applied to every synced event.
+ */
+
+import { pgTable, varchar, timestamp, uuid, jsonb, boolean, uniqueIndex } from 'drizzle-orm/pg-core';
+import { relations, sql } from 'drizzle-orm';
+import { users } from './user.schema';
+
+/**
+ * Reminders of synced events
+ * - useDefault: the calendar's default reminders
+ * - overrides: custom reminders, used when useDefault is false
+ */
+export interface CalendarReminders {
+  useDefault: boolean;
+  overrides?: Array<{ method: 'email' | 'popup'; minutes: number }>;
+}
+
+/**
+ * Calendar Preferences Table Definition
+ *
+ * Columns:
+ * - id: Primary key, UUID string.
+ * - userId: Foreign key referencing users table.
+ * - provider: Calendar provider (google, caldav). One row per user and provider.
+ * - calendarId: Default calendar tasks are written to; tasks can override it.
+ * - colorId: Event color id of the provider; null for the calendar's color.
+ * - reminders: Reminders of synced events; null for the calendar's defaults.
+ * - visibility: Event visibility (default, public, private, confidential).
+ * - includeTaskLink: Whether events link back to their task.
+ * - createdAt: Timestamp of when the preferences were first saved.
+ * - updatedAt: Timestamp of when the preferences last changed.
+ */
+export const calendarPreferences = pgTable(
+  'calendar_preferences',
+  {
+    id: uuid('id')
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    userId: uuid('user_id')
+      .references(() => users.id, { onDelete: 'cascade' })
+      .notNull(),
+    provider: varchar('provider', { length: 50 }).notNull(),
+    calendarId: varchar('calendar_id', { length: 500 }).notNull().default('primary'),
+    colorId: varchar('color_id', { length: 10 }),
+    reminders: jsonb('reminders').$type<CalendarReminders>(),
+    visibility: varchar('visibility', { length: 20 }).notNull().default('default'),
+    includeTaskLink: boolean('include_task_link').notNull().default(true),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+    updatedAt: timestamp('updated_at').defaultNow().notNull(),
+  },
+  table => [uniqueIndex('calendar_preferences_user_id_provider_idx').on(table.userId, table.provider)],
+);
+
+/**
+ * Relations for Calendar Preferences Table
+ */
+export const calendarPreferenceRelations = relations(calendarPreferences, ({ one }) => ({
+  user: one(users, {
+    fields: [calendarPreferences.userId],
+    references: [users.id],
+  }),
+}));
+
+// Type exports
+export type CalendarPreference = typeof calendarPreferences.$inferSelect;
+export type NewCalendarPreference = typeof calendarPreferences.$inferInsert;
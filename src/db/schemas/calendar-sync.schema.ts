@@ -0,0 +1,72 @@
+/**
+ * Calendar Sync Schema Definition using Drizzle ORM for PostgreSQL.
+ * This schema stores the state of pulling calendar changes back into tasks.
+ *
+ * One row per user and provider holds the incremental sync token of the
+ * user's calendar and the push notification channel watching it.
+ *
+ * Design Pattern Used:
+ *  - Checkpoint Pattern: Sync tokens resume where the last pull stopped.
+ */
+
+import { pgTable, varchar, text, timestamp, uuid, uniqueIndex, index } from 'drizzle-orm/pg-core';
+import { relations, sql } from 'drizzle-orm';
+import { users } from './user.schema';
+
+/**
+ * Calendar Syncs Table Definition
+ *
+ * Columns:
+ * - id: Primary key, UUID string.
+ * - userId: Foreign key referencing users table.
+ * - provider: Calendar provider (google). One row per user and provider.
+ * - calendarId: Calendar that is synced (primary).
+ * - syncToken: Token of the last incremental pull; null until the first full sync.
+ * - channelId: Id of the push notification channel; null without an active channel.
+ * - channelResourceId: Provider's id of the watched resource, needed to stop the channel.
+ * - channelToken: Secret the provider echoes with each notification.
+ * - channelExpiresAt: The channel stops delivering after this time unless renewed.
+ * - lastSyncedAt: Timestamp of the last completed pull.
+ * - createdAt: Timestamp of when the sync was set up.
+ * - updatedAt: Timestamp of when the row last changed.
+ */
+export const calendarSyncs = pgTable(
+  'calendar_syncs',
+  {
+    id: uuid('id')
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    userId: uuid('user_id')
+      .references(() => users.id, { onDelete: 'cascade' })
+      .notNull(),
+    provider: varchar('provider', { length: 50 }).notNull(),
+    calendarId: varchar('calendar_id', { length: 255 }).notNull().default('primary'),
+    syncToken: text('sync_token'),
+    channelId: uuid('channel_id'),
+    channelResourceId: varchar('channel_resource_id', { length: 255 }),
+    channelToken: varchar('channel_token', { length: 64 }),
+    channelExpiresAt: timestamp('channel_expires_at'),
+    lastSyncedAt: timestamp('last_synced_at'),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+    updatedAt: timestamp('updated_at').defaultNow().notNull(),
+  },
+  table => [
+    uniqueIndex('calendar_syncs_user_id_provider_idx').on(table.userId, table.provider),
+    uniqueIndex('calendar_syncs_channel_id_idx').on(table.channelId),
+    index('calendar_syncs_channel_expires_at_idx').on(table.channelExpiresAt),
+  ],
+);
+
+/**
+ * Relations for Calendar Syncs Table
+ */
+export const calendarSyncRelations = relations(calendarSyncs, ({ one }) => ({
+  user: one(users, {
+    fields: [calendarSyncs.userId],
+    references: [users.id],
+  }),
+}));
+
+// Type exports
+export type CalendarSync = typeof calendarSyncs.$inferSelect;
+export type NewCalendarSync = typeof calendarSyncs.$inferInsert;
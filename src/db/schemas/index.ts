@@ -4,6 +4,19 @@ export * from './task.schema';
 export * from './auth-token.schema';
 export * from './otp-code.schema';
 export * from './report.schema';
+export * from './session.schema';
+export * from './mfa-recovery-code.schema';
+export * from './auth-attempt.schema';
+export * from './rate-limit.schema';
+export * from './audit-log.schema';
+export * from './queue-job.schema';
+export * from './outbox-event.schema';
+export * from './oauth-state.schema';
+export * from './user-identity.schema';
+export * from './calendar-sync.schema';
+export * from './calendar-preference.schema';
+export * from './caldav-account.schema';
+export * from './calendar-job.schema';
 
 /**
  * -----------------------
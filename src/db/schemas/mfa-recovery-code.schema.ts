@@ -0,0 +1,52 @@
+/**
+ * MFA Recovery Code Schema Definition using Drizzle ORM for PostgreSQL.
+ * This schema stores one-time recovery codes for TOTP two-factor authentication.
+ *
+ * Design Pattern Used:
+ *  - Security Pattern: Only hashes of recovery codes are stored.
+ *  - Single-Use Pattern: Codes are consumed by setting used_at.
+ */
+
+import { pgTable, varchar, timestamp, uuid, index } from 'drizzle-orm/pg-core';
+import { relations, sql } from 'drizzle-orm';
+import { users } from './user.schema';
+
+/**
+ * MFA Recovery Codes Table Definition
+ *
+ * Columns:
+ * - id: Primary key, UUID string.
+ * - userId: Foreign key referencing users table.
+ * - code_hash: SHA-256 hash of the normalised recovery code.
+ * - used_at: Timestamp of when the code was consumed, null while unused.
+ * - createdAt: Timestamp of when the code was generated.
+ */
+export const mfaRecoveryCodes = pgTable(
+  'mfa_recovery_codes',
+  {
+    id: uuid('id')
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    userId: uuid('user_id')
+      .references(() => users.id, { onDelete: 'cascade' })
+      .notNull(),
+    codeHash: varchar('code_hash', { length: 64 }).notNull(),
+    usedAt: timestamp('used_at'),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+  },
+  table => [index('mfa_recovery_codes_user_id_idx').on(table.userId)],
+);
+
+/**
+ * Relations for MFA Recovery Codes Table
+ */
+export const mfaRecoveryCodeRelations = relations(mfaRecoveryCodes, ({ one }) => ({
+  user: one(users, {
+    fields: [mfaRecoveryCodes.userId],
+    references: [users.id],
+  }),
+}));
+
+// Type exports
+export type MfaRecoveryCode = typeof mfaRecoveryCodes.$inferSelect;
+export type NewMfaRecoveryCode = typeof mfaRecoveryCodes.$inferInsert;
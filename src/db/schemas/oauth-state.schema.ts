@@ -0,0 +1,58 @@
+/**
+ * OAuth State Schema Definition using Drizzle ORM for PostgreSQL.
+ * This schema stores the server side of OAuth authorization requests.
+ *
+ * The signed `state` parameter sent to the provider carries the id of one of
+ * these rows as its nonce; sign-in flows also send it as the OpenID Connect
+ * nonce. The callback consumes the row, so every state can be used once, and
+ * reads the PKCE code verifier from it.
+ *
+ * Design Pattern Used:
+ *  - Nonce Pattern: Single-use, expiring authorization requests.
+ */
+
+import { pgTable, varchar, timestamp, uuid, index } from 'drizzle-orm/pg-core';
+import { relations, sql } from 'drizzle-orm';
+import { users } from './user.schema';
+
+/**
+ * OAuth States Table Definition
+ *
+ * Columns:
+ * - id: Primary key, UUID string (the nonce embedded in the signed state).
+ * - userId: Foreign key referencing the user who started the flow; null for sign-in flows.
+ * - provider: OAuth provider (google, etc.).
+ * - purpose: connect (link provider access to a signed-in user) or login (sign in with the provider).
+ * - code_verifier: PKCE code verifier sent with the code exchange.
+ * - expires_at: The state is rejected after this time.
+ * - createdAt: Timestamp of when the flow was started.
+ */
+export const oauthStates = pgTable(
+  'oauth_states',
+  {
+    id: uuid('id')
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    userId: uuid('user_id').references(() => users.id, { onDelete: 'cascade' }),
+    provider: varchar('provider', { length: 50 }).notNull(),
+    purpose: varchar('purpose', { length: 20 }).notNull().default('connect'),
+    codeVerifier: varchar('code_verifier', { length: 128 }).notNull(),
+    expiresAt: timestamp('expires_at').notNull(),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+  },
+  table => [index('oauth_states_expires_at_idx').on(table.expiresAt)],
+);
+
+/**
+ * Relations for OAuth States Table
+ */
+export const oauthStateRelations = relations(oauthStates, ({ one }) => ({
+  user: one(users, {
+    fields: [oauthStates.userId],
+    references: [users.id],
+  }),
+}));
+
+// Type exports
+export type OAuthState = typeof oauthStates.$inferSelect;
+export type NewOAuthState = typeof oauthStates.$inferInsert;
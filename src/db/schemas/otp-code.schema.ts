@@ -7,7 +7,7 @@
  *  - Time-based Expiration Pattern: Automatic OTP expiration.
  */
 
-import { pgTable, varchar, timestamp, uuid } from 'drizzle-orm/pg-core';
+import { pgTable, varchar, timestamp, uuid, integer, uniqueIndex } from 'drizzle-orm/pg-core';
 import { relations, sql } from 'drizzle-orm';
 import { users } from './user.schema';
 
@@ -17,23 +17,31 @@ import { users } from './user.schema';
  * Columns:
  * - id: Primary key, UUID string.
  * - userId: Foreign key referencing users table.
- * - code: The OTP code (6-digit numeric).
- * - type: OTP type (email_verification, password_reset, 2fa, etc.).
+ * - code_hash: HMAC-SHA256 of the salted 6-digit code; the code itself is only ever emailed.
+ * - salt: Random per-code salt; NULL for codes hashed before salts were introduced.
+ * - type: OTP purpose (email_verification, reset_password, account_unlock). One active code per user and type.
  * - expiresAt: OTP expiration timestamp.
+ * - failed_attempts: Wrong guesses made against this OTP; it is invalidated after too many.
  * - createdAt: Timestamp of when the OTP was created.
  */
-export const otpCodes = pgTable('otp_codes', {
-  id: uuid('id')
-    .primaryKey()
-    .default(sql`gen_random_uuid()`),
-  userId: uuid('user_id')
-    .references(() => users.id, { onDelete: 'cascade' })
-    .notNull(),
-  code: varchar('code', { length: 6 }).notNull(),
-  type: varchar('type', { length: 50 }).notNull(),
-  expiresAt: timestamp('expires_at').notNull(),
-  createdAt: timestamp('created_at').defaultNow().notNull(),
-});
+export const otpCodes = pgTable(
+  'otp_codes',
+  {
+    id: uuid('id')
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    userId: uuid('user_id')
+      .references(() => users.id, { onDelete: 'cascade' })
+      .notNull(),
+    codeHash: varchar('code_hash', { length: 64 }).notNull(),
+    salt: varchar('salt', { length: 32 }),
+    type: varchar('type', { length: 50 }).notNull(),
+    expiresAt: timestamp('expires_at').notNull(),
+    failedAttempts: integer('failed_attempts').default(0).notNull(),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+  },
+  table => [uniqueIndex('otp_codes_user_id_type_idx').on(table.userId, table.type)],
+);
 
 /**
  * Relations for OTP Codes Table
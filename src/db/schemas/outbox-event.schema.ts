@@ -0,0 +1,50 @@
+/**
+ * Outbox Event Schema Definition using Drizzle ORM for PostgreSQL.
+ * This schema records side effects (queue jobs, Google Calendar changes) in
+ * the same transaction as the change that causes them; the outbox dispatcher
+ * relays them afterwards.
+ *
+ * Design Pattern Used:
+ *  - Transactional Outbox Pattern: Side effects commit or roll back with the domain write.
+ */
+
+import { pgTable, varchar, text, timestamp, uuid, jsonb, integer, index } from 'drizzle-orm/pg-core';
+import { sql } from 'drizzle-orm';
+
+/**
+ * Outbox Events Table Definition
+ *
+ * Columns:
+ * - id: Primary key, UUID string.
+ * - type: Side effect to perform (queue.enqueue, calendar.sync_task, calendar.delete_event).
+ * - payload: Event payload, validated against the schema for its type.
+ * - status: pending, processing or failed (dispatched events are deleted).
+ * - attempts: Dispatch attempts so far.
+ * - available_at: Earliest time the event may be dispatched (pushed back on retry).
+ * - locked_until: When a processing event's claim expires and it is dispatched again.
+ * - last_error: Error from the most recent failed attempt.
+ * - createdAt: Timestamp of when the event was recorded.
+ * - updatedAt: Timestamp of the last status change.
+ */
+export const outboxEvents = pgTable(
+  'outbox_events',
+  {
+    id: uuid('id')
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    type: varchar('type', { length: 100 }).notNull(),
+    payload: jsonb('payload').notNull(),
+    status: varchar('status', { length: 20 }).notNull().default('pending'),
+    attempts: integer('attempts').default(0).notNull(),
+    availableAt: timestamp('available_at').defaultNow().notNull(),
+    lockedUntil: timestamp('locked_until'),
+    lastError: text('last_error'),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+    updatedAt: timestamp('updated_at').defaultNow().notNull(),
+  },
+  table => [index('outbox_events_status_available_at_idx').on(table.status, table.availableAt)],
+);
+
+// Type exports
+export type OutboxEventRow = typeof outboxEvents.$inferSelect;
+export type NewOutboxEventRow = typeof outboxEvents.$inferInsert;
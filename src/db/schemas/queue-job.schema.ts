@@ -0,0 +1,49 @@
+/**
+ * Queue Job Schema Definition using Drizzle ORM for PostgreSQL.
+ * This schema backs the Postgres queue driver so jobs survive restarts and
+ * can be shared between API instances.
+ *
+ * Design Pattern Used:
+ *  - Job Queue Pattern: Workers claim due rows with FOR UPDATE SKIP LOCKED.
+ */
+
+import { pgTable, varchar, text, timestamp, uuid, jsonb, integer, index } from 'drizzle-orm/pg-core';
+import { sql } from 'drizzle-orm';
+
+/**
+ * Queue Jobs Table Definition
+ *
+ * Columns:
+ * - id: Primary key, UUID string.
+ * - queue: Logical queue name (OTP_QUEUE, AI_REPORT_QUEUE, etc.).
+ * - payload: Job payload, validated against the queue schema.
+ * - status: pending, processing or failed (completed jobs are deleted).
+ * - attempts: Deliveries so far.
+ * - run_at: Earliest time the job may be delivered.
+ * - locked_until: When a processing job's claim expires and it is delivered again.
+ * - last_error: Error from the most recent failed delivery.
+ * - createdAt: Timestamp of when the job was enqueued.
+ * - updatedAt: Timestamp of the last status change.
+ */
+export const queueJobs = pgTable(
+  'queue_jobs',
+  {
+    id: uuid('id')
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    queue: varchar('queue', { length: 100 }).notNull(),
+    payload: jsonb('payload').notNull(),
+    status: varchar('status', { length: 20 }).notNull().default('pending'),
+    attempts: integer('attempts').default(0).notNull(),
+    runAt: timestamp('run_at').defaultNow().notNull(),
+    lockedUntil: timestamp('locked_until'),
+    lastError: text('last_error'),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+    updatedAt: timestamp('updated_at').defaultNow().notNull(),
+  },
+  table => [index('queue_jobs_queue_status_run_at_idx').on(table.queue, table.status, table.runAt)],
+);
+
+// Type exports
+export type QueueJob = typeof queueJobs.$inferSelect;
+export type NewQueueJob = typeof queueJobs.$inferInsert;
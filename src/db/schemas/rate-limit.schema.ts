@@ -0,0 +1,32 @@
+/**
+ * Rate Limit Schema Definition using Drizzle ORM for PostgreSQL.
+ * This schema backs the Postgres rate-limit store so limits are shared
+ * between API instances.
+ *
+ * Design Pattern Used:
+ *  - Fixed Window Counter Pattern: One counter per key and window.
+ */
+
+import { pgTable, varchar, timestamp, integer, index } from 'drizzle-orm/pg-core';
+
+/**
+ * Rate Limit Buckets Table Definition
+ *
+ * Columns:
+ * - key: Primary key, limiter name plus client key (user id or IP).
+ * - count: Requests counted in the current window.
+ * - reset_at: When the current window ends.
+ */
+export const rateLimitBuckets = pgTable(
+  'rate_limit_buckets',
+  {
+    key: varchar('key', { length: 255 }).primaryKey(),
+    count: integer('count').default(0).notNull(),
+    resetAt: timestamp('reset_at').notNull(),
+  },
+  table => [index('rate_limit_buckets_reset_at_idx').on(table.resetAt)],
+);
+
+// Type exports
+export type RateLimitBucket = typeof rateLimitBuckets.$inferSelect;
+export type NewRateLimitBucket = typeof rateLimitBuckets.$inferInsert;
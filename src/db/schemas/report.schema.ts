@@ -18,7 +18,7 @@ import { users } from './user.schema';
  * - id: Primary key, UUID string.
  * - userId: Foreign key referencing users table.
  * - title: Report title.
- * - s3_url: S3 URL where the report file is stored.
+ * - storage_key: Key of the report file in the uploads storage bucket (downloaded via a presigned URL).
  * - ai_summary: AI-generated summary of the report.
  * - status: Report status (generating, completed, failed, etc.).
  * - createdAt: Timestamp of when the report was created.
@@ -31,7 +31,7 @@ export const reports = pgTable('reports', {
     .references(() => users.id, { onDelete: 'cascade' })
     .notNull(),
   title: varchar('title', { length: 255 }).notNull(),
-  s3Url: varchar('s3_url', { length: 500 }).notNull(),
+  storageKey: varchar('storage_key', { length: 500 }).notNull(),
   aiSummary: text('ai_summary'),
   status: varchar('status', { length: 50 }).notNull().default('generating'),
   createdAt: timestamp('created_at').defaultNow().notNull(),
@@ -0,0 +1,66 @@
+/**
+ * Session Schema Definition using Drizzle ORM for PostgreSQL.
+ * This schema backs server-side sessions for JWT authentication.
+ *
+ * Each row is one login session (a refresh-token family). The refresh token
+ * is rotated on every use and only the hash of the current one is stored, so
+ * presenting any older token of the family is detected as reuse.
+ *
+ * Design Pattern Used:
+ *  - Token Rotation Pattern: Single-use refresh tokens.
+ *  - Revocation Pattern: Sessions can be revoked server-side.
+ */
+
+import { pgTable, varchar, timestamp, uuid, index } from 'drizzle-orm/pg-core';
+import { relations, sql } from 'drizzle-orm';
+import { users } from './user.schema';
+
+/**
+ * Sessions Table Definition
+ *
+ * Columns:
+ * - id: Primary key, UUID string (also the refresh-token family id).
+ * - userId: Foreign key referencing users table.
+ * - refresh_token_hash: SHA-256 hash of the currently valid refresh token.
+ * - user_agent: User agent of the client that created the session.
+ * - ip_address: IP address of the client that created the session.
+ * - expires_at: Absolute expiry of the session.
+ * - last_used_at: Timestamp of the last refresh.
+ * - revoked_at: Timestamp of revocation, null while the session is active.
+ * - revoked_reason: Why the session was revoked (logout, reuse_detected, etc.).
+ * - createdAt: Timestamp of when the session was created.
+ */
+export const sessions = pgTable(
+  'sessions',
+  {
+    id: uuid('id')
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    userId: uuid('user_id')
+      .references(() => users.id, { onDelete: 'cascade' })
+      .notNull(),
+    refreshTokenHash: varchar('refresh_token_hash', { length: 64 }).notNull(),
+    userAgent: varchar('user_agent', { length: 500 }),
+    ipAddress: varchar('ip_address', { length: 64 }),
+    expiresAt: timestamp('expires_at').notNull(),
+    lastUsedAt: timestamp('last_used_at').defaultNow().notNull(),
+    revokedAt: timestamp('revoked_at'),
+    revokedReason: varchar('revoked_reason', { length: 50 }),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+  },
+  table => [index('sessions_user_id_idx').on(table.userId)],
+);
+
+/**
+ * Relations for Sessions Table
+ */
+export const sessionRelations = relations(sessions, ({ one }) => ({
+  user: one(users, {
+    fields: [sessions.userId],
+    references: [users.id],
+  }),
+}));
+
+// Type exports
+export type Session = typeof sessions.$inferSelect;
+export type NewSession = typeof sessions.$inferInsert;
@@ -7,7 +7,7 @@
  *  - Calendar Integration Pattern: Support for calendar events.
  */
 
-import { pgTable, varchar, text, timestamp, uuid } from 'drizzle-orm/pg-core';
+import { pgTable, varchar, text, timestamp, uuid, integer, index } from 'drizzle-orm/pg-core';
 import { relations, sql } from 'drizzle-orm';
 import { users } from './user.schema';
 
@@ -23,25 +23,48 @@ import { users } from './user.schema';
  * - startTime: Task start time.
  * - endTime: Task end time.
  * - calendar_event_id: Associated calendar event ID.
+ * - calendar_event_updated_at: Provider's last-modified time of the event version last pushed or pulled;
+ *   pulled changes at or before it are already reflected in the task.
+ * - calendar_id: Calendar the task is written to, overriding the user's default; null for the default.
+ * - calendar_event_calendar_id: Calendar the task's event currently lives in.
+ * - calendar_event_provider: Calendar provider holding the task's event (google, caldav).
+ * - calendar_sync_state: pending, synced or failed; null when the task is not synced to a calendar.
+ * - calendar_sync_attempts: Failed sync attempts since the last success or manual resync.
+ * - calendar_sync_attempted_at: Timestamp of the last sync attempt.
+ * - calendar_sync_error: Error of the last failed sync attempt.
+ * - calendar_sync_retry_at: When a failed sync is retried; null once retries are exhausted.
  * - createdAt: Timestamp of when the task was created.
  * - updatedAt: Timestamp of when the task was last updated.
  */
-export const tasks = pgTable('tasks', {
-  id: uuid('id')
-    .primaryKey()
-    .default(sql`gen_random_uuid()`),
-  userId: uuid('user_id')
-    .references(() => users.id, { onDelete: 'cascade' })
-    .notNull(),
-  title: varchar('title', { length: 255 }).notNull(),
-  description: text('description'),
-  status: varchar('status', { length: 50 }).notNull().default('pending'),
-  startTime: timestamp('start_time'),
-  endTime: timestamp('end_time'),
-  calendarEventId: varchar('calendar_event_id', { length: 255 }),
-  createdAt: timestamp('created_at').defaultNow().notNull(),
-  updatedAt: timestamp('updated_at').defaultNow().notNull(),
-});
+export const tasks = pgTable(
+  'tasks',
+  {
+    id: uuid('id')
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    userId: uuid('user_id')
+      .references(() => users.id, { onDelete: 'cascade' })
+      .notNull(),
+    title: varchar('title', { length: 255 }).notNull(),
+    description: text('description'),
+    status: varchar('status', { length: 50 }).notNull().default('pending'),
+    startTime: timestamp('start_time'),
+    endTime: timestamp('end_time'),
+    calendarEventId: varchar('calendar_event_id', { length: 255 }),
+    calendarEventUpdatedAt: timestamp('calendar_event_updated_at'),
+    calendarId: varchar('calendar_id', { length: 500 }),
+    calendarEventCalendarId: varchar('calendar_event_calendar_id', { length: 500 }),
+    calendarEventProvider: varchar('calendar_event_provider', { length: 50 }),
+    calendarSyncState: varchar('calendar_sync_state', { length: 20 }),
+    calendarSyncAttempts: integer('calendar_sync_attempts').notNull().default(0),
+    calendarSyncAttemptedAt: timestamp('calendar_sync_attempted_at'),
+    calendarSyncError: text('calendar_sync_error'),
+    calendarSyncRetryAt: timestamp('calendar_sync_retry_at'),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+    updatedAt: timestamp('updated_at').defaultNow().notNull(),
+  },
+  table => [index('tasks_calendar_sync_retry_idx').on(table.calendarSyncState, table.calendarSyncRetryAt)],
+);
 
 /**
  * Relations for Tasks Table
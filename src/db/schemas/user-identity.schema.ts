@@ -0,0 +1,61 @@
+/**
+ * User Identity Schema Definition using Drizzle ORM for PostgreSQL.
+ * This schema links users to external identity providers for sign-in.
+ *
+ * An identity is keyed by the provider's stable subject id, never by email,
+ * so a later change of address at the provider keeps the link intact.
+ *
+ * Design Pattern Used:
+ *  - Federated Identity Pattern: Several sign-in methods per user.
+ */
+
+import { pgTable, varchar, timestamp, uuid, index, uniqueIndex } from 'drizzle-orm/pg-core';
+import { relations, sql } from 'drizzle-orm';
+import { users } from './user.schema';
+
+/**
+ * User Identities Table Definition
+ *
+ * Columns:
+ * - id: Primary key, UUID string.
+ * - userId: Foreign key referencing users table.
+ * - provider: Identity provider (google, etc.).
+ * - subject: The provider's user id (`sub` claim); unique per provider.
+ * - email: Email the provider reported at the last sign-in.
+ * - last_login_at: Timestamp of the last sign-in through this identity.
+ * - createdAt: Timestamp of when the identity was linked.
+ */
+export const userIdentities = pgTable(
+  'user_identities',
+  {
+    id: uuid('id')
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    userId: uuid('user_id')
+      .references(() => users.id, { onDelete: 'cascade' })
+      .notNull(),
+    provider: varchar('provider', { length: 50 }).notNull(),
+    subject: varchar('subject', { length: 255 }).notNull(),
+    email: varchar('email', { length: 255 }).notNull(),
+    lastLoginAt: timestamp('last_login_at').defaultNow().notNull(),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+  },
+  table => [
+    uniqueIndex('user_identities_provider_subject_idx').on(table.provider, table.subject),
+    index('user_identities_user_id_idx').on(table.userId),
+  ],
+);
+
+/**
+ * Relations for User Identities Table
+ */
+export const userIdentityRelations = relations(userIdentities, ({ one }) => ({
+  user: one(users, {
+    fields: [userIdentities.userId],
+    references: [users.id],
+  }),
+}));
+
+// Type exports
+export type UserIdentity = typeof userIdentities.$inferSelect;
+export type NewUserIdentity = typeof userIdentities.$inferInsert;
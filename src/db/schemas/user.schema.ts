@@ -8,12 +8,21 @@
  *  - Relational Mapping: Establishes relations with other tables.
  */
 
-import { pgTable, varchar, timestamp, boolean, uuid } from 'drizzle-orm/pg-core';
+import { pgTable, varchar, text, timestamp, boolean, uuid, integer, uniqueIndex } from 'drizzle-orm/pg-core';
 import { relations, sql } from 'drizzle-orm';
 import { authTokens } from './auth-token.schema';
 import { tasks } from './task.schema';
 import { otpCodes } from './otp-code.schema';
 import { reports } from './report.schema';
+import { sessions } from './session.schema';
+import { mfaRecoveryCodes } from './mfa-recovery-code.schema';
+import { auditLogs } from './audit-log.schema';
+import { oauthStates } from './oauth-state.schema';
+import { userIdentities } from './user-identity.schema';
+import { calendarSyncs } from './calendar-sync.schema';
+import { calendarPreferences } from './calendar-preference.schema';
+import { caldavAccounts } from './caldav-account.schema';
+import { calendarJobs } from './calendar-job.schema';
 
 /**
  * Users Table Definition
@@ -22,28 +31,47 @@ import { reports } from './report.schema';
  * - id: Primary key, PostgreSQL UUID with gen_random_uuid().
  * - username: Username of the user.
  * - email: Unique email address for the user.
- * - password: Hashed password for authentication.
+ * - password: Hashed password for authentication, null for accounts created through Google sign-in.
  * - role: User role (admin, user, etc.).
  * - profile_picture_url: URL to user's profile picture.
+ * - profile_picture_thumbnail_url: URL to the small version of the uploaded profile picture.
+ * - profile_picture_key: Storage key of the uploaded profile picture, null for external URLs.
  * - is_verified: Boolean flag for email verification.
  * - google_connected: Boolean flag for Google OAuth connection.
+ * - mfa_enabled: Boolean flag for confirmed TOTP two-factor authentication.
+ * - mfa_secret: Base32 TOTP secret encrypted with CREDENTIALS_ENCRYPTION_KEY (set on enrollment, active once mfa_enabled).
+ * - mfa_last_used_step: Last accepted TOTP time step, prevents code replay.
+ * - suspended_at: Timestamp of suspension by an admin, null while the account is active.
+ * - suspended_reason: Reason given by the admin for the suspension.
  * - created_at: Timestamp of when the user was created.
  * - updated_at: Timestamp of when the user was last updated.
  */
-export const users = pgTable('users', {
-  id: uuid('id')
-    .primaryKey()
-    .default(sql`gen_random_uuid()`),
-  username: varchar('username', { length: 255 }).notNull(),
-  email: varchar('email', { length: 255 }).notNull().unique(),
-  password: varchar('password', { length: 255 }).notNull(),
-  role: varchar('role', { length: 50 }).notNull().default('user'),
-  profilePictureUrl: varchar('profile_picture_url', { length: 500 }),
-  isVerified: boolean('is_verified').default(false).notNull(),
-  googleConnected: boolean('google_connected').default(false).notNull(),
-  createdAt: timestamp('created_at').defaultNow().notNull(),
-  updatedAt: timestamp('updated_at').defaultNow().notNull(),
-});
+export const users = pgTable(
+  'users',
+  {
+    id: uuid('id')
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    username: varchar('username', { length: 255 }).notNull(),
+    email: varchar('email', { length: 255 }).notNull().unique(),
+    password: varchar('password', { length: 255 }),
+    role: varchar('role', { length: 50 }).notNull().default('user'),
+    profilePictureUrl: varchar('profile_picture_url', { length: 500 }),
+    profilePictureThumbnailUrl: varchar('profile_picture_thumbnail_url', { length: 500 }),
+    profilePictureKey: varchar('profile_picture_key', { length: 500 }),
+    isVerified: boolean('is_verified').default(false).notNull(),
+    googleConnected: boolean('google_connected').default(false).notNull(),
+    mfaEnabled: boolean('mfa_enabled').default(false).notNull(),
+    mfaSecret: text('mfa_secret'),
+    mfaLastUsedStep: integer('mfa_last_used_step'),
+    suspendedAt: timestamp('suspended_at'),
+    suspendedReason: varchar('suspended_reason', { length: 255 }),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+    updatedAt: timestamp('updated_at').defaultNow().notNull(),
+  },
+  // Usernames are unique regardless of case
+  table => [uniqueIndex('users_username_lower_idx').on(sql`lower(${table.username})`)],
+);
 
 /**
  * Relations for Users Table
@@ -53,6 +81,15 @@ export const userRelations = relations(users, ({ many }) => ({
   tasks: many(tasks),
   otpCodes: many(otpCodes),
   reports: many(reports),
+  sessions: many(sessions),
+  mfaRecoveryCodes: many(mfaRecoveryCodes),
+  auditLogs: many(auditLogs),
+  oauthStates: many(oauthStates),
+  identities: many(userIdentities),
+  calendarSyncs: many(calendarSyncs),
+  calendarPreferences: many(calendarPreferences),
+  caldavAccounts: many(caldavAccounts),
+  calendarJobs: many(calendarJobs),
 }));
 
 // Type exports
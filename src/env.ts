@@ -35,14 +35,48 @@ dotenv.config();
  * @property {string} DATABASE_URL - Database connection URL
  * @property {string} LOG_DIR - Directory for log files
  * @property {string} JWT_SECRET_KEY - Secret key for JWT
+ * @property {string} ACCESS_TOKEN_TTL - Lifetime of access tokens (jsonwebtoken format, e.g. 15m)
+ * @property {number} REFRESH_TOKEN_TTL_DAYS - Lifetime of refresh tokens / sessions in days
  * @property {string} DB_HOST - Database host
  * @property {number} DB_PORT - Database port
  * @property {string} DB_USER - Database user
  * @property {string} DB_PASSWORD - Database password
  * @property {string} DB_NAME - Database name
- * @property {string} AWS_SQS_OTP_QUEUE_URL - AWS SQS OTP queue URL
+ * @property {string} DB_SSL - Connect to the database over SSL (on for AWS RDS; off for a local or in-process database)
+ * @property {string} AWS_SQS_OTP_QUEUE_URL - AWS SQS OTP queue URL (required with the sqs queue driver)
+ * @property {string} AWS_SQS_AI_REPORT_QUEUE_URL - AWS SQS AI report queue URL, optional
  * @property {string} AWS_REGION - AWS region
- * @property {string} AWS_S3_LOG_BUCKET_NAME - AWS S3 log bucket name
+ * @property {string} AWS_S3_LOG_BUCKET_NAME - S3 bucket for archived logs (required with the s3 storage driver)
+ * @property {string} MFA_ISSUER - Issuer name shown in authenticator apps
+ * @property {string} RATE_LIMIT_STORE - Rate limit store (memory for dev/tests, postgres for multi-instance)
+ * @property {string} TRUST_PROXY - Proxies trusted for the client address in X-Forwarded-For: true, false, a hop count or comma-separated addresses/subnets
+ * @property {string} API_URL - Public base URL of this API
+ * @property {string} STORAGE_DRIVER - Object storage driver (local for development, s3 for production); defaults to s3 when STORAGE_S3_BUCKET or AWS_S3_LOG_BUCKET_NAME is set, else local
+ * @property {string} STORAGE_LOCAL_DIR - Directory used by the local storage driver (one subdirectory per bucket)
+ * @property {string} STORAGE_S3_BUCKET - S3 bucket for user uploads (required with the s3 storage driver)
+ * @property {string} STORAGE_PUBLIC_URL - Base URL stored objects are served from (e.g. a CDN), optional
+ * @property {string} QUEUE_DRIVER - Job queue driver (memory for dev/tests, postgres or sqs for production); defaults to sqs when AWS_SQS_OTP_QUEUE_URL is set, else memory
+ * @property {string} QUEUE_WORKER_ENABLED - Consume jobs in this process (defaults to on; false leaves postgres or sqs jobs to other instances)
+ * @property {string} MAIL_TRANSPORT - Mail transport (console or file for development, smtp or ses for production)
+ * @property {string} MAIL_FROM - Sender address of outgoing mail
+ * @property {string} MAIL_FILE_DIR - Directory the file mail transport writes .eml files to
+ * @property {string} SMTP_HOST - SMTP server host (required with the smtp mail transport)
+ * @property {number} SMTP_PORT - SMTP server port
+ * @property {string} SMTP_SECURE - Use TLS from the start (true for port 465)
+ * @property {string} SMTP_USER - SMTP username, optional
+ * @property {string} SMTP_PASSWORD - SMTP password, optional
+ * @property {string} OAUTH_REDIRECT_URL - Frontend page OAuth callbacks redirect to with the outcome
+ * @property {string} GOOGLE_JWKS_PATH - Local JSON Web Key Set used instead of Google's signing keys (offline development), optional
+ * @property {string} GITHUB_CLIENT_ID - GitHub OAuth app client id; GitHub sign-in is enabled with it and the secret, optional
+ * @property {string} GITHUB_CLIENT_SECRET - GitHub OAuth app client secret, optional
+ * @property {string} MICROSOFT_CLIENT_ID - Microsoft Entra application id; Microsoft sign-in is enabled with it and the secret, optional
+ * @property {string} MICROSOFT_CLIENT_SECRET - Microsoft Entra client secret, optional
+ * @property {string} MICROSOFT_TENANT - Microsoft tenant accounts may sign in from (common, organizations, consumers or a tenant id)
+ * @property {string} GOOGLE_CALENDAR_API_URL - Base URL of the Google Calendar API; point it at the fake server for offline testing
+ * @property {string} CALENDAR_WEBHOOK_URL - Public HTTPS URL of the calendar push notification endpoint, optional (defaults to API_URL)
+ * @property {string} TASK_LINK_URL - Frontend URL of a task linked from its calendar event; `{id}` is replaced by the task id
+ * @property {string} CREDENTIALS_ENCRYPTION_KEY - 32 random bytes, base64, encrypting stored credentials such as CalDAV passwords and TOTP secrets (required to connect CalDAV or enroll MFA)
+ * @property {string} DEV_SERVERS_ENABLED - Serve the mock OAuth and fake calendar servers under /api/dev (never allowed in production)
  * @throws Will exit the process if validation fails
  * @returns {object} Validated environment variables
  */
@@ -52,19 +86,55 @@ const envSchema: z.ZodObject = z.object({
   CORS_URL: z.url('CORS_URL must be a valid URL').default('http://localhost:3000'),
   DATABASE_URL: z.url('DATABASE_URL must be a valid URL'),
   JWT_SECRET_KEY: z.string().min(10, 'JWT_SECRET_KEY must be set and at least 10 characters long'),
+  ACCESS_TOKEN_TTL: z.string().default('15m'),
+  REFRESH_TOKEN_TTL_DAYS: z.number().int().positive().default(30),
   LOG_DIR: z.string().default('logs'),
   DB_HOST: z.string().min(1, 'DB_HOST must be set'),
   DB_PORT: z.number().int().positive().default(5432),
   DB_USER: z.string().min(1, 'DB_USER must be set'),
   DB_PASSWORD: z.string().min(1, 'DB_PASSWORD must be set'),
   DB_NAME: z.string().min(1, 'DB_NAME must be set'),
-  AWS_SQS_OTP_QUEUE_URL: z.url('AWS_SQS_OTP_QUEUE_URL must be a valid URL'),
+  DB_SSL: z.enum(['true', 'false']).default('true'),
+  AWS_SQS_OTP_QUEUE_URL: z.url('AWS_SQS_OTP_QUEUE_URL must be a valid URL').optional(),
+  AWS_SQS_AI_REPORT_QUEUE_URL: z.url('AWS_SQS_AI_REPORT_QUEUE_URL must be a valid URL').optional(),
   AWS_REGION: z.string().default('ap-south-1'),
-  AWS_S3_LOG_BUCKET_NAME: z.string().min(1, 'AWS_S3_LOG_BUCKET_NAME must be set'),
+  AWS_S3_LOG_BUCKET_NAME: z.string().min(1).optional(),
   GOOGLE_CLIENT_ID: z.string().min(1, 'GOOGLE_CLIENT_ID must be set'),
   GOOGLE_CLIENT_SECRET: z.string().min(1, 'GOOGLE_CLIENT_SECRET must be set'),
   GOOGLE_REDIRECT_URI: z.string().min(1, 'GOOGLE_REDIRECT_URI must be set').optional(),
   GOOGLE_OAUTH_SCOPE: z.string().default('openid email profile'),
+  OAUTH_REDIRECT_URL: z.url('OAUTH_REDIRECT_URL must be a valid URL').default('http://localhost:3000/settings'),
+  GOOGLE_JWKS_PATH: z.string().min(1).optional(),
+  GITHUB_CLIENT_ID: z.string().min(1).optional(),
+  GITHUB_CLIENT_SECRET: z.string().min(1).optional(),
+  MICROSOFT_CLIENT_ID: z.string().min(1).optional(),
+  MICROSOFT_CLIENT_SECRET: z.string().min(1).optional(),
+  MICROSOFT_TENANT: z.string().min(1).default('common'),
+  GOOGLE_CALENDAR_API_URL: z
+    .url('GOOGLE_CALENDAR_API_URL must be a valid URL')
+    .default('https://www.googleapis.com/calendar/v3'),
+  CALENDAR_WEBHOOK_URL: z.url('CALENDAR_WEBHOOK_URL must be a valid URL').optional(),
+  TASK_LINK_URL: z.url('TASK_LINK_URL must be a valid URL').default('http://localhost:3000/tasks/{id}'),
+  CREDENTIALS_ENCRYPTION_KEY: z.string().min(1).optional(),
+  DEV_SERVERS_ENABLED: z.enum(['true', 'false']).default('false'),
+  MFA_ISSUER: z.string().default('Tasks API'),
+  RATE_LIMIT_STORE: z.enum(['memory', 'postgres']).default('memory'),
+  TRUST_PROXY: z.string().min(1).default('false'),
+  API_URL: z.url('API_URL must be a valid URL').default('http://localhost:8080'),
+  STORAGE_DRIVER: z.enum(['local', 's3']).default('local'),
+  STORAGE_LOCAL_DIR: z.string().default('storage'),
+  STORAGE_S3_BUCKET: z.string().min(1).optional(),
+  STORAGE_PUBLIC_URL: z.url('STORAGE_PUBLIC_URL must be a valid URL').optional(),
+  QUEUE_DRIVER: z.enum(['memory', 'postgres', 'sqs']).default('memory'),
+  QUEUE_WORKER_ENABLED: z.enum(['true', 'false']).optional(),
+  MAIL_TRANSPORT: z.enum(['console', 'file', 'smtp', 'ses']).default('console'),
+  MAIL_FROM: z.string().min(1).default('Tasks API <no-reply@localhost>'),
+  MAIL_FILE_DIR: z.string().default('mail'),
+  SMTP_HOST: z.string().min(1).optional(),
+  SMTP_PORT: z.number().int().positive().default(587),
+  SMTP_SECURE: z.enum(['true', 'false']).default('false'),
+  SMTP_USER: z.string().min(1).optional(),
+  SMTP_PASSWORD: z.string().min(1).optional(),
 });
 
 /**
@@ -74,26 +144,71 @@ const envSchema: z.ZodObject = z.object({
  */
 const validateEnv = () => {
   try {
-    return envSchema.parse({
+    const parsed = envSchema.parse({
       PORT: process.env.PORT,
       NODE_ENV: process.env.NODE_ENV,
       CORS_URL: process.env.CORS_URL,
       DATABASE_URL: process.env.DATABASE_URL,
       JWT_SECRET_KEY: process.env.JWT_SECRET_KEY,
+      ACCESS_TOKEN_TTL: process.env.ACCESS_TOKEN_TTL,
+      REFRESH_TOKEN_TTL_DAYS: Number(process.env.REFRESH_TOKEN_TTL_DAYS) || undefined,
       LOG_DIR: process.env.LOG_DIR,
       DB_HOST: process.env.DB_HOST!,
       DB_PORT: Number(process.env.DB_PORT!) || 5432,
       DB_USER: process.env.DB_USER!,
       DB_PASSWORD: process.env.DB_PASSWORD!,
       DB_NAME: process.env.DB_NAME!,
-      AWS_SQS_OTP_QUEUE_URL: process.env.AWS_SQS_OTP_QUEUE_URL!,
+      DB_SSL: process.env.DB_SSL,
+      AWS_SQS_OTP_QUEUE_URL: process.env.AWS_SQS_OTP_QUEUE_URL,
+      AWS_SQS_AI_REPORT_QUEUE_URL: process.env.AWS_SQS_AI_REPORT_QUEUE_URL,
       AWS_REGION: process.env.AWS_REGION!,
       AWS_S3_LOG_BUCKET_NAME: process.env.AWS_S3_LOG_BUCKET_NAME!,
       GOOGLE_CLIENT_ID: process.env.GOOGLE_CLIENT_ID!,
       GOOGLE_CLIENT_SECRET: process.env.GOOGLE_CLIENT_SECRET!,
       GOOGLE_REDIRECT_URI: process.env.GOOGLE_REDIRECT_URI!,
       GOOGLE_OAUTH_SCOPE: process.env.GOOGLE_OAUTH_SCOPE!,
+      OAUTH_REDIRECT_URL: process.env.OAUTH_REDIRECT_URL,
+      GOOGLE_JWKS_PATH: process.env.GOOGLE_JWKS_PATH,
+      GITHUB_CLIENT_ID: process.env.GITHUB_CLIENT_ID,
+      GITHUB_CLIENT_SECRET: process.env.GITHUB_CLIENT_SECRET,
+      MICROSOFT_CLIENT_ID: process.env.MICROSOFT_CLIENT_ID,
+      MICROSOFT_CLIENT_SECRET: process.env.MICROSOFT_CLIENT_SECRET,
+      MICROSOFT_TENANT: process.env.MICROSOFT_TENANT,
+      GOOGLE_CALENDAR_API_URL: process.env.GOOGLE_CALENDAR_API_URL,
+      CALENDAR_WEBHOOK_URL: process.env.CALENDAR_WEBHOOK_URL,
+      TASK_LINK_URL: process.env.TASK_LINK_URL,
+      CREDENTIALS_ENCRYPTION_KEY: process.env.CREDENTIALS_ENCRYPTION_KEY,
+      DEV_SERVERS_ENABLED: process.env.DEV_SERVERS_ENABLED,
+      MFA_ISSUER: process.env.MFA_ISSUER,
+      RATE_LIMIT_STORE: process.env.RATE_LIMIT_STORE,
+      TRUST_PROXY: process.env.TRUST_PROXY,
+      API_URL: process.env.API_URL,
+      // Deployments that predate STORAGE_DRIVER keep archiving logs and storing uploads in S3
+      STORAGE_DRIVER:
+        process.env.STORAGE_DRIVER ??
+        (process.env.STORAGE_S3_BUCKET || process.env.AWS_S3_LOG_BUCKET_NAME ? 's3' : undefined),
+      STORAGE_LOCAL_DIR: process.env.STORAGE_LOCAL_DIR,
+      STORAGE_S3_BUCKET: process.env.STORAGE_S3_BUCKET,
+      STORAGE_PUBLIC_URL: process.env.STORAGE_PUBLIC_URL,
+      // Deployments that predate QUEUE_DRIVER keep sending OTP jobs to SQS
+      QUEUE_DRIVER: process.env.QUEUE_DRIVER ?? (process.env.AWS_SQS_OTP_QUEUE_URL ? 'sqs' : undefined),
+      QUEUE_WORKER_ENABLED: process.env.QUEUE_WORKER_ENABLED,
+      MAIL_TRANSPORT: process.env.MAIL_TRANSPORT,
+      MAIL_FROM: process.env.MAIL_FROM,
+      MAIL_FILE_DIR: process.env.MAIL_FILE_DIR,
+      SMTP_HOST: process.env.SMTP_HOST,
+      SMTP_PORT: Number(process.env.SMTP_PORT) || undefined,
+      SMTP_SECURE: process.env.SMTP_SECURE,
+      SMTP_USER: process.env.SMTP_USER,
+      SMTP_PASSWORD: process.env.SMTP_PASSWORD,
     });
+
+    // The mock and fake servers trust whatever account the caller names, so they must never run in production
+    if (parsed.NODE_ENV === 'production' && parsed.DEV_SERVERS_ENABLED === 'true') {
+      throw new Error('DEV_SERVERS_ENABLED must not be true when NODE_ENV is production');
+    }
+
+    return parsed;
   } catch (error) {
     logger.error('Invalid environment variables:');
     if (error instanceof z.ZodError) {
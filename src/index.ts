@@ -12,6 +12,10 @@
 import { env } from '@/env';
 import app from '@/server/server';
 import { initDb } from '@/db';
+import { getQueueDriver, QueueWorker } from '@/core/queue';
+import { OutboxDispatcher, outboxHandlers } from '@/core/outbox';
+import { CalendarJobRunner, CalendarSyncRetrier, CalendarSyncScheduler } from '@/core/calendar';
+import { jobHandlers } from '@/jobs';
 import ErrorHandler from '@/utils/errorHandler';
 import logger from './core/logger';
 
@@ -34,15 +38,81 @@ process.on('unhandledRejection', (reason: unknown) => {
   process.exit(1);
 });
 
+/**
+ * Whether this process consumes queued jobs
+ * - On by default with every driver, SQS included: the API is the only consumer of its queues;
+ *   QUEUE_WORKER_ENABLED=false leaves the jobs to other instances
+ */
+const isQueueWorkerEnabled = () => env.QUEUE_WORKER_ENABLED !== 'false';
+
+/**
+ * Refuse to start when OTP emails would be dropped without an error
+ * - An in-process worker needs a mail transport that delivers in production
+ * - Without one, in-memory jobs are never read; SQS and Postgres jobs are left to other instances
+ * @throws Error if OTP emails have no delivery path
+ */
+function assertOtpDelivery() {
+  if (!isQueueWorkerEnabled()) {
+    if (env.QUEUE_DRIVER === 'memory') {
+      throw new Error('QUEUE_WORKER_ENABLED=false with QUEUE_DRIVER=memory leaves OTP emails unsent');
+    }
+    return;
+  }
+
+  if (env.NODE_ENV === 'production' && (env.MAIL_TRANSPORT === 'console' || env.MAIL_TRANSPORT === 'file')) {
+    throw new Error(`MAIL_TRANSPORT=${env.MAIL_TRANSPORT} does not deliver OTP emails in production; use smtp or ses`);
+  }
+}
+
+/**
+ * Background processing
+ * - The outbox dispatcher always runs; several instances can share the outbox
+ * - The calendar sync scheduler, retrier and job runner always run; pulls of the same
+ *   calendar wait for each other, and retries and job chunks are claimed with SKIP LOCKED
+ * - The queue worker runs unless QUEUE_WORKER_ENABLED=false (see `isQueueWorkerEnabled`)
+ */
+function startBackgroundProcessing() {
+  const dispatcher = new OutboxDispatcher({ handlers: outboxHandlers });
+  dispatcher.start();
+
+  const worker = isQueueWorkerEnabled() ? new QueueWorker({ driver: getQueueDriver(), handlers: jobHandlers }) : null;
+  worker?.start();
+
+  const calendarSync = new CalendarSyncScheduler();
+  calendarSync.start();
+
+  const calendarRetrier = new CalendarSyncRetrier();
+  calendarRetrier.start();
+
+  const calendarJobs = new CalendarJobRunner();
+  calendarJobs.start();
+
+  // Let in-flight events, jobs and calendar syncs finish before the process exits
+  const shutdown = () => {
+    Promise.all([
+      dispatcher.stop(),
+      worker?.stop(),
+      calendarSync.stop(),
+      calendarRetrier.stop(),
+      calendarJobs.stop(),
+    ]).finally(() => process.exit(0));
+  };
+  process.once('SIGTERM', shutdown);
+  process.once('SIGINT', shutdown);
+}
+
 /**
  * Main server startup function
  * - Validates env
+ * - Checks that OTP emails can be delivered
  * - Initializes DB connection
  * - Starts the Express server
+ * - Starts the outbox dispatcher, queue worker and calendar sync scheduler and retrier
  * - Applies global error handling
  */
 async function startServer() {
   try {
+    assertOtpDelivery();
     await initDb(); // Throws if DB connection fails
 
     const PORT = env.PORT;
@@ -50,6 +120,8 @@ async function startServer() {
       // console.log(`Server running at http://localhost:${PORT} [${env.NODE_ENV}]`);
       logger.info(`Server started on port ${PORT} in ${env.NODE_ENV} mode`);
     });
+
+    startBackgroundProcessing();
   } catch (error: unknown) {
     /**
      * Wrap any startup error in ErrorHandler.DatabaseError for consistency
@@ -0,0 +1,15 @@
+/**
+ * Job Handlers
+ * - Maps each queue to the handler the in-process worker runs for it
+ * - Queues without a handler here are left to external consumers
+ *
+ * @module jobs
+ * @exports jobHandlers
+ */
+
+import type { JobHandlers } from '@/core/queue';
+import { handleOtpEmailJob } from './otp.job';
+
+export const jobHandlers: JobHandlers = {
+  OTP_QUEUE: handleOtpEmailJob,
+};
@@ -0,0 +1,47 @@
+/**
+ * OTP Email Job
+ * - Consumes OTP_QUEUE
+ * - Issues a fresh code for the user and emails it through the mail transport
+ *
+ * Requests for unknown emails are dropped: the producers never reveal whether
+ * an account exists, so this is expected rather than an error.
+ *
+ * @module jobs/otp.job
+ * @exports handleOtpEmailJob
+ */
+
+import { eq } from 'drizzle-orm';
+import type { JobHandler } from '@/core/queue';
+import { getMailTransport, renderEmail, resolveEmailLocale, type EmailTemplateId } from '@/core/mail';
+import logger from '@/core/logger';
+import { db } from '@/db';
+import { users } from '@/db/schemas';
+import { issueOtp, OTP_TTL_MINUTES, type OtpType } from '@/utils/otp';
+
+const TEMPLATES: Record<OtpType, Extract<EmailTemplateId, 'verify_email' | 'reset_password' | 'unlock_account'>> = {
+  email_verification: 'verify_email',
+  reset_password: 'reset_password',
+  account_unlock: 'unlock_account',
+};
+
+export const handleOtpEmailJob: JobHandler<'OTP_QUEUE'> = async ({ email, type, locale }, job) => {
+  const [user] = await db
+    .select({ id: users.id, username: users.username })
+    .from(users)
+    .where(eq(users.email, email))
+    .limit(1);
+
+  if (!user) {
+    logger.info('[Queue] OTP email skipped; no user with this email', { id: job.id, type });
+    return;
+  }
+
+  const { code } = await issueOtp(user.id, type);
+  const rendered = renderEmail(
+    TEMPLATES[type],
+    { username: user.username, code, expiresInMinutes: OTP_TTL_MINUTES },
+    resolveEmailLocale(locale),
+  );
+
+  await getMailTransport().send({ to: email, ...rendered });
+};
@@ -1,10 +1,11 @@
 import type { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
-import { eq } from 'drizzle-orm';
+import { and, eq, gt, isNull } from 'drizzle-orm';
 import { env } from '@/env';
 import { db } from '@/db';
-import { users } from '@/db/schemas';
+import { sessions, users } from '@/db/schemas';
 import ErrorHandler from '@/utils/errorHandler';
+import { ACCESS_TOKEN_COOKIE, readCookie, type AccessTokenPayload } from '@/utils/jwt_session';
 
 /**
  * Parse token from Authorization header or cookie named 'token'
@@ -15,22 +16,15 @@ function extractToken(req: Request): string | null {
     return authHeader.split(' ')[1];
   }
 
-  const cookieHeader = req.headers.cookie;
-  if (cookieHeader && typeof cookieHeader === 'string') {
-    const cookies = cookieHeader.split(';').map(c => c.trim());
-    const tokenCookie = cookies.find(c => c.startsWith('token='));
-    if (tokenCookie) {
-      return decodeURIComponent(tokenCookie.split('=')[1]);
-    }
-  }
-
-  return null;
+  return readCookie(req, ACCESS_TOKEN_COOKIE);
 }
 
 /**
  * Authentication middleware
  * - take token from authorization header or cookie named 'token'
  * - verifies JWT and attaches user object to req.user
+ * - rejects tokens whose server-side session was revoked or has expired
+ * - rejects suspended users
  */
 // src/middlewares/auth.middleware.ts
 export async function authMiddleware(req: Request, _res: Response, next: NextFunction) {
@@ -41,9 +35,9 @@ export async function authMiddleware(req: Request, _res: Response, next: NextFun
   }
 
   try {
-    const payload = jwt.verify(token, env.JWT_SECRET_KEY as string) as { userId?: string };
+    const payload = jwt.verify(token, env.JWT_SECRET_KEY as string) as Partial<AccessTokenPayload>;
 
-    if (!payload?.userId) {
+    if (!payload?.userId || !payload.sessionId) {
       return next(ErrorHandler.AuthError('Invalid token payload'));
     }
 
@@ -57,28 +51,43 @@ export async function authMiddleware(req: Request, _res: Response, next: NextFun
         profilePictureUrl: users.profilePictureUrl,
         isVerified: users.isVerified,
         googleConnected: users.googleConnected,
+        suspendedAt: users.suspendedAt,
         createdAt: users.createdAt,
         updatedAt: users.updatedAt,
       })
       .from(users)
-      .where(eq(users.id, payload.userId))
+      .innerJoin(sessions, eq(sessions.userId, users.id))
+      .where(
+        and(
+          eq(users.id, payload.userId),
+          eq(sessions.id, payload.sessionId),
+          isNull(sessions.revokedAt),
+          gt(sessions.expiresAt, new Date()),
+        ),
+      )
       .limit(1);
 
     if (!user) {
-      return next(ErrorHandler.AuthError('Invalid token: user not found'));
+      return next(ErrorHandler.AuthError('Invalid token: session revoked or user not found'));
     }
 
-    // Attach user to request
+    if (user.suspendedAt) {
+      return next(ErrorHandler.Forbidden('Account suspended'));
+    }
+
+    // Attach user and session to request
     (req as Request & { user?: Record<string, unknown> }).user = user;
+    (req as Request & { sessionId?: string }).sessionId = payload.sessionId;
 
     return next();
   } catch (error) {
-    if (error instanceof jwt.JsonWebTokenError) {
-      return next(ErrorHandler.AuthError('Invalid token'));
-    }
+    // TokenExpiredError extends JsonWebTokenError, so it must be checked first
     if (error instanceof jwt.TokenExpiredError) {
       return next(ErrorHandler.AuthError('Token expired'));
     }
+    if (error instanceof jwt.JsonWebTokenError) {
+      return next(ErrorHandler.AuthError('Invalid token'));
+    }
     return next(ErrorHandler.AuthError('Authentication failed'));
   }
 }
@@ -56,5 +56,10 @@ export const errorMiddleware = (err: ErrorHandler, req: Request, res: Response,
     }),
   };
 
+  // Tell throttled clients when they may retry
+  if (err.errorType === ErrorType.RATE_LIMIT && typeof err.metadata?.retryAfter === 'number') {
+    res.setHeader('Retry-After', String(err.metadata.retryAfter));
+  }
+
   return res.status(statusCode).json(response);
 };
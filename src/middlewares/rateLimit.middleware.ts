@@ -0,0 +1,94 @@
+/**
+ * Rate Limiting Middleware
+ *
+ * Fixed-window rate limiter that can be attached per router. Clients are keyed
+ * by the user id of a valid access token when present, otherwise by IP, so
+ * authenticated users behind a shared IP do not exhaust each other's quota.
+ *
+ * Emits the IETF draft `RateLimit-Limit`, `RateLimit-Remaining`,
+ * `RateLimit-Reset` and `RateLimit-Policy` headers, plus `Retry-After` once
+ * the limit is exceeded.
+ *
+ * @module middlewares/rateLimit
+ * @exports rateLimit - Factory for rate limiting middleware
+ */
+
+import type { Request, Response, NextFunction } from 'express';
+import jwt from 'jsonwebtoken';
+import { env } from '@/env';
+import { getRateLimitStore, type RateLimitStore } from '@/core/rate-limit';
+import { ACCESS_TOKEN_COOKIE, readCookie } from '@/utils/jwt_session';
+import ErrorHandler from '@/utils/errorHandler';
+import logger from '@/core/logger';
+
+export interface RateLimitOptions {
+  /** Name used to namespace keys, so routers keep separate counters */
+  name: string;
+  /** Length of a window in milliseconds */
+  windowMs: number;
+  /** Requests allowed per key and window */
+  limit: number;
+  /** Custom key generator, defaults to user id or IP */
+  keyGenerator?: (req: Request) => string;
+  /** Store override, defaults to the store selected by RATE_LIMIT_STORE */
+  store?: RateLimitStore;
+}
+
+/**
+ * Resolve the client key: `user:<id>` for a valid access token, otherwise `ip:<address>`.
+ * Only the signature is checked here; authMiddleware still validates the session.
+ */
+const defaultKeyGenerator = (req: Request): string => {
+  const authHeader = req.headers.authorization;
+  const token = authHeader?.startsWith('Bearer ') ? authHeader.split(' ')[1] : readCookie(req, ACCESS_TOKEN_COOKIE);
+
+  if (token) {
+    try {
+      const payload = jwt.verify(token, env.JWT_SECRET_KEY as string) as { userId?: string };
+      if (payload.userId) {
+        return `user:${payload.userId}`;
+      }
+    } catch {
+      // fall back to the IP for invalid or expired tokens
+    }
+  }
+
+  return `ip:${req.ip ?? 'unknown'}`;
+};
+
+/**
+ * Create a rate limiting middleware
+ * @example
+ * app.use('/api/auth', rateLimit({ name: 'auth', windowMs: 15 * 60 * 1000, limit: 50 }), authRoutes);
+ */
+export const rateLimit = ({ name, windowMs, limit, keyGenerator = defaultKeyGenerator, store }: RateLimitOptions) => {
+  const windowSeconds = Math.ceil(windowMs / 1000);
+
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const key = `${name}:${keyGenerator(req)}`;
+
+    try {
+      const { count, resetAt } = await (store ?? getRateLimitStore()).increment(key, windowMs);
+      const resetSeconds = Math.max(0, Math.ceil((resetAt.getTime() - Date.now()) / 1000));
+
+      res.setHeader('RateLimit-Policy', `${limit};w=${windowSeconds}`);
+      res.setHeader('RateLimit-Limit', String(limit));
+      res.setHeader('RateLimit-Remaining', String(Math.max(0, limit - count)));
+      res.setHeader('RateLimit-Reset', String(resetSeconds));
+
+      if (count > limit) {
+        logger.warn('Rate limit exceeded', { limiter: name, key, path: req.originalUrl });
+        return next(ErrorHandler.RateLimit('Too many requests, please try again later', resetSeconds));
+      }
+
+      return next();
+    } catch (error) {
+      // Fail open: an unavailable store must not take the API down
+      logger.error('Rate limit store failure', {
+        limiter: name,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return next();
+    }
+  };
+};
@@ -0,0 +1,37 @@
+/**
+ * Middleware to enforce role-based permissions
+ * Must run after authMiddleware; can be combined with verifyUserAccess in handlers
+ *
+ * @example
+ * router.get('/tasks', authMiddleware, requirePermission('tasks:read:any'), handler);
+ */
+
+import type { Request, Response, NextFunction } from 'express';
+import type { AuthenticatedRequest } from '@/types/auth-request';
+import ErrorHandler from '@/utils/errorHandler';
+import { hasPermission, type Permission } from '@/utils/permissions';
+import logger from '@/core/logger';
+
+export function requirePermission(...permissions: Permission[]) {
+  return (req: Request, _res: Response, next: NextFunction) => {
+    const { user } = req as AuthenticatedRequest;
+
+    if (!user) {
+      return next(ErrorHandler.AuthError('Authentication required'));
+    }
+
+    const missing = permissions.filter(permission => !hasPermission(user.role, permission));
+
+    if (missing.length > 0) {
+      logger.warn('Permission denied', {
+        userId: user.id,
+        role: user.role,
+        missing,
+        path: req.originalUrl,
+      });
+      return next(ErrorHandler.Forbidden('You do not have permission to perform this action'));
+    }
+
+    return next();
+  };
+}
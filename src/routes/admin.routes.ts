@@ -0,0 +1,648 @@
+/**
+ * Admin Routes
+ *
+ * Endpoints that act on other users' resources: task moderation, user
+ * management, the audit log and the transactional outbox. Every route requires authentication plus
+ * the matching permission from `utils/permissions`.
+ *
+ * @module routes/admin.routes
+ * @requires express
+ * @requires @/controllers/admin.controller
+ */
+
+import express, { type Router } from 'express';
+import {
+  getAllTasksWithValidation,
+  getAnyTaskByIdWithValidation,
+  updateAnyTaskWithValidation,
+  deleteAnyTaskWithValidation,
+  listUsersWithValidation,
+  getUserDetailsWithValidation,
+  suspendUserWithValidation,
+  unsuspendUserWithValidation,
+  verifyUserWithValidation,
+  changeUserRoleWithValidation,
+  forceLogoutUserWithValidation,
+  listAuditLogsWithValidation,
+  listOutboxEventsWithValidation,
+  retryOutboxEventWithValidation,
+} from '@/controllers/admin.controller';
+
+const router: Router = express.Router();
+
+/**
+ * @openapi
+ * /api/admin/tasks:
+ *   get:
+ *     summary: List tasks of all users
+ *     description: Retrieves a paginated list of tasks across all users. Requires the `tasks:read:any` permission.
+ *     tags:
+ *       - Admin
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: userId
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Only return tasks owned by this user
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 10
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [pending, in_progress, completed, cancelled]
+ *       - in: query
+ *         name: search
+ *         schema:
+ *           type: string
+ *         description: Search tasks by title
+ *       - in: query
+ *         name: syncState
+ *         schema:
+ *           type: string
+ *           enum: [pending, synced, failed]
+ *         description: Filter tasks by calendar sync state
+ *     responses:
+ *       200:
+ *         description: Tasks retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Task'
+ *       401:
+ *         description: Unauthorized - Authentication required
+ *       403:
+ *         description: Forbidden - Missing permission
+ */
+router.get('/tasks', ...getAllTasksWithValidation);
+
+/**
+ * @openapi
+ * /api/admin/tasks/{id}:
+ *   get:
+ *     summary: Get any task by ID
+ *     description: Retrieves a task regardless of its owner. Requires the `tasks:read:any` permission.
+ *     tags:
+ *       - Admin
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Task retrieved successfully
+ *       401:
+ *         description: Unauthorized - Authentication required
+ *       403:
+ *         description: Forbidden - Missing permission
+ *       404:
+ *         description: Task not found
+ */
+router.get('/tasks/:id', ...getAnyTaskByIdWithValidation);
+
+/**
+ * @openapi
+ * /api/admin/tasks/{id}:
+ *   put:
+ *     summary: Update any task
+ *     description: Updates a task regardless of its owner and syncs the owner's calendar. Requires the `tasks:write:any` permission.
+ *     tags:
+ *       - Admin
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/UpdateTaskRequest'
+ *     responses:
+ *       200:
+ *         description: Task updated successfully
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Unauthorized - Authentication required
+ *       403:
+ *         description: Forbidden - Missing permission
+ *       404:
+ *         description: Task not found
+ */
+router.put('/tasks/:id', ...updateAnyTaskWithValidation);
+
+/**
+ * @openapi
+ * /api/admin/tasks/{id}:
+ *   delete:
+ *     summary: Delete any task
+ *     description: Deletes a task regardless of its owner, including its calendar event. Requires the `tasks:write:any` permission.
+ *     tags:
+ *       - Admin
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Task deleted successfully
+ *       401:
+ *         description: Unauthorized - Authentication required
+ *       403:
+ *         description: Forbidden - Missing permission
+ *       404:
+ *         description: Task not found
+ */
+router.delete('/tasks/:id', ...deleteAnyTaskWithValidation);
+
+/**
+ * @openapi
+ * components:
+ *   schemas:
+ *     AdminUser:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *         username:
+ *           type: string
+ *         email:
+ *           type: string
+ *           format: email
+ *         role:
+ *           type: string
+ *           enum: [user, admin]
+ *         isVerified:
+ *           type: boolean
+ *         googleConnected:
+ *           type: boolean
+ *         mfaEnabled:
+ *           type: boolean
+ *         suspendedAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         suspendedReason:
+ *           type: string
+ *           nullable: true
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *         updatedAt:
+ *           type: string
+ *           format: date-time
+ */
+
+/**
+ * @openapi
+ * /api/admin/users:
+ *   get:
+ *     summary: List users
+ *     description: Retrieves a paginated list of users, searchable on email and username. Requires the `users:read` permission.
+ *     tags:
+ *       - Admin
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: search
+ *         schema:
+ *           type: string
+ *         description: Case-insensitive match on email or username
+ *       - in: query
+ *         name: role
+ *         schema:
+ *           type: string
+ *           enum: [user, admin]
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [active, suspended, unverified]
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *       - in: query
+ *         name: sortBy
+ *         schema:
+ *           type: string
+ *           enum: [createdAt, email, username]
+ *       - in: query
+ *         name: sortOrder
+ *         schema:
+ *           type: string
+ *           enum: [asc, desc]
+ *     responses:
+ *       200:
+ *         description: Users retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/AdminUser'
+ *       401:
+ *         description: Unauthorized - Authentication required
+ *       403:
+ *         description: Forbidden - Missing permission
+ */
+router.get('/users', ...listUsersWithValidation);
+
+/**
+ * @openapi
+ * /api/admin/users/{id}:
+ *   get:
+ *     summary: Get user details
+ *     description: Retrieves a user with task, report and active session counts. Requires the `users:read` permission.
+ *     tags:
+ *       - Admin
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: User retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/AdminUser'
+ *                 - type: object
+ *                   properties:
+ *                     taskCount:
+ *                       type: integer
+ *                     reportCount:
+ *                       type: integer
+ *                     activeSessionCount:
+ *                       type: integer
+ *       401:
+ *         description: Unauthorized - Authentication required
+ *       403:
+ *         description: Forbidden - Missing permission
+ *       404:
+ *         description: User not found
+ */
+router.get('/users/:id', ...getUserDetailsWithValidation);
+
+/**
+ * @openapi
+ * /api/admin/users/{id}/suspend:
+ *   post:
+ *     summary: Suspend a user
+ *     description: Blocks login for the user and revokes all of their sessions. Requires the `users:manage` permission.
+ *     tags:
+ *       - Admin
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - reason
+ *             properties:
+ *               reason:
+ *                 type: string
+ *                 maxLength: 255
+ *                 example: "Spam reports"
+ *     responses:
+ *       200:
+ *         description: User suspended
+ *       400:
+ *         description: Validation error or attempt to suspend yourself
+ *       401:
+ *         description: Unauthorized - Authentication required
+ *       403:
+ *         description: Forbidden - Missing permission
+ *       404:
+ *         description: User not found
+ *       409:
+ *         description: User is already suspended
+ */
+router.post('/users/:id/suspend', ...suspendUserWithValidation);
+
+/**
+ * @openapi
+ * /api/admin/users/{id}/unsuspend:
+ *   post:
+ *     summary: Unsuspend a user
+ *     description: Lifts a suspension. Requires the `users:manage` permission.
+ *     tags:
+ *       - Admin
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: User unsuspended
+ *       401:
+ *         description: Unauthorized - Authentication required
+ *       403:
+ *         description: Forbidden - Missing permission
+ *       404:
+ *         description: User not found
+ *       409:
+ *         description: User is not suspended
+ */
+router.post('/users/:id/unsuspend', ...unsuspendUserWithValidation);
+
+/**
+ * @openapi
+ * /api/admin/users/{id}/verify:
+ *   post:
+ *     summary: Force-verify a user
+ *     description: Marks the user's email as verified without an OTP. Requires the `users:manage` permission.
+ *     tags:
+ *       - Admin
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: User verified
+ *       401:
+ *         description: Unauthorized - Authentication required
+ *       403:
+ *         description: Forbidden - Missing permission
+ *       404:
+ *         description: User not found
+ *       409:
+ *         description: User is already verified
+ */
+router.post('/users/:id/verify', ...verifyUserWithValidation);
+
+/**
+ * @openapi
+ * /api/admin/users/{id}/role:
+ *   patch:
+ *     summary: Change a user's role
+ *     description: Changes the role of another user. Requires the `users:manage` permission.
+ *     tags:
+ *       - Admin
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - role
+ *             properties:
+ *               role:
+ *                 type: string
+ *                 enum: [user, admin]
+ *     responses:
+ *       200:
+ *         description: User role updated
+ *       400:
+ *         description: Validation error or attempt to change your own role
+ *       401:
+ *         description: Unauthorized - Authentication required
+ *       403:
+ *         description: Forbidden - Missing permission
+ *       404:
+ *         description: User not found
+ *       409:
+ *         description: User already has the role
+ */
+router.patch('/users/:id/role', ...changeUserRoleWithValidation);
+
+/**
+ * @openapi
+ * /api/admin/users/{id}/logout:
+ *   post:
+ *     summary: Force logout a user
+ *     description: Revokes every active session of the user. Requires the `users:manage` permission.
+ *     tags:
+ *       - Admin
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: User logged out of all sessions
+ *       401:
+ *         description: Unauthorized - Authentication required
+ *       403:
+ *         description: Forbidden - Missing permission
+ *       404:
+ *         description: User not found
+ */
+router.post('/users/:id/logout', ...forceLogoutUserWithValidation);
+
+/**
+ * @openapi
+ * /api/admin/audit-logs:
+ *   get:
+ *     summary: List audit log entries
+ *     description: Retrieves admin actions, newest first. Requires the `audit_logs:read` permission.
+ *     tags:
+ *       - Admin
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: actorId
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: targetId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: action
+ *         schema:
+ *           type: string
+ *           example: "user.suspend"
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 50
+ *     responses:
+ *       200:
+ *         description: Audit logs retrieved successfully
+ *       401:
+ *         description: Unauthorized - Authentication required
+ *       403:
+ *         description: Forbidden - Missing permission
+ */
+router.get('/audit-logs', ...listAuditLogsWithValidation);
+
+/**
+ * @openapi
+ * /api/admin/outbox:
+ *   get:
+ *     summary: List undispatched outbox events
+ *     description: >
+ *       Retrieves side effects (queue jobs, calendar changes) that have not been
+ *       dispatched yet, oldest first, with a summary of the whole outbox. Stuck events are
+ *       failed ones, ones whose dispatcher claim expired, and pending ones overdue by more
+ *       than five minutes. Requires the `outbox:manage` permission.
+ *     tags:
+ *       - Admin
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [pending, processing, failed]
+ *       - in: query
+ *         name: type
+ *         schema:
+ *           type: string
+ *           enum: [queue.enqueue, calendar.sync_task, calendar.delete_event]
+ *       - in: query
+ *         name: stuck
+ *         schema:
+ *           type: boolean
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 50
+ *     responses:
+ *       200:
+ *         description: Outbox events retrieved successfully; `meta.summary` holds pending, processing, failed and stuck counts and the oldest pending event time
+ *       401:
+ *         description: Unauthorized - Authentication required
+ *       403:
+ *         description: Forbidden - Missing permission
+ */
+router.get('/outbox', ...listOutboxEventsWithValidation);
+
+/**
+ * @openapi
+ * /api/admin/outbox/{id}/retry:
+ *   post:
+ *     summary: Retry a failed outbox event
+ *     description: Makes a failed event available to the dispatcher again with a fresh attempt budget. Requires the `outbox:manage` permission.
+ *     tags:
+ *       - Admin
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Outbox event re-queued
+ *       404:
+ *         description: Outbox event not found
+ *       409:
+ *         description: The event has not failed
+ */
+router.post('/outbox/:id/retry', ...retryOutboxEventWithValidation);
+
+export default router;
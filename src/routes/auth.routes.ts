@@ -1,11 +1,33 @@
 import express, { type Router } from 'express';
-import { loginHandlerWithValidation, logoutHandler, signupHandlerWithValidation } from '@/controllers/auth.controller';
 import {
-  googleVerificationHandler,
-  googleOAuthCallbackHandler,
+  forgotPasswordHandlerWithValidation,
+  loginHandlerWithValidation,
+  logoutHandler,
+  refreshTokenHandlerWithValidation,
+  resetPasswordHandlerWithValidation,
+  signupHandlerWithValidation,
+  unlockAccountHandlerWithValidation,
+} from '@/controllers/auth.controller';
+import {
+  disconnectGoogleWithValidation,
   sendVerificationEmailWithValidation,
   verifyAccountWithValidation,
 } from '@/controllers/verify.controller';
+import {
+  confirmMfaWithValidation,
+  disableMfaWithValidation,
+  enrollMfaHandler,
+  loginMfaWithValidation,
+} from '@/controllers/mfa.controller';
+import {
+  googleLoginHandler,
+  googleOAuthCallbackHandler,
+  googleVerificationHandler,
+  listOAuthProvidersHandler,
+  oauthCallbackHandler,
+  oauthConnectHandler,
+  oauthLoginHandler,
+} from '@/controllers/oauth.controller';
 import { authMiddleware } from '@/middlewares/auth.middleware';
 
 const router: Router = express.Router();
@@ -122,6 +144,9 @@ router.route('/signup').post(signupHandlerWithValidation);
  *                 token:
  *                   type: string
  *                   example: eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...
+ *                 refreshToken:
+ *                   type: string
+ *                   example: 550e8400-e29b-41d4-a716-446655440000.q9Xk3...
  *                 user:
  *                   type: object
  *                   properties:
@@ -148,9 +173,228 @@ router.route('/signup').post(signupHandlerWithValidation);
  *                 message:
  *                   type: string
  *                   example: Invalid email or password
+ *       429:
+ *         description: Too many failed attempts, see the Retry-After header
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: false
+ *                 message:
+ *                   type: string
+ *                   example: Too many failed attempts. Please try again later
+ *                 type:
+ *                   type: string
+ *                   example: RATE_LIMIT
  */
 router.route('/login').post(loginHandlerWithValidation);
 
+/**
+ * @openapi
+ * /api/auth/login/mfa:
+ *   post:
+ *     summary: Complete a login that requires two-factor authentication
+ *     tags:
+ *       - Auth
+ *     description: |
+ *       When the account has 2FA enabled, `/api/auth/login` returns `mfaRequired: true` and a short-lived
+ *       `mfaToken` instead of a session. Exchange it here together with a TOTP or recovery code. After an
+ *       OAuth sign-in the challenge is in an httpOnly cookie; omit `mfaToken` and send the request with
+ *       credentials.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               mfaToken:
+ *                 type: string
+ *                 example: eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...
+ *               code:
+ *                 type: string
+ *                 example: "492039"
+ *     responses:
+ *       200:
+ *         description: Authentication successful
+ *       401:
+ *         description: Invalid or expired challenge, or invalid code
+ */
+router.route('/login/mfa').post(loginMfaWithValidation);
+
+/**
+ * @openapi
+ * /api/auth/mfa/enroll:
+ *   post:
+ *     summary: Start TOTP two-factor enrollment
+ *     tags:
+ *       - Auth
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Enrollment started
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     secret:
+ *                       type: string
+ *                       example: JBSWY3DPEHPK3PXP
+ *                     otpauthUri:
+ *                       type: string
+ *                       example: otpauth://totp/Tasks%20API%3Ajohn%40example.com?secret=JBSWY3DPEHPK3PXP&issuer=Tasks+API
+ *                     qrCodeDataUrl:
+ *                       type: string
+ *                       example: data:image/png;base64,iVBORw0KGgo...
+ *       401:
+ *         description: Unauthorized
+ *       409:
+ *         description: Two-factor authentication already enabled
+ */
+router.route('/mfa/enroll').post(authMiddleware, enrollMfaHandler);
+
+/**
+ * @openapi
+ * /api/auth/mfa/confirm:
+ *   post:
+ *     summary: Confirm TOTP enrollment and receive recovery codes
+ *     tags:
+ *       - Auth
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               code:
+ *                 type: string
+ *                 example: "492039"
+ *     responses:
+ *       200:
+ *         description: Two-factor authentication enabled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     recoveryCodes:
+ *                       type: array
+ *                       items:
+ *                         type: string
+ *                       example: ["a1b2c-3d4e5", "f6a7b-8c9d0"]
+ *       400:
+ *         description: Enrollment not started or invalid code
+ *       401:
+ *         description: Unauthorized
+ */
+router.route('/mfa/confirm').post(confirmMfaWithValidation);
+
+/**
+ * @openapi
+ * /api/auth/mfa/disable:
+ *   post:
+ *     summary: Disable two-factor authentication
+ *     tags:
+ *       - Auth
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               code:
+ *                 type: string
+ *                 description: TOTP code or unused recovery code
+ *                 example: "492039"
+ *     responses:
+ *       200:
+ *         description: Two-factor authentication disabled
+ *       400:
+ *         description: 2FA not enabled or invalid code
+ *       401:
+ *         description: Unauthorized
+ */
+router.route('/mfa/disable').post(disableMfaWithValidation);
+
+/**
+ * @openapi
+ * /api/auth/refresh:
+ *   post:
+ *     summary: Rotate the refresh token and issue a new access token
+ *     tags:
+ *       - Auth
+ *     description: |
+ *       The refresh token is read from the request body or from the `refreshToken` cookie.
+ *       Every refresh token can be used once; replaying an already-rotated token revokes the whole session.
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               refreshToken:
+ *                 type: string
+ *                 example: 550e8400-e29b-41d4-a716-446655440000.q9Xk3...
+ *     responses:
+ *       200:
+ *         description: Token refreshed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     token:
+ *                       type: string
+ *                       example: eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...
+ *                     refreshToken:
+ *                       type: string
+ *                       example: 550e8400-e29b-41d4-a716-446655440000.Zr81p...
+ *       401:
+ *         description: Refresh token missing, invalid, revoked, expired or reused
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: false
+ *                 message:
+ *                   type: string
+ *                   example: Refresh token reuse detected
+ */
+router.route('/refresh').post(refreshTokenHandlerWithValidation);
+
 /**
  * @openapi
  * /api/auth/verify-account/email-verification:
@@ -286,15 +530,388 @@ router.route('/verify-account').post(verifyAccountWithValidation);
  * @openapi
  * /api/auth/verify-account/google-verification:
  *   post:
- *     summary: Verify user account using Google OAuth (placeholder)
+ *     summary: Start connecting the Google account
+ *     tags:
+ *       - Auth
+ *     description: |
+ *       Returns the Google authorization URL for the signed-in user. The `state` parameter is signed, bound to
+ *       the user, single-use and valid for 10 minutes; the code exchange uses PKCE.
+ *       Also sets a short-lived httpOnly `oauthBinding` cookie; the callback only stores the tokens in the
+ *       browser that holds it, so the URL must be requested with credentials.
+ *     responses:
+ *       200:
+ *         description: Google OAuth URL generated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     url:
+ *                       type: string
+ *                       format: uri
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Email verification required
+ */
+router.route('/verify-account/google-verification').post(authMiddleware, googleVerificationHandler);
+
+/**
+ * @openapi
+ * /api/auth/google/login:
+ *   post:
+ *     summary: Start signing in with Google
+ *     tags:
+ *       - Auth
+ *     description: |
+ *       Returns the Google authorization URL for an OpenID Connect sign-in. On the callback the ID token is
+ *       verified; the user is found by their Google account, linked by verified email or created without a
+ *       password. The callback redirects to OAUTH_REDIRECT_URL with `status=signed_in` (session cookies set),
+ *       `status=mfa_required` (the challenge is set in an httpOnly cookie for POST /api/auth/login/mfa), or
+ *       `status=error`.
+ *       Also sets a short-lived httpOnly `oauthBinding` cookie; the callback only completes the sign-in in the
+ *       browser that holds it, so the URL must be requested with credentials.
+ *     responses:
+ *       200:
+ *         description: Google sign-in URL generated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     url:
+ *                       type: string
+ *                       format: uri
+ */
+router.route('/google/login').post(googleLoginHandler);
+
+/**
+ * @openapi
+ * /api/auth/verify-account/google_callback:
+ *   get:
+ *     summary: Google OAuth callback
+ *     tags:
+ *       - Auth
+ *     description: |
+ *       Google redirects the browser here for both connect and sign-in flows. The state is verified and
+ *       consumed and the code is exchanged. Connect flows store the tokens; sign-in flows verify the ID token and
+ *       start a session. The response is always a redirect to OAUTH_REDIRECT_URL with `provider=google` and
+ *       `status=connected`, `signed_in`, `mfa_required` (challenge cookie set), or `error` and a `reason`
+ *       (access_denied, invalid_request, invalid_state, token_exchange_failed, invalid_profile,
+ *       email_not_verified, account_suspended, oauth_error, server_error). Same as
+ *       GET /api/auth/oauth/google/callback.
+ *     parameters:
+ *       - in: query
+ *         name: code
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: state
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: error
+ *         schema:
+ *           type: string
+ *     responses:
+ *       303:
+ *         description: Redirect to the frontend with the outcome
+ */
+router.route('/verify-account/google_callback').get(googleOAuthCallbackHandler);
+
+/**
+ * @openapi
+ * /api/auth/oauth/providers:
+ *   get:
+ *     summary: List OAuth providers
+ *     tags:
+ *       - Auth
+ *     description: |
+ *       Providers users can sign in with. Those with `connect` can also be connected to an account for calendar
+ *       access. GitHub and Microsoft appear once configured; the mock provider appears when DEV_SERVERS_ENABLED is true.
+ *     responses:
+ *       200:
+ *         description: OAuth providers retrieved
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       id:
+ *                         type: string
+ *                         example: github
+ *                       name:
+ *                         type: string
+ *                         example: GitHub
+ *                       login:
+ *                         type: boolean
+ *                       connect:
+ *                         type: boolean
+ */
+router.route('/oauth/providers').get(listOAuthProvidersHandler);
+
+/**
+ * @openapi
+ * /api/auth/oauth/{provider}/login:
+ *   post:
+ *     summary: Start signing in with an OAuth provider
  *     tags:
  *       - Auth
  *     description: |
- *       This endpoint will be used to verify a user's account using Google OAuth.
- *       Implementation will be added later. For now it returns 501 Not Implemented.
+ *       Returns the provider's authorization URL. On the callback the user is found by their provider account,
+ *       linked by verified email or created without a password, and the browser is redirected to
+ *       OAUTH_REDIRECT_URL with `status=signed_in`, `status=mfa_required` (challenge cookie set) or `status=error`.
+ *       Like the Google sign-in, the flow is bound to the browser by an httpOnly `oauthBinding` cookie.
+ *     parameters:
+ *       - in: path
+ *         name: provider
+ *         required: true
+ *         schema:
+ *           type: string
+ *           example: github
  *     responses:
- *       501:
- *         description: Not Implemented - Google verification not yet available
+ *       200:
+ *         description: Sign-in URL generated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     url:
+ *                       type: string
+ *                       format: uri
+ *       404:
+ *         description: OAuth provider not found
+ */
+router.route('/oauth/:provider/login').post(oauthLoginHandler);
+
+/**
+ * @openapi
+ * /api/auth/oauth/{provider}/connect:
+ *   post:
+ *     summary: Start connecting an OAuth provider to the authenticated user
+ *     tags:
+ *       - Auth
+ *     security:
+ *       - BearerAuth: []
+ *     description: |
+ *       Returns the provider's authorization URL asking for calendar access. The callback stores the tokens and
+ *       redirects to OAUTH_REDIRECT_URL with `status=connected` or `status=error`. Requires a verified email.
+ *       Like the sign-in, the flow is bound to the browser by an httpOnly `oauthBinding` cookie.
+ *     parameters:
+ *       - in: path
+ *         name: provider
+ *         required: true
+ *         schema:
+ *           type: string
+ *           example: microsoft
+ *     responses:
+ *       200:
+ *         description: OAuth URL generated
+ *       400:
+ *         description: The provider only supports sign-in
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Email verification required
+ *       404:
+ *         description: OAuth provider not found
+ */
+router.route('/oauth/:provider/connect').post(authMiddleware, oauthConnectHandler);
+
+/**
+ * @openapi
+ * /api/auth/oauth/{provider}/callback:
+ *   get:
+ *     summary: OAuth callback
+ *     tags:
+ *       - Auth
+ *     description: |
+ *       The provider redirects the browser here. The state is verified and consumed and the code is exchanged
+ *       with the PKCE verifier. The response is a redirect to OAUTH_REDIRECT_URL with `provider` and `status`
+ *       (connected, signed_in, mfa_required or error with a `reason`), as for the Google callback.
+ *     parameters:
+ *       - in: path
+ *         name: provider
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: code
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: state
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: error
+ *         schema:
+ *           type: string
+ *     responses:
+ *       303:
+ *         description: Redirect to the frontend with the outcome
+ *       404:
+ *         description: OAuth provider not found
+ */
+router.route('/oauth/:provider/callback').get(oauthCallbackHandler);
+
+/**
+ * @openapi
+ * /api/auth/google/disconnect:
+ *   post:
+ *     summary: Disconnect the Google account
+ *     description: |
+ *       Revokes the Google grant, deletes the stored tokens, clears the calendar event ids on the user's tasks
+ *       and marks the account as not connected. With `removeCalendarEvents` the synced events are deleted from
+ *       Google Calendar first. Google failures are reported in the response; the account is disconnected either way.
+ *     tags:
+ *       - Auth
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               removeCalendarEvents:
+ *                 type: boolean
+ *                 default: false
+ *     responses:
+ *       200:
+ *         description: Google account disconnected
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: Google account disconnected
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     revoked:
+ *                       type: boolean
+ *                     calendarEventsRemoved:
+ *                       type: integer
+ *                     calendarEventsFailed:
+ *                       type: integer
+ *       401:
+ *         description: Unauthorized
+ */
+router.route('/google/disconnect').post(disconnectGoogleWithValidation);
+
+/**
+ * @openapi
+ * /api/auth/forgot-password:
+ *   post:
+ *     summary: Request a password reset OTP
+ *     tags:
+ *       - Auth
+ *     description: |
+ *       Sends a `reset_password` OTP to the email if it belongs to an account.
+ *       The response is identical whether or not the email exists.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               email:
+ *                 type: string
+ *                 format: email
+ *                 example: john@example.com
+ *     responses:
+ *       200:
+ *         description: Request accepted
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: If the email is registered, a password reset OTP has been sent
+ *       400:
+ *         description: Invalid request body
+ */
+router.route('/forgot-password').post(forgotPasswordHandlerWithValidation);
+
+/**
+ * @openapi
+ * /api/auth/reset-password:
+ *   post:
+ *     summary: Set a new password using a reset OTP
+ *     tags:
+ *       - Auth
+ *     description: Consumes the OTP, updates the password and revokes every existing session of the user.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               email:
+ *                 type: string
+ *                 format: email
+ *                 example: john@example.com
+ *               otp:
+ *                 type: string
+ *                 example: "123456"
+ *               newPassword:
+ *                 type: string
+ *                 example: N3wStr0ngP@ss
+ *     responses:
+ *       200:
+ *         description: Password reset successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: Password reset successfully
+ *       400:
+ *         description: Invalid or expired OTP
  *         content:
  *           application/json:
  *             schema:
@@ -305,21 +922,49 @@ router.route('/verify-account').post(verifyAccountWithValidation);
  *                   example: false
  *                 message:
  *                   type: string
- *                   example: Google verification not implemented yet
+ *                   example: Invalid or expired OTP
  */
-router.route('/verify-account/google-verification').post(authMiddleware, googleVerificationHandler);
+router.route('/reset-password').post(resetPasswordHandlerWithValidation);
 
 /**
- * Google OAuth callback route
- * Google will redirect users to this endpoint with `code` and `state` query params.
+ * @openapi
+ * /api/auth/unlock-account:
+ *   post:
+ *     summary: Lift a login lockout using the emailed unlock OTP
+ *     tags:
+ *       - Auth
+ *     description: |
+ *       After too many failed logins the account is temporarily locked and an `account_unlock` OTP is emailed.
+ *       Submitting it here clears the lockout immediately.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               email:
+ *                 type: string
+ *                 format: email
+ *                 example: john@example.com
+ *               otp:
+ *                 type: string
+ *                 example: "123456"
+ *     responses:
+ *       200:
+ *         description: Account unlocked successfully
+ *       400:
+ *         description: Invalid or expired OTP
+ *       429:
+ *         description: Too many failed attempts, see the Retry-After header
  */
-router.route('/verify-account/google_callback').get(googleOAuthCallbackHandler);
+router.route('/unlock-account').post(unlockAccountHandlerWithValidation);
 
 /**
  * @openapi
  * /api/auth/logout:
  *   post:
- *     summary: Logout the user by clearing the JWT cookie
+ *     summary: Logout the user by revoking the session and clearing the auth cookies
  *     tags:
  *       - Auth
  *     responses:
@@ -0,0 +1,767 @@
+/**
+ * Calendar Routes
+ *
+ * Google Calendar pull sync: the push notification webhook and on-demand sync.
+ * Calendar preferences: the calendars tasks can be synced to, and the target
+ * calendar and event options of synced tasks. CalDAV account: connect,
+ * calendars and disconnect. Calendar jobs: importing events as tasks and the
+ * progress of imports and backfills.
+ *
+ * @module routes/calendar.routes
+ * @requires express
+ * @requires @/controllers/calendar.controller
+ */
+
+import express, { type Router } from 'express';
+import {
+  connectCalDavAccountWithValidation,
+  disconnectCalDavAccountWithValidation,
+  getCalDavAccountHandler,
+  getCalendarJobWithValidation,
+  getCalendarPreferencesHandler,
+  googleCalendarNotificationHandler,
+  listCalDavCalendarsHandler,
+  listCalendarJobsHandler,
+  listGoogleCalendarsHandler,
+  startCalendarImportWithValidation,
+  syncCalendarHandler,
+  updateCalendarPreferencesWithValidation,
+} from '@/controllers/calendar.controller';
+import { authMiddleware } from '@/middlewares/auth.middleware';
+
+const router: Router = express.Router();
+
+/**
+ * @openapi
+ * /api/calendar/google/notifications:
+ *   post:
+ *     summary: Google Calendar push notification webhook
+ *     description: |
+ *       Called by Google when a watched calendar changes; the channel is identified by the X-Goog-Channel-ID,
+ *       X-Goog-Channel-Token and X-Goog-Resource-ID headers. An `exists` notification schedules a pull of the
+ *       user's changes. Notifications of unknown channels are ignored. Set CALENDAR_WEBHOOK_URL when the API
+ *       is reachable at another public HTTPS address.
+ *     tags:
+ *       - Calendar
+ *     parameters:
+ *       - in: header
+ *         name: X-Goog-Channel-ID
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: header
+ *         name: X-Goog-Channel-Token
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: header
+ *         name: X-Goog-Resource-ID
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: header
+ *         name: X-Goog-Resource-State
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [sync, exists, not_exists]
+ *     responses:
+ *       204:
+ *         description: Notification received
+ */
+router.post('/google/notifications', googleCalendarNotificationHandler);
+
+/**
+ * @openapi
+ * /api/calendar/sync:
+ *   post:
+ *     summary: Sync Google Calendar changes now
+ *     description: |
+ *       Applies the edits and deletions made in Google Calendar since the last sync to the linked tasks.
+ *       When both sides changed, the later change wins; tasks that changed later are pushed back to Google.
+ *       Changes are also pulled in the background, so this is only needed to see them right away.
+ *     tags:
+ *       - Calendar
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Google Calendar synced
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: Google Calendar synced
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     updated:
+ *                       type: integer
+ *                       example: 2
+ *                     deleted:
+ *                       type: integer
+ *                       example: 1
+ *                     pushed:
+ *                       type: integer
+ *                       example: 0
+ *                     skipped:
+ *                       type: integer
+ *                       example: 4
+ *                     fullSync:
+ *                       type: boolean
+ *                       example: false
+ *       400:
+ *         description: Google Calendar is not connected
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Email verification required
+ *       500:
+ *         description: Google Calendar could not be synced
+ */
+router.post('/sync', authMiddleware, syncCalendarHandler);
+
+/**
+ * @openapi
+ * components:
+ *   schemas:
+ *     CalendarPreferences:
+ *       type: object
+ *       properties:
+ *         calendarId:
+ *           type: string
+ *           description: Default calendar of synced tasks; tasks can override it with their own calendarId
+ *           example: "primary"
+ *         colorId:
+ *           type: string
+ *           nullable: true
+ *           enum: ['1', '2', '3', '4', '5', '6', '7', '8', '9', '10', '11']
+ *           description: Google Calendar event color; null uses the calendar's color
+ *           example: "5"
+ *         reminders:
+ *           type: object
+ *           nullable: true
+ *           description: Event reminders; null uses the calendar's default reminders
+ *           properties:
+ *             useDefault:
+ *               type: boolean
+ *               example: false
+ *             overrides:
+ *               type: array
+ *               maxItems: 5
+ *               items:
+ *                 type: object
+ *                 properties:
+ *                   method:
+ *                     type: string
+ *                     enum: [email, popup]
+ *                   minutes:
+ *                     type: integer
+ *                     minimum: 0
+ *                     maximum: 40320
+ *               example: [{ method: popup, minutes: 15 }]
+ *         visibility:
+ *           type: string
+ *           enum: [default, public, private, confidential]
+ *           example: "private"
+ *         includeTaskLink:
+ *           type: boolean
+ *           description: Add a link back to the task (TASK_LINK_URL) to every event
+ *           example: true
+ */
+
+/**
+ * @openapi
+ * /api/calendar/google/calendars:
+ *   get:
+ *     summary: List the Google calendars tasks can be synced to
+ *     description: Calendars the user can add events to. `selected` marks the default calendar of synced tasks.
+ *     tags:
+ *       - Calendar
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Google calendars retrieved
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: Google calendars retrieved
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       id:
+ *                         type: string
+ *                         example: "team@group.calendar.google.com"
+ *                       summary:
+ *                         type: string
+ *                         example: Team
+ *                       primary:
+ *                         type: boolean
+ *                         example: false
+ *                       accessRole:
+ *                         type: string
+ *                         enum: [owner, writer]
+ *                       backgroundColor:
+ *                         type: string
+ *                         nullable: true
+ *                         example: "#9fe1e7"
+ *                       timeZone:
+ *                         type: string
+ *                         nullable: true
+ *                         example: Europe/Berlin
+ *                       selected:
+ *                         type: boolean
+ *                         example: true
+ *       400:
+ *         description: Google Calendar is not connected
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Email verification required
+ *       500:
+ *         description: Google calendars could not be listed
+ */
+router.get('/google/calendars', authMiddleware, listGoogleCalendarsHandler);
+
+/**
+ * @openapi
+ * /api/calendar/google/preferences:
+ *   get:
+ *     summary: Get calendar preferences
+ *     description: Target calendar and event options of synced tasks. Users who saved none get the defaults.
+ *     tags:
+ *       - Calendar
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Calendar preferences retrieved
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: Calendar preferences retrieved
+ *                 data:
+ *                   $ref: '#/components/schemas/CalendarPreferences'
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Email verification required
+ *   put:
+ *     summary: Update calendar preferences
+ *     description: |
+ *       Omitted fields keep their value. A new default calendar must be writable; the pull sync moves over
+ *       to it, and synced tasks without their own calendar move there the next time they are pushed. Event
+ *       options apply to events the next time their task is pushed.
+ *     tags:
+ *       - Calendar
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/CalendarPreferences'
+ *     responses:
+ *       200:
+ *         description: Calendar preferences updated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: Calendar preferences updated
+ *                 data:
+ *                   $ref: '#/components/schemas/CalendarPreferences'
+ *       400:
+ *         description: Validation error, unknown calendar, or Google Calendar is not connected
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Email verification required
+ *       500:
+ *         description: Google calendars could not be listed
+ */
+router.get('/google/preferences', authMiddleware, getCalendarPreferencesHandler);
+router.put('/google/preferences', ...updateCalendarPreferencesWithValidation);
+
+/**
+ * @openapi
+ * components:
+ *   schemas:
+ *     CalDavAccount:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *         userId:
+ *           type: string
+ *           format: uuid
+ *         serverUrl:
+ *           type: string
+ *           example: "https://cloud.example.com/remote.php/dav"
+ *         username:
+ *           type: string
+ *           example: alice
+ *         calendarUrl:
+ *           type: string
+ *           description: Default calendar of synced tasks; tasks can override it with their own calendarId
+ *           example: "https://cloud.example.com/remote.php/dav/calendars/alice/personal/"
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *         updatedAt:
+ *           type: string
+ *           format: date-time
+ */
+
+/**
+ * @openapi
+ * /api/calendar/caldav:
+ *   get:
+ *     summary: Get the CalDAV account
+ *     description: The connected CalDAV account without its password, or null if none is connected.
+ *     tags:
+ *       - Calendar
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: CalDAV account retrieved
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: CalDAV account retrieved
+ *                 data:
+ *                   allOf:
+ *                     - $ref: '#/components/schemas/CalDavAccount'
+ *                   nullable: true
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Email verification required
+ *   put:
+ *     summary: Connect a CalDAV account
+ *     description: |
+ *       Connects a CalDAV server such as Nextcloud, Fastmail or Radicale with a user name and app password,
+ *       replacing a previously connected one. The credentials are checked by discovering the calendars reachable
+ *       from `serverUrl`; `calendarUrl` picks the default calendar of synced tasks, otherwise the first calendar
+ *       found is used. Once connected, tasks sync to CalDAV instead of Google Calendar, and tasks that already
+ *       have an event move over. The server must use HTTPS in production.
+ *     tags:
+ *       - Calendar
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [serverUrl, username, password]
+ *             properties:
+ *               serverUrl:
+ *                 type: string
+ *                 maxLength: 500
+ *                 description: Server root, principal or calendar home URL
+ *                 example: "https://cloud.example.com/remote.php/dav"
+ *               username:
+ *                 type: string
+ *                 maxLength: 255
+ *                 example: alice
+ *               password:
+ *                 type: string
+ *                 description: Password or, preferably, an app password
+ *                 example: "xxxx-xxxx-xxxx-xxxx"
+ *               calendarUrl:
+ *                 type: string
+ *                 maxLength: 500
+ *                 example: "https://cloud.example.com/remote.php/dav/calendars/alice/personal/"
+ *     responses:
+ *       200:
+ *         description: CalDAV account connected
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: CalDAV account connected
+ *                 data:
+ *                   $ref: '#/components/schemas/CalDavAccount'
+ *       400:
+ *         description: Validation error, unreachable server, rejected credentials or unknown calendar
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Email verification required
+ */
+router.get('/caldav', authMiddleware, getCalDavAccountHandler);
+router.put('/caldav', ...connectCalDavAccountWithValidation);
+
+/**
+ * @openapi
+ * /api/calendar/caldav/calendars:
+ *   get:
+ *     summary: List the CalDAV calendars tasks can be synced to
+ *     description: Event calendars of the connected CalDAV account. `selected` marks the default calendar of synced tasks.
+ *     tags:
+ *       - Calendar
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: CalDAV calendars retrieved
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: CalDAV calendars retrieved
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       id:
+ *                         type: string
+ *                         description: Calendar collection URL, usable as a task's calendarId
+ *                       summary:
+ *                         type: string
+ *                         example: Personal
+ *                       color:
+ *                         type: string
+ *                         nullable: true
+ *                       timeZone:
+ *                         type: string
+ *                         nullable: true
+ *                       selected:
+ *                         type: boolean
+ *       400:
+ *         description: No CalDAV account connected
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Email verification required
+ *       500:
+ *         description: CalDAV calendars could not be listed
+ */
+router.get('/caldav/calendars', authMiddleware, listCalDavCalendarsHandler);
+
+/**
+ * @openapi
+ * /api/calendar/caldav/disconnect:
+ *   post:
+ *     summary: Disconnect the CalDAV account
+ *     description: |
+ *       Deletes the stored CalDAV account and clears the CalDAV event ids on the user's tasks; tasks sync to
+ *       Google Calendar again if it is connected. With `removeCalendarEvents` the synced events are deleted from
+ *       the CalDAV server first; failures are reported in the response and the account is disconnected either way.
+ *     tags:
+ *       - Calendar
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               removeCalendarEvents:
+ *                 type: boolean
+ *                 default: false
+ *     responses:
+ *       200:
+ *         description: CalDAV account disconnected
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: CalDAV account disconnected
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     disconnected:
+ *                       type: boolean
+ *                     calendarEventsRemoved:
+ *                       type: integer
+ *                     calendarEventsFailed:
+ *                       type: integer
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Email verification required
+ */
+router.post('/caldav/disconnect', ...disconnectCalDavAccountWithValidation);
+
+/**
+ * @openapi
+ * components:
+ *   schemas:
+ *     CalendarJob:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *         userId:
+ *           type: string
+ *           format: uuid
+ *         type:
+ *           type: string
+ *           enum: [backfill, import]
+ *           description: A backfill pushes tasks that were never synced; an import turns calendar events into tasks
+ *         status:
+ *           type: string
+ *           enum: [pending, running, completed, failed]
+ *         provider:
+ *           type: string
+ *           nullable: true
+ *           example: google
+ *         calendarId:
+ *           type: string
+ *           nullable: true
+ *           description: Import only, the calendar the events are read from
+ *           example: primary
+ *         rangeStart:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         rangeEnd:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         total:
+ *           type: integer
+ *           nullable: true
+ *           description: Tasks to push, or events to import once the last page of events is listed; null until counted
+ *           example: 120
+ *         processed:
+ *           type: integer
+ *           example: 75
+ *         created:
+ *           type: integer
+ *           description: Tasks pushed (backfill) or created (import)
+ *           example: 70
+ *         skipped:
+ *           type: integer
+ *           description: Items left alone, e.g. all-day events or events already linked to a task
+ *           example: 4
+ *         failed:
+ *           type: integer
+ *           description: Items that could not be handled; failed pushes are retried on the task
+ *           example: 1
+ *         error:
+ *           type: string
+ *           nullable: true
+ *           description: Error of the last failed chunk; a running job retries it
+ *         startedAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         finishedAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *         updatedAt:
+ *           type: string
+ *           format: date-time
+ */
+
+/**
+ * @openapi
+ * /api/calendar/import:
+ *   post:
+ *     summary: Import calendar events as tasks
+ *     description: |
+ *       Queues an import of the events of the connected calendar that overlap the range, at most 366 days.
+ *       Every event becomes a task linked to it through calendarEventId, so later changes sync both ways;
+ *       all-day events and events already linked to a task are skipped. The import runs in the background;
+ *       follow its progress with GET /api/calendar/jobs/{id}. Only one import runs at a time.
+ *     tags:
+ *       - Calendar
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [to]
+ *             properties:
+ *               from:
+ *                 type: string
+ *                 format: date-time
+ *                 description: Defaults to now
+ *               to:
+ *                 type: string
+ *                 format: date-time
+ *                 example: "2026-12-31T00:00:00.000Z"
+ *               calendarId:
+ *                 type: string
+ *                 maxLength: 500
+ *                 description: Google calendar id or CalDAV calendar URL; defaults to the default calendar of the preferences
+ *     responses:
+ *       202:
+ *         description: Calendar import started
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: Calendar import started
+ *                 data:
+ *                   $ref: '#/components/schemas/CalendarJob'
+ *       400:
+ *         description: Validation error or no calendar is connected
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Email verification required
+ *       409:
+ *         description: An import is already running
+ */
+router.post('/import', ...startCalendarImportWithValidation);
+
+/**
+ * @openapi
+ * /api/calendar/jobs:
+ *   get:
+ *     summary: List calendar jobs
+ *     description: |
+ *       The user's 20 latest calendar jobs, newest first: imports, and the backfills that push existing tasks
+ *       when a calendar is connected.
+ *     tags:
+ *       - Calendar
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Calendar jobs retrieved
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: Calendar jobs retrieved
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/CalendarJob'
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Email verification required
+ */
+router.get('/jobs', authMiddleware, listCalendarJobsHandler);
+
+/**
+ * @openapi
+ * /api/calendar/jobs/{id}:
+ *   get:
+ *     summary: Get the progress of a calendar job
+ *     tags:
+ *       - Calendar
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Calendar job retrieved
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: Calendar job retrieved
+ *                 data:
+ *                   $ref: '#/components/schemas/CalendarJob'
+ *       400:
+ *         description: Invalid job id
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Email verification required
+ *       404:
+ *         description: Calendar job not found
+ */
+router.get('/jobs/:id', ...getCalendarJobWithValidation);
+
+export default router;
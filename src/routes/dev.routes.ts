@@ -0,0 +1,72 @@
+/**
+ * Development Routes
+ *
+ * Only mounted when NODE_ENV is development.
+ *
+ * @module routes/dev.routes
+ * @requires express
+ * @requires @/controllers/dev.controller
+ */
+
+import express, { type Router } from 'express';
+import { listEmailTemplatesHandler, previewEmailHandler } from '@/controllers/dev.controller';
+
+const router: Router = express.Router();
+
+/**
+ * @openapi
+ * /api/dev/emails:
+ *   get:
+ *     summary: List email templates
+ *     description: Development only. Lists the template ids and locales that can be previewed.
+ *     tags:
+ *       - Development
+ *     responses:
+ *       200:
+ *         description: Template ids and locales
+ */
+router.get('/emails', listEmailTemplatesHandler);
+
+/**
+ * @openapi
+ * /api/dev/emails/{template}:
+ *   get:
+ *     summary: Preview an email template
+ *     description: Development only. Renders the template with fixed sample data.
+ *     tags:
+ *       - Development
+ *     parameters:
+ *       - in: path
+ *         name: template
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [verify_email, reset_password, unlock_account, login_alert, task_reminder, weekly_digest]
+ *       - in: query
+ *         name: locale
+ *         schema:
+ *           type: string
+ *           enum: [en, es]
+ *           default: en
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [html, text, json]
+ *           default: html
+ *     responses:
+ *       200:
+ *         description: Rendered email
+ *         content:
+ *           text/html:
+ *             schema:
+ *               type: string
+ *           text/plain:
+ *             schema:
+ *               type: string
+ *       404:
+ *         description: Unknown template
+ */
+router.get('/emails/:template', previewEmailHandler);
+
+export default router;
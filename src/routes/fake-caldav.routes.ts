@@ -0,0 +1,53 @@
+/**
+ * Fake CalDAV Routes
+ *
+ * Every path below the mount point is handed to the fake CalDAV server,
+ * whatever the method (PROPFIND, REPORT, MKCALENDAR, MOVE, ...). Bodies are
+ * read as text, since WebDAV uses XML and iCalendar. Only mounted when
+ * DEV_SERVERS_ENABLED is true.
+ *
+ * @module routes/fake-caldav.routes
+ * @requires express
+ * @requires @/controllers/fake-caldav.controller
+ */
+
+import express, { type Router } from 'express';
+import { fakeCalDavHandler } from '@/controllers/fake-caldav.controller';
+
+const router: Router = express.Router();
+
+router.use(express.text({ type: () => true, limit: '1mb' }));
+
+/**
+ * @openapi
+ * /api/dev/caldav/{path}:
+ *   parameters:
+ *     - in: path
+ *       name: path
+ *       required: true
+ *       schema:
+ *         type: string
+ *       description: Radicale-style path, e.g. alice/calendar/ or alice/calendar/<uid>.ics
+ *   get:
+ *     summary: Fake CalDAV server
+ *     description: |
+ *       Not available in production. An in-memory CalDAV server for local development and tests, with
+ *       Radicale's layout: every Basic user name is a principal at /api/dev/caldav/<user>/ with a default
+ *       `calendar` collection. Serves OPTIONS, PROPFIND, MKCALENDAR, REPORT (calendar-query), GET, PUT,
+ *       DELETE and MOVE; any password is accepted. Connect it with PUT /api/calendar/caldav and the server
+ *       URL <API_URL>/api/dev/caldav/.
+ *     tags:
+ *       - Development
+ *     responses:
+ *       200:
+ *         description: The calendar object
+ *       401:
+ *         description: Basic credentials are missing
+ *       403:
+ *         description: Path of another user
+ *       404:
+ *         description: Not found
+ */
+router.all('/{*path}', fakeCalDavHandler);
+
+export default router;
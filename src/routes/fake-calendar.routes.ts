@@ -0,0 +1,189 @@
+/**
+ * Fake Google Calendar Routes
+ *
+ * Calendar API paths served by the fake server. Only mounted when DEV_SERVERS_ENABLED is true.
+ *
+ * @module routes/fake-calendar.routes
+ * @requires express
+ * @requires @/controllers/fake-calendar.controller
+ */
+
+import express, { type Router } from 'express';
+import {
+  fakeDeleteEventHandler,
+  fakeExpireSyncTokensHandler,
+  fakeGetEventHandler,
+  fakeInsertCalendarHandler,
+  fakeInsertEventHandler,
+  fakeListCalendarsHandler,
+  fakeListEventsHandler,
+  fakeMoveEventHandler,
+  fakePatchEventHandler,
+  fakeStopChannelHandler,
+  fakeWatchEventsHandler,
+  requireFakeBearer,
+} from '@/controllers/fake-calendar.controller';
+
+const router: Router = express.Router();
+
+/**
+ * @openapi
+ * /api/dev/calendar/v3/users/me/calendarList:
+ *   get:
+ *     summary: Fake Calendar API - list calendars
+ *     description: Not available in production. Lists the primary calendar and every calendar created with POST /calendars.
+ *     tags:
+ *       - Development
+ *     responses:
+ *       200:
+ *         description: The calendars of the account
+ */
+router.get('/users/me/calendarList', requireFakeBearer, fakeListCalendarsHandler);
+
+/**
+ * @openapi
+ * /api/dev/calendar/v3/calendars:
+ *   post:
+ *     summary: Fake Calendar API - create a calendar
+ *     description: Not available in production. Use it to test writing tasks to a secondary calendar.
+ *     tags:
+ *       - Development
+ *     responses:
+ *       200:
+ *         description: The created calendar
+ */
+router.post('/calendars', requireFakeBearer, fakeInsertCalendarHandler);
+
+/**
+ * @openapi
+ * /api/dev/calendar/v3/calendars/{calendarId}/events:
+ *   get:
+ *     summary: Fake Calendar API - list events
+ *     description: |
+ *       Not available in production. Same contract as Google's events.list: with `syncToken` only events
+ *       changed since are returned, deletions included; the last page carries `nextSyncToken`.
+ *     tags:
+ *       - Development
+ *     responses:
+ *       200:
+ *         description: A page of events
+ *       410:
+ *         description: Sync token expired; a full sync is required
+ *   post:
+ *     summary: Fake Calendar API - create an event
+ *     description: Not available in production.
+ *     tags:
+ *       - Development
+ *     responses:
+ *       200:
+ *         description: The created event
+ */
+router
+  .route('/calendars/:calendarId/events')
+  .all(requireFakeBearer)
+  .get(fakeListEventsHandler)
+  .post(fakeInsertEventHandler);
+
+/**
+ * @openapi
+ * /api/dev/calendar/v3/calendars/{calendarId}/events/watch:
+ *   post:
+ *     summary: Fake Calendar API - open a push channel
+ *     description: |
+ *       Not available in production. The address receives a `sync` notification at once and an `exists`
+ *       notification after every change to the calendar, with Google's X-Goog-* headers.
+ *     tags:
+ *       - Development
+ *     responses:
+ *       200:
+ *         description: The channel
+ */
+router.post('/calendars/:calendarId/events/watch', requireFakeBearer, fakeWatchEventsHandler);
+
+/**
+ * @openapi
+ * /api/dev/calendar/v3/calendars/{calendarId}/events/{eventId}:
+ *   get:
+ *     summary: Fake Calendar API - get an event
+ *     description: Not available in production.
+ *     tags:
+ *       - Development
+ *     responses:
+ *       200:
+ *         description: The event
+ *       404:
+ *         description: Event not found
+ *   patch:
+ *     summary: Fake Calendar API - update an event
+ *     description: Not available in production. Use it to simulate edits made in Google Calendar.
+ *     tags:
+ *       - Development
+ *     responses:
+ *       200:
+ *         description: The updated event
+ *       410:
+ *         description: The event has been deleted
+ *   delete:
+ *     summary: Fake Calendar API - delete an event
+ *     description: Not available in production.
+ *     tags:
+ *       - Development
+ *     responses:
+ *       204:
+ *         description: Event deleted
+ */
+router
+  .route('/calendars/:calendarId/events/:eventId')
+  .all(requireFakeBearer)
+  .get(fakeGetEventHandler)
+  .patch(fakePatchEventHandler)
+  .put(fakePatchEventHandler)
+  .delete(fakeDeleteEventHandler);
+
+/**
+ * @openapi
+ * /api/dev/calendar/v3/calendars/{calendarId}/events/{eventId}/move:
+ *   post:
+ *     summary: Fake Calendar API - move an event to another calendar
+ *     description: Not available in production. The event keeps its id; the source calendar lists it as cancelled.
+ *     tags:
+ *       - Development
+ *     responses:
+ *       200:
+ *         description: The moved event
+ *       404:
+ *         description: Event or destination calendar not found
+ */
+router.post('/calendars/:calendarId/events/:eventId/move', requireFakeBearer, fakeMoveEventHandler);
+
+/**
+ * @openapi
+ * /api/dev/calendar/v3/channels/stop:
+ *   post:
+ *     summary: Fake Calendar API - close a push channel
+ *     description: Not available in production.
+ *     tags:
+ *       - Development
+ *     responses:
+ *       204:
+ *         description: Channel closed
+ *       404:
+ *         description: Channel not found
+ */
+router.post('/channels/stop', requireFakeBearer, fakeStopChannelHandler);
+
+/**
+ * @openapi
+ * /api/dev/calendar/v3/sync-tokens/expire:
+ *   post:
+ *     summary: Fake Calendar API - expire every sync token
+ *     description: Not available in production. The next incremental sync receives 410 and starts over.
+ *     tags:
+ *       - Development
+ *     responses:
+ *       204:
+ *         description: Sync tokens expired
+ */
+router.post('/sync-tokens/expire', fakeExpireSyncTokensHandler);
+
+export default router;
@@ -0,0 +1,122 @@
+/**
+ * Mock OAuth Server Routes
+ *
+ * Endpoints of the "mock" OAuth provider. Only mounted when DEV_SERVERS_ENABLED is true.
+ *
+ * @module routes/mock-oauth.routes
+ * @requires express
+ * @requires @/controllers/mock-oauth.controller
+ */
+
+import express, { type Router } from 'express';
+import {
+  mockAuthorizeHandler,
+  mockRevokeHandler,
+  mockTokenHandler,
+  mockUserinfoHandler,
+} from '@/controllers/mock-oauth.controller';
+
+const router: Router = express.Router();
+
+/**
+ * @openapi
+ * /api/dev/oauth/authorize:
+ *   get:
+ *     summary: Mock OAuth authorization endpoint
+ *     description: |
+ *       Not available in production. Grants consent at once and redirects to the mock provider's callback with
+ *       a code and the state. `login_hint` sets the account's email (default mock.user@example.com) and
+ *       `deny=true` answers with `error=access_denied`. PKCE (S256) is required.
+ *     tags:
+ *       - Development
+ *     parameters:
+ *       - in: query
+ *         name: login_hint
+ *         schema:
+ *           type: string
+ *           format: email
+ *       - in: query
+ *         name: deny
+ *         schema:
+ *           type: boolean
+ *     responses:
+ *       302:
+ *         description: Redirect to the callback with `code` or `error`
+ *       400:
+ *         description: Unknown client_id or redirect_uri
+ */
+router.get('/authorize', mockAuthorizeHandler);
+
+/**
+ * @openapi
+ * /api/dev/oauth/token:
+ *   post:
+ *     summary: Mock OAuth token endpoint
+ *     description: Not available in production. Supports the authorization_code and refresh_token grants.
+ *     tags:
+ *       - Development
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/x-www-form-urlencoded:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               grant_type:
+ *                 type: string
+ *                 enum: [authorization_code, refresh_token]
+ *               code:
+ *                 type: string
+ *               code_verifier:
+ *                 type: string
+ *               redirect_uri:
+ *                 type: string
+ *               refresh_token:
+ *                 type: string
+ *               client_id:
+ *                 type: string
+ *                 example: mock-client
+ *               client_secret:
+ *                 type: string
+ *                 example: mock-secret
+ *     responses:
+ *       200:
+ *         description: Tokens issued
+ *       400:
+ *         description: Invalid grant or unsupported grant type
+ *       401:
+ *         description: Unknown client or wrong secret
+ */
+router.post('/token', mockTokenHandler);
+
+/**
+ * @openapi
+ * /api/dev/oauth/userinfo:
+ *   get:
+ *     summary: Mock OAuth userinfo endpoint
+ *     description: Not available in production. Returns sub, email, email_verified and name for a bearer token.
+ *     tags:
+ *       - Development
+ *     responses:
+ *       200:
+ *         description: Profile of the account
+ *       401:
+ *         description: Unknown or expired access token
+ */
+router.get('/userinfo', mockUserinfoHandler);
+
+/**
+ * @openapi
+ * /api/dev/oauth/revoke:
+ *   post:
+ *     summary: Mock OAuth revocation endpoint
+ *     description: Not available in production. Revoking a refresh token also revokes its access tokens.
+ *     tags:
+ *       - Development
+ *     responses:
+ *       200:
+ *         description: Token revoked
+ */
+router.post('/revoke', mockRevokeHandler);
+
+export default router;
@@ -0,0 +1,83 @@
+/**
+ * Storage Routes
+ *
+ * Upload and download endpoints used by the local filesystem storage driver
+ * in place of S3 presigned URLs. Uploads carry the raw file as the body.
+ *
+ * @module routes/storage.routes
+ * @requires express
+ * @requires @/controllers/storage.controller
+ */
+
+import express, { type Router } from 'express';
+import { localDownloadHandler, localUploadHandler } from '@/controllers/storage.controller';
+
+const MAX_LOCAL_UPLOAD_SIZE = '10mb';
+
+const router: Router = express.Router();
+
+/**
+ * @openapi
+ * /api/storage/uploads/{token}:
+ *   put:
+ *     summary: Upload a file to local storage
+ *     description: Development stand-in for S3 presigned uploads. The URL is returned by endpoints that issue presigned uploads when STORAGE_DRIVER is local.
+ *     tags:
+ *       - Storage
+ *     parameters:
+ *       - in: path
+ *         name: token
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Signed upload token
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/octet-stream:
+ *           schema:
+ *             type: string
+ *             format: binary
+ *     responses:
+ *       200:
+ *         description: Upload complete
+ *       400:
+ *         description: Content type or size does not match the signed upload
+ *       401:
+ *         description: Upload token invalid or expired
+ *       404:
+ *         description: Local uploads are disabled
+ */
+router.put('/uploads/:token', express.raw({ type: () => true, limit: MAX_LOCAL_UPLOAD_SIZE }), localUploadHandler);
+
+/**
+ * @openapi
+ * /api/storage/files/{token}:
+ *   get:
+ *     summary: Download a file from local storage
+ *     description: Development stand-in for S3 presigned downloads. The URL is issued by the server when STORAGE_DRIVER is local.
+ *     tags:
+ *       - Storage
+ *     parameters:
+ *       - in: path
+ *         name: token
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Signed download token
+ *     responses:
+ *       200:
+ *         description: File contents
+ *         content:
+ *           application/octet-stream:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       401:
+ *         description: Download token invalid or expired
+ *       404:
+ *         description: File not found or local storage is disabled
+ */
+router.get('/files/:token', localDownloadHandler);
+
+export default router;
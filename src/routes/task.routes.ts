@@ -22,8 +22,10 @@ import {
   updateTaskWithValidation,
   deleteTaskWithValidation,
   getTaskStatsHandler,
+  resyncTaskWithValidation,
 } from '@/controllers/task.controller';
 import { authMiddleware } from '@/middlewares/auth.middleware';
+import { requirePermission } from '@/middlewares/requirePermission';
 
 const router: Router = express.Router();
 
@@ -84,6 +86,36 @@ const router: Router = express.Router();
  *           nullable: true
  *           description: Associated calendar event ID
  *           example: "calendar-event-123"
+ *         calendarId:
+ *           type: string
+ *           nullable: true
+ *           description: Calendar the task is synced to (Google calendar id or CalDAV calendar URL); null uses the default calendar
+ *           example: "team@group.calendar.google.com"
+ *         calendarSyncState:
+ *           type: string
+ *           nullable: true
+ *           enum: [pending, synced, failed]
+ *           description: Calendar sync state; null when the task is not synced
+ *           example: "failed"
+ *         calendarSyncAttempts:
+ *           type: integer
+ *           description: Failed sync attempts since the last success or resync
+ *           example: 2
+ *         calendarSyncAttemptedAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *           description: Time of the last sync attempt
+ *         calendarSyncError:
+ *           type: string
+ *           nullable: true
+ *           description: Error of the last failed sync attempt
+ *           example: "Google Calendar update failed with status 503"
+ *         calendarSyncRetryAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *           description: When a failed sync is retried; null once retries are exhausted
  *         createdAt:
  *           type: string
  *           format: date-time
@@ -135,6 +167,12 @@ const router: Router = express.Router();
  *           nullable: true
  *           description: Associated calendar event ID
  *           example: "calendar-event-123"
+ *         calendarId:
+ *           type: string
+ *           maxLength: 500
+ *           nullable: true
+ *           description: Calendar to sync the task to (Google calendar id or CalDAV calendar URL); omit or null for the default calendar
+ *           example: "team@group.calendar.google.com"
  *
  *     UpdateTaskRequest:
  *       type: object
@@ -173,6 +211,12 @@ const router: Router = express.Router();
  *           nullable: true
  *           description: Updated calendar event ID
  *           example: "calendar-event-456"
+ *         calendarId:
+ *           type: string
+ *           maxLength: 500
+ *           nullable: true
+ *           description: Calendar to sync the task to (Google calendar id or CalDAV calendar URL); null for the default calendar. The event moves with the task.
+ *           example: "team@group.calendar.google.com"
  *
  *     TaskStats:
  *       type: object
@@ -358,6 +402,13 @@ router.post('/', ...createTaskWithValidation);
  *           format: date-time
  *         description: Filter tasks ending before this date
  *         example: "2024-10-31T23:59:59Z"
+ *       - in: query
+ *         name: syncState
+ *         schema:
+ *           type: string
+ *           enum: [pending, synced, failed]
+ *         description: Filter tasks by calendar sync state
+ *         example: "failed"
  *     responses:
  *       200:
  *         description: Tasks retrieved successfully
@@ -442,7 +493,7 @@ router.get('/', ...getTasksWithValidation);
  *       500:
  *         description: Internal server error
  */
-router.get('/stats', authMiddleware, getTaskStatsHandler);
+router.get('/stats', authMiddleware, requirePermission('tasks:read:own'), getTaskStatsHandler);
 
 /**
  * @openapi
@@ -544,6 +595,54 @@ router.get('/:id', ...getTaskByIdWithValidation);
  */
 router.put('/:id', ...updateTaskWithValidation);
 
+/**
+ * @openapi
+ * /api/tasks/{id}/resync:
+ *   post:
+ *     summary: Resync a task to the calendar
+ *     description: |
+ *       Queues a fresh push of the task to the user's calendar and resets its retry count. Failed syncs are retried
+ *       automatically with exponential backoff; use this once retries are exhausted or to retry right away.
+ *     tags:
+ *       - Tasks
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Task ID
+ *         example: "550e8400-e29b-41d4-a716-446655440000"
+ *     responses:
+ *       200:
+ *         description: Calendar sync scheduled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: "Calendar sync scheduled"
+ *                 data:
+ *                   $ref: '#/components/schemas/Task'
+ *       400:
+ *         description: The task has no start and end time, or no calendar is connected
+ *       401:
+ *         description: Unauthorized - Authentication required
+ *       403:
+ *         description: Forbidden - Email verification required
+ *       404:
+ *         description: Task not found or access denied
+ */
+router.post('/:id/resync', ...resyncTaskWithValidation);
+
 /**
  * @openapi
  * /api/tasks/{id}:
@@ -6,29 +6,331 @@
  */
 
 import express, { type Router } from 'express';
-import { baseAPIHandler } from '@/controllers/user.controller';
+import {
+  changePasswordWithValidation,
+  deleteAccountWithValidation,
+  getProfileHandler,
+  updateProfileWithValidation,
+} from '@/controllers/user.controller';
+import {
+  confirmAvatarUploadWithValidation,
+  deleteAvatarHandler,
+  requestAvatarUploadWithValidation,
+} from '@/controllers/avatar.controller';
+import { authMiddleware } from '@/middlewares/auth.middleware';
 
 const router: Router = express.Router();
 
 /**
  * @openapi
- * /api/users:
+ * components:
+ *   schemas:
+ *     UserProfile:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *         username:
+ *           type: string
+ *           example: johndoe
+ *         email:
+ *           type: string
+ *           format: email
+ *           example: john@example.com
+ *         role:
+ *           type: string
+ *           example: user
+ *         profilePictureUrl:
+ *           type: string
+ *           nullable: true
+ *         profilePictureThumbnailUrl:
+ *           type: string
+ *           nullable: true
+ *         isVerified:
+ *           type: boolean
+ *         googleConnected:
+ *           type: boolean
+ *         mfaEnabled:
+ *           type: boolean
+ *         hasPassword:
+ *           type: boolean
+ *           description: False for accounts created through Google sign-in until a password is set
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *         updatedAt:
+ *           type: string
+ *           format: date-time
+ */
+
+/**
+ * @openapi
+ * /api/users/me:
  *   get:
- *     summary: Get a simple test message from the User API
+ *     summary: Get the authenticated user's profile
  *     tags:
  *       - Users
+ *     security:
+ *       - BearerAuth: []
  *     responses:
  *       200:
- *         description: Returns a welcome message
+ *         description: Profile retrieved successfully
  *         content:
  *           application/json:
  *             schema:
  *               type: object
  *               properties:
- *                 message:
- *                   type: string
- *                   example: Hello from the User API
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/UserProfile'
+ *       401:
+ *         description: Unauthorized - Authentication required
+ *   patch:
+ *     summary: Update the authenticated user's profile
+ *     tags:
+ *       - Users
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               username:
+ *                 type: string
+ *                 minLength: 3
+ *                 example: johndoe
+ *     responses:
+ *       200:
+ *         description: Profile updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/UserProfile'
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Unauthorized - Authentication required
+ *       409:
+ *         description: Username already in use (compared regardless of case)
+ *   delete:
+ *     summary: Delete the authenticated user's account
+ *     description: |
+ *       Permanently deletes the account and everything it owns. Requires the current password; accounts without
+ *       a password must set one first.
+ *     tags:
+ *       - Users
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - password
+ *             properties:
+ *               password:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Account deleted successfully
+ *       400:
+ *         description: The account has no password yet
+ *       401:
+ *         description: Unauthorized or wrong password
+ *       409:
+ *         description: The last admin account cannot be deleted
+ *       429:
+ *         description: Too many failed password attempts
+ */
+router
+  .route('/me')
+  .get(authMiddleware, getProfileHandler)
+  .patch(...updateProfileWithValidation)
+  .delete(...deleteAccountWithValidation);
+
+/**
+ * @openapi
+ * /api/users/me/password:
+ *   post:
+ *     summary: Change the authenticated user's password
+ *     description: |
+ *       Requires the current password. Accounts created through Google sign-in that have no password yet can set
+ *       one without it. All other sessions are signed out.
+ *     tags:
+ *       - Users
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - newPassword
+ *             properties:
+ *               currentPassword:
+ *                 type: string
+ *                 description: Required when the account already has a password
+ *               newPassword:
+ *                 type: string
+ *                 minLength: 8
+ *     responses:
+ *       200:
+ *         description: Password changed successfully
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Unauthorized or wrong current password
+ *       429:
+ *         description: Too many failed password attempts
+ */
+router.route('/me/password').post(...changePasswordWithValidation);
+
+/**
+ * @openapi
+ * /api/users/me/avatar/upload-url:
+ *   post:
+ *     summary: Request a presigned profile picture upload
+ *     description: Returns a URL the client uploads the image to directly, plus a token to confirm the upload with.
+ *     tags:
+ *       - Users
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - contentType
+ *               - size
+ *             properties:
+ *               contentType:
+ *                 type: string
+ *                 enum: [image/jpeg, image/png, image/webp]
+ *               size:
+ *                 type: integer
+ *                 maximum: 5242880
+ *                 description: Exact file size in bytes
+ *     responses:
+ *       200:
+ *         description: Presigned upload issued
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     upload:
+ *                       type: object
+ *                       properties:
+ *                         url:
+ *                           type: string
+ *                         method:
+ *                           type: string
+ *                           example: PUT
+ *                         headers:
+ *                           type: object
+ *                           additionalProperties:
+ *                             type: string
+ *                         expiresAt:
+ *                           type: string
+ *                           format: date-time
+ *                     uploadToken:
+ *                       type: string
+ *       400:
+ *         description: Unsupported content type or file too large
+ *       401:
+ *         description: Unauthorized - Authentication required
+ */
+router.route('/me/avatar/upload-url').post(...requestAvatarUploadWithValidation);
+
+/**
+ * @openapi
+ * /api/users/me/avatar/confirm:
+ *   post:
+ *     summary: Confirm an uploaded profile picture
+ *     description: Validates the uploaded image, generates the avatar and thumbnail, and replaces the previous picture.
+ *     tags:
+ *       - Users
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - uploadToken
+ *             properties:
+ *               uploadToken:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Profile picture updated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     profilePictureUrl:
+ *                       type: string
+ *                     profilePictureThumbnailUrl:
+ *                       type: string
+ *       400:
+ *         description: Upload missing, invalid token, size/type mismatch or not an image
+ *       401:
+ *         description: Unauthorized - Authentication required
+ *       403:
+ *         description: Upload token belongs to another user
+ */
+router.route('/me/avatar/confirm').post(...confirmAvatarUploadWithValidation);
+
+/**
+ * @openapi
+ * /api/users/me/avatar:
+ *   delete:
+ *     summary: Remove the profile picture
+ *     tags:
+ *       - Users
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Profile picture removed
+ *       401:
+ *         description: Unauthorized - Authentication required
+ *       404:
+ *         description: No profile picture to delete
  */
-router.route('/').get(baseAPIHandler);
+router.route('/me/avatar').delete(authMiddleware, deleteAvatarHandler);
 
 export default router;
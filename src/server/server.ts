@@ -12,24 +12,55 @@
  * @requires @/env
  * @requires @/routes/user.routes
  * @requires @/routes/todo.routes
+ * @requires @/routes/admin.routes
+ * @requires @/routes/storage.routes
+ * @requires @/routes/dev.routes
  * @requires @/middlewares/error
+ * @requires @/middlewares/rateLimit.middleware
  * @exports app - Configured Express application
  */
+import path from 'path';
 import express, { type Request, type Response } from 'express';
 import cors from 'cors';
 import helmet from 'helmet';
 import swaggerUi from 'swagger-ui-express';
 import { env } from '@/env';
 import { errorMiddleware } from '@/middlewares/error';
+import { rateLimit } from '@/middlewares/rateLimit.middleware';
 import { swaggerSpec } from '@/core/swagger';
 import { asyncHandler } from '@/utils/asyncHandler';
 import userRoutes from '@/routes/user.routes';
 import authRoutes from '@/routes/auth.routes';
 import taskRoutes from '@/routes/task.routes';
+import adminRoutes from '@/routes/admin.routes';
+import storageRoutes from '@/routes/storage.routes';
+import devRoutes from '@/routes/dev.routes';
+import mockOAuthRoutes from '@/routes/mock-oauth.routes';
+import calendarRoutes from '@/routes/calendar.routes';
+import fakeCalendarRoutes from '@/routes/fake-calendar.routes';
+import fakeCalDavRoutes from '@/routes/fake-caldav.routes';
+import { getStorageProvider, isLocalMetadataFile, LocalStorageProvider, PUBLIC_KEY_PREFIXES } from '@/core/storage';
+import { isMockOAuthEnabled } from '@/core/oauth';
+import { isFakeCalendarEnabled } from '@/core/calendar';
 
 // Initialize Express app
 const app: express.Application = express();
 
+/**
+ * Proxy Configuration
+ * - Behind a load balancer, req.ip (rate limits, login throttling, sessions) must come from
+ *   X-Forwarded-For, but only as far as TRUST_PROXY allows, or clients could pick their own address
+ * - Accepts true/false, a hop count or the addresses and subnets Express understands
+ */
+const parseTrustProxy = (value: string): boolean | number | string => {
+  if (value === 'true' || value === 'false') {
+    return value === 'true';
+  }
+  return /^\d+$/.test(value) ? Number(value) : value;
+};
+
+app.set('trust proxy', parseTrustProxy(env.TRUST_PROXY as string));
+
 /**
  * Middleware Configuration
  * - JSON parsing
@@ -61,14 +92,65 @@ app.get(
  */
 app.use('/api-docs', swaggerUi.serve, swaggerUi.setup(swaggerSpec));
 
+/**
+ * Local object storage
+ * - With the local storage driver, public key prefixes of the uploads bucket
+ *   (e.g. avatars) are served from /uploads; everything else stays private
+ * - The content-type files kept next to each object are not served
+ * - Cross-origin resource policy is relaxed so the frontend can embed images
+ */
+const uploadsStorage = getStorageProvider('uploads');
+if (uploadsStorage instanceof LocalStorageProvider) {
+  for (const prefix of PUBLIC_KEY_PREFIXES) {
+    const serveObjects = express.static(path.join(uploadsStorage.rootDir, prefix), {
+      setHeaders: res => res.setHeader('Cross-Origin-Resource-Policy', 'cross-origin'),
+    });
+    app.use(`/uploads/${prefix}`, (req, res, next) =>
+      isLocalMetadataFile(req.path) ? next() : serveObjects(req, res, next),
+    );
+  }
+}
+
+/**
+ * Rate Limiters
+ * - Keyed by user id (valid access token) or IP
+ * - Auth routes are strict to slow down credential stuffing
+ * - Task routes are looser for regular app usage
+ */
+const FIFTEEN_MINUTES = 15 * 60 * 1000;
+const authRateLimiter = rateLimit({ name: 'auth', windowMs: FIFTEEN_MINUTES, limit: 50 });
+const userRateLimiter = rateLimit({ name: 'users', windowMs: FIFTEEN_MINUTES, limit: 300 });
+const taskRateLimiter = rateLimit({ name: 'tasks', windowMs: FIFTEEN_MINUTES, limit: 1000 });
+
 /**
  * API Routes
  * - User routes at /api/users
  * - Task routes at /api/tasks
+ * - Auth routes at /api/auth
+ * - Admin routes at /api/admin (permission-checked per route)
+ * - Storage routes at /api/storage (local driver uploads)
+ * - Calendar sync at /api/calendar (Google push notifications, on-demand sync, calendar preferences, CalDAV account)
+ * - Development tools at /api/dev (email previews), development only
+ * - Mock OAuth server at /api/dev/oauth, when DEV_SERVERS_ENABLED is true
+ * - Fake Google Calendar API at /api/dev/calendar/v3, when DEV_SERVERS_ENABLED is true
+ * - Fake CalDAV server at /api/dev/caldav, when DEV_SERVERS_ENABLED is true
  */
-app.use('/api/users', userRoutes);
-app.use('/api/tasks', taskRoutes);
-app.use('/api/auth', authRoutes);
+app.use('/api/users', userRateLimiter, userRoutes);
+app.use('/api/tasks', taskRateLimiter, taskRoutes);
+app.use('/api/auth', authRateLimiter, authRoutes);
+app.use('/api/admin', userRateLimiter, adminRoutes);
+app.use('/api/storage', userRateLimiter, storageRoutes);
+app.use('/api/calendar', userRateLimiter, calendarRoutes);
+if (isMockOAuthEnabled()) {
+  app.use('/api/dev/oauth', mockOAuthRoutes);
+}
+if (isFakeCalendarEnabled()) {
+  app.use('/api/dev/calendar/v3', fakeCalendarRoutes);
+  app.use('/api/dev/caldav', fakeCalDavRoutes);
+}
+if (env.NODE_ENV === 'development') {
+  app.use('/api/dev', devRoutes);
+}
 
 /**
  * 404 Handler
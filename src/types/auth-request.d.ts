@@ -11,4 +11,5 @@ interface AuthenticatedRequest extends Request {
     isVerified: boolean;
     role: string;
   };
+  sessionId?: string;
 }
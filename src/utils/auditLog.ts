@@ -0,0 +1,39 @@
+/**
+ * Audit Log
+ *
+ * Records privileged actions in `audit_logs`. Pass the transaction executor
+ * when the action itself runs in a transaction so the entry is only written
+ * if the change commits.
+ *
+ * @module utils/auditLog
+ * @exports recordAuditLog - Appends an entry to the audit log
+ */
+
+import { db, type DbExecutor } from '@/db';
+import { auditLogs } from '@/db/schemas';
+
+export type AuditAction =
+  | 'user.suspend'
+  | 'user.unsuspend'
+  | 'user.verify'
+  | 'user.role_change'
+  | 'user.force_logout'
+  | 'task.update'
+  | 'task.delete'
+  | 'outbox.retry';
+
+export interface AuditEntry {
+  actorId: string;
+  action: AuditAction;
+  targetType: 'user' | 'task' | 'outbox_event';
+  targetId: string;
+  metadata?: Record<string, unknown>;
+  ipAddress?: string;
+}
+
+/**
+ * Append an entry to the audit log
+ */
+export async function recordAuditLog(entry: AuditEntry, executor: DbExecutor = db): Promise<void> {
+  await executor.insert(auditLogs).values(entry);
+}
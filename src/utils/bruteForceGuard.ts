@@ -0,0 +1,146 @@
+/**
+ * Brute-Force Guard
+ *
+ * Tracks failed authentication attempts in Postgres (`auth_attempts`) so the
+ * limits hold across multiple API instances.
+ *
+ * - Progressive delay: once a key passes `delayAfter` failures, every further
+ *   failure blocks the key for 2^(n - delayAfter) seconds (capped).
+ * - Lockout: at `lockoutAfter` failures the key is locked for `lockoutMinutes`.
+ * - Failures older than the tracking window start a fresh count.
+ *
+ * @module utils/bruteForceGuard
+ * @exports assertNotThrottled - Throws RateLimit if any key is currently blocked
+ * @exports registerFailedAttempt - Records a failure and applies delay/lockout
+ * @exports clearFailedAttempts - Resets counters after a successful attempt
+ */
+
+import { and, eq, gt, inArray, or, sql } from 'drizzle-orm';
+import { db } from '@/db';
+import { authAttempts } from '@/db/schemas';
+import ErrorHandler from '@/utils/errorHandler';
+import logger from '@/core/logger';
+
+export type ThrottleScope = 'login_account' | 'login_ip' | 'mfa_account' | 'otp_ip';
+
+export interface ThrottleKey {
+  scope: ThrottleScope;
+  identifier: string;
+}
+
+interface ThrottlePolicy {
+  delayAfter: number;
+  maxDelaySeconds: number;
+  lockoutAfter: number;
+  lockoutMinutes: number;
+}
+
+export interface FailedAttemptResult {
+  failedCount: number;
+  lockedUntil: Date | null;
+  /** True only for the failure that triggered the lockout */
+  lockedOut: boolean;
+}
+
+const TRACKING_WINDOW_MINUTES = 60;
+
+const POLICIES: Record<ThrottleScope, ThrottlePolicy> = {
+  login_account: { delayAfter: 3, maxDelaySeconds: 60, lockoutAfter: 10, lockoutMinutes: 15 },
+  login_ip: { delayAfter: 20, maxDelaySeconds: 60, lockoutAfter: 100, lockoutMinutes: 15 },
+  // kept apart from login_account, which every correct password resets
+  mfa_account: { delayAfter: 3, maxDelaySeconds: 60, lockoutAfter: 10, lockoutMinutes: 15 },
+  otp_ip: { delayAfter: 5, maxDelaySeconds: 120, lockoutAfter: 30, lockoutMinutes: 30 },
+};
+
+/**
+ * Normalise identifiers so `John@Example.com` and `john@example.com` share a counter
+ */
+const normalise = (key: ThrottleKey): ThrottleKey => ({ scope: key.scope, identifier: key.identifier.toLowerCase() });
+
+/**
+ * Reject the request if any of the keys is currently delayed or locked
+ * @throws RateLimit with the longest remaining wait as Retry-After
+ */
+export async function assertNotThrottled(keys: ThrottleKey[]): Promise<void> {
+  const normalised = keys.filter(key => key.identifier).map(normalise);
+  if (normalised.length === 0) {
+    return;
+  }
+
+  const now = new Date();
+  const blocked = await db
+    .select({ scope: authAttempts.scope, lockedUntil: authAttempts.lockedUntil })
+    .from(authAttempts)
+    .where(
+      and(
+        or(
+          ...normalised.map(key => and(eq(authAttempts.scope, key.scope), eq(authAttempts.identifier, key.identifier))),
+        ),
+        gt(authAttempts.lockedUntil, now),
+      ),
+    );
+
+  if (blocked.length === 0) {
+    return;
+  }
+
+  const until = Math.max(...blocked.map(row => row.lockedUntil!.getTime()));
+  const retryAfter = Math.max(1, Math.ceil((until - now.getTime()) / 1000));
+
+  throw ErrorHandler.RateLimit('Too many failed attempts. Please try again later', retryAfter);
+}
+
+/**
+ * Record a failed attempt for a key and apply progressive delay / lockout
+ */
+export async function registerFailedAttempt(key: ThrottleKey): Promise<FailedAttemptResult> {
+  const { scope, identifier } = normalise(key);
+  const policy = POLICIES[scope];
+
+  const [row] = await db
+    .insert(authAttempts)
+    .values({ scope, identifier, failedCount: 1, lastFailedAt: new Date() })
+    .onConflictDoUpdate({
+      target: [authAttempts.scope, authAttempts.identifier],
+      set: {
+        failedCount: sql`CASE WHEN ${authAttempts.lastFailedAt} < now() - make_interval(mins => ${TRACKING_WINDOW_MINUTES}) THEN 1 ELSE ${authAttempts.failedCount} + 1 END`,
+        lastFailedAt: new Date(),
+      },
+    })
+    .returning({ id: authAttempts.id, failedCount: authAttempts.failedCount });
+
+  const { failedCount } = row;
+  let lockedUntil: Date | null = null;
+
+  if (failedCount >= policy.lockoutAfter) {
+    lockedUntil = new Date(Date.now() + policy.lockoutMinutes * 60 * 1000);
+  } else if (failedCount > policy.delayAfter) {
+    const delaySeconds = Math.min(2 ** (failedCount - policy.delayAfter), policy.maxDelaySeconds);
+    lockedUntil = new Date(Date.now() + delaySeconds * 1000);
+  }
+
+  if (lockedUntil) {
+    await db.update(authAttempts).set({ lockedUntil }).where(eq(authAttempts.id, row.id));
+  }
+
+  const lockedOut = failedCount === policy.lockoutAfter;
+  if (lockedOut) {
+    logger.warn('Authentication key locked out after repeated failures', { scope, identifier, failedCount });
+  }
+
+  return { failedCount, lockedUntil, lockedOut };
+}
+
+/**
+ * Reset failure counters, e.g. after a successful login or an account unlock
+ */
+export async function clearFailedAttempts(keys: ThrottleKey[]): Promise<void> {
+  const normalised = keys.filter(key => key.identifier).map(normalise);
+
+  for (const scope of new Set(normalised.map(key => key.scope))) {
+    const identifiers = normalised.filter(key => key.scope === scope).map(key => key.identifier);
+    await db
+      .delete(authAttempts)
+      .where(and(eq(authAttempts.scope, scope), inArray(authAttempts.identifier, identifiers)));
+  }
+}
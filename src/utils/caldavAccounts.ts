@@ -0,0 +1,200 @@
+/**
+ * CalDAV Accounts
+ *
+ * Connects a user to a CalDAV server (Nextcloud, Fastmail, Radicale) with a
+ * user name and app password. The credentials are checked by discovering the
+ * calendars reachable from the server URL; one of them becomes the default
+ * calendar of synced tasks. The password is stored encrypted.
+ *
+ * The server URL comes from the user, so it must resolve to a public address
+ * (`core/calendar/caldav.http`), and upstream status codes are not echoed back.
+ *
+ * Once connected, tasks sync to CalDAV instead of Google (`utils/taskCalendar`):
+ * tasks that already have an event are queued, so their events move over, and
+ * a backfill pushes the tasks that were never synced (`utils/calendarJobs`). On
+ * disconnect the remaining tasks are queued again and go back to Google if it
+ * is still connected.
+ *
+ * @module utils/caldavAccounts
+ * @exports getCalDavAccount - The user's CalDAV account, without the password
+ * @exports connectCalDavAccount - Stores a CalDAV account after checking it
+ * @exports disconnectCalDavAccount - Removes the CalDAV account of a user
+ */
+
+import { and, eq, isNotNull } from 'drizzle-orm';
+import { db } from '@/db';
+import { caldavAccounts, tasks, type CaldavAccount } from '@/db/schemas';
+import {
+  assertPublicCalDavUrl,
+  CalDavApiError,
+  CalDavBlockedAddressError,
+  discoverCalDavCalendars,
+  type CalDavCalendar,
+} from '@/core/calendar';
+import logger from '@/core/logger';
+import { env } from '@/env';
+import ErrorHandler from '@/utils/errorHandler';
+import { encryptSecret } from '@/utils/secretEncryption';
+import { startCalendarBackfill } from '@/utils/calendarJobs';
+import { CLEARED_CALENDAR_SYNC, queueTaskCalendarSync } from '@/utils/calendarSyncState';
+import { detachTaskCalendarEvents, getUserCalendarProvider, removeTaskCalendarEvents } from '@/utils/taskCalendar';
+
+const PROVIDER = 'caldav';
+
+export type CalDavAccountInfo = Omit<CaldavAccount, 'password'>;
+
+const withoutPassword = ({ password: _password, ...account }: CaldavAccount): CalDavAccountInfo => account;
+
+/** Collection URLs compare with a trailing slash */
+const collectionUrl = (url: string) => {
+  const parsed = new URL(url);
+  if (!parsed.pathname.endsWith('/')) {
+    parsed.pathname += '/';
+  }
+  return parsed.href;
+};
+
+/**
+ * The user's CalDAV account, without the password
+ */
+export async function getCalDavAccount(userId: string): Promise<CalDavAccountInfo | null> {
+  const [account] = await db.select().from(caldavAccounts).where(eq(caldavAccounts.userId, userId)).limit(1);
+  return account ? withoutPassword(account) : null;
+}
+
+/**
+ * Store the user's CalDAV account, replacing a previous one
+ * - The credentials are checked by discovering the calendars of the server URL
+ * - The default calendar is the one asked for, or the first calendar found
+ * - Tasks with an event are queued, so their events move to the new calendar
+ * - The tasks that were never synced are backfilled in the background
+ *
+ * @returns The account
+ * @throws BadRequest if the server is not on a public address, cannot be reached, rejects the
+ *   credentials, has no event calendars or lacks the calendar asked for, or, in production, is
+ *   not served over HTTPS
+ */
+export async function connectCalDavAccount(
+  userId: string,
+  input: { serverUrl: string; username: string; password: string; calendarUrl?: string },
+): Promise<CalDavAccountInfo> {
+  // The password is sent with every request
+  if (env.NODE_ENV === 'production' && new URL(input.serverUrl).protocol !== 'https:') {
+    throw ErrorHandler.BadRequest('The CalDAV server URL must use HTTPS');
+  }
+
+  // Fails early when no encryption key is configured
+  const storedPassword = encryptSecret(input.password);
+  const credentials = {
+    origin: new URL(input.serverUrl).origin,
+    username: input.username,
+    password: input.password,
+  };
+
+  let calendars: CalDavCalendar[];
+  try {
+    await assertPublicCalDavUrl(input.serverUrl);
+    calendars = await discoverCalDavCalendars(input.serverUrl, credentials);
+  } catch (err) {
+    if (err instanceof CalDavBlockedAddressError) {
+      throw ErrorHandler.BadRequest('The CalDAV server URL must point to a public address');
+    }
+    if (err instanceof CalDavApiError && (err.status === 401 || err.status === 403)) {
+      throw ErrorHandler.BadRequest('The CalDAV server rejected the credentials');
+    }
+    if (err instanceof CalDavApiError) {
+      throw ErrorHandler.BadRequest('No CalDAV calendars found at the server URL');
+    }
+    logger.warn('CalDAV server could not be reached', {
+      userId,
+      serverUrl: input.serverUrl,
+      error: err instanceof Error ? err.message : String(err),
+    });
+    throw ErrorHandler.BadRequest('The CalDAV server could not be reached');
+  }
+
+  const calendar = input.calendarUrl
+    ? calendars.find(entry => collectionUrl(entry.url) === collectionUrl(input.calendarUrl as string))
+    : calendars[0];
+  if (!calendar) {
+    throw ErrorHandler.BadRequest(
+      input.calendarUrl ? 'Calendar not found on the CalDAV server' : 'The CalDAV server has no event calendars',
+    );
+  }
+
+  const account = await db.transaction(async tx => {
+    const values = {
+      serverUrl: input.serverUrl,
+      username: input.username,
+      password: storedPassword,
+      calendarUrl: calendar.url,
+      updatedAt: new Date(),
+    };
+    const [stored] = await tx
+      .insert(caldavAccounts)
+      .values({ userId, ...values })
+      .onConflictDoUpdate({ target: caldavAccounts.userId, set: values })
+      .returning();
+
+    const syncedTasks = await tx
+      .select({ id: tasks.id, userId: tasks.userId })
+      .from(tasks)
+      .where(and(eq(tasks.userId, userId), isNotNull(tasks.calendarEventId)));
+    for (const task of syncedTasks) {
+      await queueTaskCalendarSync(task, tx);
+    }
+    await startCalendarBackfill(userId, tx);
+
+    return stored;
+  });
+
+  logger.info('CalDAV account connected', { userId, calendarUrl: account.calendarUrl });
+  return withoutPassword(account);
+}
+
+/**
+ * Remove the user's CalDAV account
+ * - Optionally deletes the events synced for the user's tasks first; failures are counted, not thrown
+ * - Tasks that had a CalDAV event are queued, so they go back to Google if it is still connected
+ *
+ * @returns Whether there was an account and how many calendar events were removed
+ */
+export async function disconnectCalDavAccount(
+  userId: string,
+  options: { removeCalendarEvents: boolean },
+): Promise<{ disconnected: boolean; calendarEventsRemoved: number; calendarEventsFailed: number }> {
+  const { removed, failed } = options.removeCalendarEvents
+    ? await removeTaskCalendarEvents(userId, PROVIDER)
+    : { removed: 0, failed: 0 };
+
+  const disconnected = await db.transaction(async tx => {
+    const deleted = await tx
+      .delete(caldavAccounts)
+      .where(eq(caldavAccounts.userId, userId))
+      .returning({ id: caldavAccounts.id });
+
+    const detached = await detachTaskCalendarEvents(userId, PROVIDER, tx);
+
+    if (await getUserCalendarProvider(userId, tx)) {
+      for (const taskId of detached) {
+        await queueTaskCalendarSync({ id: taskId, userId }, tx);
+      }
+    } else {
+      // Nothing is pushed or retried without a calendar
+      await tx
+        .update(tasks)
+        .set(CLEARED_CALENDAR_SYNC)
+        .where(and(eq(tasks.userId, userId), isNotNull(tasks.calendarSyncState)));
+    }
+
+    return deleted.length > 0;
+  });
+
+  logger.info('CalDAV account disconnected', {
+    userId,
+    disconnected,
+    calendarEventsRemoved: removed,
+    calendarEventsFailed: failed,
+  });
+  return { disconnected, calendarEventsRemoved: removed, calendarEventsFailed: failed };
+}
@@ -0,0 +1,425 @@
+/**
+ * Calendar Jobs
+ *
+ * Bulk calendar work that runs in the background, tracked in `calendar_jobs`:
+ *
+ * - Backfill: pushes the tasks with a time range that were never synced to
+ *   the user's calendar. Started whenever a calendar is connected: after the
+ *   Google OAuth callback stored the tokens, or when a CalDAV account is added.
+ * - Import: opt-in; turns the events of a calendar in a chosen range into
+ *   tasks linked to their event through `calendarEventId`, so later changes
+ *   sync like those of any other synced task. All-day events are skipped.
+ *
+ * Jobs run in chunks claimed by the `CalendarJobRunner`; every chunk updates
+ * the job's counters, which is the progress the API reports. A chunk that
+ * fails as a whole (e.g. the calendar cannot be reached) is retried with
+ * backoff until `CALENDAR_JOB_MAX_ATTEMPTS`; a calendar that is no longer
+ * connected fails the job at once. Items already handled are recognised, so
+ * a chunk repeated after a crash neither pushes nor imports twice.
+ *
+ * A user has at most one unfinished job of each type.
+ *
+ * @module utils/calendarJobs
+ * @exports CALENDAR_JOB_TYPES - Kinds of calendar jobs
+ * @exports CALENDAR_JOB_STATUSES - Lifecycle states of a calendar job
+ * @exports CALENDAR_JOB_MAX_ATTEMPTS - Failed chunks in a row before a job fails
+ * @exports CALENDAR_IMPORT_MAX_DAYS - Longest range an import may cover
+ * @exports startCalendarBackfill - Queues a backfill unless one is unfinished
+ * @exports startCalendarImport - Queues an import of a calendar range
+ * @exports getCalendarJob - Returns a job of a user
+ * @exports listCalendarJobs - Returns the latest jobs of a user
+ * @exports runNextCalendarJobChunk - Claims a due job and runs one chunk of it
+ */
+
+import { and, asc, count, desc, eq, gt, inArray, isNotNull, isNull, lte, or } from 'drizzle-orm';
+import { db, type DbExecutor } from '@/db';
+import { calendarJobs, tasks, type CalendarJob } from '@/db/schemas';
+import { getCalendarProvider, PRIMARY_CALENDAR_ID } from '@/core/calendar';
+import logger from '@/core/logger';
+import ErrorHandler from '@/utils/errorHandler';
+import { getCalendarPreferences } from '@/utils/calendarPreferences';
+import { runTaskCalendarSync } from '@/utils/calendarSyncState';
+import { getUserCalendarProvider } from '@/utils/taskCalendar';
+
+export const CALENDAR_JOB_TYPES = ['backfill', 'import'] as const;
+
+export type CalendarJobType = (typeof CALENDAR_JOB_TYPES)[number];
+
+export const CALENDAR_JOB_STATUSES = ['pending', 'running', 'completed', 'failed'] as const;
+
+export type CalendarJobStatus = (typeof CALENDAR_JOB_STATUSES)[number];
+
+export const CALENDAR_JOB_MAX_ATTEMPTS = 5;
+
+export const CALENDAR_IMPORT_MAX_DAYS = 366;
+
+const UNFINISHED_STATUSES: CalendarJobStatus[] = ['pending', 'running'];
+
+/** How long a claimed chunk may run before another runner picks the job up */
+const LOCK_SECONDS = 5 * 60;
+const RETRY_BASE_DELAY_SECONDS = 30;
+
+const MAX_ERROR_LENGTH = 1000;
+const TITLE_MAX_LENGTH = 255;
+
+/** What a user sees of a job; the bookkeeping columns stay internal */
+export type CalendarJobView = Omit<CalendarJob, 'cursor' | 'attempts' | 'lockedUntil'>;
+
+const toView = ({ cursor: _cursor, attempts: _attempts, lockedUntil: _lockedUntil, ...job }: CalendarJob) => job;
+
+/**
+ * A job that cannot go on, such as one whose calendar was disconnected; it fails without retries
+ */
+class CalendarJobAbort extends Error {}
+
+interface ChunkResult {
+  changes: Partial<CalendarJob>;
+  done: boolean;
+}
+
+/** Tasks a backfill pushes: a time range, no event, and not synced or queued yet */
+const backfillCondition = (userId: string) =>
+  and(
+    eq(tasks.userId, userId),
+    isNotNull(tasks.startTime),
+    isNotNull(tasks.endTime),
+    isNull(tasks.calendarEventId),
+    isNull(tasks.calendarSyncState),
+  );
+
+const unfinishedJob = async (userId: string, type: CalendarJobType, executor: DbExecutor) => {
+  const [job] = await executor
+    .select()
+    .from(calendarJobs)
+    .where(
+      and(
+        eq(calendarJobs.userId, userId),
+        eq(calendarJobs.type, type),
+        inArray(calendarJobs.status, UNFINISHED_STATUSES),
+      ),
+    )
+    .limit(1);
+  return job;
+};
+
+/**
+ * Queue a backfill of the user's unsynced tasks
+ * - Pass the transaction executor of the connection change so both commit together
+ *
+ * @returns The new job, or the unfinished backfill the user already has
+ */
+export async function startCalendarBackfill(userId: string, executor: DbExecutor = db): Promise<CalendarJobView> {
+  const [job] = await executor
+    .insert(calendarJobs)
+    .values({ userId, type: 'backfill' })
+    .onConflictDoNothing()
+    .returning();
+
+  if (!job) {
+    return toView(await unfinishedJob(userId, 'backfill', executor));
+  }
+
+  logger.info('Calendar backfill queued', { userId, jobId: job.id });
+  return toView(job);
+}
+
+/**
+ * Queue an import of the events of a calendar range as tasks
+ * - Without a calendar id the default calendar of the calendar preferences is read
+ *
+ * @throws BadRequest if no calendar is connected
+ * @throws Conflict if an import of the user is still running
+ */
+export async function startCalendarImport(
+  userId: string,
+  input: { from: Date; to: Date; calendarId?: string },
+): Promise<CalendarJobView> {
+  const provider = await getUserCalendarProvider(userId);
+  if (!provider) {
+    throw ErrorHandler.BadRequest('No calendar is connected');
+  }
+
+  const calendarId = input.calendarId ?? (await getCalendarPreferences(userId, db, provider.id)).calendarId;
+
+  const [job] = await db
+    .insert(calendarJobs)
+    .values({
+      userId,
+      type: 'import',
+      provider: provider.id,
+      calendarId,
+      rangeStart: input.from,
+      rangeEnd: input.to,
+    })
+    .onConflictDoNothing()
+    .returning();
+
+  if (!job) {
+    throw ErrorHandler.Conflict('A calendar import is already running');
+  }
+
+  logger.info('Calendar import queued', { userId, jobId: job.id, provider: provider.id, calendarId });
+  return toView(job);
+}
+
+/**
+ * A job of the user, or null if there is none with this id
+ */
+export async function getCalendarJob(userId: string, jobId: string): Promise<CalendarJobView | null> {
+  const [job] = await db
+    .select()
+    .from(calendarJobs)
+    .where(and(eq(calendarJobs.id, jobId), eq(calendarJobs.userId, userId)))
+    .limit(1);
+  return job ? toView(job) : null;
+}
+
+/**
+ * The user's latest jobs, newest first
+ */
+export async function listCalendarJobs(userId: string, limit = 20): Promise<CalendarJobView[]> {
+  const jobs = await db
+    .select()
+    .from(calendarJobs)
+    .where(eq(calendarJobs.userId, userId))
+    .orderBy(desc(calendarJobs.createdAt))
+    .limit(limit);
+  return jobs.map(toView);
+}
+
+/**
+ * Push the next tasks of a backfill
+ * - The total is counted when the backfill starts; tasks synced in the meantime by other means are not revisited
+ */
+async function runBackfillChunk(job: CalendarJob, batchSize: number): Promise<ChunkResult> {
+  const provider = await getUserCalendarProvider(job.userId);
+  if (!provider) {
+    throw new CalendarJobAbort('No calendar is connected');
+  }
+
+  const total =
+    job.total ?? (await db.select({ count: count() }).from(tasks).where(backfillCondition(job.userId)))[0].count;
+
+  const batch = await db
+    .select({ id: tasks.id })
+    .from(tasks)
+    .where(and(backfillCondition(job.userId), job.cursor ? gt(tasks.id, job.cursor) : undefined))
+    .orderBy(asc(tasks.id))
+    .limit(batchSize);
+
+  let { created, skipped, failed } = job;
+  for (const task of batch) {
+    // Failures are recorded on the task, which the calendar sync retrier picks up
+    const state = await runTaskCalendarSync(job.userId, task.id);
+    if (state === 'synced') {
+      created++;
+    } else if (state === 'failed') {
+      failed++;
+    } else {
+      skipped++;
+    }
+  }
+
+  const processed = job.processed + batch.length;
+  const done = batch.length < batchSize;
+
+  return {
+    changes: {
+      provider: provider.id,
+      total: done ? processed : Math.max(total, processed),
+      processed,
+      created,
+      skipped,
+      failed,
+      cursor: batch.at(-1)?.id ?? job.cursor,
+    },
+    done,
+  };
+}
+
+/**
+ * Turn the next page of events of an import into tasks
+ * - The job's cursor holds the provider's token of the next page; a chunk repeated
+ *   after a crash lists the same page again, and events already linked to a task are skipped
+ * - Tasks from the user's default calendar follow the default; others keep their calendar
+ */
+async function runImportChunk(job: CalendarJob, batchSize: number): Promise<ChunkResult> {
+  const provider = getCalendarProvider(job.provider ?? '');
+  const connection = provider && (await provider.connect(job.userId));
+  if (!provider || !connection) {
+    throw new CalendarJobAbort('The calendar is no longer connected');
+  }
+
+  const requested = job.calendarId ?? PRIMARY_CALENDAR_ID;
+  const calendarId = requested === PRIMARY_CALENDAR_ID ? connection.defaultCalendarId : requested;
+  const prefs = await getCalendarPreferences(job.userId, db, provider.id);
+
+  const { events: batch, nextPageToken } = await connection.listEventPage(
+    calendarId,
+    { from: job.rangeStart as Date, to: job.rangeEnd as Date },
+    { pageToken: job.cursor, pageSize: batchSize },
+  );
+
+  let { created, skipped, failed } = job;
+  for (const event of batch) {
+    if (event.allDay) {
+      skipped++;
+      continue;
+    }
+
+    const [linked] = await db
+      .select({ id: tasks.id })
+      .from(tasks)
+      .where(
+        and(
+          eq(tasks.userId, job.userId),
+          eq(tasks.calendarEventProvider, provider.id),
+          eq(tasks.calendarEventId, event.id),
+        ),
+      )
+      .limit(1);
+    if (linked) {
+      skipped++;
+      continue;
+    }
+
+    try {
+      await db.insert(tasks).values({
+        userId: job.userId,
+        title: (event.title.trim() || 'Untitled event').slice(0, TITLE_MAX_LENGTH),
+        description: event.description,
+        startTime: event.start,
+        endTime: event.end,
+        calendarId: requested === prefs.calendarId ? null : requested,
+        calendarEventId: event.id,
+        calendarEventProvider: provider.id,
+        calendarEventCalendarId: calendarId,
+        calendarEventUpdatedAt: event.updatedAt,
+        calendarSyncState: 'synced',
+      });
+      created++;
+    } catch (err) {
+      failed++;
+      logger.warn('Failed to import calendar event as a task', {
+        userId: job.userId,
+        jobId: job.id,
+        calendarEventId: event.id,
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }
+
+  const processed = job.processed + batch.length;
+  const done = !nextPageToken;
+
+  return {
+    // The number of events is known once the last page is listed
+    changes: { total: done ? processed : null, processed, created, skipped, failed, cursor: nextPageToken },
+    done,
+  };
+}
+
+/**
+ * Claim the job that waited longest for its next chunk
+ * - Claimed with SKIP LOCKED and locked for LOCK_SECONDS, so several runners can work side by side
+ */
+async function claimDueJob(): Promise<CalendarJob | null> {
+  return db.transaction(async tx => {
+    const [due] = await tx
+      .select()
+      .from(calendarJobs)
+      .where(
+        and(
+          inArray(calendarJobs.status, UNFINISHED_STATUSES),
+          or(isNull(calendarJobs.lockedUntil), lte(calendarJobs.lockedUntil, new Date())),
+        ),
+      )
+      .orderBy(asc(calendarJobs.updatedAt))
+      .limit(1)
+      .for('update', { skipLocked: true });
+
+    if (!due) {
+      return null;
+    }
+
+    const now = new Date();
+    const [claimed] = await tx
+      .update(calendarJobs)
+      .set({
+        status: 'running',
+        lockedUntil: new Date(now.getTime() + LOCK_SECONDS * 1000),
+        startedAt: due.startedAt ?? now,
+        updatedAt: now,
+      })
+      .where(eq(calendarJobs.id, due.id))
+      .returning();
+    return claimed;
+  });
+}
+
+/**
+ * Claim a due job and run one chunk of it, recording the progress or the failure
+ *
+ * @returns Whether a job was due
+ */
+export async function runNextCalendarJobChunk(batchSize: number): Promise<boolean> {
+  const job = await claimDueJob();
+  if (!job) {
+    return false;
+  }
+
+  try {
+    const { changes, done } =
+      job.type === 'import' ? await runImportChunk(job, batchSize) : await runBackfillChunk(job, batchSize);
+
+    await db
+      .update(calendarJobs)
+      .set({
+        ...changes,
+        attempts: 0,
+        error: null,
+        lockedUntil: null,
+        updatedAt: new Date(),
+        ...(done && { status: 'completed', finishedAt: new Date() }),
+      })
+      .where(eq(calendarJobs.id, job.id));
+
+    if (done) {
+      logger.info('Calendar job completed', {
+        userId: job.userId,
+        jobId: job.id,
+        type: job.type,
+        total: changes.total,
+        created: changes.created,
+        skipped: changes.skipped,
+        failed: changes.failed,
+      });
+    }
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    const attempts = job.attempts + 1;
+    const gaveUp = err instanceof CalendarJobAbort || attempts >= CALENDAR_JOB_MAX_ATTEMPTS;
+
+    await db
+      .update(calendarJobs)
+      .set({
+        attempts,
+        error: message.slice(0, MAX_ERROR_LENGTH),
+        updatedAt: new Date(),
+        ...(gaveUp
+          ? { status: 'failed', lockedUntil: null, finishedAt: new Date() }
+          : { lockedUntil: new Date(Date.now() + RETRY_BASE_DELAY_SECONDS * 2 ** (attempts - 1) * 1000) }),
+      })
+      .where(eq(calendarJobs.id, job.id));
+
+    logger.warn(gaveUp ? 'Calendar job failed' : 'Calendar job chunk failed, retrying', {
+      userId: job.userId,
+      jobId: job.id,
+      type: job.type,
+      attempts,
+      error: message,
+    });
+  }
+
+  return true;
+}
@@ -0,0 +1,123 @@
+/**
+ * Calendar Preferences
+ *
+ * How a user's tasks are written to their calendar: the default target
+ * calendar (tasks can override it with `tasks.calendarId`) and the event
+ * options applied to every synced event. Preferences are kept per calendar
+ * provider, since calendar ids only mean something to their provider; users
+ * without saved preferences get `DEFAULT_CALENDAR_PREFERENCES`. Only the
+ * Google preferences can be changed so far; CalDAV events use the defaults.
+ *
+ * Changing the default calendar moves the pull sync over to it; existing
+ * events follow their tasks on the next push.
+ *
+ * @module utils/calendarPreferences
+ * @exports CALENDAR_EVENT_VISIBILITIES - Event visibilities a user can choose
+ * @exports DEFAULT_CALENDAR_PREFERENCES - Preferences of users who saved none
+ * @exports getCalendarPreferences - Loads the preferences of a user
+ * @exports saveCalendarPreferences - Updates the preferences of a user
+ * @exports taskLinkUrl - Frontend URL of a task
+ */
+
+import { and, eq } from 'drizzle-orm';
+import { db, type DbExecutor } from '@/db';
+import { calendarPreferences, calendarSyncs, users, type CalendarReminders } from '@/db/schemas';
+import { recordOutboxEvent } from '@/core/outbox';
+import { env } from '@/env';
+
+const PROVIDER = 'google';
+
+export const CALENDAR_EVENT_VISIBILITIES = ['default', 'public', 'private', 'confidential'] as const;
+
+export type CalendarEventVisibility = (typeof CALENDAR_EVENT_VISIBILITIES)[number];
+
+export interface CalendarPreferenceSettings {
+  calendarId: string;
+  colorId: string | null;
+  reminders: CalendarReminders | null;
+  visibility: CalendarEventVisibility;
+  includeTaskLink: boolean;
+}
+
+export const DEFAULT_CALENDAR_PREFERENCES: CalendarPreferenceSettings = {
+  calendarId: 'primary',
+  colorId: null,
+  reminders: null,
+  visibility: 'default',
+  includeTaskLink: true,
+};
+
+const preferenceCondition = (userId: string, provider: string) =>
+  and(eq(calendarPreferences.userId, userId), eq(calendarPreferences.provider, provider));
+
+/**
+ * Frontend URL of a task, from TASK_LINK_URL
+ */
+export const taskLinkUrl = (taskId: string) =>
+  (env.TASK_LINK_URL as string).replace(/\{id\}|%7Bid%7D/gi, encodeURIComponent(taskId));
+
+/**
+ * The user's calendar preferences for a provider, or the defaults if none were saved
+ */
+export async function getCalendarPreferences(
+  userId: string,
+  executor: DbExecutor = db,
+  provider = PROVIDER,
+): Promise<CalendarPreferenceSettings> {
+  const [row] = await executor
+    .select({
+      calendarId: calendarPreferences.calendarId,
+      colorId: calendarPreferences.colorId,
+      reminders: calendarPreferences.reminders,
+      visibility: calendarPreferences.visibility,
+      includeTaskLink: calendarPreferences.includeTaskLink,
+    })
+    .from(calendarPreferences)
+    .where(preferenceCondition(userId, provider))
+    .limit(1);
+
+  return row ? { ...row, visibility: row.visibility as CalendarEventVisibility } : { ...DEFAULT_CALENDAR_PREFERENCES };
+}
+
+/**
+ * Update the user's Google Calendar preferences; omitted fields keep their value
+ * - A new default calendar restarts the pull sync on it and re-opens its push channel
+ *
+ * @returns The preferences after the update
+ */
+export async function saveCalendarPreferences(
+  userId: string,
+  changes: Partial<CalendarPreferenceSettings>,
+): Promise<CalendarPreferenceSettings> {
+  return db.transaction(async tx => {
+    const current = await getCalendarPreferences(userId, tx);
+    const next = { ...current, ...changes };
+
+    await tx
+      .insert(calendarPreferences)
+      .values({ userId, provider: PROVIDER, ...next })
+      .onConflictDoUpdate({
+        target: [calendarPreferences.userId, calendarPreferences.provider],
+        set: { ...next, updatedAt: new Date() },
+      });
+
+    if (next.calendarId !== current.calendarId) {
+      const [user] = await tx
+        .select({ googleConnected: users.googleConnected })
+        .from(users)
+        .where(eq(users.id, userId))
+        .limit(1);
+
+      // The sync token belongs to the old calendar; the next pull is a full sync of the new one
+      await tx
+        .update(calendarSyncs)
+        .set({ calendarId: next.calendarId, syncToken: null, updatedAt: new Date() })
+        .where(and(eq(calendarSyncs.userId, userId), eq(calendarSyncs.provider, PROVIDER)));
+      if (user?.googleConnected) {
+        await recordOutboxEvent({ type: 'calendar.watch', payload: { userId } }, tx);
+      }
+    }
+
+    return next;
+  });
+}
@@ -0,0 +1,144 @@
+/**
+ * Task Calendar Sync State
+ *
+ * Every task synced to a calendar carries its sync state: `pending`
+ * while a push is queued, `synced` once the event matches the task, and
+ * `failed` after a push failed. Failed pushes are retried with exponential
+ * backoff by the calendar sync retrier until `CALENDAR_SYNC_MAX_ATTEMPTS`;
+ * after that the task stays failed until it changes or is resynced by hand.
+ *
+ * Pushes go through the outbox (`calendar.sync_task`); the outcome is
+ * recorded on the task instead of failing the outbox event, so the task
+ * state drives retries.
+ *
+ * @module utils/calendarSyncState
+ * @exports CALENDAR_SYNC_STATES - Sync states of a task
+ * @exports CALENDAR_SYNC_MAX_ATTEMPTS - Failed attempts before retries stop
+ * @exports CLEARED_CALENDAR_SYNC - Column values of a task that is not synced
+ * @exports queueTaskCalendarSync - Resets a task's sync state and queues a push
+ * @exports runTaskCalendarSync - Pushes a task and records the outcome
+ * @exports requeueDueCalendarSyncs - Queues the failed pushes whose retry is due
+ */
+
+import { and, asc, eq, lte, sql } from 'drizzle-orm';
+import { db, type DbExecutor } from '@/db';
+import { tasks, type Task } from '@/db/schemas';
+import { recordOutboxEvent } from '@/core/outbox';
+import logger from '@/core/logger';
+import { syncTaskToCalendar } from '@/utils/taskCalendar';
+
+export const CALENDAR_SYNC_STATES = ['pending', 'synced', 'failed'] as const;
+
+export type CalendarSyncState = (typeof CALENDAR_SYNC_STATES)[number];
+
+export const CALENDAR_SYNC_MAX_ATTEMPTS = 8;
+
+const RETRY_BASE_DELAY_SECONDS = 30;
+const RETRY_MAX_DELAY_SECONDS = 6 * 60 * 60;
+
+const MAX_ERROR_LENGTH = 1000;
+
+/** The nth failure waits base * 2^(n-1) seconds, capped; the last one is not retried */
+const retryAtAfterFailure = sql`case
+  when ${tasks.calendarSyncAttempts} + 1 >= ${CALENDAR_SYNC_MAX_ATTEMPTS} then null
+  else now() + make_interval(secs => least(
+    ${RETRY_BASE_DELAY_SECONDS} * power(2, ${tasks.calendarSyncAttempts}),
+    ${RETRY_MAX_DELAY_SECONDS}
+  ))
+end`;
+
+export const CLEARED_CALENDAR_SYNC = {
+  calendarSyncState: null,
+  calendarSyncAttempts: 0,
+  calendarSyncError: null,
+  calendarSyncRetryAt: null,
+} satisfies Partial<Task>;
+
+/**
+ * Reset the sync state of a task and queue a push of its current state
+ * - Pass the transaction executor of the task write so both commit together
+ *
+ * @returns The task with its new sync state
+ */
+export async function queueTaskCalendarSync(task: Pick<Task, 'id' | 'userId'>, executor: DbExecutor): Promise<Task> {
+  const [queued] = await executor
+    .update(tasks)
+    .set({ ...CLEARED_CALENDAR_SYNC, calendarSyncState: 'pending' })
+    .where(eq(tasks.id, task.id))
+    .returning();
+
+  await recordOutboxEvent({ type: 'calendar.sync_task', payload: { userId: task.userId, taskId: task.id } }, executor);
+  return queued;
+}
+
+/**
+ * Push a task to the user's calendar and record the outcome on the task
+ * - Failures are recorded, not thrown: the retrier picks the task up at its retry time
+ * - A task without a time range or a user without a calendar connection is no longer synced
+ *
+ * @returns The new sync state of the task; null when it is not synced
+ */
+export async function runTaskCalendarSync(userId: string, taskId: string): Promise<CalendarSyncState | null> {
+  try {
+    const eventId = await syncTaskToCalendar(userId, taskId);
+
+    await db
+      .update(tasks)
+      .set({
+        ...CLEARED_CALENDAR_SYNC,
+        calendarSyncState: eventId ? 'synced' : null,
+        calendarSyncAttemptedAt: new Date(),
+      })
+      .where(eq(tasks.id, taskId));
+
+    return eventId ? 'synced' : null;
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+
+    const [task] = await db
+      .update(tasks)
+      .set({
+        calendarSyncState: 'failed',
+        calendarSyncAttempts: sql`${tasks.calendarSyncAttempts} + 1`,
+        calendarSyncAttemptedAt: new Date(),
+        calendarSyncError: message.slice(0, MAX_ERROR_LENGTH),
+        calendarSyncRetryAt: retryAtAfterFailure,
+      })
+      .where(eq(tasks.id, taskId))
+      .returning({ attempts: tasks.calendarSyncAttempts, retryAt: tasks.calendarSyncRetryAt });
+
+    if (task) {
+      logger.warn('Calendar sync of task failed', { userId, taskId, ...task, error: message });
+    }
+    return 'failed';
+  }
+}
+
+/**
+ * Queue the failed pushes whose retry time has come
+ * - Claimed with SKIP LOCKED, so several retriers can run side by side
+ *
+ * @returns Number of tasks queued
+ */
+export async function requeueDueCalendarSyncs(limit: number): Promise<number> {
+  return db.transaction(async tx => {
+    const due = await tx
+      .select({ id: tasks.id, userId: tasks.userId })
+      .from(tasks)
+      .where(and(eq(tasks.calendarSyncState, 'failed'), lte(tasks.calendarSyncRetryAt, new Date())))
+      .orderBy(asc(tasks.calendarSyncRetryAt))
+      .limit(limit)
+      .for('update', { skipLocked: true });
+
+    for (const task of due) {
+      // The attempt count carries on, so the backoff keeps growing
+      await tx
+        .update(tasks)
+        .set({ calendarSyncState: 'pending', calendarSyncRetryAt: null })
+        .where(eq(tasks.id, task.id));
+      await recordOutboxEvent({ type: 'calendar.sync_task', payload: { userId: task.userId, taskId: task.id } }, tx);
+    }
+
+    return due.length;
+  });
+}
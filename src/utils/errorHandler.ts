@@ -92,6 +92,20 @@ export default class ErrorHandler extends Error {
     return new ErrorHandler(message, 500, ErrorType.DATABASE_ERROR, metadata);
   }
 
+  /**
+   * @param message - Error message
+   * @param retryAfterSeconds - Seconds until the client may retry (sent as Retry-After)
+   * @returns ErrorHandler instance for Rate Limit Error
+   */
+  static RateLimit(message: string, retryAfterSeconds?: number) {
+    return new ErrorHandler(
+      message,
+      429,
+      ErrorType.RATE_LIMIT,
+      retryAfterSeconds !== undefined ? { retryAfter: retryAfterSeconds } : undefined,
+    );
+  }
+
   /**
    * @param message - Error message
    * @returns ErrorHandler instance for Bad Request Error
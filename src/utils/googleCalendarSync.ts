@@ -0,0 +1,394 @@
+/**
+ * Google Calendar Pull Sync
+ *
+ * Brings edits and deletions made in Google Calendar back into `tasks`.
+ * Each user has one `calendar_syncs` row holding the sync token of the last
+ * pull, so a pull only lists events changed since. Google announces changes
+ * on a push channel (webhook); the scheduler renews channels before they
+ * expire and polls users whose channel could not be opened.
+ *
+ * Conflicts are settled per event by modification time: the event's
+ * `updated` against the task's `updatedAt`; the later one wins. A local win
+ * is pushed back to Google through the outbox. Event versions we wrote
+ * ourselves (`tasks.calendarEventUpdatedAt`) are skipped, so pushes do not
+ * come back as remote edits.
+ *
+ * Only the user's default calendar is pulled; tasks written to another
+ * calendar are pushed but not pulled. Events that are not linked to a task
+ * are ignored, and so are tasks synced to CalDAV (`utils/taskCalendar`).
+ *
+ * @module utils/googleCalendarSync
+ * @exports pullCalendarChanges - Applies the changes made in Google Calendar since the last pull
+ * @exports registerCalendarChannel - Opens (or replaces) the push channel of a user's calendar
+ * @exports stopCalendarChannel - Closes the push channel of a user's calendar
+ * @exports handleCalendarNotification - Checks a push notification and schedules a pull
+ * @exports findCalendarsDueForSync - Users whose calendar needs a poll or a channel renewal
+ */
+
+import { randomBytes, randomUUID, timingSafeEqual } from 'crypto';
+import { and, asc, eq, isNull, lt, or, sql } from 'drizzle-orm';
+import { db, type DbExecutor } from '@/db';
+import { calendarSyncs, tasks, users, type CalendarSync, type Task } from '@/db/schemas';
+import {
+  GoogleCalendarApiError,
+  listGoogleEventChanges,
+  stopGoogleChannel,
+  watchGoogleEvents,
+  type GoogleCalendarEvent,
+  type GoogleEventChanges,
+} from '@/core/calendar';
+import { recordOutboxEvent } from '@/core/outbox';
+import logger from '@/core/logger';
+import { env } from '@/env';
+import { getCalendarPreferences } from '@/utils/calendarPreferences';
+import { CLEARED_CALENDAR_SYNC, queueTaskCalendarSync } from '@/utils/calendarSyncState';
+import { expireOAuthAccessToken, getOAuthAccessToken } from '@/utils/oauthTokens';
+
+const PROVIDER = 'google';
+
+/** Lifetime requested for push channels; Google caps it at about a week */
+const CHANNEL_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+/** Channels expiring within this window are replaced */
+export const CHANNEL_RENEW_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+const TITLE_MAX_LENGTH = 255;
+
+export interface CalendarPullResult {
+  /** Tasks updated from their event */
+  updated: number;
+  /** Tasks deleted because their event was deleted */
+  deleted: number;
+  /** Tasks changed after their event, pushed back to Google */
+  pushed: number;
+  /** Events that are unlinked, unchanged or our own writes */
+  skipped: number;
+  /** Whether every event was listed because there was no valid sync token */
+  fullSync: boolean;
+}
+
+type EventOutcome = Exclude<keyof CalendarPullResult, 'fullSync'>;
+
+const webhookUrl = () =>
+  (env.CALENDAR_WEBHOOK_URL as string | undefined) ??
+  new URL('/api/calendar/google/notifications', env.API_URL as string).toString();
+
+const syncCondition = (userId: string) => and(eq(calendarSyncs.userId, userId), eq(calendarSyncs.provider, PROVIDER));
+
+/**
+ * Lock the user's sync row, creating it for the default calendar on first use
+ */
+async function lockCalendarSync(userId: string, executor: DbExecutor): Promise<CalendarSync> {
+  const { calendarId } = await getCalendarPreferences(userId, executor);
+  await executor.insert(calendarSyncs).values({ userId, provider: PROVIDER, calendarId }).onConflictDoNothing();
+
+  const [sync] = await executor.select().from(calendarSyncs).where(syncCondition(userId)).for('update');
+  return sync;
+}
+
+/**
+ * A rejected access token is refreshed on the next attempt
+ */
+async function expireTokenOnUnauthorized(userId: string, err: unknown) {
+  if (err instanceof GoogleCalendarApiError && err.status === 401) {
+    await expireOAuthAccessToken(PROVIDER, userId);
+  }
+}
+
+/**
+ * Start and end of a timed event; all-day events and broken ranges give null
+ */
+const eventTimeRange = (event: GoogleCalendarEvent) => {
+  const start = event.start?.dateTime ? new Date(event.start.dateTime) : null;
+  const end = event.end?.dateTime ? new Date(event.end.dateTime) : null;
+
+  if (!start || !end || Number.isNaN(start.getTime()) || Number.isNaN(end.getTime()) || start >= end) {
+    return null;
+  }
+  return { startTime: start, endTime: end };
+};
+
+/**
+ * Settle one changed event against its task
+ */
+async function applyCalendarEvent(
+  userId: string,
+  calendarId: string,
+  event: GoogleCalendarEvent,
+  executor: DbExecutor,
+): Promise<EventOutcome> {
+  const eventUpdatedAt = event.updated ? new Date(event.updated) : null;
+  if (!eventUpdatedAt) {
+    return 'skipped';
+  }
+
+  const [task]: Task[] = await executor
+    .select()
+    .from(tasks)
+    // Events moved to another calendar stay behind as cancelled; only the task's current calendar counts
+    .where(
+      and(
+        eq(tasks.userId, userId),
+        eq(tasks.calendarEventProvider, 'google'),
+        eq(tasks.calendarEventId, event.id),
+        eq(tasks.calendarEventCalendarId, calendarId),
+      ),
+    )
+    .limit(1)
+    .for('update');
+
+  // Unlinked event, or a version we wrote or have already applied
+  if (!task || (task.calendarEventUpdatedAt && eventUpdatedAt <= task.calendarEventUpdatedAt)) {
+    return 'skipped';
+  }
+
+  const cancelled = event.status === 'cancelled';
+
+  // The task changed after the event: push the task over the event
+  if (task.updatedAt > eventUpdatedAt) {
+    if (cancelled) {
+      // The event is gone; the push creates a new one
+      await executor
+        .update(tasks)
+        .set({
+          calendarEventId: null,
+          calendarEventProvider: null,
+          calendarEventCalendarId: null,
+          calendarEventUpdatedAt: null,
+        })
+        .where(eq(tasks.id, task.id));
+    }
+    if (!task.startTime || !task.endTime) {
+      return 'skipped';
+    }
+    await queueTaskCalendarSync(task, executor);
+    return 'pushed';
+  }
+
+  if (cancelled) {
+    await executor.delete(tasks).where(eq(tasks.id, task.id));
+    return 'deleted';
+  }
+
+  const summary = event.summary?.trim();
+  await executor
+    .update(tasks)
+    .set({
+      ...(summary && { title: summary.slice(0, TITLE_MAX_LENGTH) }),
+      description: event.description ?? null,
+      // All-day events keep the task's times
+      ...eventTimeRange(event),
+      calendarEventUpdatedAt: eventUpdatedAt,
+      // The task now matches its event
+      ...CLEARED_CALENDAR_SYNC,
+      calendarSyncState: 'synced',
+      updatedAt: new Date(),
+    })
+    .where(eq(tasks.id, task.id));
+
+  return 'updated';
+}
+
+/**
+ * Apply the changes made in Google Calendar since the last pull
+ * - Starts with a full listing when there is no sync token or Google expired it
+ * - Concurrent pulls for the same user wait for each other on the sync row
+ *
+ * @returns Counts per outcome, or null when the user has no usable Google token
+ * @throws GoogleCalendarApiError if Google rejects the listing or cannot be reached
+ */
+export async function pullCalendarChanges(userId: string): Promise<CalendarPullResult | null> {
+  const accessToken = await getOAuthAccessToken(PROVIDER, userId);
+  if (!accessToken) {
+    return null;
+  }
+
+  try {
+    return await db.transaction(async tx => {
+      const sync = await lockCalendarSync(userId, tx);
+
+      let fullSync = !sync.syncToken;
+      let changes: GoogleEventChanges;
+      try {
+        changes = await listGoogleEventChanges(accessToken, sync.calendarId, sync.syncToken);
+      } catch (err) {
+        if (!(err instanceof GoogleCalendarApiError && err.syncTokenExpired)) {
+          throw err;
+        }
+        logger.info('Google Calendar sync token expired; running a full sync', { userId });
+        fullSync = true;
+        changes = await listGoogleEventChanges(accessToken, sync.calendarId, null);
+      }
+
+      const result: CalendarPullResult = { updated: 0, deleted: 0, pushed: 0, skipped: 0, fullSync };
+      for (const event of changes.events) {
+        result[await applyCalendarEvent(userId, sync.calendarId, event, tx)]++;
+      }
+
+      await tx
+        .update(calendarSyncs)
+        .set({ syncToken: changes.nextSyncToken, lastSyncedAt: new Date(), updatedAt: new Date() })
+        .where(eq(calendarSyncs.id, sync.id));
+
+      return result;
+    });
+  } catch (err) {
+    await expireTokenOnUnauthorized(userId, err);
+    throw err;
+  }
+}
+
+/**
+ * Close a channel at Google; failures only mean notifications keep coming until it expires
+ */
+async function stopChannelQuietly(accessToken: string, userId: string, channelId: string, resourceId: string) {
+  try {
+    await stopGoogleChannel(accessToken, channelId, resourceId);
+  } catch (err) {
+    logger.warn('Failed to stop Google Calendar channel', {
+      userId,
+      channelId,
+      error: err instanceof Error ? err.message : String(err),
+    });
+  }
+}
+
+/**
+ * Open a push channel for the user's calendar, replacing the current one
+ * - Without a channel the scheduler polls the calendar instead, so a refused
+ *   channel (e.g. a webhook address that is not public HTTPS) is only logged
+ *
+ * @returns Whether a channel is open
+ */
+export async function registerCalendarChannel(userId: string): Promise<boolean> {
+  const accessToken = await getOAuthAccessToken(PROVIDER, userId);
+  if (!accessToken) {
+    return false;
+  }
+
+  try {
+    await db.transaction(async tx => {
+      const sync = await lockCalendarSync(userId, tx);
+      const token = randomBytes(32).toString('hex');
+
+      const channel = await watchGoogleEvents(accessToken, sync.calendarId, {
+        id: randomUUID(),
+        address: webhookUrl(),
+        token,
+        ttlSeconds: CHANNEL_TTL_SECONDS,
+      });
+
+      await tx
+        .update(calendarSyncs)
+        .set({
+          channelId: channel.id,
+          channelResourceId: channel.resourceId,
+          channelToken: token,
+          channelExpiresAt: new Date(channel.expiration),
+          updatedAt: new Date(),
+        })
+        .where(eq(calendarSyncs.id, sync.id));
+
+      // The new channel is in place before the old one goes
+      if (sync.channelId && sync.channelResourceId) {
+        await stopChannelQuietly(accessToken, userId, sync.channelId, sync.channelResourceId);
+      }
+    });
+  } catch (err) {
+    await expireTokenOnUnauthorized(userId, err);
+    logger.warn('Failed to open Google Calendar channel; the calendar will be polled', {
+      userId,
+      error: err instanceof Error ? err.message : String(err),
+    });
+    return false;
+  }
+
+  logger.info('Google Calendar channel opened', { userId });
+  return true;
+}
+
+/**
+ * Close the push channel of the user's calendar
+ * - Best effort: the channel is forgotten locally even if Google cannot be reached
+ */
+export async function stopCalendarChannel(userId: string): Promise<void> {
+  const [sync] = await db.select().from(calendarSyncs).where(syncCondition(userId)).limit(1);
+  if (!sync?.channelId || !sync.channelResourceId) {
+    return;
+  }
+
+  const accessToken = await getOAuthAccessToken(PROVIDER, userId).catch(() => null);
+  if (accessToken) {
+    await stopChannelQuietly(accessToken, userId, sync.channelId, sync.channelResourceId);
+  }
+
+  await db
+    .update(calendarSyncs)
+    .set({
+      channelId: null,
+      channelResourceId: null,
+      channelToken: null,
+      channelExpiresAt: null,
+      updatedAt: new Date(),
+    })
+    .where(eq(calendarSyncs.id, sync.id));
+}
+
+export interface CalendarNotification {
+  channelId?: string;
+  channelToken?: string;
+  resourceId?: string;
+  resourceState?: string;
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const tokensMatch = (expected: string, received: string) =>
+  expected.length === received.length && timingSafeEqual(Buffer.from(expected), Buffer.from(received));
+
+/**
+ * Check a push notification against the stored channel and schedule a pull for changes
+ * - `sync` only confirms a new channel; `exists` means events changed
+ *
+ * @returns Whether the notification belongs to an open channel
+ */
+export async function handleCalendarNotification(notification: CalendarNotification): Promise<boolean> {
+  const { channelId, channelToken, resourceId, resourceState } = notification;
+  if (!channelId || !UUID_PATTERN.test(channelId) || !channelToken || !resourceId) {
+    return false;
+  }
+
+  const [sync] = await db.select().from(calendarSyncs).where(eq(calendarSyncs.channelId, channelId)).limit(1);
+  if (!sync?.channelToken || sync.channelResourceId !== resourceId || !tokensMatch(sync.channelToken, channelToken)) {
+    return false;
+  }
+
+  if (resourceState === 'exists') {
+    await recordOutboxEvent({ type: 'calendar.pull_changes', payload: { userId: sync.userId } });
+  }
+  return true;
+}
+
+/**
+ * Users connected to Google whose calendar has no channel, or one that expires soon
+ * - Oldest pulls first
+ */
+export async function findCalendarsDueForSync(limit: number): Promise<string[]> {
+  const rows = await db
+    .select({ userId: users.id })
+    .from(users)
+    .leftJoin(calendarSyncs, and(eq(calendarSyncs.userId, users.id), eq(calendarSyncs.provider, PROVIDER)))
+    .where(
+      and(
+        eq(users.googleConnected, true),
+        or(
+          isNull(calendarSyncs.channelExpiresAt),
+          lt(calendarSyncs.channelExpiresAt, new Date(Date.now() + CHANNEL_RENEW_WINDOW_MS)),
+        ),
+      ),
+    )
+    .orderBy(sql`${calendarSyncs.lastSyncedAt} asc nulls first`, asc(users.id))
+    .limit(limit);
+
+  return rows.map(row => row.userId);
+}
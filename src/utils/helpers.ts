@@ -9,3 +9,9 @@ export const hashPassword = async (password: string): Promise<string> => {
 export const comparePasswords = async (plainPassword: string, hashedPassword: string): Promise<boolean> => {
   return bcrypt.compare(plainPassword, hashedPassword);
 };
+
+/**
+ * Build a LIKE / ILIKE pattern matching values that contain the search text literally
+ * - `%`, `_` and `\` are escaped with a backslash, Postgres's default LIKE escape character
+ */
+export const containsPattern = (search: string): string => `%${search.replace(/[\\%_]/g, '\\$&')}%`;
@@ -0,0 +1,62 @@
+/**
+ * Image Processing Utilities
+ *
+ * Decodes user-uploaded images with sharp and re-encodes them, so only
+ * images we produced ourselves are ever served back to clients.
+ *
+ * @module utils/image
+ * @exports processAvatarImage - Validates an avatar and renders the avatar and thumbnail sizes
+ */
+
+import sharp from 'sharp';
+import ErrorHandler from '@/utils/errorHandler';
+
+const AVATAR_SIZE = 512;
+const THUMBNAIL_SIZE = 128;
+const MAX_INPUT_PIXELS = 40_000_000;
+
+const FORMAT_CONTENT_TYPES: Record<string, string> = {
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+};
+
+export interface ProcessedAvatar {
+  /** Content type detected from the image data, not the one declared by the client */
+  sourceContentType: string;
+  avatar: Buffer;
+  thumbnail: Buffer;
+}
+
+const render = (input: Buffer, size: number) =>
+  sharp(input, { limitInputPixels: MAX_INPUT_PIXELS })
+    .rotate()
+    .resize(size, size, { fit: 'cover' })
+    .webp({ quality: 85 })
+    .toBuffer();
+
+/**
+ * Validate an uploaded avatar and render square WebP avatar and thumbnail images
+ * - EXIF orientation is applied and metadata is stripped
+ * @throws BadRequest if the data is not a JPEG, PNG or WebP image
+ */
+export async function processAvatarImage(input: Buffer): Promise<ProcessedAvatar> {
+  let format: string | undefined;
+  try {
+    ({ format } = await sharp(input, { limitInputPixels: MAX_INPUT_PIXELS }).metadata());
+  } catch {
+    throw ErrorHandler.BadRequest('Uploaded file is not a valid image');
+  }
+
+  const sourceContentType = format ? FORMAT_CONTENT_TYPES[format] : undefined;
+  if (!sourceContentType) {
+    throw ErrorHandler.BadRequest('Unsupported image format. Use JPEG, PNG or WebP');
+  }
+
+  try {
+    const [avatar, thumbnail] = await Promise.all([render(input, AVATAR_SIZE), render(input, THUMBNAIL_SIZE)]);
+    return { sourceContentType, avatar, thumbnail };
+  } catch {
+    throw ErrorHandler.BadRequest('Uploaded image could not be processed');
+  }
+}
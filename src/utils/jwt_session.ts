@@ -1,16 +1,327 @@
+/**
+ * JWT Session Utilities
+ *
+ * Issues short-lived access tokens backed by a server-side session row and
+ * rotating refresh tokens. Refresh tokens have the form `<sessionId>.<secret>`;
+ * only the SHA-256 hash of the current secret is persisted. Presenting any
+ * other secret for a session means an old token was replayed, in which case
+ * the whole session (token family) is revoked.
+ *
+ * @module utils/jwt_session
+ * @exports generateJWTandSetCookie - Creates a session and sets auth cookies
+ * @exports rotateRefreshToken - Rotates a refresh token and issues a new access token
+ * @exports revokeSession - Revokes a single session
+ * @exports revokeAllUserSessions - Revokes every active session of a user
+ * @exports revokeOtherUserSessions - Revokes every active session except the current one
+ * @exports clearAuthCookies - Clears access and refresh token cookies
+ * @exports signMfaChallengeToken - Issues a short-lived "mfa pending" token
+ * @exports verifyMfaChallengeToken - Verifies an "mfa pending" token
+ * @exports setMfaChallengeCookie - Hands an "mfa pending" token to the browser in a cookie
+ * @exports clearMfaChallengeCookie - Clears the "mfa pending" cookie
+ */
+
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
 import jwt from 'jsonwebtoken';
-import type { Response as ExpressResponse } from 'express';
+import { and, eq, isNull, ne } from 'drizzle-orm';
+import type { Request as ExpressRequest, Response as ExpressResponse } from 'express';
 import { env } from '@/env';
+import { db, type DbExecutor } from '@/db';
+import { sessions } from '@/db/schemas';
+import ErrorHandler from '@/utils/errorHandler';
+import logger from '@/core/logger';
+
+export const ACCESS_TOKEN_COOKIE = 'token';
+export const REFRESH_TOKEN_COOKIE = 'refreshToken';
+const REFRESH_TOKEN_COOKIE_PATH = '/api/auth';
+const MFA_CHALLENGE_PURPOSE = 'mfa_pending';
+const MFA_CHALLENGE_TTL = '5m';
+export const MFA_CHALLENGE_COOKIE = 'mfaToken';
+const MFA_CHALLENGE_COOKIE_PATH = '/api/auth/login/mfa';
+const MFA_CHALLENGE_COOKIE_MAX_AGE_MS = 5 * 60 * 1000;
+
+export interface AccessTokenPayload {
+  userId: string;
+  sessionId: string;
+}
+
+export interface SessionContext {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+export interface IssuedTokens {
+  accessToken: string;
+  refreshToken: string;
+  sessionId: string;
+  userId: string;
+}
+
+/**
+ * Extract client metadata stored alongside a session
+ */
+export const getSessionContext = (req: ExpressRequest): SessionContext => ({
+  userAgent: req.headers['user-agent']?.slice(0, 500),
+  ipAddress: req.ip,
+});
+
+/**
+ * Read a cookie value from the raw Cookie header
+ */
+export const readCookie = (req: ExpressRequest, name: string): string | null => {
+  const cookieHeader = req.headers.cookie;
+  if (!cookieHeader || typeof cookieHeader !== 'string') {
+    return null;
+  }
+
+  const cookie = cookieHeader
+    .split(';')
+    .map(c => c.trim())
+    .find(c => c.startsWith(`${name}=`));
+
+  return cookie ? decodeURIComponent(cookie.slice(name.length + 1)) : null;
+};
 
-export const generateJWTandSetCookie = (res: ExpressResponse, userId: string) => {
-  const token = jwt.sign({ userId }, env.JWT_SECRET_KEY as string, { expiresIn: '7d' });
+const hashToken = (secret: string) => createHash('sha256').update(secret).digest('hex');
 
-  res.cookie('token', token, {
+const hashesMatch = (a: string, b: string) => {
+  const bufA = Buffer.from(a, 'hex');
+  const bufB = Buffer.from(b, 'hex');
+  return bufA.length === bufB.length && timingSafeEqual(bufA, bufB);
+};
+
+const signAccessToken = (userId: string, sessionId: string) =>
+  jwt.sign({ userId, sessionId } satisfies AccessTokenPayload, env.JWT_SECRET_KEY as string, {
+    expiresIn: env.ACCESS_TOKEN_TTL as jwt.SignOptions['expiresIn'],
+  });
+
+const setAuthCookies = (res: ExpressResponse, accessToken: string, refreshToken: string, refreshExpiresAt: Date) => {
+  const decoded = jwt.decode(accessToken) as { exp?: number } | null;
+
+  res.cookie(ACCESS_TOKEN_COOKIE, accessToken, {
     httpOnly: true,
     secure: env.NODE_ENV === 'production',
     sameSite: 'strict',
-    maxAge: 7 * 24 * 60 * 60 * 1000,
+    maxAge: decoded?.exp ? decoded.exp * 1000 - Date.now() : undefined,
   });
 
-  return token;
+  res.cookie(REFRESH_TOKEN_COOKIE, refreshToken, {
+    httpOnly: true,
+    secure: env.NODE_ENV === 'production',
+    sameSite: 'strict',
+    path: REFRESH_TOKEN_COOKIE_PATH,
+    expires: refreshExpiresAt,
+  });
+};
+
+/**
+ * Clear access and refresh token cookies
+ */
+export const clearAuthCookies = (res: ExpressResponse) => {
+  res.clearCookie(ACCESS_TOKEN_COOKIE, {
+    httpOnly: true,
+    secure: env.NODE_ENV === 'production',
+    sameSite: 'strict',
+    path: '/',
+  });
+  res.clearCookie(REFRESH_TOKEN_COOKIE, {
+    httpOnly: true,
+    secure: env.NODE_ENV === 'production',
+    sameSite: 'strict',
+    path: REFRESH_TOKEN_COOKIE_PATH,
+  });
+};
+
+/**
+ * Create a new session for the user, then set access and refresh token cookies
+ * @returns The issued access and refresh tokens
+ */
+export const generateJWTandSetCookie = async (
+  res: ExpressResponse,
+  userId: string,
+  context: SessionContext = {},
+): Promise<IssuedTokens> => {
+  const secret = randomBytes(32).toString('base64url');
+  const expiresAt = new Date(Date.now() + (env.REFRESH_TOKEN_TTL_DAYS as number) * 24 * 60 * 60 * 1000);
+
+  const [session] = await db
+    .insert(sessions)
+    .values({
+      userId,
+      refreshTokenHash: hashToken(secret),
+      userAgent: context.userAgent,
+      ipAddress: context.ipAddress,
+      expiresAt,
+    })
+    .returning({ id: sessions.id });
+
+  const accessToken = signAccessToken(userId, session.id);
+  const refreshToken = `${session.id}.${secret}`;
+
+  setAuthCookies(res, accessToken, refreshToken, expiresAt);
+
+  return { accessToken, refreshToken, sessionId: session.id, userId };
+};
+
+/**
+ * Revoke a single session
+ */
+export const revokeSession = async (sessionId: string, reason: string) => {
+  await db
+    .update(sessions)
+    .set({ revokedAt: new Date(), revokedReason: reason })
+    .where(and(eq(sessions.id, sessionId), isNull(sessions.revokedAt)));
+};
+
+/**
+ * Revoke every active session of a user (e.g. after a password change)
+ * @returns Number of sessions revoked
+ */
+export const revokeAllUserSessions = async (userId: string, reason: string, executor: DbExecutor = db) => {
+  const revoked = await executor
+    .update(sessions)
+    .set({ revokedAt: new Date(), revokedReason: reason })
+    .where(and(eq(sessions.userId, userId), isNull(sessions.revokedAt)))
+    .returning({ id: sessions.id });
+
+  return revoked.length;
+};
+
+/**
+ * Revoke every active session of a user except the one making the request
+ * @returns Number of sessions revoked
+ */
+export const revokeOtherUserSessions = async (
+  userId: string,
+  currentSessionId: string,
+  reason: string,
+  executor: DbExecutor = db,
+) => {
+  const revoked = await executor
+    .update(sessions)
+    .set({ revokedAt: new Date(), revokedReason: reason })
+    .where(and(eq(sessions.userId, userId), ne(sessions.id, currentSessionId), isNull(sessions.revokedAt)))
+    .returning({ id: sessions.id });
+
+  return revoked.length;
+};
+
+/**
+ * Rotate a refresh token
+ * - Validates the presented token against the stored hash
+ * - Revokes the whole session if an already-rotated token is replayed
+ * - Stores the hash of a fresh secret and issues a new access token
+ * @throws AuthError if the token is malformed, unknown, revoked, expired or reused
+ */
+export const rotateRefreshToken = async (
+  res: ExpressResponse,
+  refreshToken: string,
+  context: SessionContext = {},
+): Promise<IssuedTokens> => {
+  const [sessionId, secret] = refreshToken.split('.');
+  if (!sessionId || !secret || !/^[0-9a-f-]{36}$/i.test(sessionId)) {
+    throw ErrorHandler.AuthError('Invalid refresh token');
+  }
+
+  const [session] = await db.select().from(sessions).where(eq(sessions.id, sessionId)).limit(1);
+
+  if (!session) {
+    throw ErrorHandler.AuthError('Invalid refresh token');
+  }
+
+  if (session.revokedAt) {
+    throw ErrorHandler.AuthError('Session has been revoked');
+  }
+
+  const presentedHash = hashToken(secret);
+
+  if (!hashesMatch(presentedHash, session.refreshTokenHash)) {
+    await revokeSession(session.id, 'reuse_detected');
+    logger.warn('Refresh token reuse detected, session revoked', {
+      sessionId: session.id,
+      userId: session.userId,
+      ipAddress: context.ipAddress,
+    });
+    throw ErrorHandler.AuthError('Refresh token reuse detected');
+  }
+
+  if (session.expiresAt < new Date()) {
+    await revokeSession(session.id, 'expired');
+    throw ErrorHandler.AuthError('Session expired');
+  }
+
+  const nextSecret = randomBytes(32).toString('base64url');
+
+  // Only rotate if nobody else rotated this token concurrently
+  const [rotated] = await db
+    .update(sessions)
+    .set({ refreshTokenHash: hashToken(nextSecret), lastUsedAt: new Date(), ipAddress: context.ipAddress })
+    .where(and(eq(sessions.id, session.id), eq(sessions.refreshTokenHash, presentedHash), isNull(sessions.revokedAt)))
+    .returning({ id: sessions.id });
+
+  if (!rotated) {
+    await revokeSession(session.id, 'reuse_detected');
+    throw ErrorHandler.AuthError('Refresh token reuse detected');
+  }
+
+  const accessToken = signAccessToken(session.userId, session.id);
+  const nextRefreshToken = `${session.id}.${nextSecret}`;
+
+  setAuthCookies(res, accessToken, nextRefreshToken, session.expiresAt);
+
+  return { accessToken, refreshToken: nextRefreshToken, sessionId: session.id, userId: session.userId };
+};
+
+/**
+ * Issue a short-lived token proving the password step of login succeeded.
+ * It carries no session id, so authMiddleware never accepts it.
+ */
+export const signMfaChallengeToken = (userId: string) =>
+  jwt.sign({ userId, purpose: MFA_CHALLENGE_PURPOSE }, env.JWT_SECRET_KEY as string, {
+    expiresIn: MFA_CHALLENGE_TTL,
+  });
+
+/**
+ * Verify an "mfa pending" token
+ * @returns The user id the challenge was issued for
+ * @throws AuthError if the token is invalid, expired or not an MFA challenge
+ */
+export const verifyMfaChallengeToken = (token: string): string => {
+  try {
+    const payload = jwt.verify(token, env.JWT_SECRET_KEY as string) as { userId?: string; purpose?: string };
+    if (payload.purpose !== MFA_CHALLENGE_PURPOSE || !payload.userId) {
+      throw ErrorHandler.AuthError('Invalid MFA challenge');
+    }
+    return payload.userId;
+  } catch (error) {
+    if (error instanceof ErrorHandler) {
+      throw error;
+    }
+    throw ErrorHandler.AuthError('MFA challenge expired or invalid');
+  }
+};
+
+/**
+ * Hand an "mfa pending" token to the browser in a cookie only sent to POST /api/auth/login/mfa
+ * - Used by redirect-based sign-ins, where a token in the URL would leak into history and logs
+ */
+export const setMfaChallengeCookie = (res: ExpressResponse, token: string) => {
+  res.cookie(MFA_CHALLENGE_COOKIE, token, {
+    httpOnly: true,
+    secure: env.NODE_ENV === 'production',
+    sameSite: 'strict',
+    path: MFA_CHALLENGE_COOKIE_PATH,
+    maxAge: MFA_CHALLENGE_COOKIE_MAX_AGE_MS,
+  });
+};
+
+/**
+ * Clear the "mfa pending" cookie
+ */
+export const clearMfaChallengeCookie = (res: ExpressResponse) => {
+  res.clearCookie(MFA_CHALLENGE_COOKIE, {
+    httpOnly: true,
+    secure: env.NODE_ENV === 'production',
+    sameSite: 'strict',
+    path: MFA_CHALLENGE_COOKIE_PATH,
+  });
 };
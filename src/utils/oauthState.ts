@@ -0,0 +1,196 @@
+/**
+ * OAuth State
+ *
+ * Protects OAuth callbacks against forged or replayed requests. Starting a
+ * flow stores a row in `oauth_states` holding a PKCE code verifier, and sends
+ * the provider a signed, short-lived JWT naming that row (and the user, for
+ * connect flows). The callback only accepts a state whose signature, purpose,
+ * provider and expiry check out, and consumes the row so the same state
+ * cannot be used twice.
+ *
+ * Every flow is also bound to the browser that started it: it gets an
+ * httpOnly cookie holding a hash of the nonce, and the callback must present
+ * it. Otherwise someone could start a sign-in with their own account and have
+ * a victim open the callback URL, signing the victim into the wrong account,
+ * or start a connect flow and have a victim complete it with their provider
+ * account, handing the victim's calendar to the attacker.
+ *
+ * @module utils/oauthState
+ * @exports createOAuthState - Starts a flow and returns the state, nonce and PKCE challenge
+ * @exports consumeOAuthState - Verifies a returned state and yields the flow it belongs to
+ * @exports setOAuthBindingCookie - Binds a flow to the browser that started it
+ * @exports readOAuthBindingCookie - Reads the browser binding sent to a callback
+ * @exports clearOAuthBindingCookie - Clears the browser binding once a callback ran
+ */
+
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import jwt from 'jsonwebtoken';
+import type { Request as ExpressRequest, Response as ExpressResponse } from 'express';
+import { and, eq, gt, isNull, lt } from 'drizzle-orm';
+import { env } from '@/env';
+import { db } from '@/db';
+import { oauthStates } from '@/db/schemas';
+import type { OAuthPurpose } from '@/core/oauth';
+import ErrorHandler from '@/utils/errorHandler';
+import { readCookie } from '@/utils/jwt_session';
+
+const OAUTH_STATE_PURPOSE = 'oauth_state';
+const OAUTH_STATE_TTL_SECONDS = 10 * 60;
+const OAUTH_BINDING_COOKIE = 'oauthBinding';
+// Every OAuth callback lives below this path
+const OAUTH_BINDING_COOKIE_PATH = '/api/auth';
+
+interface OAuthStatePayload {
+  purpose?: string;
+  provider?: string;
+  flow?: string;
+  nonce?: string;
+  sub?: string;
+}
+
+export interface OAuthStateStart {
+  /** Value for the `state` parameter of the authorization URL */
+  state: string;
+  /** Single-use id of the flow; sign-in flows send it as the OpenID Connect nonce */
+  nonce: string;
+  /** PKCE S256 challenge for the `code_challenge` parameter */
+  codeChallenge: string;
+}
+
+export interface ConsumedOAuthState {
+  purpose: OAuthPurpose;
+  /** The signed-in user who started a connect flow; null for sign-in flows */
+  userId: string | null;
+  nonce: string;
+  codeVerifier: string;
+}
+
+const hashNonce = (nonce: string) => createHash('sha256').update(nonce).digest('hex');
+
+const oauthBindingCookieOptions = () => ({
+  httpOnly: true,
+  secure: env.NODE_ENV === 'production',
+  // Lax, not strict: the callback is a top-level navigation coming from the provider's site
+  sameSite: 'lax' as const,
+  path: OAUTH_BINDING_COOKIE_PATH,
+});
+
+/**
+ * Bind a flow to the browser that started it
+ * - Stores a hash of the flow's nonce in an httpOnly cookie sent to the callbacks
+ */
+export const setOAuthBindingCookie = (res: ExpressResponse, nonce: string) => {
+  res.cookie(OAUTH_BINDING_COOKIE, hashNonce(nonce), {
+    ...oauthBindingCookieOptions(),
+    maxAge: OAUTH_STATE_TTL_SECONDS * 1000,
+  });
+};
+
+/**
+ * Browser binding sent to a callback, if any
+ */
+export const readOAuthBindingCookie = (req: ExpressRequest): string | null => readCookie(req, OAUTH_BINDING_COOKIE);
+
+/**
+ * Clear the browser binding once a callback ran
+ */
+export const clearOAuthBindingCookie = (res: ExpressResponse) => {
+  res.clearCookie(OAUTH_BINDING_COOKIE, oauthBindingCookieOptions());
+};
+
+const bindingMatches = (nonce: string, binding: string | null) => {
+  if (!binding) {
+    return false;
+  }
+  const expected = Buffer.from(hashNonce(nonce), 'hex');
+  const actual = Buffer.from(binding, 'hex');
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+};
+
+/**
+ * Start an OAuth flow
+ * - Connect flows must name the signed-in user; sign-in flows have none yet
+ * - Expired states of every user are pruned on the way
+ */
+export async function createOAuthState(
+  provider: string,
+  flow: { purpose: 'connect'; userId: string } | { purpose: 'login' },
+): Promise<OAuthStateStart> {
+  const codeVerifier = randomBytes(32).toString('base64url');
+  const codeChallenge = createHash('sha256').update(codeVerifier).digest('base64url');
+  const expiresAt = new Date(Date.now() + OAUTH_STATE_TTL_SECONDS * 1000);
+  const userId = flow.purpose === 'connect' ? flow.userId : null;
+
+  await db.delete(oauthStates).where(lt(oauthStates.expiresAt, new Date()));
+
+  const [row] = await db
+    .insert(oauthStates)
+    .values({ userId, provider, purpose: flow.purpose, codeVerifier, expiresAt })
+    .returning({ id: oauthStates.id });
+
+  const state = jwt.sign(
+    { purpose: OAUTH_STATE_PURPOSE, provider, flow: flow.purpose, nonce: row.id },
+    env.JWT_SECRET_KEY as string,
+    { expiresIn: OAUTH_STATE_TTL_SECONDS, ...(userId && { subject: userId }) },
+  );
+
+  return { state, nonce: row.id, codeChallenge };
+}
+
+/**
+ * Verify the state returned to an OAuth callback and consume it
+ * - The callback must also present the binding cookie set when the flow started (`binding`)
+ *
+ * @returns The flow the state was issued for and its PKCE code verifier
+ * @throws AuthError if the state is forged, expired, for another provider, already used,
+ *         or the flow returns to a browser that did not start it
+ */
+export async function consumeOAuthState(
+  state: string,
+  provider: string,
+  binding: string | null,
+): Promise<ConsumedOAuthState> {
+  let payload: OAuthStatePayload;
+  try {
+    payload = jwt.verify(state, env.JWT_SECRET_KEY as string) as OAuthStatePayload;
+  } catch {
+    throw ErrorHandler.AuthError('OAuth state expired or invalid');
+  }
+
+  const { nonce, sub } = payload;
+  const flow: OAuthPurpose | null = payload.flow === 'connect' || payload.flow === 'login' ? payload.flow : null;
+
+  // connect flows are bound to a user, sign-in flows to none
+  if (
+    payload.purpose !== OAUTH_STATE_PURPOSE ||
+    payload.provider !== provider ||
+    !nonce ||
+    !flow ||
+    (flow === 'connect') !== Boolean(sub)
+  ) {
+    throw ErrorHandler.AuthError('OAuth state expired or invalid');
+  }
+
+  if (!bindingMatches(nonce, binding)) {
+    throw ErrorHandler.AuthError('OAuth flow was started in another browser');
+  }
+
+  const [row] = await db
+    .delete(oauthStates)
+    .where(
+      and(
+        eq(oauthStates.id, nonce),
+        sub ? eq(oauthStates.userId, sub) : isNull(oauthStates.userId),
+        eq(oauthStates.provider, provider),
+        eq(oauthStates.purpose, flow),
+        gt(oauthStates.expiresAt, new Date()),
+      ),
+    )
+    .returning({ userId: oauthStates.userId, codeVerifier: oauthStates.codeVerifier });
+
+  if (!row) {
+    throw ErrorHandler.AuthError('OAuth state expired or already used');
+  }
+
+  return { purpose: flow, userId: row.userId, nonce, codeVerifier: row.codeVerifier };
+}
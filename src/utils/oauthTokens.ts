@@ -0,0 +1,197 @@
+/**
+ * OAuth Token Lifecycle
+ *
+ * Each user has at most one row per provider in `auth_tokens`. Access tokens
+ * are short-lived; once the stored `expiresAt` has passed (or is about to),
+ * the refresh token is exchanged for a new access token and the row is
+ * rotated in place. If the provider reports the refresh token as revoked, the
+ * row is removed and the user is marked as no longer connected, so calendar
+ * sync stops quietly instead of failing on every task change.
+ *
+ * Provider endpoints come from the registry in `core/oauth`.
+ *
+ * @module utils/oauthTokens
+ * @exports saveOAuthTokens - Stores the tokens of a completed connect flow
+ * @exports getOAuthAccessToken - Returns a valid access token, refreshing if needed
+ * @exports expireOAuthAccessToken - Forces a refresh on the next use
+ * @exports revokeOAuthTokens - Revokes the user's grant with the provider
+ * @exports clearOAuthTokens - Deletes the stored tokens and marks the user as disconnected
+ */
+
+import { and, eq } from 'drizzle-orm';
+import { db, type DbExecutor } from '@/db';
+import { authTokens } from '@/db/schemas';
+import { getOAuthProvider, refreshAccessToken, revokeToken, type OAuthProvider, type OAuthTokens } from '@/core/oauth';
+import logger from '@/core/logger';
+
+/** Refresh slightly early so a token does not expire mid-request */
+const EXPIRY_MARGIN_MS = 60 * 1000;
+
+const DEFAULT_TOKEN_LIFETIME_SECONDS = 3600;
+
+const expiryFrom = (expiresIn?: number) => new Date(Date.now() + (expiresIn ?? DEFAULT_TOKEN_LIFETIME_SECONDS) * 1000);
+
+const tokenCondition = (providerId: string, userId: string) =>
+  and(eq(authTokens.userId, userId), eq(authTokens.provider, providerId));
+
+const requireProvider = (providerId: string): OAuthProvider => {
+  const provider = getOAuthProvider(providerId);
+  if (!provider) {
+    throw new Error(`OAuth provider ${providerId} is not registered`);
+  }
+  return provider;
+};
+
+/**
+ * Store the tokens of a completed connect flow and mark the user as connected
+ * - Replaces the user's previous tokens for the provider
+ * - Providers omit the refresh token when the user had already granted access;
+ *   the stored one is kept in that case
+ */
+export async function saveOAuthTokens(providerId: string, userId: string, tokens: OAuthTokens) {
+  const provider = requireProvider(providerId);
+  const expiresAt = expiryFrom(tokens.expires_in);
+
+  await db.transaction(async tx => {
+    await tx
+      .insert(authTokens)
+      .values({
+        userId,
+        accessToken: tokens.access_token,
+        refreshToken: tokens.refresh_token ?? '',
+        provider: provider.id,
+        expiresAt,
+      })
+      .onConflictDoUpdate({
+        target: [authTokens.userId, authTokens.provider],
+        set: {
+          accessToken: tokens.access_token,
+          expiresAt,
+          ...(tokens.refresh_token && { refreshToken: tokens.refresh_token }),
+        },
+      });
+
+    await provider.onConnectionChange?.(userId, true, tx);
+  });
+}
+
+/**
+ * Delete the user's tokens for a provider and mark the user as disconnected
+ */
+export async function clearOAuthTokens(providerId: string, userId: string, executor: DbExecutor = db) {
+  await executor.delete(authTokens).where(tokenCondition(providerId, userId));
+  await getOAuthProvider(providerId)?.onConnectionChange?.(userId, false, executor);
+}
+
+/**
+ * Forget the user's tokens once they can no longer be refreshed
+ */
+async function markDisconnected(providerId: string, userId: string, reason: string) {
+  await db.transaction(tx => clearOAuthTokens(providerId, userId, tx));
+
+  logger.warn('OAuth account marked as disconnected', { provider: providerId, userId, reason });
+}
+
+/**
+ * Exchange the refresh token for a new access token and rotate the stored row
+ *
+ * @returns The new access token, or null if the grant was revoked
+ * @throws Error if the provider cannot be reached or fails for another reason
+ */
+async function refreshStoredToken(
+  provider: OAuthProvider,
+  userId: string,
+  tokenId: string,
+  refreshToken: string,
+): Promise<string | null> {
+  const { ok, status, data } = await refreshAccessToken(provider, refreshToken);
+
+  // invalid_grant: the user revoked access, or the refresh token expired
+  if (data.error === 'invalid_grant') {
+    await markDisconnected(provider.id, userId, 'refresh token revoked');
+    return null;
+  }
+
+  if (!ok || !data.access_token) {
+    throw new Error(
+      `${provider.displayName} token refresh failed with status ${status}${data.error ? `: ${data.error}` : ''}`,
+    );
+  }
+
+  await db
+    .update(authTokens)
+    .set({
+      accessToken: data.access_token,
+      expiresAt: expiryFrom(data.expires_in),
+      ...(data.refresh_token && { refreshToken: data.refresh_token }),
+    })
+    .where(eq(authTokens.id, tokenId));
+
+  return data.access_token;
+}
+
+/**
+ * Access token for the user's account at a provider, refreshed when it has expired
+ *
+ * @returns The access token, or null when the user has no usable tokens for the provider
+ * @throws Error if a needed refresh fails for a reason other than revocation
+ */
+export async function getOAuthAccessToken(providerId: string, userId: string): Promise<string | null> {
+  const [token] = await db
+    .select({
+      id: authTokens.id,
+      accessToken: authTokens.accessToken,
+      refreshToken: authTokens.refreshToken,
+      expiresAt: authTokens.expiresAt,
+    })
+    .from(authTokens)
+    .where(tokenCondition(providerId, userId))
+    .limit(1);
+
+  if (!token) {
+    return null;
+  }
+
+  if (token.expiresAt.getTime() - EXPIRY_MARGIN_MS > Date.now()) {
+    return token.accessToken;
+  }
+
+  if (!token.refreshToken) {
+    await markDisconnected(providerId, userId, 'access token expired and no refresh token is stored');
+    return null;
+  }
+
+  return refreshStoredToken(requireProvider(providerId), userId, token.id, token.refreshToken);
+}
+
+/**
+ * Mark the stored access token as expired, e.g. after the provider answered 401,
+ * so the next call to getOAuthAccessToken refreshes it
+ */
+export async function expireOAuthAccessToken(providerId: string, userId: string) {
+  await db
+    .update(authTokens)
+    .set({ expiresAt: new Date(0) })
+    .where(tokenCondition(providerId, userId));
+}
+
+/**
+ * Revoke the user's grant with a provider
+ * - Revoking the refresh token also invalidates every access token issued from it
+ *
+ * @returns false if the user has no stored tokens or the provider cannot revoke them
+ * @throws Error if the provider cannot be reached or rejects the revocation
+ */
+export async function revokeOAuthTokens(providerId: string, userId: string): Promise<boolean> {
+  const [token] = await db
+    .select({ accessToken: authTokens.accessToken, refreshToken: authTokens.refreshToken })
+    .from(authTokens)
+    .where(tokenCondition(providerId, userId))
+    .limit(1);
+
+  if (!token) {
+    return false;
+  }
+
+  return revokeToken(requireProvider(providerId), token.refreshToken || token.accessToken);
+}
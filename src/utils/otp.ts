@@ -0,0 +1,143 @@
+/**
+ * Email OTP Service
+ *
+ * Issues the one-time codes emailed for account verification, password reset
+ * and account unlock. Codes are 6 random digits from the CSPRNG; only a salted
+ * HMAC-SHA256 of the code (keyed with JWT_SECRET_KEY) is stored, so rows in
+ * `otp_codes` cannot be used to sign in. Each user has at most one active
+ * code per type: issuing a new one replaces the previous one.
+ *
+ * Verification locks the row, compares hashes in constant time, counts wrong
+ * guesses on the code itself and deletes the code once it is used or
+ * exhausted. Rows written before salts were introduced have a NULL salt and
+ * are checked against the unsalted hash until they expire.
+ *
+ * @module utils/otp
+ * @exports OTP_TYPES - Purposes an OTP can be issued for
+ * @exports OTP_TTL_MINUTES - Lifetime of an issued OTP
+ * @exports MAX_OTP_ATTEMPTS - Wrong guesses allowed before a code is invalidated
+ * @exports generateOtpCode - Generates a random numeric code
+ * @exports hashOtpCode - Hashes a code with its salt
+ * @exports issueOtp - Stores a fresh code for a user and type
+ * @exports consumeOtp - Verifies and consumes a code inside a transaction
+ */
+
+import { createHmac, randomBytes, randomInt, timingSafeEqual } from 'crypto';
+import { and, eq, sql } from 'drizzle-orm';
+import { db, type DbExecutor, type Transaction } from '@/db';
+import { otpCodes } from '@/db/schemas';
+import { env } from '@/env';
+import logger from '@/core/logger';
+
+export const OTP_TYPES = ['email_verification', 'reset_password', 'account_unlock'] as const;
+
+export type OtpType = (typeof OTP_TYPES)[number];
+
+export const OTP_TTL_MINUTES = 10;
+
+export const MAX_OTP_ATTEMPTS = 5;
+
+/**
+ * Outcome of a verification attempt
+ * - valid: the code matched and has been consumed
+ * - invalid: no active code, or the code did not match
+ * - expired: the code matched but is past its expiry
+ * - exhausted: this guess used up the last attempt and the code was deleted
+ */
+export type OtpVerificationResult = 'valid' | 'invalid' | 'expired' | 'exhausted';
+
+const OTP_DIGITS = 6;
+
+/**
+ * Generate a zero-padded numeric code
+ */
+export const generateOtpCode = (): string =>
+  randomInt(0, 10 ** OTP_DIGITS)
+    .toString()
+    .padStart(OTP_DIGITS, '0');
+
+/**
+ * Hash a code for storage; a NULL salt yields the legacy unsalted hash
+ */
+export const hashOtpCode = (code: string, salt: string | null): string =>
+  createHmac('sha256', env.JWT_SECRET_KEY as string)
+    .update(salt === null ? code : `${salt}:${code}`)
+    .digest('hex');
+
+/**
+ * Issue a fresh code, replacing any active code of the same type
+ *
+ * @returns The plaintext code (to be emailed, never stored) and its expiry
+ */
+export async function issueOtp(
+  userId: string,
+  type: OtpType,
+  executor: DbExecutor = db,
+): Promise<{ code: string; expiresAt: Date }> {
+  const code = generateOtpCode();
+  const salt = randomBytes(16).toString('hex');
+  const codeHash = hashOtpCode(code, salt);
+  const expiresAt = new Date(Date.now() + OTP_TTL_MINUTES * 60 * 1000);
+
+  await executor
+    .insert(otpCodes)
+    .values({ userId, type, codeHash, salt, expiresAt })
+    .onConflictDoUpdate({
+      target: [otpCodes.userId, otpCodes.type],
+      set: { codeHash, salt, expiresAt, failedAttempts: 0, createdAt: new Date() },
+    });
+
+  return { code, expiresAt };
+}
+
+/**
+ * Verify a code and consume it on success
+ *
+ * Must run inside the caller's transaction so that consuming the code and the
+ * change it authorises commit together. The row is locked, so concurrent
+ * requests with the same code are serialised and only one of them succeeds.
+ * Wrong guesses are recorded even when the caller goes on to reject the
+ * request, so callers should throw after the transaction, not inside it.
+ */
+export async function consumeOtp(
+  tx: Transaction,
+  userId: string,
+  type: OtpType,
+  code: string,
+): Promise<OtpVerificationResult> {
+  const [otp] = await tx
+    .select()
+    .from(otpCodes)
+    .where(and(eq(otpCodes.userId, userId), eq(otpCodes.type, type)))
+    .for('update');
+
+  if (!otp) {
+    return 'invalid';
+  }
+
+  const expected = Buffer.from(otp.codeHash, 'hex');
+  const actual = Buffer.from(hashOtpCode(code, otp.salt), 'hex');
+  const matches = expected.length === actual.length && timingSafeEqual(expected, actual);
+
+  if (matches && otp.expiresAt < new Date()) {
+    return 'expired';
+  }
+
+  if (matches) {
+    await tx.delete(otpCodes).where(eq(otpCodes.id, otp.id));
+    return 'valid';
+  }
+
+  if (otp.failedAttempts + 1 >= MAX_OTP_ATTEMPTS) {
+    await tx.delete(otpCodes).where(eq(otpCodes.id, otp.id));
+    logger.warn('OTP invalidated after too many wrong guesses', { userId, type });
+    return 'exhausted';
+  }
+
+  await tx
+    .update(otpCodes)
+    .set({ failedAttempts: sql`${otpCodes.failedAttempts} + 1` })
+    .where(eq(otpCodes.id, otp.id));
+
+  return 'invalid';
+}
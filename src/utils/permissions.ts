@@ -0,0 +1,40 @@
+/**
+ * Role-Based Access Control
+ *
+ * Maps the roles stored in `users.role` to permissions. Permissions follow
+ * the `<resource>:<action>[:<scope>]` convention, where `own` only covers the
+ * caller's resources and `any` covers every user's.
+ *
+ * @module utils/permissions
+ * @exports ROLES - Known roles
+ * @exports ROLE_PERMISSIONS - Permissions granted to each role
+ * @exports hasPermission - Checks whether a role grants a permission
+ */
+
+export const PERMISSIONS = [
+  'tasks:read:own',
+  'tasks:write:own',
+  'tasks:read:any',
+  'tasks:write:any',
+  'users:read',
+  'users:manage',
+  'audit_logs:read',
+  'outbox:manage',
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number];
+
+export const ROLES = ['user', 'admin'] as const;
+
+export type Role = (typeof ROLES)[number];
+
+export const ROLE_PERMISSIONS: Record<Role, readonly Permission[]> = {
+  user: ['tasks:read:own', 'tasks:write:own'],
+  admin: PERMISSIONS,
+};
+
+/**
+ * Check whether a role grants a permission; unknown roles grant nothing
+ */
+export const hasPermission = (role: string | undefined, permission: Permission): boolean =>
+  !!role && Object.hasOwn(ROLE_PERMISSIONS, role) && ROLE_PERMISSIONS[role as Role].includes(permission);
@@ -0,0 +1,59 @@
+/**
+ * Secret Encryption
+ *
+ * Encrypts credentials of external services before they are stored, such as
+ * CalDAV app passwords, with AES-256-GCM under CREDENTIALS_ENCRYPTION_KEY.
+ * Stored values have the form `enc:v1:<iv>.<auth tag>.<ciphertext>` (base64url);
+ * anything else is refused rather than read as plaintext.
+ *
+ * @module utils/secretEncryption
+ * @exports encryptSecret - Encrypts a secret for storage
+ * @exports decryptSecret - Decrypts a stored secret
+ */
+
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+import { env } from '@/env';
+
+const PREFIX = 'enc:v1:';
+const ALGORITHM = 'aes-256-gcm';
+const IV_BYTES = 12;
+const KEY_BYTES = 32;
+
+const encryptionKey = (): Buffer => {
+  const key = Buffer.from((env.CREDENTIALS_ENCRYPTION_KEY as string | undefined) ?? '', 'base64');
+  if (key.length !== KEY_BYTES) {
+    throw new Error('CREDENTIALS_ENCRYPTION_KEY must be set to 32 random bytes, base64 encoded');
+  }
+  return key;
+};
+
+/**
+ * Encrypt a secret for storage
+ * @throws Error if CREDENTIALS_ENCRYPTION_KEY is missing or malformed
+ */
+export const encryptSecret = (secret: string): string => {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv(ALGORITHM, encryptionKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+
+  return `${PREFIX}${[iv, cipher.getAuthTag(), ciphertext].map(part => part.toString('base64url')).join('.')}`;
+};
+
+/**
+ * Decrypt a stored secret
+ * @throws Error if the value is not encrypted, the key is missing or wrong, or the value was tampered with
+ */
+export const decryptSecret = (stored: string): string => {
+  if (!stored.startsWith(PREFIX)) {
+    throw new Error('Stored secret is not encrypted');
+  }
+
+  const [iv, authTag, ciphertext] = stored
+    .slice(PREFIX.length)
+    .split('.')
+    .map(part => Buffer.from(part, 'base64url'));
+  const decipher = createDecipheriv(ALGORITHM, encryptionKey(), iv);
+  decipher.setAuthTag(authTag);
+
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+};
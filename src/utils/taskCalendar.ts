@@ -0,0 +1,258 @@
+/**
+ * Task Calendar Events
+ *
+ * Writes tasks to the calendar of the user's calendar provider through the
+ * `CalendarProvider` contract of `core/calendar`; nothing here knows which
+ * provider it talks to. A user syncs to their CalDAV account once one is
+ * connected, otherwise to Google Calendar while Google is connected.
+ *
+ * Events go to the task's calendar, or the default one of the user's
+ * calendar preferences, with the preferences' event options. An event left
+ * at a provider the user no longer syncs to is removed and recreated at the
+ * current one; an event in another calendar than the task's is moved.
+ *
+ * These helpers are called by the outbox dispatcher: a missing connection or
+ * time range is a no-op, while provider failures throw so they are retried.
+ *
+ * Each write stores the provider's modification time of the event on the
+ * task, so the Google pull (`utils/googleCalendarSync`) recognises the change
+ * as our own. Storing event metadata leaves `tasks.updatedAt` alone: that
+ * column is the task's side of conflict resolution and only moves when the
+ * task itself changes.
+ *
+ * @module utils/taskCalendar
+ * @exports getUserCalendarProvider - Provider the user's tasks are synced to
+ * @exports syncTaskToCalendar - Creates, moves or updates the event of a task
+ * @exports deleteTaskCalendarEvent - Removes a task's event from its provider
+ * @exports removeTaskCalendarEvents - Removes every event a provider holds for a user's tasks
+ * @exports detachTaskCalendarEvents - Unlinks a user's tasks from a provider's events
+ */
+
+import { and, eq } from 'drizzle-orm';
+import { db, type DbExecutor } from '@/db';
+import { caldavAccounts, tasks, users, type Task } from '@/db/schemas';
+import {
+  getCalendarProvider,
+  PRIMARY_CALENDAR_ID,
+  type CalendarEventDetails,
+  type CalendarEventRecord,
+  type CalendarProvider,
+} from '@/core/calendar';
+import logger from '@/core/logger';
+import { getCalendarPreferences, taskLinkUrl, type CalendarPreferenceSettings } from '@/utils/calendarPreferences';
+
+/** Event columns of a task without an event */
+const CLEARED_EVENT = {
+  calendarEventId: null,
+  calendarEventProvider: null,
+  calendarEventCalendarId: null,
+  calendarEventUpdatedAt: null,
+} satisfies Partial<Task>;
+
+/**
+ * Provider the user's tasks are synced to: CalDAV once connected, otherwise Google while connected
+ */
+export async function getUserCalendarProvider(
+  userId: string,
+  executor: DbExecutor = db,
+): Promise<CalendarProvider | null> {
+  const [user] = await executor
+    .select({ googleConnected: users.googleConnected, caldavAccountId: caldavAccounts.id })
+    .from(users)
+    .leftJoin(caldavAccounts, eq(caldavAccounts.userId, users.id))
+    .where(eq(users.id, userId))
+    .limit(1);
+
+  if (user?.caldavAccountId) {
+    return getCalendarProvider('caldav');
+  }
+  return user?.googleConnected ? getCalendarProvider('google') : null;
+}
+
+const eventDetailsFor = (
+  task: Task & { startTime: Date; endTime: Date },
+  prefs: CalendarPreferenceSettings,
+): CalendarEventDetails => ({
+  title: task.title,
+  description: task.description,
+  start: task.startTime,
+  end: task.endTime,
+  url: prefs.includeTaskLink ? taskLinkUrl(task.id) : null,
+  colorId: prefs.colorId,
+  reminders: prefs.reminders,
+  visibility: prefs.visibility,
+});
+
+/**
+ * Remember the event of a task, where it is and the version we wrote
+ */
+async function storeEventRecord(taskId: string, providerId: string, event: CalendarEventRecord) {
+  await db
+    .update(tasks)
+    .set({
+      calendarEventId: event.id,
+      calendarEventProvider: providerId,
+      calendarEventCalendarId: event.calendarId,
+      calendarEventUpdatedAt: event.updatedAt,
+    })
+    .where(eq(tasks.id, taskId));
+}
+
+/**
+ * Delete a task's calendar event from the provider holding it
+ * - Events from before providers were recorded are Google's, in the primary calendar
+ *
+ * @returns true if the event is gone, false when the provider is not connected
+ * @throws Error if the provider rejects the request or cannot be reached
+ */
+export async function deleteTaskCalendarEvent(
+  userId: string,
+  event: { eventId: string; provider?: string | null; calendarId?: string | null },
+): Promise<boolean> {
+  const provider = getCalendarProvider(event.provider ?? 'google');
+  const connection = provider && (await provider.connect(userId));
+  if (!connection) {
+    return false;
+  }
+
+  await connection.deleteEvent(event.calendarId ?? PRIMARY_CALENDAR_ID, event.eventId);
+  return true;
+}
+
+/**
+ * Delete the events a provider holds for the user's tasks, e.g. before disconnecting it
+ * - Failures are logged and counted, not thrown; the tasks keep their event columns
+ */
+export async function removeTaskCalendarEvents(
+  userId: string,
+  providerId: string,
+): Promise<{ removed: number; failed: number }> {
+  const syncedTasks = await db
+    .select({
+      id: tasks.id,
+      calendarEventId: tasks.calendarEventId,
+      calendarEventCalendarId: tasks.calendarEventCalendarId,
+    })
+    .from(tasks)
+    .where(and(eq(tasks.userId, userId), eq(tasks.calendarEventProvider, providerId)));
+
+  let removed = 0;
+  let failed = 0;
+
+  for (const task of syncedTasks) {
+    try {
+      const deleted =
+        task.calendarEventId !== null &&
+        (await deleteTaskCalendarEvent(userId, {
+          eventId: task.calendarEventId,
+          provider: providerId,
+          calendarId: task.calendarEventCalendarId,
+        }));
+      if (deleted) {
+        removed++;
+      } else {
+        failed++;
+      }
+    } catch (err) {
+      failed++;
+      logger.warn('Failed to delete calendar event of task', {
+        userId,
+        taskId: task.id,
+        provider: providerId,
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }
+
+  return { removed, failed };
+}
+
+/**
+ * Forget the events a provider holds for the user's tasks
+ *
+ * @returns Ids of the tasks that had an event there
+ */
+export async function detachTaskCalendarEvents(
+  userId: string,
+  providerId: string,
+  executor: DbExecutor = db,
+): Promise<string[]> {
+  const detached = await executor
+    .update(tasks)
+    .set({ ...CLEARED_EVENT, updatedAt: new Date() })
+    .where(and(eq(tasks.userId, userId), eq(tasks.calendarEventProvider, providerId)))
+    .returning({ id: tasks.id });
+
+  return detached.map(task => task.id);
+}
+
+/**
+ * Bring a task's calendar event in line with the task's current state
+ * - Creates the event if the task has none yet, otherwise moves it to the
+ *   task's calendar if needed and updates it; an event that is gone by the
+ *   move is recreated, one that is gone by the update is left alone
+ * - Does nothing if the task has been deleted in the meantime
+ *
+ * @returns The event id, or null when nothing was written
+ * @throws Error if the provider rejects the request or cannot be reached
+ */
+export async function syncTaskToCalendar(userId: string, taskId: string): Promise<string | null> {
+  const [stored] = await db.select().from(tasks).where(eq(tasks.id, taskId)).limit(1);
+  if (!stored) {
+    return null;
+  }
+
+  let task = stored;
+  const provider = await getUserCalendarProvider(userId);
+  if (!provider) {
+    return null;
+  }
+
+  if (task.calendarEventId && task.calendarEventProvider !== provider.id) {
+    await deleteTaskCalendarEvent(userId, {
+      eventId: task.calendarEventId,
+      provider: task.calendarEventProvider,
+      calendarId: task.calendarEventCalendarId,
+    });
+    await db.update(tasks).set(CLEARED_EVENT).where(eq(tasks.id, task.id));
+    task = { ...task, ...CLEARED_EVENT };
+    logger.info('Calendar event removed from the previous provider', { userId, taskId, provider: provider.id });
+  }
+
+  const { startTime, endTime, calendarEventId } = task;
+  if (!startTime || !endTime) {
+    return null;
+  }
+  const connection = await provider.connect(userId);
+  if (!connection) {
+    return null;
+  }
+
+  const prefs = await getCalendarPreferences(userId, db, provider.id);
+  const requested = task.calendarId ?? prefs.calendarId;
+  const calendarId = requested === PRIMARY_CALENDAR_ID ? connection.defaultCalendarId : requested;
+  const details = eventDetailsFor({ ...task, startTime, endTime }, prefs);
+
+  if (calendarEventId) {
+    const eventCalendarId = task.calendarEventCalendarId ?? PRIMARY_CALENDAR_ID;
+    const moved =
+      eventCalendarId === calendarId || (await connection.moveEvent(eventCalendarId, calendarEventId, calendarId));
+    if (moved && eventCalendarId !== calendarId) {
+      logger.info('Calendar event moved to another calendar', { userId, taskId, calendarId });
+    }
+
+    if (moved) {
+      const updated = await connection.updateEvent(calendarId, calendarEventId, details);
+      if (!updated) {
+        logger.warn('Calendar event no longer exists; skipping update', { userId, taskId, calendarEventId });
+        return null;
+      }
+      await storeEventRecord(task.id, provider.id, updated);
+      return updated.id;
+    }
+  }
+
+  const created = await connection.createEvent(calendarId, details);
+  await storeEventRecord(task.id, provider.id, created);
+  return created.id;
+}
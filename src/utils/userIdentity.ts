@@ -0,0 +1,138 @@
+/**
+ * External Identity Sign-In
+ *
+ * Resolves the user behind a verified external identity (e.g. a Google ID
+ * token), in this order:
+ * 1. An identity already linked by the provider's subject id signs in its user.
+ * 2. Otherwise a user with the same email is linked, since the provider has
+ *    verified the address. If that account had never verified its email, the
+ *    address was not proven by whoever registered it, so its password and
+ *    sessions are dropped before linking.
+ * 3. Otherwise a new, verified, password-less user is created. A password can
+ *    be added later from the profile or through the reset flow. Its username
+ *    comes from the profile name, with a random suffix if it is taken.
+ *
+ * @module utils/userIdentity
+ * @exports ExternalIdentity - Verified identity reported by a provider
+ * @exports signInWithIdentity - Finds, links or creates the user for an identity
+ */
+
+import { randomBytes } from 'crypto';
+import { and, eq, sql } from 'drizzle-orm';
+import { db, type DbExecutor } from '@/db';
+import { userIdentities, users } from '@/db/schemas';
+import ErrorHandler from '@/utils/errorHandler';
+import { revokeAllUserSessions } from '@/utils/jwt_session';
+import logger from '@/core/logger';
+
+export interface ExternalIdentity {
+  provider: string;
+  subject: string;
+  email: string;
+  emailVerified: boolean;
+  name?: string;
+}
+
+export interface IdentityUser {
+  id: string;
+  mfaEnabled: boolean;
+  suspendedAt: Date | null;
+}
+
+const identityUserColumns = {
+  id: users.id,
+  mfaEnabled: users.mfaEnabled,
+  suspendedAt: users.suspendedAt,
+};
+
+/**
+ * A username not yet taken (regardless of case), based on the profile name or the email
+ */
+async function availableUsername(identity: ExternalIdentity, executor: DbExecutor): Promise<string> {
+  const base = (identity.name ?? identity.email.split('@')[0]).slice(0, 255);
+
+  for (let candidate = base; ; candidate = `${base.slice(0, 246)}-${randomBytes(4).toString('hex')}`) {
+    const [taken] = await executor
+      .select({ id: users.id })
+      .from(users)
+      .where(sql`lower(${users.username}) = lower(${candidate})`)
+      .limit(1);
+    if (!taken) {
+      return candidate;
+    }
+  }
+}
+
+/**
+ * Find, link or create the user for a verified external identity
+ *
+ * @returns The user to sign in and whether it was created by this call
+ * @throws Forbidden if the provider has not verified the email address
+ */
+export async function signInWithIdentity(
+  identity: ExternalIdentity,
+): Promise<{ user: IdentityUser; created: boolean }> {
+  const { provider, subject, email } = identity;
+
+  return db.transaction(async tx => {
+    const [linked] = await tx
+      .select({ identityId: userIdentities.id, ...identityUserColumns })
+      .from(userIdentities)
+      .innerJoin(users, eq(users.id, userIdentities.userId))
+      .where(and(eq(userIdentities.provider, provider), eq(userIdentities.subject, subject)))
+      .limit(1);
+
+    if (linked) {
+      await tx
+        .update(userIdentities)
+        .set({ email, lastLoginAt: new Date() })
+        .where(eq(userIdentities.id, linked.identityId));
+      const { identityId: _identityId, ...user } = linked;
+      return { user, created: false };
+    }
+
+    // Linking and creating both rely on the provider vouching for the address
+    if (!identity.emailVerified) {
+      throw ErrorHandler.Forbidden('The email address of this account is not verified');
+    }
+
+    const [existing] = await tx
+      .select({ ...identityUserColumns, isVerified: users.isVerified })
+      .from(users)
+      .where(sql`lower(${users.email}) = lower(${email})`)
+      .limit(1);
+
+    if (existing) {
+      if (!existing.isVerified) {
+        await tx
+          .update(users)
+          .set({ isVerified: true, password: null, updatedAt: new Date() })
+          .where(eq(users.id, existing.id));
+        await revokeAllUserSessions(existing.id, 'identity_linked', tx);
+        logger.warn('Unverified account claimed through external sign-in', { userId: existing.id, provider });
+      }
+
+      await tx.insert(userIdentities).values({ userId: existing.id, provider, subject, email });
+      logger.info('External identity linked to existing user', { userId: existing.id, provider });
+
+      const { isVerified: _isVerified, ...user } = existing;
+      return { user, created: false };
+    }
+
+    const [user] = await tx
+      .insert(users)
+      .values({
+        username: await availableUsername(identity, tx),
+        email,
+        password: null,
+        role: 'user',
+        isVerified: true,
+      })
+      .returning(identityUserColumns);
+
+    await tx.insert(userIdentities).values({ userId: user.id, provider, subject, email });
+    logger.info('User created through external sign-in', { userId: user.id, provider });
+
+    return { user, created: true };
+  });
+}
@@ -1,4 +1,9 @@
 import { z } from 'zod';
+import { ROLES } from '@/utils/permissions';
+import { OUTBOX_EVENT_SCHEMAS, OUTBOX_STATUSES, type OutboxEventType } from '@/core/outbox';
+import { CALENDAR_SYNC_STATES } from '@/utils/calendarSyncState';
+import { CALENDAR_EVENT_VISIBILITIES } from '@/utils/calendarPreferences';
+import { CALENDAR_IMPORT_MAX_DAYS } from '@/utils/calendarJobs';
 
 /**
  * User-related validation schemas
@@ -18,6 +23,14 @@ export const LoginSchema = z.object({
   password: z.string().min(8, 'Password must be at least 8 characters'),
 });
 
+/**
+ * Refresh Token Schema
+ * - Refresh token may come from the body or the refresh token cookie
+ */
+export const RefreshTokenSchema = z.object({
+  refreshToken: z.string().min(1, 'Refresh token must not be empty').optional(),
+});
+
 /**
  * Task-related validation schemas
  */
@@ -29,6 +42,8 @@ export const CreateTaskSchema = z
     startTime: z.iso.datetime('Invalid start time format').optional().nullable(),
     endTime: z.iso.datetime('Invalid end time format').optional().nullable(),
     calendarEventId: z.string().max(255, 'Calendar event ID too long').optional().nullable(),
+    /** Target calendar of the task; null uses the default from the calendar preferences */
+    calendarId: z.string().min(1).max(500, 'Calendar ID too long').optional().nullable(),
   })
   .refine(
     data => {
@@ -62,6 +77,15 @@ export const TaskQuerySchema = z.object({
   sortOrder: z.enum(['asc', 'desc']).default('desc'),
   startDate: z.iso.datetime().optional(),
   endDate: z.iso.datetime().optional(),
+  syncState: z.enum(CALENDAR_SYNC_STATES).optional(),
+});
+
+/**
+ * Admin Task Query Schema
+ * - Same filters as TaskQuerySchema, optionally narrowed to one owner
+ */
+export const AdminTaskQuerySchema = TaskQuerySchema.extend({
+  userId: z.uuid('Invalid user ID format').optional(),
 });
 
 /**
@@ -72,6 +96,34 @@ export const TaskParamsSchema = z.object({
   id: z.uuid('Invalid task ID format'),
 });
 
+/**
+ * Calendar Preferences Schema
+ * - Omitted fields keep their value; null resets an option to the calendar's default
+ * - colorId is one of Google Calendar's 11 event colors
+ */
+export const CalendarPreferencesSchema = z.object({
+  calendarId: z.string().min(1).max(500, 'Calendar ID too long').optional(),
+  colorId: z.enum(['1', '2', '3', '4', '5', '6', '7', '8', '9', '10', '11']).nullable().optional(),
+  reminders: z
+    .object({
+      useDefault: z.boolean(),
+      overrides: z
+        .array(
+          z.object({
+            method: z.enum(['email', 'popup']),
+            // Google allows reminders up to four weeks before the event
+            minutes: z.number().int().min(0).max(40320),
+          }),
+        )
+        .max(5, 'At most 5 reminders are allowed')
+        .optional(),
+    })
+    .nullable()
+    .optional(),
+  visibility: z.enum(CALENDAR_EVENT_VISIBILITIES).optional(),
+  includeTaskLink: z.boolean().optional(),
+});
+
 /**
  * Verify OTP Schema
  * - For validating OTP verification requests
@@ -90,3 +142,234 @@ export const verifyOtpSchema = z.object({
   otp: z.string().length(6, 'OTP must be 6 digits'),
   type: z.enum(['email_verification', 'reset_password']),
 });
+
+/**
+ * Google Disconnect Schema
+ * - removeCalendarEvents also deletes the events synced for the user's tasks
+ */
+export const GoogleDisconnectSchema = z.object({
+  removeCalendarEvents: z.boolean().optional(),
+});
+
+/**
+ * Calendar Import Schema
+ * - Events overlapping [from, to) are imported; from defaults to now
+ * - calendarId defaults to the default calendar of the calendar preferences
+ */
+export const CalendarImportSchema = z
+  .object({
+    from: z.iso.datetime('Invalid from time format').optional(),
+    to: z.iso.datetime('Invalid to time format'),
+    calendarId: z.string().min(1).max(500, 'Calendar ID too long').optional(),
+  })
+  .refine(data => new Date(data.from ?? Date.now()) < new Date(data.to), {
+    message: 'The range must end after it starts',
+    path: ['to'],
+  })
+  .refine(
+    data =>
+      new Date(data.to).getTime() - new Date(data.from ?? Date.now()).getTime() <=
+      CALENDAR_IMPORT_MAX_DAYS * 24 * 60 * 60 * 1000,
+    {
+      message: `The range must not exceed ${CALENDAR_IMPORT_MAX_DAYS} days`,
+      path: ['to'],
+    },
+  );
+
+/**
+ * Calendar Job Params Schema
+ */
+export const CalendarJobParamsSchema = z.object({
+  id: z.uuid('Invalid job ID format'),
+});
+
+/**
+ * CalDAV Account Schema
+ * - serverUrl can be the server root, the principal or the calendar home; calendars are discovered from it
+ * - calendarUrl picks the default calendar of synced tasks, otherwise the first calendar found is used
+ */
+export const CalDavAccountSchema = z.object({
+  serverUrl: z.url({ protocol: /^https?$/, error: 'Invalid server URL' }).max(500, 'Server URL too long'),
+  username: z.string().min(1, 'Username is required').max(255, 'Username too long'),
+  password: z.string().min(1, 'Password is required').max(1000, 'Password too long'),
+  calendarUrl: z
+    .url({ protocol: /^https?$/, error: 'Invalid calendar URL' })
+    .max(500, 'Calendar URL too long')
+    .optional(),
+});
+
+/**
+ * CalDAV Disconnect Schema
+ * - removeCalendarEvents also deletes the events synced for the user's tasks
+ */
+export const CalDavDisconnectSchema = z.object({
+  removeCalendarEvents: z.boolean().optional(),
+});
+
+/**
+ * Forgot Password Schema
+ * - For requesting a password reset OTP
+ */
+export const ForgotPasswordSchema = z.object({
+  email: z.email('Invalid email format'),
+});
+
+/**
+ * Reset Password Schema
+ * - For setting a new password with a reset_password OTP
+ */
+export const ResetPasswordSchema = z.object({
+  email: z.email('Invalid email format'),
+  otp: z.string().length(6, 'OTP must be 6 digits'),
+  newPassword: z.string().min(8, 'Password must be at least 8 characters'),
+});
+
+/**
+ * MFA Code Schema
+ * - For confirming enrollment or disabling TOTP 2FA
+ */
+export const MfaCodeSchema = z.object({
+  code: z.string().min(6, 'Code must be at least 6 characters').max(20, 'Code is too long'),
+});
+
+/**
+ * MFA Login Schema
+ * - For completing a login that requires a second factor
+ * - `code` is either a 6-digit TOTP code or a recovery code
+ * - `mfaToken` may be omitted when the challenge was handed over in the MFA cookie (OAuth sign-in)
+ */
+export const MfaLoginSchema = z.object({
+  mfaToken: z.string().min(1, 'MFA token is required').optional(),
+  code: z.string().min(6, 'Code must be at least 6 characters').max(20, 'Code is too long'),
+});
+
+/**
+ * Unlock Account Schema
+ * - For lifting a login lockout with the emailed account_unlock OTP
+ */
+export const UnlockAccountSchema = z.object({
+  email: z.email('Invalid email format'),
+  otp: z.string().length(6, 'OTP must be 6 digits'),
+});
+
+/**
+ * Admin User Query Schema
+ * - For listing users with search on email/username
+ */
+export const AdminUserQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  search: z.string().min(1).max(100).optional(),
+  role: z.enum(ROLES).optional(),
+  status: z.enum(['active', 'suspended', 'unverified']).optional(),
+  sortBy: z.enum(['createdAt', 'email', 'username']).default('createdAt'),
+  sortOrder: z.enum(['asc', 'desc']).default('desc'),
+});
+
+/**
+ * User Params Schema
+ * - For validating route parameters like user ID
+ */
+export const UserParamsSchema = z.object({
+  id: z.uuid('Invalid user ID format'),
+});
+
+/**
+ * Suspend User Schema
+ */
+export const SuspendUserSchema = z.object({
+  reason: z.string().trim().min(1, 'Reason is required').max(255, 'Reason must not exceed 255 characters'),
+});
+
+/**
+ * Change Role Schema
+ */
+export const ChangeRoleSchema = z.object({
+  role: z.enum(ROLES),
+});
+
+/**
+ * Audit Log Query Schema
+ */
+export const AuditLogQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  actorId: z.uuid().optional(),
+  targetId: z.string().min(1).max(255).optional(),
+  action: z.string().min(1).max(100).optional(),
+});
+
+/**
+ * Outbox Query Schema
+ * - For the admin view of undispatched outbox events
+ * - `stuck` narrows to failed events, expired claims and overdue pending events
+ */
+export const OutboxQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  status: z.enum(OUTBOX_STATUSES).optional(),
+  type: z.enum(Object.keys(OUTBOX_EVENT_SCHEMAS) as [OutboxEventType, ...OutboxEventType[]]).optional(),
+  stuck: z.enum(['true', 'false']).optional(),
+});
+
+/**
+ * Outbox Event Params Schema
+ */
+export const OutboxEventParamsSchema = z.object({
+  id: z.uuid('Invalid outbox event ID format'),
+});
+
+/**
+ * Update Profile Schema
+ * - For editing the authenticated user's own profile
+ * - The profile picture is managed through the avatar upload endpoints
+ */
+export const UpdateProfileSchema = z
+  .object({
+    username: z.string().trim().min(3, 'Username must be at least 3 characters').max(255).optional(),
+  })
+  .refine(data => Object.keys(data).length > 0, {
+    message: 'At least one field must be provided for update',
+  });
+
+/**
+ * Change Password Schema
+ * - The current password confirms the change; password-less accounts omit it
+ */
+export const ChangePasswordSchema = z
+  .object({
+    currentPassword: z.string().min(1, 'Current password is required').optional(),
+    newPassword: z.string().min(8, 'Password must be at least 8 characters'),
+  })
+  .refine(data => data.currentPassword !== data.newPassword, {
+    message: 'New password must be different from the current password',
+    path: ['newPassword'],
+  });
+
+/**
+ * Delete Account Schema
+ * - Requires the current password as confirmation
+ */
+export const DeleteAccountSchema = z.object({
+  password: z.string().min(1, 'Password is required'),
+});
+
+/**
+ * Avatar Upload Request Schema
+ * - The client declares the content type and exact size before uploading
+ */
+export const AvatarUploadRequestSchema = z.object({
+  contentType: z.enum(['image/jpeg', 'image/png', 'image/webp']),
+  size: z
+    .number()
+    .int()
+    .positive()
+    .max(5 * 1024 * 1024, 'Image must not exceed 5 MB'),
+});
+
+/**
+ * Confirm Avatar Upload Schema
+ */
+export const ConfirmAvatarUploadSchema = z.object({
+  uploadToken: z.string().min(1, 'Upload token is required'),
+});
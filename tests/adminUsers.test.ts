@@ -0,0 +1,51 @@
+import assert from 'node:assert/strict';
+import { randomUUID } from 'node:crypto';
+import { after, before, describe, it } from 'node:test';
+import { containsPattern } from '@/utils/helpers';
+import { request, sessionCookie, startApp, type RunningApp } from './helpers/app';
+import { createUser } from './helpers/fixtures';
+
+describe('containsPattern', () => {
+  it('escapes LIKE wildcards and the escape character', () => {
+    assert.equal(containsPattern('ada'), '%ada%');
+    assert.equal(containsPattern('100%_off\\'), '%100\\%\\_off\\\\%');
+  });
+});
+
+describe('admin user search', () => {
+  let app: RunningApp;
+  let cookie: string;
+
+  before(async () => {
+    app = await startApp();
+    cookie = await sessionCookie((await createUser({ role: 'admin' })).id);
+  });
+
+  after(() => app.close());
+
+  const search = async (text: string) => {
+    const res = await request(app, 'GET', `/api/admin/users?search=${encodeURIComponent(text)}&limit=100`, {
+      cookie,
+    });
+    assert.equal(res.status, 200);
+    return (res.body.data as Array<{ email: string }>).map(user => user.email).sort();
+  };
+
+  it('matches email and username case-insensitively', async () => {
+    const tag = randomUUID().slice(0, 8);
+    const user = await createUser({ email: `Ada.${tag}@example.com`, username: `lovelace-${tag}` });
+
+    assert.deepEqual(await search(`ada.${tag.toUpperCase()}`), [user.email]);
+    assert.deepEqual(await search(`LOVELACE-${tag}`), [user.email]);
+  });
+
+  it('treats % and _ in the search text literally', async () => {
+    const tag = randomUUID().slice(0, 8);
+    const underscore = await createUser({ email: `a_b.${tag}@example.com` });
+    await createUser({ email: `axb.${tag}@example.com` });
+    const percent = await createUser({ email: `100%.${tag}@example.com` });
+
+    assert.deepEqual(await search(`a_b.${tag}`), [underscore.email]);
+    assert.deepEqual(await search(`%.${tag}`), [percent.email]);
+  });
+});
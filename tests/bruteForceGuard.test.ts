@@ -0,0 +1,105 @@
+import assert from 'node:assert/strict';
+import { randomUUID } from 'node:crypto';
+import { after, before, describe, it } from 'node:test';
+import {
+  assertNotThrottled,
+  clearFailedAttempts,
+  registerFailedAttempt,
+  type ThrottleKey,
+} from '@/utils/bruteForceGuard';
+import { hashPassword } from '@/utils/helpers';
+import { generateTotp } from '@/utils/totp';
+import { request, sessionCookie, startApp, type RunningApp } from './helpers/app';
+import { createUser } from './helpers/fixtures';
+
+const accountKey = (): ThrottleKey => ({ scope: 'login_account', identifier: `${randomUUID()}@example.com` });
+
+const fail = async (key: ThrottleKey, times: number) => {
+  let result = await registerFailedAttempt(key);
+  for (let i = 1; i < times; i++) {
+    result = await registerFailedAttempt(key);
+  }
+  return result;
+};
+
+describe('brute-force guard', () => {
+  it('lets a key through until it passes the delay threshold', async () => {
+    const key = accountKey();
+
+    const result = await fail(key, 3);
+
+    assert.equal(result.failedCount, 3);
+    assert.equal(result.lockedUntil, null);
+    await assertNotThrottled([key]);
+  });
+
+  it('delays a key once it passes the threshold', async () => {
+    const key = accountKey();
+
+    const result = await fail(key, 4);
+
+    assert.ok(result.lockedUntil && result.lockedUntil.getTime() > Date.now());
+    assert.equal(result.lockedOut, false);
+    await assert.rejects(assertNotThrottled([key]), { statusCode: 429 });
+  });
+
+  it('locks a key out and reports only the failure that locked it', async () => {
+    const key = accountKey();
+
+    const lockingResult = await fail(key, 10);
+    assert.equal(lockingResult.lockedOut, true);
+    assert.ok((lockingResult.lockedUntil?.getTime() ?? 0) > Date.now() + 14 * 60 * 1000);
+
+    assert.equal((await registerFailedAttempt(key)).lockedOut, false);
+  });
+
+  it('shares the counter between differently cased emails', async () => {
+    const key = accountKey();
+    await fail(key, 4);
+
+    await assert.rejects(assertNotThrottled([{ ...key, identifier: key.identifier.toUpperCase() }]), {
+      statusCode: 429,
+    });
+  });
+
+  it('clears a key after a successful attempt', async () => {
+    const key = accountKey();
+    await fail(key, 4);
+
+    await clearFailedAttempts([key]);
+
+    await assertNotThrottled([key]);
+    assert.equal((await registerFailedAttempt(key)).failedCount, 1);
+  });
+});
+
+describe('MFA login throttle', () => {
+  let app: RunningApp;
+
+  before(async () => {
+    app = await startApp();
+  });
+
+  after(() => app.close());
+
+  it('keeps counting wrong codes across correct passwords', async () => {
+    const password = 'Correct-horse-1';
+    const user = await createUser({ password: await hashPassword(password) });
+    const cookie = await sessionCookie(user.id);
+    const { body } = await request(app, 'POST', '/api/auth/mfa/enroll', { cookie });
+    await request(app, 'POST', '/api/auth/mfa/confirm', { cookie, body: { code: generateTotp(body.data.secret) } });
+
+    const guess = async () => {
+      const login = await request(app, 'POST', '/api/auth/login', { body: { email: user.email, password } });
+      assert.equal(login.body.data.mfaRequired, true);
+      return request(app, 'POST', '/api/auth/login/mfa', {
+        body: { mfaToken: login.body.data.mfaToken, code: '000000' },
+      });
+    };
+
+    for (let i = 0; i < 4; i++) {
+      assert.equal((await guess()).status, 401);
+    }
+    assert.equal((await guess()).status, 429);
+  });
+});
@@ -0,0 +1,78 @@
+import assert from 'node:assert/strict';
+import { after, before, beforeEach, describe, it } from 'node:test';
+import { db } from '@/db';
+import { caldavAccounts } from '@/db/schemas';
+import {
+  fakeCalDavServer,
+  fakeGoogleCalendarServer,
+  getCalendarProvider,
+  type CalendarConnection,
+  type CalendarEventPage,
+} from '@/core/calendar';
+import { saveOAuthTokens } from '@/utils/oauthTokens';
+import { encryptSecret } from '@/utils/secretEncryption';
+import { startApp, type RunningApp } from './helpers/devServers';
+import { createUser } from './helpers/fixtures';
+
+let app: RunningApp;
+
+const at = (hour: number) => new Date(Date.UTC(2025, 2, 17, hour));
+
+const day = { from: new Date(Date.UTC(2025, 2, 17)), to: new Date(Date.UTC(2025, 2, 18)) };
+
+const connections: Record<string, () => Promise<CalendarConnection>> = {
+  google: async () => {
+    const user = await createUser();
+    await saveOAuthTokens('google', user.id, { access_token: 'fake-access-token', expires_in: 3600 });
+    return (await getCalendarProvider('google')?.connect(user.id)) as CalendarConnection;
+  },
+  caldav: async () => {
+    const user = await createUser();
+    const serverUrl = `${app.origin}/api/dev/caldav/`;
+    await db.insert(caldavAccounts).values({
+      userId: user.id,
+      serverUrl,
+      username: 'ada',
+      password: encryptSecret('app-password'),
+      calendarUrl: `${serverUrl}ada/calendar/`,
+    });
+    return (await getCalendarProvider('caldav')?.connect(user.id)) as CalendarConnection;
+  },
+};
+
+describe('calendar event pages', () => {
+  before(async () => {
+    app = await startApp();
+  });
+
+  after(() => app.close());
+
+  beforeEach(() => {
+    fakeGoogleCalendarServer.reset();
+    fakeCalDavServer.reset();
+  });
+
+  for (const [providerId, connect] of Object.entries(connections)) {
+    it(`lists the events of a range page by page with ${providerId}`, async () => {
+      const connection = await connect();
+      // Two events start at the same time, so a page can end between them
+      for (const hour of [8, 10, 10, 12, 14]) {
+        await connection.createEvent('primary', { title: `Event at ${hour}`, start: at(hour), end: at(hour + 1) });
+      }
+      await connection.createEvent('primary', { title: 'Next day', start: at(33), end: at(34) });
+
+      const ids: string[] = [];
+      let pageToken: string | null = null;
+      do {
+        const page: CalendarEventPage = await connection.listEventPage('primary', day, { pageToken, pageSize: 2 });
+        assert.ok(page.events.length <= 2);
+        ids.push(...page.events.map(event => event.id));
+        pageToken = page.nextPageToken;
+      } while (pageToken);
+
+      const listed = await connection.listEvents('primary', day);
+      assert.equal(ids.length, 5);
+      assert.deepEqual(new Set(ids), new Set(listed.map(event => event.id)));
+    });
+  }
+});
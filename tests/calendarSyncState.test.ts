@@ -0,0 +1,160 @@
+import assert from 'node:assert/strict';
+import { after, before, beforeEach, describe, it } from 'node:test';
+import { and, eq, sql } from 'drizzle-orm';
+import { db } from '@/db';
+import { outboxEvents, tasks } from '@/db/schemas';
+import { CalendarSyncRetrier, fakeGoogleCalendarServer } from '@/core/calendar';
+import {
+  CALENDAR_SYNC_MAX_ATTEMPTS,
+  queueTaskCalendarSync,
+  requeueDueCalendarSyncs,
+  runTaskCalendarSync,
+} from '@/utils/calendarSyncState';
+import { saveOAuthTokens } from '@/utils/oauthTokens';
+import { startApp, type RunningApp } from './helpers/devServers';
+import { createTask, createUser } from './helpers/fixtures';
+
+let app: RunningApp;
+
+const timed = {
+  startTime: new Date('2025-03-17T09:00:00.000Z'),
+  endTime: new Date('2025-03-17T10:00:00.000Z'),
+};
+
+/**
+ * A user whose tasks sync to the fake Google Calendar
+ */
+async function connectedUser() {
+  const user = await createUser();
+  await saveOAuthTokens('google', user.id, { access_token: 'fake-access-token', expires_in: 3600 });
+  return user;
+}
+
+const storedTask = async (taskId: string) => {
+  const [task] = await db.select().from(tasks).where(eq(tasks.id, taskId));
+  return task;
+};
+
+const queuedPushes = (taskId: string) =>
+  db
+    .select({ id: outboxEvents.id })
+    .from(outboxEvents)
+    .where(and(eq(outboxEvents.type, 'calendar.sync_task'), sql`${outboxEvents.payload}->>'taskId' = ${taskId}`));
+
+/** Seconds from now until the retry time of the task */
+const secondsUntilRetry = (retryAt: Date | null) => Math.round(((retryAt?.getTime() ?? 0) - Date.now()) / 1000);
+
+describe('task calendar sync state', () => {
+  before(async () => {
+    app = await startApp();
+  });
+
+  after(() => app.close());
+
+  beforeEach(() => fakeGoogleCalendarServer.reset());
+
+  it('queues a push and resets the state of an earlier failure', async () => {
+    const user = await createUser();
+    const task = await createTask(user.id, {
+      ...timed,
+      calendarSyncState: 'failed',
+      calendarSyncAttempts: 3,
+      calendarSyncError: 'Calendar unreachable',
+      calendarSyncRetryAt: new Date(),
+    });
+
+    const queued = await queueTaskCalendarSync(task, db);
+
+    assert.equal(queued.calendarSyncState, 'pending');
+    assert.equal(queued.calendarSyncAttempts, 0);
+    assert.equal(queued.calendarSyncError, null);
+    assert.equal(queued.calendarSyncRetryAt, null);
+    assert.equal((await queuedPushes(task.id)).length, 1);
+  });
+
+  it('records a successful push as synced', async () => {
+    const user = await connectedUser();
+    const task = await createTask(user.id, { ...timed, calendarSyncState: 'pending' });
+
+    assert.equal(await runTaskCalendarSync(user.id, task.id), 'synced');
+
+    const synced = await storedTask(task.id);
+    assert.equal(synced.calendarSyncState, 'synced');
+    assert.equal(synced.calendarEventProvider, 'google');
+    assert.ok(synced.calendarEventId);
+    assert.ok(synced.calendarSyncAttemptedAt);
+  });
+
+  it('stops tracking tasks that are not synced', async () => {
+    const user = await createUser();
+    const task = await createTask(user.id, { ...timed, calendarSyncState: 'pending' });
+
+    assert.equal(await runTaskCalendarSync(user.id, task.id), null);
+    assert.equal((await storedTask(task.id)).calendarSyncState, null);
+  });
+
+  it('backs off after each failure and gives up after the last attempt', async () => {
+    const user = await connectedUser();
+    const task = await createTask(user.id, { ...timed, calendarId: 'missing-calendar' });
+
+    assert.equal(await runTaskCalendarSync(user.id, task.id), 'failed');
+    let failed = await storedTask(task.id);
+    assert.equal(failed.calendarSyncState, 'failed');
+    assert.equal(failed.calendarSyncAttempts, 1);
+    assert.ok(failed.calendarSyncError);
+    assert.equal(secondsUntilRetry(failed.calendarSyncRetryAt), 30);
+
+    await runTaskCalendarSync(user.id, task.id);
+    failed = await storedTask(task.id);
+    assert.equal(failed.calendarSyncAttempts, 2);
+    assert.equal(secondsUntilRetry(failed.calendarSyncRetryAt), 60);
+
+    await db
+      .update(tasks)
+      .set({ calendarSyncAttempts: CALENDAR_SYNC_MAX_ATTEMPTS - 1 })
+      .where(eq(tasks.id, task.id));
+    await runTaskCalendarSync(user.id, task.id);
+    failed = await storedTask(task.id);
+    assert.equal(failed.calendarSyncState, 'failed');
+    assert.equal(failed.calendarSyncAttempts, CALENDAR_SYNC_MAX_ATTEMPTS);
+    assert.equal(failed.calendarSyncRetryAt, null);
+  });
+
+  it('requeues failed pushes once their retry is due', async () => {
+    const user = await createUser();
+    const failure = { ...timed, calendarSyncState: 'failed', calendarSyncAttempts: 2 } as const;
+    const due = await createTask(user.id, { ...failure, calendarSyncRetryAt: new Date(Date.now() - 1000) });
+    const later = await createTask(user.id, { ...failure, calendarSyncRetryAt: new Date(Date.now() + 60_000) });
+    const exhausted = await createTask(user.id, { ...failure, calendarSyncRetryAt: null });
+
+    assert.equal(await requeueDueCalendarSyncs(100), 1);
+
+    const requeued = await storedTask(due.id);
+    assert.equal(requeued.calendarSyncState, 'pending');
+    assert.equal(requeued.calendarSyncAttempts, 2);
+    assert.equal(requeued.calendarSyncRetryAt, null);
+    assert.equal((await queuedPushes(due.id)).length, 1);
+
+    for (const task of [later, exhausted]) {
+      assert.equal((await storedTask(task.id)).calendarSyncState, 'failed');
+      assert.equal((await queuedPushes(task.id)).length, 0);
+    }
+  });
+
+  it('has the retrier queue due retries in batches', async () => {
+    const user = await createUser();
+    for (let i = 0; i < 3; i++) {
+      await createTask(user.id, {
+        ...timed,
+        calendarSyncState: 'failed',
+        calendarSyncAttempts: 1,
+        calendarSyncRetryAt: new Date(Date.now() - 1000),
+      });
+    }
+
+    const retrier = new CalendarSyncRetrier({ batchSize: 2 });
+    assert.equal(await retrier.runOnce(), 2);
+    assert.equal(await retrier.runOnce(), 1);
+    assert.equal(await retrier.runOnce(), 0);
+  });
+});
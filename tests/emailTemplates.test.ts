@@ -0,0 +1,46 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  EMAIL_LOCALES,
+  EMAIL_PREVIEW_DATA,
+  EMAIL_TEMPLATE_IDS,
+  renderEmail,
+  resolveEmailLocale,
+  type EmailTemplateId,
+} from '@/core/mail';
+import { assertSnapshot } from './helpers/snapshot';
+
+const render = (template: EmailTemplateId, locale: (typeof EMAIL_LOCALES)[number]) =>
+  renderEmail(template, EMAIL_PREVIEW_DATA[template] as never, locale);
+
+describe('email templates', () => {
+  for (const template of EMAIL_TEMPLATE_IDS) {
+    for (const locale of EMAIL_LOCALES) {
+      it(`renders ${template} (${locale}) as in the snapshot`, () => {
+        const { subject, text, html } = render(template, locale);
+
+        assertSnapshot(`emails/${template}.${locale}.txt`, `Subject: ${subject}\n\n${text}\n`);
+        assertSnapshot(`emails/${template}.${locale}.html`, `${html}\n`);
+      });
+    }
+  }
+
+  it('escapes user input in HTML', () => {
+    const { html, text } = renderEmail('login_alert', {
+      ...EMAIL_PREVIEW_DATA.login_alert,
+      username: '<script>alert(1)</script>',
+      userAgent: '"><img src=x onerror=alert(1)>',
+    });
+
+    assert.ok(!html.includes('<script>alert(1)</script>'));
+    assert.ok(!html.includes('<img src=x'));
+    assert.ok(html.includes('&lt;script&gt;'));
+    assert.ok(text.includes('<script>alert(1)</script>'));
+  });
+
+  it('falls back to English for unsupported languages', () => {
+    assert.equal(resolveEmailLocale('es-MX'), 'es');
+    assert.equal(resolveEmailLocale('fr-FR'), 'en');
+    assert.equal(resolveEmailLocale(undefined), 'en');
+  });
+});
@@ -0,0 +1,145 @@
+import assert from 'node:assert/strict';
+import { after, before, beforeEach, describe, it } from 'node:test';
+import {
+  assertPublicCalDavUrl,
+  buildICalEvent,
+  CalDavApiError,
+  CalDavBlockedAddressError,
+  calDavObjectUrl,
+  deleteCalDavObject,
+  discoverCalDavCalendars,
+  fakeCalDavServer,
+  getCalDavObject,
+  moveCalDavObject,
+  parseICalEvents,
+  putCalDavObject,
+  queryCalDavEvents,
+  type CalDavCredentials,
+} from '@/core/calendar';
+import { startApp, type RunningApp } from './helpers/devServers';
+
+const at = (hour: number) => new Date(Date.UTC(2025, 2, 17, hour));
+
+const icsAt = (uid: string, hour: number, title = `Event at ${hour}`) =>
+  buildICalEvent(uid, { title, start: at(hour), end: at(hour + 1) }, at(0));
+
+const day = { from: new Date(Date.UTC(2025, 2, 17)), to: new Date(Date.UTC(2025, 2, 18)) };
+
+let app: RunningApp;
+let serverUrl: string;
+let credentials: CalDavCredentials;
+
+describe('fake CalDAV server', () => {
+  before(async () => {
+    app = await startApp();
+    serverUrl = `${app.origin}/api/dev/caldav/`;
+    credentials = { origin: app.origin, username: 'ada', password: 'any-password' };
+  });
+
+  after(() => app.close());
+
+  beforeEach(() => fakeCalDavServer.reset());
+
+  it('discovers the default calendar of the principal', async () => {
+    const calendars = await discoverCalDavCalendars(serverUrl, credentials);
+
+    assert.equal(calendars.length, 1);
+    assert.equal(calendars[0].url, `${serverUrl}ada/calendar/`);
+  });
+
+  it('stores, queries, updates, moves and deletes calendar objects', async () => {
+    const [calendar] = await discoverCalDavCalendars(serverUrl, credentials);
+    const url = calDavObjectUrl(calendar.url, 'standup.ics');
+
+    await putCalDavObject(url, credentials, icsAt('standup', 9, 'Standup'), { create: true });
+    await putCalDavObject(calDavObjectUrl(calendar.url, 'review.ics'), credentials, icsAt('review', 15), {
+      create: true,
+    });
+    await putCalDavObject(
+      calDavObjectUrl(calendar.url, 'tomorrow.ics'),
+      credentials,
+      buildICalEvent(
+        'tomorrow',
+        { title: 'Tomorrow', start: day.to, end: new Date(day.to.getTime() + 3600_000) },
+        at(0),
+      ),
+      { create: true },
+    );
+
+    const listed = await queryCalDavEvents(calendar.url, credentials, day);
+    assert.deepEqual(listed.map(object => object.url).sort(), [calDavObjectUrl(calendar.url, 'review.ics'), url]);
+
+    // Creating over an existing object fails the precondition
+    await assert.rejects(putCalDavObject(url, credentials, icsAt('standup', 9), { create: true }), {
+      status: 412,
+    });
+
+    const current = await getCalDavObject(url, credentials);
+    assert.ok(current);
+    await putCalDavObject(url, credentials, icsAt('standup', 10, 'Standup, later'), { etag: current.etag });
+    await assert.rejects(
+      putCalDavObject(url, credentials, icsAt('standup', 11), { etag: current.etag }),
+      (err: unknown) => err instanceof CalDavApiError && err.status === 412,
+    );
+
+    const updated = await getCalDavObject(url, credentials);
+    assert.equal(parseICalEvents(updated?.calendarData ?? '')[0]?.summary, 'Standup, later');
+
+    const otherCalendar = `${serverUrl}ada/work/`;
+    const mkcalendar = await fetch(otherCalendar, {
+      method: 'MKCALENDAR',
+      headers: { Authorization: `Basic ${Buffer.from('ada:x').toString('base64')}` },
+    });
+    assert.equal(mkcalendar.status, 201);
+
+    assert.equal(await moveCalDavObject(url, credentials, calDavObjectUrl(otherCalendar, 'standup.ics')), true);
+    assert.equal(await getCalDavObject(url, credentials), null);
+    assert.equal((await queryCalDavEvents(otherCalendar, credentials, day)).length, 1);
+
+    await deleteCalDavObject(calDavObjectUrl(otherCalendar, 'standup.ics'), credentials);
+    await deleteCalDavObject(calDavObjectUrl(otherCalendar, 'standup.ics'), credentials);
+    assert.equal((await queryCalDavEvents(otherCalendar, credentials, day)).length, 0);
+  });
+
+  it('keeps principals apart', async () => {
+    const res = await fetch(`${serverUrl}ada/calendar/`, {
+      method: 'PROPFIND',
+      headers: { Authorization: `Basic ${Buffer.from('eve:x').toString('base64')}`, Depth: '0' },
+    });
+    assert.equal(res.status, 403);
+  });
+
+  it('requires credentials', async () => {
+    const res = await fetch(serverUrl, { method: 'PROPFIND' });
+    assert.equal(res.status, 401);
+  });
+});
+
+describe('CalDAV address checks', () => {
+  it('refuses loopback, private and link-local addresses', async () => {
+    for (const url of [
+      'http://127.0.0.1/dav/',
+      'http://10.1.2.3/dav/',
+      'http://192.168.0.10/dav/',
+      'http://169.254.169.254/latest/',
+      'http://[::1]/dav/',
+      'http://[::ffff:127.0.0.1]/dav/',
+      'http://localhost/dav/',
+    ]) {
+      await assert.rejects(assertPublicCalDavUrl(url), CalDavBlockedAddressError, url);
+    }
+  });
+
+  it('does not send requests to loopback addresses other than the fake server', async () => {
+    const running = await startApp();
+    try {
+      const elsewhere = `http://localhost:${new URL(running.origin).port}/api/dev/caldav/`;
+      await assert.rejects(
+        discoverCalDavCalendars(elsewhere, { origin: new URL(elsewhere).origin, username: 'ada', password: 'x' }),
+        CalDavBlockedAddressError,
+      );
+    } finally {
+      await running.close();
+    }
+  });
+});
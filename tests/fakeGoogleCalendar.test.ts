@@ -0,0 +1,128 @@
+import assert from 'node:assert/strict';
+import { after, before, beforeEach, describe, it } from 'node:test';
+import {
+  deleteGoogleEvent,
+  fakeGoogleCalendarServer,
+  GoogleCalendarApiError,
+  insertGoogleEvent,
+  listGoogleCalendars,
+  listGoogleEventChanges,
+  listGoogleEventPage,
+  listGoogleEvents,
+  moveGoogleEvent,
+  patchGoogleEvent,
+} from '@/core/calendar';
+import { startApp, type RunningApp } from './helpers/devServers';
+
+const TOKEN = 'fake-access-token';
+
+const at = (hour: number) => ({ dateTime: new Date(Date.UTC(2025, 2, 17, hour)).toISOString() });
+
+const insertAt = (hour: number, summary = `Event at ${hour}`, calendarId = 'primary') =>
+  insertGoogleEvent(TOKEN, calendarId, { summary, start: at(hour), end: at(hour + 1) });
+
+const day = { from: new Date(Date.UTC(2025, 2, 17)), to: new Date(Date.UTC(2025, 2, 18)) };
+
+let app: RunningApp;
+
+describe('fake Google Calendar server', () => {
+  before(async () => {
+    app = await startApp();
+  });
+
+  after(() => app.close());
+
+  beforeEach(() => fakeGoogleCalendarServer.reset());
+
+  it('lists the events overlapping a range, page by page', async () => {
+    for (const hour of [8, 10, 12, 14, 16]) {
+      await insertAt(hour);
+    }
+    await insertGoogleEvent(TOKEN, 'primary', {
+      summary: 'Next day',
+      start: { dateTime: '2025-03-18T09:00:00.000Z' },
+      end: { dateTime: '2025-03-18T10:00:00.000Z' },
+    });
+
+    const summaries: string[] = [];
+    let pageToken: string | null = null;
+    let pages = 0;
+    do {
+      const page = await listGoogleEventPage(TOKEN, 'primary', day, { pageToken, maxResults: 2 });
+      summaries.push(...page.items.map(event => event.summary ?? ''));
+      pageToken = page.nextPageToken;
+      pages++;
+    } while (pageToken);
+
+    assert.equal(pages, 3);
+    assert.deepEqual(summaries, ['Event at 8', 'Event at 10', 'Event at 12', 'Event at 14', 'Event at 16']);
+    assert.equal((await listGoogleEvents(TOKEN, 'primary', day)).length, 5);
+  });
+
+  it('patches, moves and deletes events', async () => {
+    const [calendar] = await listGoogleCalendars(TOKEN);
+    assert.equal(calendar.primary, true);
+
+    const created = await insertAt(9, 'Standup');
+    const patched = await patchGoogleEvent(TOKEN, 'primary', created.id, { summary: 'Daily standup' });
+    assert.equal(patched.summary, 'Daily standup');
+    assert.deepEqual(patched.start, created.start);
+
+    const res = await fetch(`${app.origin}/api/dev/calendar/v3/calendars`, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${TOKEN}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ summary: 'Work' }),
+    });
+    const work = (await res.json()) as { id: string };
+
+    await moveGoogleEvent(TOKEN, 'primary', created.id, work.id);
+    assert.equal((await listGoogleEvents(TOKEN, 'primary', day)).length, 0);
+    assert.deepEqual(
+      (await listGoogleEvents(TOKEN, work.id, day)).map(event => event.summary),
+      ['Daily standup'],
+    );
+
+    await deleteGoogleEvent(TOKEN, work.id, created.id);
+    assert.equal((await listGoogleEvents(TOKEN, work.id, day)).length, 0);
+    await assert.rejects(patchGoogleEvent(TOKEN, work.id, created.id, { summary: 'Gone' }), { status: 410 });
+  });
+
+  it('reports changes since a sync token, deletions included', async () => {
+    const kept = await insertAt(9, 'Kept');
+    const removed = await insertAt(11, 'Removed');
+    const { events, nextSyncToken } = await listGoogleEventChanges(TOKEN, 'primary', null);
+    assert.equal(events.length, 2);
+
+    await patchGoogleEvent(TOKEN, 'primary', kept.id, { summary: 'Kept and renamed' });
+    await deleteGoogleEvent(TOKEN, 'primary', removed.id);
+
+    const changes = await listGoogleEventChanges(TOKEN, 'primary', nextSyncToken);
+    assert.deepEqual(
+      changes.events.map(event => [event.id, event.status, event.summary]),
+      [
+        [kept.id, 'confirmed', 'Kept and renamed'],
+        [removed.id, 'cancelled', 'Removed'],
+      ],
+    );
+
+    assert.equal((await listGoogleEventChanges(TOKEN, 'primary', changes.nextSyncToken)).events.length, 0);
+  });
+
+  it('asks for a full sync once sync tokens expire', async () => {
+    await insertAt(9);
+    const { nextSyncToken } = await listGoogleEventChanges(TOKEN, 'primary', null);
+
+    const res = await fetch(`${app.origin}/api/dev/calendar/v3/sync-tokens/expire`, { method: 'POST' });
+    assert.ok(res.ok);
+
+    await assert.rejects(
+      listGoogleEventChanges(TOKEN, 'primary', nextSyncToken),
+      (err: unknown) => err instanceof GoogleCalendarApiError && err.syncTokenExpired,
+    );
+  });
+
+  it('requires a bearer token', async () => {
+    const res = await fetch(`${app.origin}/api/dev/calendar/v3/users/me/calendarList`);
+    assert.equal(res.status, 401);
+  });
+});
@@ -0,0 +1,100 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { env } from '@/env';
+import { JwksCache, verifyGoogleIdToken } from '@/utils/googleOidc';
+import { generateSigningKey, signIdToken, toJwks, writeJwksFile } from './helpers/googleIdTokens';
+
+const audience = env.GOOGLE_CLIENT_ID as string;
+const nonce = 'test-nonce';
+
+const googleKey = generateSigningKey('google-key-1');
+const otherKey = generateSigningKey('google-key-1');
+const jwks = new JwksCache(async () => ({ document: toJwks(googleKey), maxAgeSeconds: null }));
+
+const rejects = (token: string, message: RegExp, keys: JwksCache = jwks) =>
+  assert.rejects(verifyGoogleIdToken(token, nonce, keys), { statusCode: 401, message });
+
+describe('verifyGoogleIdToken', () => {
+  it('returns the claims of a valid token', async () => {
+    const claims = await verifyGoogleIdToken(signIdToken(googleKey, { nonce }, { audience }), nonce, jwks);
+
+    assert.equal(claims.sub, '1234567890');
+    assert.equal(claims.email, 'ada@example.com');
+    assert.equal(claims.nonce, nonce);
+  });
+
+  it('accepts the issuer without scheme', async () => {
+    const token = signIdToken(googleKey, { nonce }, { audience, issuer: 'accounts.google.com' });
+    assert.equal((await verifyGoogleIdToken(token, nonce, jwks)).sub, '1234567890');
+  });
+
+  it('rejects a token signed by another key with the same key id', async () => {
+    await rejects(signIdToken(otherKey, { nonce }, { audience }), /expired or invalid/);
+  });
+
+  it('rejects a token signed with an unknown key id', async () => {
+    await rejects(signIdToken(generateSigningKey('unknown'), { nonce }, { audience }), /unknown key/);
+  });
+
+  it('rejects a token for another client', async () => {
+    await rejects(signIdToken(googleKey, { nonce }, { audience: 'other-client' }), /expired or invalid/);
+  });
+
+  it('rejects a token from another issuer', async () => {
+    await rejects(
+      signIdToken(googleKey, { nonce }, { audience, issuer: 'https://evil.example.com' }),
+      /expired or invalid/,
+    );
+  });
+
+  it('rejects an expired token', async () => {
+    await rejects(signIdToken(googleKey, { nonce }, { audience, expiresIn: -60 }), /expired or invalid/);
+  });
+
+  it('rejects a token with another nonce or none', async () => {
+    await rejects(signIdToken(googleKey, { nonce: 'replayed-nonce' }, { audience }), /Invalid Google ID token/);
+    await rejects(signIdToken(googleKey, {}, { audience }), /Invalid Google ID token/);
+  });
+
+  it('rejects a token that is not a JWT', async () => {
+    await rejects('not-a-token', /Invalid Google ID token/);
+  });
+
+  it('verifies against the key set at GOOGLE_JWKS_PATH by default', async () => {
+    env.GOOGLE_JWKS_PATH = writeJwksFile(googleKey);
+
+    const claims = await verifyGoogleIdToken(signIdToken(googleKey, { nonce }, { audience }), nonce);
+    assert.equal(claims.email, 'ada@example.com');
+
+    await assert.rejects(verifyGoogleIdToken(signIdToken(otherKey, { nonce }, { audience }), nonce), {
+      statusCode: 401,
+    });
+  });
+});
+
+describe('JwksCache', () => {
+  it('reloads the key set once it has expired', async () => {
+    const rotatedKey = generateSigningKey('google-key-2');
+    let loads = 0;
+    const cache = new JwksCache(async () => {
+      loads++;
+      return { document: toJwks(googleKey, ...(loads > 1 ? [rotatedKey] : [])), maxAgeSeconds: 0 };
+    });
+
+    assert.ok(await cache.getKey('google-key-1'));
+    assert.ok(await cache.getKey('google-key-2'));
+    assert.equal(loads, 2);
+  });
+
+  it('does not refetch for unknown key ids right after a fetch', async () => {
+    let loads = 0;
+    const cache = new JwksCache(async () => {
+      loads++;
+      return { document: toJwks(googleKey), maxAgeSeconds: 3600 };
+    });
+
+    assert.ok(await cache.getKey('google-key-1'));
+    assert.equal(await cache.getKey('unknown'), null);
+    assert.equal(loads, 1);
+  });
+});
@@ -0,0 +1,63 @@
+/**
+ * App Under Test
+ * - Serves the API app on a free local port and signs requests in with
+ *   session cookies issued for a given user
+ */
+
+import type { AddressInfo } from 'net';
+import type { Server } from 'http';
+import app from '@/server/server';
+import { ACCESS_TOKEN_COOKIE, generateJWTandSetCookie } from '@/utils/jwt_session';
+import { recordResponse } from './fixtures';
+
+export interface RunningApp {
+  origin: string;
+  close(): Promise<void>;
+}
+
+export async function startApp(): Promise<RunningApp> {
+  const server: Server = await new Promise(resolve => {
+    const listening = app.listen(0, '127.0.0.1', () => resolve(listening));
+  });
+  const origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  return {
+    origin,
+    close: () => new Promise<void>((resolve, reject) => server.close(err => (err ? reject(err) : resolve()))),
+  };
+}
+
+/**
+ * Cookie header of a fresh session for the user
+ */
+export async function sessionCookie(userId: string): Promise<string> {
+  const recorded = recordResponse();
+  await generateJWTandSetCookie(recorded.response, userId);
+  return `${ACCESS_TOKEN_COOKIE}=${recorded.cookies.get(ACCESS_TOKEN_COOKIE)}`;
+}
+
+/**
+ * Send a JSON request to the app
+ * @returns The status and the parsed body of JSON responses
+ */
+export async function request(
+  running: RunningApp,
+  method: string,
+  path: string,
+  options: { body?: unknown; cookie?: string } = {},
+) {
+  const res = await fetch(`${running.origin}${path}`, {
+    method,
+    headers: {
+      ...(options.body === undefined ? {} : { 'Content-Type': 'application/json' }),
+      ...(options.cookie ? { Cookie: options.cookie } : {}),
+    },
+    body: options.body === undefined ? undefined : JSON.stringify(options.body),
+    redirect: 'manual',
+  });
+  const text = await res.text();
+  // Redirects answer with plain text
+  const json = text && res.headers.get('content-type')?.includes('application/json');
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  return { status: res.status, headers: res.headers, body: (json ? JSON.parse(text) : null) as any };
+}
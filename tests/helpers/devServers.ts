@@ -0,0 +1,16 @@
+/**
+ * Dev Servers Under Test
+ * - Serves the API app (with DEV_SERVERS_ENABLED, see tests/setup.ts) and
+ *   points API_URL and the Google Calendar API at it
+ */
+
+import { env } from '@/env';
+import { startApp as startApiApp, type RunningApp } from './app';
+
+export type { RunningApp };
+
+export async function startApp(): Promise<RunningApp> {
+  const running = await startApiApp();
+  Object.assign(env, { API_URL: running.origin, GOOGLE_CALENDAR_API_URL: `${running.origin}/api/dev/calendar/v3` });
+  return running;
+}
@@ -0,0 +1,59 @@
+/**
+ * Test Fixtures
+ * - Rows and request/response stand-ins shared by the test files
+ */
+
+import { randomUUID } from 'crypto';
+import type { Response as ExpressResponse } from 'express';
+import { db } from '@/db';
+import { tasks, users, type NewTask, type NewUser } from '@/db/schemas';
+
+/**
+ * Insert a user with a unique email
+ */
+export const createUser = async (overrides: Partial<NewUser> = {}) => {
+  const suffix = randomUUID().slice(0, 8);
+  const [user] = await db
+    .insert(users)
+    .values({ username: `user-${suffix}`, email: `user-${suffix}@example.com`, isVerified: true, ...overrides })
+    .returning();
+  return user;
+};
+
+/**
+ * Insert a task for a user
+ */
+export const createTask = async (userId: string, overrides: Partial<NewTask> = {}) => {
+  const [task] = await db
+    .insert(tasks)
+    .values({ userId, title: 'Write the report', ...overrides })
+    .returning();
+  return task;
+};
+
+export interface RecordedResponse {
+  response: ExpressResponse;
+  /** Cookies set through the response, by name */
+  cookies: Map<string, string>;
+  /** Names of the cookies cleared through the response */
+  cleared: string[];
+}
+
+/**
+ * A response that only records the cookies set on it
+ */
+export const recordResponse = (): RecordedResponse => {
+  const cookies = new Map<string, string>();
+  const cleared: string[] = [];
+  const response = {
+    cookie(name: string, value: string) {
+      cookies.set(name, value);
+      return response;
+    },
+    clearCookie(name: string) {
+      cleared.push(name);
+      return response;
+    },
+  };
+  return { response: response as unknown as ExpressResponse, cookies, cleared };
+};
@@ -0,0 +1,61 @@
+/**
+ * Test Google Signing Keys
+ * - Generates RSA key pairs standing in for Google's, publishes them as a
+ *   JSON Web Key Set and signs ID tokens the way Google does
+ */
+
+import { generateKeyPairSync, type KeyObject } from 'crypto';
+import { writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import jwt from 'jsonwebtoken';
+
+export interface TestSigningKey {
+  kid: string;
+  privateKey: KeyObject;
+  publicKey: KeyObject;
+}
+
+export const GOOGLE_ISSUER = 'https://accounts.google.com';
+
+export const generateSigningKey = (kid: string): TestSigningKey => {
+  const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+  return { kid, privateKey, publicKey };
+};
+
+/**
+ * JSON Web Key Set publishing the public keys, as Google serves it
+ */
+export const toJwks = (...keys: TestSigningKey[]) => ({
+  keys: keys.map(({ kid, publicKey }) => ({ ...publicKey.export({ format: 'jwk' }), kid, alg: 'RS256', use: 'sig' })),
+});
+
+/**
+ * Write the key set to a temporary file, for GOOGLE_JWKS_PATH
+ * @returns Path of the file
+ */
+export const writeJwksFile = (...keys: TestSigningKey[]): string => {
+  const file = path.join(tmpdir(), `google-jwks-${process.pid}-${Date.now()}.json`);
+  writeFileSync(file, JSON.stringify(toJwks(...keys)));
+  return file;
+};
+
+/**
+ * Sign an ID token; claims override the defaults of a valid token for the client
+ */
+export const signIdToken = (
+  key: TestSigningKey,
+  claims: Record<string, unknown>,
+  options: { audience: string; expiresIn?: number; issuer?: string },
+): string =>
+  jwt.sign(
+    { sub: '1234567890', email: 'ada@example.com', email_verified: true, name: 'Ada', ...claims },
+    key.privateKey,
+    {
+      algorithm: 'RS256',
+      keyid: key.kid,
+      audience: options.audience,
+      issuer: options.issuer ?? GOOGLE_ISSUER,
+      expiresIn: options.expiresIn ?? 3600,
+    },
+  );
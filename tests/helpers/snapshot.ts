@@ -0,0 +1,25 @@
+/**
+ * Snapshots
+ * - Compares output against a file under tests/__snapshots__
+ * - A missing snapshot is written, except on CI where it fails the test;
+ *   UPDATE_SNAPSHOTS=true rewrites them all after an intended change
+ */
+
+import assert from 'node:assert/strict';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import path from 'path';
+
+const SNAPSHOT_DIR = path.join(import.meta.dirname, '..', '__snapshots__');
+
+export function assertSnapshot(name: string, actual: string): void {
+  const file = path.join(SNAPSHOT_DIR, name);
+
+  if (process.env.UPDATE_SNAPSHOTS === 'true' || (!existsSync(file) && !process.env.CI)) {
+    mkdirSync(path.dirname(file), { recursive: true });
+    writeFileSync(file, actual);
+    return;
+  }
+
+  assert.ok(existsSync(file), `Snapshot ${name} is missing; run the tests with UPDATE_SNAPSHOTS=true`);
+  assert.equal(actual, readFileSync(file, 'utf8'), `Output differs from snapshot ${name}`);
+}
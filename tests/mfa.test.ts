@@ -0,0 +1,99 @@
+import assert from 'node:assert/strict';
+import { createHash } from 'node:crypto';
+import { after, before, describe, it } from 'node:test';
+import { eq } from 'drizzle-orm';
+import { db } from '@/db';
+import { mfaRecoveryCodes, users } from '@/db/schemas';
+import { signMfaChallengeToken } from '@/utils/jwt_session';
+import { decryptSecret } from '@/utils/secretEncryption';
+import { currentTimeStep, generateTotp, hashRecoveryCode } from '@/utils/totp';
+import { request, sessionCookie, startApp, type RunningApp } from './helpers/app';
+import { createUser } from './helpers/fixtures';
+
+let app: RunningApp;
+
+/**
+ * Enroll and confirm MFA for a new user
+ * @returns The user, the plaintext secret and the recovery codes
+ */
+async function enableMfa() {
+  const user = await createUser();
+  const cookie = await sessionCookie(user.id);
+
+  const enrolled = await request(app, 'POST', '/api/auth/mfa/enroll', { cookie });
+  assert.equal(enrolled.status, 200);
+  const secret: string = enrolled.body.data.secret;
+
+  const confirmed = await request(app, 'POST', '/api/auth/mfa/confirm', {
+    cookie,
+    body: { code: generateTotp(secret) },
+  });
+  assert.equal(confirmed.status, 200);
+
+  return { user, secret, recoveryCodes: confirmed.body.data.recoveryCodes as string[] };
+}
+
+const loginMfa = (userId: string, code: string) =>
+  request(app, 'POST', '/api/auth/login/mfa', { body: { mfaToken: signMfaChallengeToken(userId), code } });
+
+describe('MFA', () => {
+  before(async () => {
+    app = await startApp();
+  });
+
+  after(() => app.close());
+
+  it('stores the TOTP secret encrypted', async () => {
+    const { user, secret } = await enableMfa();
+    const [stored] = await db.select({ mfaSecret: users.mfaSecret }).from(users).where(eq(users.id, user.id));
+
+    const mfaSecret = stored.mfaSecret ?? '';
+
+    assert.ok(mfaSecret.startsWith('enc:v1:'));
+    assert.ok(!mfaSecret.includes(secret));
+    assert.equal(decryptSecret(mfaSecret), secret);
+  });
+
+  it('stores recovery codes as keyed hashes', async () => {
+    const { user, recoveryCodes } = await enableMfa();
+    const stored = await db
+      .select({ codeHash: mfaRecoveryCodes.codeHash })
+      .from(mfaRecoveryCodes)
+      .where(eq(mfaRecoveryCodes.userId, user.id));
+    const hashes = stored.map(row => row.codeHash);
+
+    assert.equal(hashes.length, recoveryCodes.length);
+    for (const code of recoveryCodes) {
+      assert.ok(hashes.includes(hashRecoveryCode(code)));
+      const unkeyed = createHash('sha256').update(code.replace('-', '')).digest('hex');
+      assert.ok(!hashes.includes(unkeyed));
+    }
+  });
+
+  it('normalises recovery codes before hashing', () => {
+    assert.equal(hashRecoveryCode(' A1B2C-3D4E5 '), hashRecoveryCode('a1b2c3d4e5'));
+  });
+
+  it('accepts each recovery code once', async () => {
+    const { user, recoveryCodes } = await enableMfa();
+
+    assert.equal((await loginMfa(user.id, recoveryCodes[0])).status, 200);
+    assert.equal((await loginMfa(user.id, recoveryCodes[0])).status, 401);
+    assert.equal((await loginMfa(user.id, recoveryCodes[1].toUpperCase())).status, 200);
+  });
+
+  it('accepts each TOTP time step once', async () => {
+    const { user, secret } = await enableMfa();
+    const [{ mfaLastUsedStep }] = await db
+      .select({ mfaLastUsedStep: users.mfaLastUsedStep })
+      .from(users)
+      .where(eq(users.id, user.id));
+    const confirmedStep = mfaLastUsedStep ?? currentTimeStep();
+
+    assert.equal((await loginMfa(user.id, generateTotp(secret, confirmedStep))).status, 401);
+
+    const nextCode = generateTotp(secret, confirmedStep + 1);
+    assert.equal((await loginMfa(user.id, nextCode)).status, 200);
+    assert.equal((await loginMfa(user.id, nextCode)).status, 401);
+  });
+});
@@ -0,0 +1,123 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import { createHash, randomBytes } from 'crypto';
+import {
+  buildAuthorizationUrl,
+  exchangeAuthorizationCode,
+  getOAuthProvider,
+  refreshAccessToken,
+  revokeToken,
+  type OAuthProvider,
+  type OAuthTokens,
+} from '@/core/oauth';
+import { request } from './helpers/app';
+import { startApp, type RunningApp } from './helpers/devServers';
+
+let app: RunningApp;
+let provider: OAuthProvider;
+
+/**
+ * Run the authorization step the way a browser would, without following the redirect
+ * @returns Query parameters of the callback URL
+ */
+async function authorize(codeVerifier: string, extra: Record<string, string> = {}) {
+  const url = new URL(
+    buildAuthorizationUrl(provider, 'login', {
+      state: 'test-state',
+      nonce: 'test-nonce',
+      codeChallenge: createHash('sha256').update(codeVerifier).digest('base64url'),
+    }),
+  );
+  for (const [name, value] of Object.entries(extra)) {
+    url.searchParams.set(name, value);
+  }
+
+  const res = await fetch(url, { redirect: 'manual' });
+  assert.equal(res.status, 302);
+
+  const callback = new URL(res.headers.get('location') ?? '');
+  assert.equal(`${callback.origin}${callback.pathname}`, provider.redirectUri);
+  return callback.searchParams;
+}
+
+describe('mock OAuth server', () => {
+  before(async () => {
+    app = await startApp();
+    provider = getOAuthProvider('mock') as OAuthProvider;
+    assert.ok(provider, 'the mock provider is registered when DEV_SERVERS_ENABLED is true');
+  });
+
+  after(() => app.close());
+
+  it('signs in the hinted account through code, PKCE, refresh and revocation', async () => {
+    const codeVerifier = randomBytes(32).toString('base64url');
+    const callback = await authorize(codeVerifier, { login_hint: 'Ada@Example.com' });
+    assert.equal(callback.get('state'), 'test-state');
+
+    const tokens = await exchangeAuthorizationCode(provider, callback.get('code') ?? '', codeVerifier);
+    assert.ok(tokens.ok);
+    assert.ok(tokens.data.access_token && tokens.data.refresh_token);
+
+    const profile = await provider.getProfile(tokens.data as OAuthTokens, 'test-nonce');
+    assert.equal(profile.email, 'ada@example.com');
+    assert.equal(profile.emailVerified, true);
+
+    const refreshed = await refreshAccessToken(provider, tokens.data.refresh_token as string);
+    assert.ok(refreshed.ok);
+    assert.notEqual(refreshed.data.access_token, tokens.data.access_token);
+    assert.equal(refreshed.data.refresh_token, undefined);
+
+    assert.equal(await revokeToken(provider, tokens.data.refresh_token as string), true);
+    assert.equal((await refreshAccessToken(provider, tokens.data.refresh_token as string)).data.error, 'invalid_grant');
+    await assert.rejects(provider.getProfile(refreshed.data as OAuthTokens, 'test-nonce'), /status 401/);
+  });
+
+  it('rejects a code exchanged with the wrong verifier, and the code afterwards', async () => {
+    const codeVerifier = randomBytes(32).toString('base64url');
+    const code = (await authorize(codeVerifier)).get('code') ?? '';
+
+    const wrong = await exchangeAuthorizationCode(provider, code, 'wrong-verifier');
+    assert.equal(wrong.ok, false);
+    assert.equal(wrong.data.error, 'invalid_grant');
+
+    // Codes are single-use, even after a failed exchange
+    assert.equal((await exchangeAuthorizationCode(provider, code, codeVerifier)).ok, false);
+  });
+
+  it('answers a declined consent with access_denied', async () => {
+    const callback = await authorize('verifier', { deny: 'true' });
+
+    assert.equal(callback.get('error'), 'access_denied');
+    assert.equal(callback.get('code'), null);
+  });
+
+  it('signs a browser in through the API', async () => {
+    const started = await request(app, 'POST', '/api/auth/oauth/mock/login');
+    assert.equal(started.status, 200);
+    const binding = started.headers.getSetCookie().find(cookie => cookie.startsWith('oauthBinding='));
+    assert.ok(binding);
+
+    const authorized = await fetch(`${started.body.data.url}&login_hint=grace@example.com`, { redirect: 'manual' });
+    const callback = new URL(authorized.headers.get('location') ?? '');
+
+    const completed = await request(app, 'GET', `${callback.pathname}${callback.search}`, {
+      cookie: binding.split(';')[0],
+    });
+    assert.equal(completed.status, 303);
+    assert.equal(new URL(completed.headers.get('location') ?? '').searchParams.get('status'), 'signed_in');
+    assert.ok(completed.headers.getSetCookie().some(cookie => cookie.startsWith('token=')));
+  });
+
+  it('refuses unknown clients', async () => {
+    const url = new URL(buildAuthorizationUrl(provider, 'login', { state: 's', nonce: 'n', codeChallenge: 'c' }));
+    url.searchParams.set('client_id', 'someone-else');
+    assert.equal((await fetch(url, { redirect: 'manual' })).status, 400);
+
+    const res = await fetch(provider.tokenUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({ grant_type: 'refresh_token', client_id: provider.clientId, client_secret: 'x' }),
+    });
+    assert.equal(res.status, 401);
+  });
+});
@@ -0,0 +1,88 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import { consumeOAuthState, createOAuthState, setOAuthBindingCookie } from '@/utils/oauthState';
+import { request, sessionCookie, startApp, type RunningApp } from './helpers/app';
+import { createUser, recordResponse } from './helpers/fixtures';
+
+/**
+ * Binding cookie value a browser holds after starting the flow
+ */
+const bindingFor = (nonce: string) => {
+  const recorded = recordResponse();
+  setOAuthBindingCookie(recorded.response, nonce);
+  return recorded.cookies.get('oauthBinding') ?? null;
+};
+
+describe('OAuth state', () => {
+  let app: RunningApp;
+
+  before(async () => {
+    app = await startApp();
+  });
+
+  after(() => app.close());
+
+  it('completes a connect flow in the browser that started it', async () => {
+    const user = await createUser();
+    const { state, nonce } = await createOAuthState('google', { purpose: 'connect', userId: user.id });
+
+    const flow = await consumeOAuthState(state, 'google', bindingFor(nonce));
+
+    assert.equal(flow.purpose, 'connect');
+    assert.equal(flow.userId, user.id);
+  });
+
+  it('rejects a connect flow returning to another browser', async () => {
+    const user = await createUser();
+    const { state } = await createOAuthState('google', { purpose: 'connect', userId: user.id });
+    const other = await createOAuthState('google', { purpose: 'connect', userId: user.id });
+
+    await assert.rejects(consumeOAuthState(state, 'google', null), {
+      statusCode: 401,
+      message: 'OAuth flow was started in another browser',
+    });
+    await assert.rejects(consumeOAuthState(state, 'google', bindingFor(other.nonce)), {
+      statusCode: 401,
+      message: 'OAuth flow was started in another browser',
+    });
+  });
+
+  it('rejects a sign-in flow returning to another browser', async () => {
+    const { state } = await createOAuthState('google', { purpose: 'login' });
+
+    await assert.rejects(consumeOAuthState(state, 'google', null), {
+      statusCode: 401,
+      message: 'OAuth flow was started in another browser',
+    });
+  });
+
+  it('sets the binding cookie when a connect flow starts', async () => {
+    const user = await createUser();
+
+    const started = await request(app, 'POST', '/api/auth/oauth/google/connect', {
+      cookie: await sessionCookie(user.id),
+    });
+
+    assert.equal(started.status, 200);
+    assert.match(started.headers.get('set-cookie') ?? '', /oauthBinding=[0-9a-f]{64}; .*Path=\/api\/auth/);
+  });
+
+  it('turns away a connect callback without the binding cookie', async () => {
+    const user = await createUser();
+    const started = await request(app, 'POST', '/api/auth/oauth/google/connect', {
+      cookie: await sessionCookie(user.id),
+    });
+    const state = new URL(started.body.data.url).searchParams.get('state') ?? '';
+
+    const callback = await request(
+      app,
+      'GET',
+      `/api/auth/oauth/google/callback?code=code&state=${encodeURIComponent(state)}`,
+    );
+
+    assert.equal(callback.status, 303);
+    const location = new URL(callback.headers.get('location') ?? '');
+    assert.equal(location.searchParams.get('status'), 'error');
+    assert.equal(location.searchParams.get('reason'), 'invalid_state');
+  });
+});
@@ -0,0 +1,114 @@
+import assert from 'node:assert/strict';
+import { createHash } from 'node:crypto';
+import { describe, it } from 'node:test';
+import { and, eq } from 'drizzle-orm';
+import { db } from '@/db';
+import { otpCodes } from '@/db/schemas';
+import { consumeOtp, hashOtpCode, issueOtp, MAX_OTP_ATTEMPTS, type OtpType } from '@/utils/otp';
+import { createUser } from './helpers/fixtures';
+
+const consume = (userId: string, code: string, type: OtpType = 'email_verification') =>
+  db.transaction(tx => consumeOtp(tx, userId, type, code));
+
+const findCode = async (userId: string, type: OtpType = 'email_verification') => {
+  const [row] = await db
+    .select()
+    .from(otpCodes)
+    .where(and(eq(otpCodes.userId, userId), eq(otpCodes.type, type)));
+  return row;
+};
+
+const wrongCode = (code: string) => (code === '000000' ? '111111' : '000000');
+
+describe('OTP codes', () => {
+  it('stores a salted, keyed hash instead of the code', async () => {
+    const user = await createUser();
+    const { code } = await issueOtp(user.id, 'email_verification');
+    const row = await findCode(user.id);
+
+    assert.match(code, /^\d{6}$/);
+    assert.ok(row.salt);
+    assert.equal(row.codeHash, hashOtpCode(code, row.salt));
+    assert.notEqual(row.codeHash, createHash('sha256').update(code).digest('hex'));
+    assert.notEqual(hashOtpCode(code, 'another-salt'), row.codeHash);
+  });
+
+  it('accepts a code once', async () => {
+    const user = await createUser();
+    const { code } = await issueOtp(user.id, 'email_verification');
+
+    assert.equal(await consume(user.id, code), 'valid');
+    assert.equal(await consume(user.id, code), 'invalid');
+    assert.equal(await findCode(user.id), undefined);
+  });
+
+  it('keeps codes of different types apart', async () => {
+    const user = await createUser();
+    const { code } = await issueOtp(user.id, 'reset_password');
+
+    assert.equal(await consume(user.id, code, 'email_verification'), 'invalid');
+    assert.equal(await consume(user.id, code, 'reset_password'), 'valid');
+  });
+
+  it('rolls the consumption back with the transaction that used it', async () => {
+    const user = await createUser();
+    const { code } = await issueOtp(user.id, 'email_verification');
+
+    await assert.rejects(
+      db.transaction(async tx => {
+        assert.equal(await consumeOtp(tx, user.id, 'email_verification', code), 'valid');
+        throw new Error('the change the code authorised failed');
+      }),
+    );
+
+    assert.equal(await consume(user.id, code), 'valid');
+  });
+
+  it('reports a matching code past its expiry as expired', async () => {
+    const user = await createUser();
+    const { code } = await issueOtp(user.id, 'email_verification');
+    await db
+      .update(otpCodes)
+      .set({ expiresAt: new Date(Date.now() - 1000) })
+      .where(eq(otpCodes.userId, user.id));
+
+    assert.equal(await consume(user.id, code), 'expired');
+  });
+
+  it('invalidates a code after too many wrong guesses', async () => {
+    const user = await createUser();
+    const { code } = await issueOtp(user.id, 'email_verification');
+
+    for (let i = 1; i < MAX_OTP_ATTEMPTS; i++) {
+      assert.equal(await consume(user.id, wrongCode(code)), 'invalid');
+    }
+    assert.equal((await findCode(user.id)).failedAttempts, MAX_OTP_ATTEMPTS - 1);
+    assert.equal(await consume(user.id, wrongCode(code)), 'exhausted');
+
+    assert.equal(await consume(user.id, code), 'invalid');
+  });
+
+  it('resets the wrong guesses when a new code is issued', async () => {
+    const user = await createUser();
+    const first = await issueOtp(user.id, 'email_verification');
+    await consume(user.id, wrongCode(first.code));
+
+    const { code } = await issueOtp(user.id, 'email_verification');
+
+    assert.equal((await findCode(user.id)).failedAttempts, 0);
+    assert.equal(await consume(user.id, code), 'valid');
+  });
+
+  it('still accepts codes stored before salts were introduced', async () => {
+    const user = await createUser();
+    await db.insert(otpCodes).values({
+      userId: user.id,
+      type: 'email_verification',
+      codeHash: hashOtpCode('123456', null),
+      salt: null,
+      expiresAt: new Date(Date.now() + 60_000),
+    });
+
+    assert.equal(await consume(user.id, '123456'), 'valid');
+  });
+});
@@ -0,0 +1,65 @@
+import assert from 'node:assert/strict';
+import { beforeEach, describe, it, mock } from 'node:test';
+import { getMailTransport, type MailMessage } from '@/core/mail';
+import type { ReceivedJob } from '@/core/queue';
+import { db } from '@/db';
+import { handleOtpEmailJob } from '@/jobs/otp.job';
+import { consumeOtp, OTP_TTL_MINUTES } from '@/utils/otp';
+import { createUser } from './helpers/fixtures';
+
+const sent: MailMessage[] = [];
+mock.method(getMailTransport(), 'send', async (message: MailMessage) => {
+  sent.push(message);
+});
+
+const job: ReceivedJob = { id: 'job-1', queue: 'OTP_QUEUE', body: null, attempts: 1, receipt: '1' };
+
+const codeIn = (message: MailMessage) => message.text.match(/\b\d{6}\b/)?.[0] ?? '';
+
+describe('OTP email job', () => {
+  beforeEach(() => {
+    sent.length = 0;
+  });
+
+  it('emails a fresh code that verifies the account', async () => {
+    const user = await createUser({ isVerified: false });
+
+    await handleOtpEmailJob({ email: user.email, type: 'email_verification' }, job);
+
+    assert.equal(sent.length, 1);
+    assert.equal(sent[0].to, user.email);
+    assert.ok(sent[0].text.includes(`${OTP_TTL_MINUTES} minutes`));
+    const result = await db.transaction(tx => consumeOtp(tx, user.id, 'email_verification', codeIn(sent[0])));
+    assert.equal(result, 'valid');
+  });
+
+  it('sends the email of the requested type in the requested language', async () => {
+    const user = await createUser();
+
+    await handleOtpEmailJob({ email: user.email, type: 'reset_password', locale: 'es-MX' }, job);
+    await handleOtpEmailJob({ email: user.email, type: 'reset_password' }, job);
+
+    assert.notEqual(sent[0].subject, sent[1].subject);
+    const result = await db.transaction(tx => consumeOtp(tx, user.id, 'reset_password', codeIn(sent[1])));
+    assert.equal(result, 'valid');
+  });
+
+  it('replaces the code sent before', async () => {
+    const user = await createUser();
+
+    await handleOtpEmailJob({ email: user.email, type: 'account_unlock' }, job);
+    await handleOtpEmailJob({ email: user.email, type: 'account_unlock' }, job);
+    const [first, second] = sent.map(codeIn);
+
+    if (first !== second) {
+      assert.equal(await db.transaction(tx => consumeOtp(tx, user.id, 'account_unlock', first)), 'invalid');
+    }
+    assert.equal(await db.transaction(tx => consumeOtp(tx, user.id, 'account_unlock', second)), 'valid');
+  });
+
+  it('drops requests for unknown emails without sending anything', async () => {
+    await handleOtpEmailJob({ email: 'nobody@example.com', type: 'reset_password' }, job);
+
+    assert.deepEqual(sent, []);
+  });
+});
@@ -0,0 +1,165 @@
+import assert from 'node:assert/strict';
+import { randomUUID } from 'node:crypto';
+import { beforeEach, describe, it } from 'node:test';
+import { eq } from 'drizzle-orm';
+import { db } from '@/db';
+import { outboxEvents } from '@/db/schemas';
+import {
+  enqueueViaOutbox,
+  OutboxDispatcher,
+  recordOutboxEvent,
+  type OutboxDispatcherOptions,
+  type OutboxEventType,
+  type OutboxHandlers,
+} from '@/core/outbox';
+
+/**
+ * Handlers that record what they were called with, failing while `failure` is set
+ */
+const recordingHandlers = () => {
+  const calls: Array<{ type: OutboxEventType; payload: unknown }> = [];
+  const state = { failure: null as string | null };
+  const record = (type: OutboxEventType) => async (payload: unknown) => {
+    if (state.failure) {
+      throw new Error(state.failure);
+    }
+    calls.push({ type, payload });
+  };
+  const handlers: OutboxHandlers = {
+    'queue.enqueue': record('queue.enqueue'),
+    'calendar.sync_task': record('calendar.sync_task'),
+    'calendar.delete_event': record('calendar.delete_event'),
+    'calendar.pull_changes': record('calendar.pull_changes'),
+    'calendar.watch': record('calendar.watch'),
+    'calendar.backfill': record('calendar.backfill'),
+  };
+  return { handlers, calls, state };
+};
+
+const dispatcherWith = (options: Partial<OutboxDispatcherOptions> = {}) => {
+  const recording = recordingHandlers();
+  return { ...recording, dispatcher: new OutboxDispatcher({ handlers: recording.handlers, ...options }) };
+};
+
+const findEvent = async (id: string) => {
+  const [event] = await db.select().from(outboxEvents).where(eq(outboxEvents.id, id));
+  return event;
+};
+
+describe('outbox', () => {
+  beforeEach(async () => {
+    await db.delete(outboxEvents);
+  });
+
+  it('rejects an event whose payload does not match its type', async () => {
+    await assert.rejects(
+      recordOutboxEvent({ type: 'calendar.sync_task', payload: { userId: 'nope', taskId: randomUUID() } }),
+      /Invalid calendar.sync_task outbox payload/,
+    );
+  });
+
+  it('only dispatches events whose transaction committed', async () => {
+    const { dispatcher, calls } = dispatcherWith();
+    const userId = randomUUID();
+
+    await db
+      .transaction(async tx => {
+        await recordOutboxEvent({ type: 'calendar.watch', payload: { userId: randomUUID() } }, tx);
+        throw new Error('rolled back');
+      })
+      .catch(() => undefined);
+    await db.transaction(tx => recordOutboxEvent({ type: 'calendar.watch', payload: { userId } }, tx));
+
+    assert.equal(await dispatcher.runOnce(), 1);
+    assert.deepEqual(calls, [{ type: 'calendar.watch', payload: { userId } }]);
+  });
+
+  it('removes an event once its handler succeeded', async () => {
+    const { dispatcher, calls } = dispatcherWith();
+    const id = await enqueueViaOutbox('OTP_QUEUE', { email: 'ada@example.com', type: 'reset_password' });
+
+    await dispatcher.runOnce();
+
+    assert.deepEqual(calls, [
+      {
+        type: 'queue.enqueue',
+        payload: { queue: 'OTP_QUEUE', payload: { email: 'ada@example.com', type: 'reset_password' } },
+      },
+    ]);
+    assert.equal(await findEvent(id), undefined);
+    assert.equal(await dispatcher.runOnce(), 0);
+  });
+
+  it('dispatches events oldest first', async () => {
+    const { dispatcher, calls } = dispatcherWith();
+    const userIds = [randomUUID(), randomUUID(), randomUUID()];
+    for (const userId of userIds) {
+      await recordOutboxEvent({ type: 'calendar.pull_changes', payload: { userId } });
+    }
+
+    await dispatcher.runOnce();
+
+    assert.deepEqual(
+      calls.map(call => (call.payload as { userId: string }).userId),
+      userIds,
+    );
+  });
+
+  it('reschedules a failed attempt with a backoff', async () => {
+    const { dispatcher, state } = dispatcherWith();
+    const id = await recordOutboxEvent({ type: 'calendar.backfill', payload: { userId: randomUUID() } });
+    state.failure = 'calendar unavailable';
+
+    await dispatcher.runOnce();
+
+    const event = await findEvent(id);
+    assert.equal(event.status, 'pending');
+    assert.equal(event.attempts, 1);
+    assert.equal(event.lastError, 'calendar unavailable');
+    assert.ok(event.availableAt.getTime() > Date.now());
+    assert.equal(await dispatcher.runOnce(), 0);
+  });
+
+  it('marks an event failed after its last attempt', async () => {
+    const { dispatcher, state } = dispatcherWith({ maxAttempts: 1 });
+    const id = await recordOutboxEvent({ type: 'calendar.backfill', payload: { userId: randomUUID() } });
+    state.failure = 'calendar unavailable';
+
+    await dispatcher.runOnce();
+
+    const event = await findEvent(id);
+    assert.equal(event.status, 'failed');
+    assert.equal(event.lastError, 'calendar unavailable');
+  });
+
+  it('marks events of unknown types or with invalid payloads failed without running a handler', async () => {
+    const { dispatcher, calls } = dispatcherWith();
+    const [unknown, invalid] = await db
+      .insert(outboxEvents)
+      .values([
+        { type: 'calendar.unknown', payload: {} },
+        { type: 'calendar.watch', payload: { userId: 'not-a-uuid' } },
+      ])
+      .returning({ id: outboxEvents.id });
+
+    await dispatcher.runOnce();
+
+    assert.deepEqual(calls, []);
+    assert.match((await findEvent(unknown.id)).lastError ?? '', /Unknown event type/);
+    assert.match((await findEvent(invalid.id)).lastError ?? '', /Invalid payload/);
+  });
+
+  it('claims an event again once the claim of a crashed attempt expired', async () => {
+    const { dispatcher, calls } = dispatcherWith();
+    const id = await recordOutboxEvent({ type: 'calendar.watch', payload: { userId: randomUUID() } });
+    await db
+      .update(outboxEvents)
+      .set({ status: 'processing', attempts: 1, lockedUntil: new Date(Date.now() - 1000) })
+      .where(eq(outboxEvents.id, id));
+
+    await dispatcher.runOnce();
+
+    assert.equal(calls.length, 1);
+    assert.equal(await findEvent(id), undefined);
+  });
+});
@@ -0,0 +1,74 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import { eq } from 'drizzle-orm';
+import { db } from '@/db';
+import { users } from '@/db/schemas';
+import { hasPermission } from '@/utils/permissions';
+import { request, sessionCookie, startApp, type RunningApp } from './helpers/app';
+import { createTask, createUser } from './helpers/fixtures';
+
+describe('hasPermission', () => {
+  it('grants users their own tasks only', () => {
+    assert.equal(hasPermission('user', 'tasks:read:own'), true);
+    assert.equal(hasPermission('user', 'tasks:write:own'), true);
+    assert.equal(hasPermission('user', 'tasks:read:any'), false);
+    assert.equal(hasPermission('user', 'users:manage'), false);
+  });
+
+  it('grants admins every permission', () => {
+    assert.equal(hasPermission('admin', 'tasks:write:any'), true);
+    assert.equal(hasPermission('admin', 'outbox:manage'), true);
+  });
+
+  it('grants unknown and missing roles nothing', () => {
+    assert.equal(hasPermission('superuser', 'tasks:read:own'), false);
+    assert.equal(hasPermission('toString', 'tasks:read:own'), false);
+    assert.equal(hasPermission(undefined, 'tasks:read:own'), false);
+  });
+});
+
+describe('role-based access', () => {
+  let app: RunningApp;
+
+  before(async () => {
+    app = await startApp();
+  });
+
+  after(() => app.close());
+
+  it('keeps users out of the admin API', async () => {
+    const user = await createUser();
+    const cookie = await sessionCookie(user.id);
+
+    assert.equal((await request(app, 'GET', '/api/admin/tasks', { cookie })).status, 403);
+    assert.equal((await request(app, 'GET', '/api/admin/users', { cookie })).status, 403);
+    assert.equal((await request(app, 'GET', '/api/admin/tasks')).status, 401);
+  });
+
+  it("lets admins read any user's task, but users only their own", async () => {
+    const owner = await createUser();
+    const other = await createUser();
+    const admin = await createUser({ role: 'admin' });
+    const task = await createTask(owner.id);
+
+    const own = await request(app, 'GET', `/api/tasks/${task.id}`, { cookie: await sessionCookie(owner.id) });
+    assert.equal(own.status, 200);
+
+    const foreign = await request(app, 'GET', `/api/tasks/${task.id}`, { cookie: await sessionCookie(other.id) });
+    assert.equal(foreign.status, 404);
+
+    const asAdmin = await request(app, 'GET', `/api/admin/tasks/${task.id}`, { cookie: await sessionCookie(admin.id) });
+    assert.equal(asAdmin.status, 200);
+    assert.equal(asAdmin.body.data.id, task.id);
+  });
+
+  it('applies a role change to existing sessions', async () => {
+    const user = await createUser({ role: 'admin' });
+    const cookie = await sessionCookie(user.id);
+    assert.equal((await request(app, 'GET', '/api/admin/tasks', { cookie })).status, 200);
+
+    await db.update(users).set({ role: 'user' }).where(eq(users.id, user.id));
+
+    assert.equal((await request(app, 'GET', '/api/admin/tasks', { cookie })).status, 403);
+  });
+});
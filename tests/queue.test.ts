@@ -0,0 +1,152 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { db } from '@/db';
+import { queueJobs } from '@/db/schemas';
+import { MemoryQueueDriver, PostgresQueueDriver, QueueWorker, type QueueDriver } from '@/core/queue';
+
+const otpPayload = { email: 'ada@example.com', type: 'email_verification' } as const;
+const hidden = { maxJobs: 10, visibilityTimeoutSeconds: 60, waitSeconds: 0 };
+const expiresAtOnce = { ...hidden, visibilityTimeoutSeconds: 0 };
+
+const drivers: Array<[string, () => Promise<QueueDriver>]> = [
+  ['memory', async () => new MemoryQueueDriver()],
+  [
+    'postgres',
+    async () => {
+      await db.delete(queueJobs);
+      return new PostgresQueueDriver();
+    },
+  ],
+];
+
+for (const [name, createDriver] of drivers) {
+  describe(`${name} queue driver`, () => {
+    it('delivers a sent job once until it is completed', async () => {
+      const driver = await createDriver();
+      const id = await driver.send('OTP_QUEUE', otpPayload);
+
+      const [job] = await driver.receive('OTP_QUEUE', hidden);
+      assert.equal(job.id, id);
+      assert.deepEqual(job.body, otpPayload);
+      assert.equal(job.attempts, 1);
+      assert.deepEqual(await driver.receive('OTP_QUEUE', hidden), []);
+
+      await driver.complete(job);
+      assert.deepEqual(await driver.receive('OTP_QUEUE', expiresAtOnce), []);
+    });
+
+    it('keeps queues apart', async () => {
+      const driver = await createDriver();
+      await driver.send('OTP_QUEUE', otpPayload);
+
+      assert.deepEqual(await driver.receive('AI_REPORT_QUEUE', hidden), []);
+    });
+
+    it('holds back delayed jobs', async () => {
+      const driver = await createDriver();
+      await driver.send('OTP_QUEUE', otpPayload, { delaySeconds: 60 });
+
+      assert.deepEqual(await driver.receive('OTP_QUEUE', hidden), []);
+    });
+
+    it('redelivers a job whose visibility timeout passed, and ignores the stale delivery', async () => {
+      const driver = await createDriver();
+      await driver.send('OTP_QUEUE', otpPayload);
+
+      const [first] = await driver.receive('OTP_QUEUE', expiresAtOnce);
+      const [second] = await driver.receive('OTP_QUEUE', hidden);
+      assert.equal(second.id, first.id);
+      assert.equal(second.attempts, 2);
+
+      // The first worker finishing late must not remove the job from under the second
+      await driver.complete(first);
+      await driver.retry(second, 0, 'temporary failure');
+      const [third] = await driver.receive('OTP_QUEUE', hidden);
+      assert.equal(third.attempts, 3);
+    });
+
+    it('makes a retried job available again after its delay', async () => {
+      const driver = await createDriver();
+      await driver.send('OTP_QUEUE', otpPayload);
+      const [job] = await driver.receive('OTP_QUEUE', hidden);
+
+      await driver.retry(job, 60, 'temporary failure');
+
+      assert.deepEqual(await driver.receive('OTP_QUEUE', hidden), []);
+    });
+
+    it('never delivers a failed job again', async () => {
+      const driver = await createDriver();
+      await driver.send('OTP_QUEUE', otpPayload);
+      const [job] = await driver.receive('OTP_QUEUE', expiresAtOnce);
+
+      await driver.fail(job, 'permanent failure');
+
+      assert.deepEqual(await driver.receive('OTP_QUEUE', expiresAtOnce), []);
+    });
+  });
+}
+
+describe('queue worker', () => {
+  it('completes jobs its handler processed', async () => {
+    const driver = new MemoryQueueDriver();
+    const handled: unknown[] = [];
+    const worker = new QueueWorker({ driver, handlers: { OTP_QUEUE: async payload => void handled.push(payload) } });
+    await driver.send('OTP_QUEUE', otpPayload);
+
+    assert.equal(await worker.runOnce('OTP_QUEUE'), 1);
+
+    assert.deepEqual(handled, [otpPayload]);
+    assert.deepEqual(await driver.receive('OTP_QUEUE', expiresAtOnce), []);
+  });
+
+  it('retries a failing job after a backoff', async () => {
+    const driver = new MemoryQueueDriver();
+    const worker = new QueueWorker({
+      driver,
+      maxAttempts: 2,
+      handlers: {
+        OTP_QUEUE: async () => {
+          throw new Error('mail server down');
+        },
+      },
+    });
+    await driver.send('OTP_QUEUE', otpPayload);
+
+    await worker.runOnce('OTP_QUEUE');
+    assert.deepEqual(driver.failedJobs('OTP_QUEUE'), []);
+    assert.deepEqual(await driver.receive('OTP_QUEUE', expiresAtOnce), []);
+  });
+
+  it('fails a job once it used up its attempts', async () => {
+    const driver = new MemoryQueueDriver();
+    const worker = new QueueWorker({
+      driver,
+      maxAttempts: 1,
+      handlers: {
+        OTP_QUEUE: async () => {
+          throw new Error('mail server down');
+        },
+      },
+    });
+    await driver.send('OTP_QUEUE', otpPayload);
+
+    await worker.runOnce('OTP_QUEUE');
+
+    const [failed] = driver.failedJobs('OTP_QUEUE');
+    assert.equal(failed.lastError, 'mail server down');
+    assert.equal(failed.attempts, 1);
+  });
+
+  it('fails a job with an invalid payload without running the handler', async () => {
+    const driver = new MemoryQueueDriver();
+    let calls = 0;
+    const worker = new QueueWorker({ driver, handlers: { OTP_QUEUE: async () => void calls++ } });
+    await driver.send('OTP_QUEUE', { email: 'not-an-email', type: 'email_verification' });
+
+    await worker.runOnce('OTP_QUEUE');
+
+    assert.equal(calls, 0);
+    assert.match(driver.failedJobs('OTP_QUEUE')[0].lastError ?? '', /Invalid payload/);
+  });
+});
@@ -0,0 +1,83 @@
+import assert from 'node:assert/strict';
+import { randomUUID } from 'node:crypto';
+import { setTimeout as sleep } from 'node:timers/promises';
+import { describe, it } from 'node:test';
+import { eq } from 'drizzle-orm';
+import { db } from '@/db';
+import { rateLimitBuckets } from '@/db/schemas';
+import { MemoryRateLimitStore, PostgresRateLimitStore, type RateLimitStore } from '@/core/rate-limit';
+
+const stores: Array<[string, () => RateLimitStore]> = [
+  ['memory', () => new MemoryRateLimitStore()],
+  ['postgres', () => new PostgresRateLimitStore()],
+];
+
+for (const [name, createStore] of stores) {
+  describe(`${name} rate limit store`, () => {
+    it('counts requests within a window', async () => {
+      const store = createStore();
+      const key = randomUUID();
+
+      const first = await store.increment(key, 60_000);
+      const second = await store.increment(key, 60_000);
+
+      assert.equal(first.count, 1);
+      assert.equal(second.count, 2);
+      assert.equal(second.resetAt.getTime(), first.resetAt.getTime());
+      assert.ok(first.resetAt.getTime() > Date.now() + 55_000);
+    });
+
+    it('keeps keys apart', async () => {
+      const store = createStore();
+
+      await store.increment(randomUUID(), 60_000);
+      const other = await store.increment(randomUUID(), 60_000);
+
+      assert.equal(other.count, 1);
+    });
+
+    it('opens a new window once the previous one ended', async () => {
+      const store = createStore();
+      const key = randomUUID();
+
+      await store.increment(key, 50);
+      await store.increment(key, 50);
+      await sleep(100);
+
+      assert.equal((await store.increment(key, 50)).count, 1);
+    });
+
+    it('forgets a reset key', async () => {
+      const store = createStore();
+      const key = randomUUID();
+      await store.increment(key, 60_000);
+
+      await store.reset(key);
+
+      assert.equal((await store.increment(key, 60_000)).count, 1);
+    });
+  });
+}
+
+describe('postgres rate limit store pruning', () => {
+  const bucketExists = async (key: string) =>
+    (await db.select().from(rateLimitBuckets).where(eq(rateLimitBuckets.key, key))).length > 0;
+
+  it('deletes the rows of ended windows', async () => {
+    const ended = randomUUID();
+    const active = randomUUID();
+    await db.insert(rateLimitBuckets).values([
+      { key: ended, count: 3, resetAt: new Date(Date.now() - 1000) },
+      { key: active, count: 3, resetAt: new Date(Date.now() + 60_000) },
+    ]);
+
+    // A fresh store prunes on its first request, without holding the request up
+    await new PostgresRateLimitStore().increment(randomUUID(), 60_000);
+    for (let i = 0; i < 50 && (await bucketExists(ended)); i++) {
+      await sleep(20);
+    }
+
+    assert.equal(await bucketExists(ended), false);
+    assert.equal(await bucketExists(active), true);
+  });
+});
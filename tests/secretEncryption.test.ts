@@ -0,0 +1,27 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { decryptSecret, encryptSecret } from '@/utils/secretEncryption';
+
+describe('secret encryption', () => {
+  it('round-trips a secret without storing it in the clear', () => {
+    const stored = encryptSecret('app-password');
+
+    assert.match(stored, /^enc:v1:[\w-]+\.[\w-]+\.[\w-]+$/);
+    assert.ok(!stored.includes('app-password'));
+    assert.notEqual(encryptSecret('app-password'), stored);
+    assert.equal(decryptSecret(stored), 'app-password');
+  });
+
+  it('refuses values that are not encrypted', () => {
+    assert.throws(() => decryptSecret('app-password'), /not encrypted/);
+    assert.throws(() => decryptSecret(''), /not encrypted/);
+  });
+
+  it('refuses values that were tampered with', () => {
+    const [iv, authTag, ciphertext] = encryptSecret('app-password').slice('enc:v1:'.length).split('.');
+    const flipped = Buffer.from(ciphertext, 'base64url');
+    flipped[0] ^= 1;
+
+    assert.throws(() => decryptSecret(`enc:v1:${iv}.${authTag}.${flipped.toString('base64url')}`));
+  });
+});
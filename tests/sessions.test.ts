@@ -0,0 +1,122 @@
+import assert from 'node:assert/strict';
+import { randomUUID } from 'node:crypto';
+import { describe, it } from 'node:test';
+import { eq } from 'drizzle-orm';
+import { db } from '@/db';
+import { sessions } from '@/db/schemas';
+import {
+  REFRESH_TOKEN_COOKIE,
+  generateJWTandSetCookie,
+  revokeOtherUserSessions,
+  rotateRefreshToken,
+} from '@/utils/jwt_session';
+import { createUser, recordResponse } from './helpers/fixtures';
+
+const findSession = async (id: string) => {
+  const [session] = await db.select().from(sessions).where(eq(sessions.id, id));
+  return session;
+};
+
+const signIn = async () => {
+  const user = await createUser();
+  const issued = await generateJWTandSetCookie(recordResponse().response, user.id, { ipAddress: '203.0.113.1' });
+  return { user, issued };
+};
+
+describe('refresh token rotation', () => {
+  it('stores only a hash of the refresh token secret', async () => {
+    const { issued } = await signIn();
+    const session = await findSession(issued.sessionId);
+
+    assert.ok(!session.refreshTokenHash.includes(issued.refreshToken.split('.')[1]));
+    assert.equal(session.refreshTokenHash.length, 64);
+  });
+
+  it('issues a new refresh token for the same session and sets it as a cookie', async () => {
+    const { issued } = await signIn();
+    const recorded = recordResponse();
+
+    const rotated = await rotateRefreshToken(recorded.response, issued.refreshToken);
+
+    assert.equal(rotated.sessionId, issued.sessionId);
+    assert.notEqual(rotated.refreshToken, issued.refreshToken);
+    assert.equal(recorded.cookies.get(REFRESH_TOKEN_COOKIE), rotated.refreshToken);
+    assert.ok((await findSession(issued.sessionId)).lastUsedAt);
+  });
+
+  it('keeps rotating with each new refresh token', async () => {
+    const { issued } = await signIn();
+
+    const first = await rotateRefreshToken(recordResponse().response, issued.refreshToken);
+    const second = await rotateRefreshToken(recordResponse().response, first.refreshToken);
+
+    assert.equal(second.sessionId, issued.sessionId);
+  });
+
+  it('revokes the whole session when a rotated token is replayed', async () => {
+    const { issued } = await signIn();
+    const rotated = await rotateRefreshToken(recordResponse().response, issued.refreshToken);
+
+    await assert.rejects(rotateRefreshToken(recordResponse().response, issued.refreshToken), {
+      statusCode: 401,
+      message: 'Refresh token reuse detected',
+    });
+
+    const session = await findSession(issued.sessionId);
+    assert.ok(session.revokedAt);
+    assert.equal(session.revokedReason, 'reuse_detected');
+
+    // The token issued to whoever rotated first dies with the session
+    await assert.rejects(rotateRefreshToken(recordResponse().response, rotated.refreshToken), {
+      statusCode: 401,
+      message: 'Session has been revoked',
+    });
+  });
+
+  it('lets only one of two concurrent rotations of the same token through', async () => {
+    const { issued } = await signIn();
+
+    const results = await Promise.allSettled([
+      rotateRefreshToken(recordResponse().response, issued.refreshToken),
+      rotateRefreshToken(recordResponse().response, issued.refreshToken),
+    ]);
+
+    assert.equal(results.filter(result => result.status === 'fulfilled').length, 1);
+    assert.ok((await findSession(issued.sessionId)).revokedAt);
+  });
+
+  it('rejects and revokes an expired session', async () => {
+    const { issued } = await signIn();
+    await db
+      .update(sessions)
+      .set({ expiresAt: new Date(Date.now() - 1000) })
+      .where(eq(sessions.id, issued.sessionId));
+
+    await assert.rejects(rotateRefreshToken(recordResponse().response, issued.refreshToken), {
+      statusCode: 401,
+      message: 'Session expired',
+    });
+    assert.equal((await findSession(issued.sessionId)).revokedReason, 'expired');
+  });
+
+  it('rejects malformed and unknown tokens', async () => {
+    for (const token of ['', 'not-a-token', `${randomUUID()}.secret`]) {
+      await assert.rejects(rotateRefreshToken(recordResponse().response, token), {
+        statusCode: 401,
+        message: 'Invalid refresh token',
+      });
+    }
+  });
+});
+
+describe('revokeOtherUserSessions', () => {
+  it('revokes every session of the user but the current one', async () => {
+    const { user, issued } = await signIn();
+    const other = await generateJWTandSetCookie(recordResponse().response, user.id);
+
+    assert.equal(await revokeOtherUserSessions(user.id, issued.sessionId, 'password_changed'), 1);
+
+    assert.equal((await findSession(issued.sessionId)).revokedAt, null);
+    assert.equal((await findSession(other.sessionId)).revokedReason, 'password_changed');
+  });
+});
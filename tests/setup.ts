@@ -0,0 +1,75 @@
+/**
+ * Test Setup
+ * - Loaded before every test file (`--import`), ahead of `@/env`
+ * - Fills in the environment the API refuses to start without
+ * - Starts an in-process Postgres (PGlite) behind a socket server, creates the
+ *   schema from the drizzle table definitions and points DATABASE_URL at it,
+ *   so every test file gets its own empty database
+ * - The freshly created database is cached under node_modules/.cache per
+ *   schema, as creating one takes several seconds
+ * - The mock and fake servers are enabled so their routes are mounted
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { createRequire } from 'module';
+import { tmpdir } from 'os';
+import path from 'path';
+import { PGlite } from '@electric-sql/pglite';
+import { PGLiteSocketServer } from '@electric-sql/pglite-socket';
+import * as schema from '@/db/schemas';
+
+// The ESM build of drizzle-kit/api cannot load its bundled CommonJS dependencies
+const { generateDrizzleJson, generateMigration } = createRequire(import.meta.url)(
+  'drizzle-kit/api',
+) as typeof import('drizzle-kit/api');
+
+const createDatabase = async () => {
+  const statements = await generateMigration(generateDrizzleJson({}), generateDrizzleJson(schema));
+  const cacheDir = path.resolve('node_modules/.cache/tasks-api-test-db');
+  const cacheFile = path.join(cacheDir, `${createHash('sha256').update(statements.join('\n')).digest('hex')}.tar.gz`);
+
+  if (existsSync(cacheFile)) {
+    return PGlite.create({ loadDataDir: new Blob([readFileSync(cacheFile)]) });
+  }
+
+  const created = await PGlite.create();
+  for (const statement of statements) {
+    await created.exec(statement);
+  }
+
+  // Written under a temporary name first, test files start side by side
+  const dump = await created.dumpDataDir('gzip');
+  const partialFile = `${cacheFile}.${process.pid}`;
+  mkdirSync(cacheDir, { recursive: true });
+  writeFileSync(partialFile, Buffer.from(await dump.arrayBuffer()));
+  renameSync(partialFile, cacheFile);
+
+  return created;
+};
+
+const database = await createDatabase();
+
+const server = new PGLiteSocketServer({ db: database, host: '127.0.0.1', port: 0, maxConnections: 20 });
+await server.start();
+
+const defaults: Record<string, string> = {
+  NODE_ENV: 'test',
+  DATABASE_URL: `postgresql://postgres:postgres@${server.getServerConn()}/postgres`,
+  DB_SSL: 'false',
+  JWT_SECRET_KEY: 'test-jwt-secret-key',
+  DB_HOST: '127.0.0.1',
+  DB_USER: 'postgres',
+  DB_PASSWORD: 'postgres',
+  DB_NAME: 'postgres',
+  GOOGLE_CLIENT_ID: 'test-client.apps.googleusercontent.com',
+  GOOGLE_CLIENT_SECRET: 'test-client-secret',
+  DEV_SERVERS_ENABLED: 'true',
+  CREDENTIALS_ENCRYPTION_KEY: randomBytes(32).toString('base64'),
+  LOG_DIR: mkdtempSync(path.join(tmpdir(), 'tasks-api-test-logs-')),
+  STORAGE_LOCAL_DIR: mkdtempSync(path.join(tmpdir(), 'tasks-api-test-storage-')),
+};
+
+for (const [name, value] of Object.entries(defaults)) {
+  process.env[name] ??= value;
+}